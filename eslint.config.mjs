@@ -2,6 +2,8 @@ import antfu from "@antfu/eslint-config";
 
 export default antfu({
   type: "app",
+  // Generated by npm run client:generate
+  ignores: ["src/client/api-types.ts"],
   typescript: true,
   formatters: true,
   stylistic: {
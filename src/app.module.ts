@@ -1,23 +1,110 @@
 import { Module } from "@nestjs/common";
 import { ConfigModule } from "@nestjs/config";
+import { APP_FILTER } from "@nestjs/core";
 
 import { AppController } from "./app.controller";
 import { AppService } from "./app.service";
+import authConfig from "./config/auth.config";
+import digestsConfig from "./config/digests.config";
 import emailConfig from "./config/email.config";
+import eventsConfig from "./config/events.config";
+import i18nConfig from "./config/i18n.config";
+import idempotencyConfig from "./config/idempotency.config";
+import invoicesConfig from "./config/invoices.config";
+import queueConfig from "./config/queue.config";
+import rateLimitConfig from "./config/rate-limit.config";
+import remindersConfig from "./config/reminders.config";
+import storageConfig from "./config/storage.config";
+import unsubscribeConfig from "./config/unsubscribe.config";
+import { BillingController } from "./controllers/billing.controller";
+import { BounceWebhookController } from "./controllers/bounce-webhook.controller";
+import { DigestController } from "./controllers/digest.controller";
+import { InvoiceController } from "./controllers/invoice.controller";
 import { NotificationController } from "./controllers/notification.controller";
+import { PreferencesController } from "./controllers/preferences.controller";
+import { SandboxController } from "./controllers/sandbox.controller";
+import { ScheduledNotificationController } from "./controllers/scheduled-notification.controller";
+import { SecurityController } from "./controllers/security.controller";
+import { SuppressionController } from "./controllers/suppression.controller";
+import { TemplatePreviewController } from "./controllers/template-preview.controller";
+import { UnsubscribeController } from "./controllers/unsubscribe.controller";
+import { ApiExceptionFilter } from "./filters/api-exception.filter";
 import { ApiKeyGuard } from "./guards/api-key.guard";
+import { WebhookTokenGuard } from "./guards/webhook-token.guard";
+import { IdempotencyInterceptor } from "./interceptors/idempotency.interceptor";
+import { RateLimitInterceptor } from "./interceptors/rate-limit.interceptor";
+import { ApiKeyService } from "./services/api-key.service";
+import { DigestService } from "./services/digest.service";
+import { EmailQueueService } from "./services/email-queue.service";
+import { EmailWorkerService } from "./services/email-worker.service";
 import { EmailService } from "./services/email.service";
+import { EventConsumerService } from "./services/event-consumer.service";
+import { IdempotencyService } from "./services/idempotency.service";
+import { InvoiceService } from "./services/invoice.service";
+import { NotificationHistoryService } from "./services/notification-history.service";
+import { NotificationPreferencesService } from "./services/notification-preferences.service";
+import { RateLimitService } from "./services/rate-limit.service";
+import { ReminderSchedulerService } from "./services/reminder-scheduler.service";
+import { RequestSignatureService } from "./services/request-signature.service";
+import { SandboxService } from "./services/sandbox.service";
+import { SuppressionListService } from "./services/suppression-list.service";
+import { UnsubscribeService } from "./services/unsubscribe.service";
+import { StorageService } from "./storage/storage.service";
+import { TemplateRegistryService } from "./utils/template-registry.service";
 import { TemplateService } from "./utils/template.service";
+import { TranslationService } from "./utils/translation.service";
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [emailConfig],
+      load: [emailConfig, queueConfig, storageConfig, idempotencyConfig, i18nConfig, authConfig, rateLimitConfig, unsubscribeConfig, eventsConfig, remindersConfig, invoicesConfig, digestsConfig],
       envFilePath: [".env.local", ".env"],
     }),
   ],
-  controllers: [AppController, NotificationController],
-  providers: [AppService, EmailService, TemplateService, ApiKeyGuard],
+  // NotificationController comes last so that routes such as /notifications/sandbox are not taken for a notification id
+  controllers: [
+    AppController,
+    SandboxController,
+    TemplatePreviewController,
+    PreferencesController,
+    SuppressionController,
+    ScheduledNotificationController,
+    BillingController,
+    InvoiceController,
+    SecurityController,
+    DigestController,
+    UnsubscribeController,
+    BounceWebhookController,
+    NotificationController,
+  ],
+  providers: [
+    AppService,
+    EmailService,
+    TemplateService,
+    TemplateRegistryService,
+    TranslationService,
+    ApiKeyGuard,
+    ApiKeyService,
+    StorageService,
+    EmailQueueService,
+    EmailWorkerService,
+    NotificationHistoryService,
+    NotificationPreferencesService,
+    IdempotencyService,
+    IdempotencyInterceptor,
+    SandboxService,
+    RequestSignatureService,
+    RateLimitService,
+    RateLimitInterceptor,
+    UnsubscribeService,
+    SuppressionListService,
+    WebhookTokenGuard,
+    EventConsumerService,
+    ReminderSchedulerService,
+    InvoiceService,
+    DigestService,
+    { provide: APP_FILTER, useClass: ApiExceptionFilter },
+  ],
 })
 export class AppModule {}
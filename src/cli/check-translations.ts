@@ -0,0 +1,37 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+import i18nConfig from "../config/i18n.config";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { TranslationService } from "../utils/translation.service";
+
+/**
+ * Reports the templates, subjects and messages that are not translated for
+ * every locale in SUPPORTED_LOCALES. Exits with code 1 when something is missing.
+ *
+ * Usage: npm run i18n:check
+ */
+async function checkTranslations(): Promise<void> {
+  const logger = new Logger("TranslationCheck");
+  const translationService = new TranslationService(
+    new ConfigService({ i18n: i18nConfig() }),
+    new TemplateRegistryService(),
+  );
+  const missing = await translationService.findMissingTranslations();
+
+  if (missing.length === 0) {
+    logger.log("✅ All templates and messages are translated");
+    return;
+  }
+
+  logger.warn(`❌ ${missing.length} missing translation(s), default locale (${translationService.defaultLocale}) will be used instead:`);
+  for (const { locale, template, item } of missing) {
+    logger.warn(`[${locale}] ${template ? `${template}: ` : ""}${item}`);
+  }
+  process.exitCode = 1;
+}
+
+checkTranslations().catch((error) => {
+  console.error(`Translation check failed: ${error.message}`);
+  process.exitCode = 1;
+});
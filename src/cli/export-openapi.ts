@@ -0,0 +1,49 @@
+import { ConsoleLogger, Logger } from "@nestjs/common";
+import { NestFactory } from "@nestjs/core";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { AppModule } from "../app.module";
+import { createOpenApiDocument } from "../openapi";
+
+/**
+ * Writes the OpenAPI document to a file, without starting the service: the
+ * application is created in preview mode, so no provider is instantiated.
+ * With --check, fails instead when the file is not up to date.
+ *
+ * Usage: npm run openapi:export [-- <file>] [-- --check]
+ */
+async function exportOpenApi(): Promise<void> {
+  const logger = new Logger("OpenApiExport");
+  const args = process.argv.slice(2);
+  const check = args.includes("--check");
+  const file = path.resolve(args.find(arg => !arg.startsWith("--")) ?? "openapi.json");
+
+  const app = await NestFactory.create(AppModule, { preview: true, logger: false });
+  app.setGlobalPrefix("api/v1");
+  const document = `${JSON.stringify(createOpenApiDocument(app), null, 2)}\n`;
+  await app.close();
+  // The preview mode warnings were silenced above
+  Logger.overrideLogger(new ConsoleLogger());
+
+  if (check) {
+    const current = fs.existsSync(file) ? await fs.promises.readFile(file, "utf-8") : undefined;
+    if (current !== document) {
+      logger.error(`❌ ${file} is out of date, run npm run client:generate`);
+      process.exitCode = 1;
+      return;
+    }
+
+    logger.log(`✅ ${file} is up to date`);
+    return;
+  }
+
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, document);
+  logger.log(`✅ OpenAPI document written to ${file}`);
+}
+
+exportOpenApi().catch((error) => {
+  console.error(`OpenAPI export failed: ${error.message}`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,22 @@
+import { Logger } from "@nestjs/common";
+import { createHash, randomBytes } from "node:crypto";
+
+/**
+ * Generates a new API key, or hashes the given one, and prints the entry to
+ * add to API_KEYS. Only the hash needs to be stored in the configuration; the
+ * key itself is handed to the calling service.
+ *
+ * Usage: npm run api-key:generate -- [existing-key]
+ */
+function generateApiKey(): void {
+  const logger = new Logger("ApiKeyGenerator");
+  const key = process.argv[2] || randomBytes(32).toString("base64url");
+  const hash = `sha256:${createHash("sha256").update(key).digest("hex")}`;
+
+  if (!process.argv[2]) {
+    logger.log(`Key for the calling service: ${key}`);
+  }
+  logger.log(`Entry for API_KEYS: ${JSON.stringify({ hash, notBefore: new Date().toISOString() })}`);
+}
+
+generateApiKey();
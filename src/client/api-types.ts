@@ -0,0 +1,4915 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+    "/api/v1": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get service status */
+        get: operations["AppController_getHello"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/health": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Health check endpoint */
+        get: operations["AppController_healthCheck"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/sandbox": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Open the sandbox mailbox in a browser */
+        get: operations["SandboxController_viewer"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/sandbox/messages": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List the captured emails
+         * @description Most recent first.
+         */
+        get: operations["SandboxController_listMessages"];
+        put?: never;
+        post?: never;
+        /** Delete every captured email */
+        delete: operations["SandboxController_clearMessages"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/sandbox/messages/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get a captured email with its headers and bodies */
+        get: operations["SandboxController_getMessage"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/templates/{name}/preview": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Render a template with its sample data */
+        get: operations["TemplatePreviewController_previewSample"];
+        put?: never;
+        /** Render a template with the given data without sending it */
+        post: operations["TemplatePreviewController_preview"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/templates/{name}/preview/view": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Open the template preview in a browser */
+        get: operations["TemplatePreviewController_viewer"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/preferences/{userId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Get the categories of emails a user receives
+         * @description Users who never changed anything receive every category except product news.
+         */
+        get: operations["PreferencesController_getPreferences"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        /** Turn categories of emails on or off for a user */
+        patch: operations["PreferencesController_updatePreferences"];
+        trace?: never;
+    };
+    "/api/v1/notifications/suppressions": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List the suppressed addresses
+         * @description Most recent first.
+         */
+        get: operations["SuppressionController_listSuppressions"];
+        put?: never;
+        /**
+         * Stop sending emails to an address
+         * @description An address already on the list keeps its entry.
+         */
+        post: operations["SuppressionController_addSuppression"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/suppressions/{address}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Remove an address from the suppression list */
+        delete: operations["SuppressionController_removeSuppression"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/scheduled": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List the upcoming notifications of a user
+         * @description Soonest first.
+         */
+        get: operations["ScheduledNotificationController_listScheduledNotifications"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/scheduled/subscriptions/{userId}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        /**
+         * Plan the reminders of a subscription again after it changed
+         * @description Requires the `notifications:billing` scope.
+         */
+        put: operations["ScheduledNotificationController_updateSubscriptionReminders"];
+        post?: never;
+        /**
+         * Cancel the pending reminders of a user's subscription
+         * @description Requires the `notifications:billing` scope.
+         */
+        delete: operations["ScheduledNotificationController_cancelSubscriptionReminders"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/scheduled/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /**
+         * Cancel a pending notification
+         * @description Requires the scope of the service that planned it: `notifications:billing` for subscription reminders, `notifications:learning` for weekly digests. Notifications outside the caller's scopes answer 404.
+         */
+        delete: operations["ScheduledNotificationController_cancelNotification"];
+        options?: never;
+        head?: never;
+        /**
+         * Move a pending notification to another date
+         * @description Requires the scope of the service that planned it: `notifications:billing` for subscription reminders, `notifications:learning` for weekly digests. Notifications outside the caller's scopes answer 404.
+         */
+        patch: operations["ScheduledNotificationController_rescheduleNotification"];
+        trace?: never;
+    };
+    "/api/v1/notifications/billing/payment-failed": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the payment failed (dunning) email
+         * @description Requires the `notifications:billing` scope. The same email can be due several times for a user, so no idempotency key is derived: send an `Idempotency-Key`, e.g. the payment or invoice id.
+         */
+        post: operations["BillingController_sendPaymentFailedEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/billing/card-expiring": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the card expiring email
+         * @description Requires the `notifications:billing` scope. The same email can be due several times for a user, so no idempotency key is derived: send an `Idempotency-Key`, e.g. the payment or invoice id.
+         */
+        post: operations["BillingController_sendCardExpiringEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/billing/plan-changed": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the plan changed email
+         * @description Requires the `notifications:billing` scope. The same email can be due several times for a user, so no idempotency key is derived: send an `Idempotency-Key`, e.g. the payment or invoice id. Once sent, the reminders of the subscription are planned for the new plan.
+         */
+        post: operations["BillingController_sendPlanChangedEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/billing/subscription-cancelled": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the cancellation confirmation email
+         * @description Requires the `notifications:billing` scope. The same email can be due several times for a user, so no idempotency key is derived: send an `Idempotency-Key`, e.g. the payment or invoice id. Once sent, the pending reminders of the subscription are cancelled.
+         */
+        post: operations["BillingController_sendSubscriptionCancelledEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/billing/subscription-expired": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the subscription expired email
+         * @description Requires the `notifications:billing` scope. The same email can be due several times for a user, so no idempotency key is derived: send an `Idempotency-Key`, e.g. the payment or invoice id. Once sent, the pending reminders of the subscription are cancelled.
+         */
+        post: operations["BillingController_sendSubscriptionExpiredEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/billing/refund-issued": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the refund issued email
+         * @description Requires the `notifications:billing` scope. The same email can be due several times for a user, so no idempotency key is derived: send an `Idempotency-Key`, e.g. the payment or invoice id.
+         */
+        post: operations["BillingController_sendRefundIssuedEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/billing/receipt": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the payment receipt email
+         * @description Requires the `notifications:billing` scope. The same email can be due several times for a user, so no idempotency key is derived: send an `Idempotency-Key`, e.g. the payment or invoice id.
+         */
+        post: operations["BillingController_sendReceiptEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/invoices": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * List the invoices issued to a user
+         * @description Most recent first, without their PDF.
+         */
+        get: operations["InvoiceController_listInvoices"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/invoices/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Download the PDF of an invoice */
+        get: operations["InvoiceController_downloadInvoice"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/security/email-verification": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the email address verification email
+         * @description Requires the `notifications:security` scope. Times are shown in `timeZone`, UTC by default. Security emails are transactional: they are sent whatever the user's preferences.
+         */
+        post: operations["SecurityController_sendEmailVerificationEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/security/password-reset": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the password reset email
+         * @description Requires the `notifications:security` scope. Times are shown in `timeZone`, UTC by default. Security emails are transactional: they are sent whatever the user's preferences.
+         */
+        post: operations["SecurityController_sendPasswordResetEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/security/password-changed": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the password changed email
+         * @description Requires the `notifications:security` scope. Times are shown in `timeZone`, UTC by default. Security emails are transactional: they are sent whatever the user's preferences.
+         */
+        post: operations["SecurityController_sendPasswordChangedEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/security/email-changed": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the email changed emails, to the previous and the new address
+         * @description Requires the `notifications:security` scope. Times are shown in `timeZone`, UTC by default. Security emails are transactional: they are sent whatever the user's preferences. The revert link is only sent to the previous address. An address on the suppression list or that could not be queued is reported in its part of the response, while the other one still gets its email; the request only fails when neither address got it, e.g. with `ADDRESS_SUPPRESSED` when both are suppressed.
+         */
+        post: operations["SecurityController_sendEmailChangedEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/security/new-login": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the new device sign-in alert
+         * @description Requires the `notifications:security` scope. Times are shown in `timeZone`, UTC by default. Security emails are transactional: they are sent whatever the user's preferences.
+         */
+        post: operations["SecurityController_sendNewLoginEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/digests/weekly": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Schedule the weekly digest of a user
+         * @description Requires the `notifications:learning` scope. The digest is sent at `DIGEST_SEND_HOUR` in the user's time zone, and replaces the digest still pending for the user. Users can opt out with the `learning-reminders` category.
+         */
+        post: operations["DigestController_scheduleWeeklyDigest"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/digests/weekly/batch": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Schedule the weekly digests of many users
+         * @description Requires the `notifications:learning` scope. The digest is sent at `DIGEST_SEND_HOUR` in the user's time zone, and replaces the digest still pending for the user. Users can opt out with the `learning-reminders` category. Up to 100 digests per request; the whole batch is refused when one is invalid.
+         */
+        post: operations["DigestController_scheduleWeeklyDigestBatch"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/unsubscribe/{token}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Ask to confirm unsubscribing
+         * @description Target of the link in the email footer.
+         */
+        get: operations["UnsubscribeController_confirm"];
+        put?: never;
+        /**
+         * Unsubscribe from the link's category
+         * @description One-click unsubscribe (RFC 8058), also posted by the confirmation page.
+         */
+        post: operations["UnsubscribeController_unsubscribe"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/webhooks/bounces/sendgrid": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Receive SendGrid event webhooks
+         * @description `bounce` events other than `blocked` ones and `spamreport` events are kept; others are ignored.
+         */
+        post: operations["BounceWebhookController_receiveSendgridEvents"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/webhooks/bounces/mailgun": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Receive Mailgun webhooks
+         * @description Permanent `failed` events and `complained` events are kept; others are ignored.
+         */
+        post: operations["BounceWebhookController_receiveMailgunEvent"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/webhooks/bounces/ses": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Receive Amazon SES notifications through SNS
+         * @description Permanent bounces and complaints are kept. Subscription confirmations are logged with the URL to visit.
+         */
+        post: operations["BounceWebhookController_receiveSesNotification"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/webhooks/bounces/dsn": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Receive a raw bounce message
+         * @description Delivery status notifications (RFC 3464) and abuse reports (RFC 5965).
+         */
+        post: operations["BounceWebhookController_receiveDsn"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/send": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue an email from any template
+         * @description Requires the `notifications:send` scope, and the template's own `scope` when it has one, such as the security emails. `data` is validated against the template's schema.
+         */
+        post: operations["NotificationController_sendTemplatedEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/welcome-email": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the welcome email
+         * @description Requires the `notifications:welcome` scope.
+         */
+        post: operations["NotificationController_sendWelcomeEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/subscription-confirmation": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /**
+         * Queue the subscription confirmation email
+         * @description Requires the `notifications:billing` scope.
+         */
+        post: operations["NotificationController_sendSubscriptionConfirmationEmail"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/templates": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List the templates and the data they expect */
+        get: operations["NotificationController_listTemplates"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/templates/cache": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Show the compiled template cache */
+        get: operations["NotificationController_getTemplateCache"];
+        put?: never;
+        post?: never;
+        /** Clear the compiled template cache */
+        delete: operations["NotificationController_clearTemplateCache"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/templates/cache/{name}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post?: never;
+        /** Drop one template from the compiled template cache */
+        delete: operations["NotificationController_invalidateTemplate"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/dead-letters": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** List the emails that failed every delivery attempt */
+        get: operations["NotificationController_listDeadLetters"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/dead-letters/{id}/retry": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        /** Queue a dead-lettered email again */
+        post: operations["NotificationController_retryDeadLetter"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /**
+         * Search the notification history
+         * @description Most recent first.
+         */
+        get: operations["NotificationController_listNotifications"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/health": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Check the connection to the email provider and the API keys */
+        get: operations["NotificationController_healthCheck"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/api/v1/notifications/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** Get a notification and its delivery attempts */
+        get: operations["NotificationController_getNotification"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        ErrorResponseDto: {
+            /** @example false */
+            success: boolean;
+            /** @example 422 */
+            statusCode: number;
+            /**
+             * @example ADDRESS_SUPPRESSED
+             * @enum {string}
+             */
+            code: "VALIDATION_FAILED" | "BAD_REQUEST" | "UNAUTHORIZED" | "FORBIDDEN" | "NOT_FOUND" | "TEMPLATE_NOT_FOUND" | "IDEMPOTENCY_CONFLICT" | "ADDRESS_SUPPRESSED" | "RATE_LIMITED" | "TRANSPORT_UNAVAILABLE" | "INTERNAL_ERROR";
+            /** @example jane@example.com is on the suppression list (hard-bounce) */
+            message: string;
+            /**
+             * @description Whether sending the same request again later may succeed
+             * @example false
+             */
+            retryable: boolean;
+            /**
+             * @description Code-specific context, e.g. the validation errors or the rate limit that was exceeded
+             * @example {
+             *       "suppression": {
+             *         "reason": "hard-bounce"
+             *       }
+             *     }
+             */
+            details?: {
+                [key: string]: unknown;
+            } | string[];
+            /** @example /api/v1/notifications/welcome-email */
+            path: string;
+            /** Format: date-time */
+            timestamp: string;
+        };
+        SandboxMessageSummaryDto: {
+            id: string;
+            messageId: string;
+            from: string;
+            to: string;
+            subject: string;
+            /** Format: date-time */
+            capturedAt: string;
+        };
+        SandboxMessagePageDto: {
+            items: components["schemas"]["SandboxMessageSummaryDto"][];
+            total: number;
+            limit: number;
+            offset: number;
+        };
+        SandboxAttachmentDto: {
+            /** @example invoice-PP-2025-0042.pdf */
+            filename: string;
+            /** @example application/pdf */
+            contentType: string;
+            /** @description Size in bytes */
+            size: number;
+            /** @description Content-ID of an inline attachment */
+            cid?: string;
+            /**
+             * Format: byte
+             * @description Base64 content of an inline attachment, such as a chart the HTML shows
+             */
+            content?: string;
+        };
+        SandboxMessageDto: {
+            id: string;
+            messageId: string;
+            from: string;
+            to: string;
+            subject: string;
+            /** Format: date-time */
+            capturedAt: string;
+            headers: {
+                [key: string]: string;
+            };
+            html: string;
+            text: string;
+            /** @description Listed without their content, except inline ones */
+            attachments: components["schemas"]["SandboxAttachmentDto"][];
+        };
+        TemplatePreviewDto: {
+            /** @example welcome */
+            template: string;
+            /** Format: email */
+            to: string;
+            /** @description Data the template was rendered with */
+            data: {
+                [key: string]: unknown;
+            };
+            subject: string;
+            html: string;
+            text: string;
+        };
+        PreviewTemplateDto: {
+            /** @description Validated against the template's schema */
+            data: {
+                [key: string]: unknown;
+            };
+            /**
+             * Format: email
+             * @description Defaults to `data.email`, then to a placeholder address
+             */
+            to?: string;
+            /** @example en */
+            locale?: string;
+        };
+        CategorySettingsDto: {
+            transactional: boolean;
+            billing: boolean;
+            "learning-reminders": boolean;
+            "product-news": boolean;
+        };
+        NotificationPreferencesDto: {
+            /** @description User id */
+            id: string;
+            categories: components["schemas"]["CategorySettingsDto"];
+            /**
+             * Format: date-time
+             * @description Not set until the user changes a preference
+             */
+            updatedAt?: string;
+        };
+        CategoryPreferencesDto: {
+            /** @description Can only be `true`: transactional emails cannot be turned off */
+            transactional?: boolean;
+            billing?: boolean;
+            "learning-reminders"?: boolean;
+            "product-news"?: boolean;
+        };
+        UpdatePreferencesDto: {
+            /** @description Only the categories present are changed */
+            categories: components["schemas"]["CategoryPreferencesDto"];
+        };
+        SuppressedAddressDto: {
+            /** @description Lowercased address */
+            id: string;
+            /** Format: email */
+            address: string;
+            /** @enum {string} */
+            reason: "hard-bounce" | "complaint" | "manual";
+            /**
+             * @description Where the entry came from: a provider webhook, "dsn" or the API client that added it
+             * @example sendgrid
+             */
+            source: string;
+            /**
+             * @description Provider's diagnostic
+             * @example 550 5.1.1 User unknown
+             */
+            detail?: string;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        SuppressionListPageDto: {
+            items: components["schemas"]["SuppressedAddressDto"][];
+            total: number;
+            limit: number;
+            offset: number;
+        };
+        AddSuppressionDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            address: string;
+            /**
+             * @default manual
+             * @enum {string}
+             */
+            reason: "hard-bounce" | "complaint" | "manual";
+            /** @example Requested by support */
+            detail?: string;
+        };
+        ScheduledNotificationDto: {
+            /** Format: uuid */
+            id: string;
+            /** @example trial-ending */
+            template: string;
+            /** Format: email */
+            recipient: string;
+            /** @description Template data */
+            payload: {
+                [key: string]: unknown;
+            };
+            userId?: string;
+            /** @enum {string} */
+            status: "scheduled" | "queued" | "cancelled" | "expired" | "suppressed";
+            /**
+             * Format: date-time
+             * @description When the email is queued
+             */
+            sendAt: string;
+            /**
+             * Format: date-time
+             * @description Date the email announces, such as the end of the trial, or after which it is stale; still pending then, it is dropped
+             */
+            eventAt: string;
+            /** @description Email job queued for the notification */
+            jobId?: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        UpdateSubscriptionRemindersDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @enum {string} */
+            plan: "monthly" | "yearly";
+            /** @enum {string} */
+            status: "trial" | "active";
+            /**
+             * Format: date-time
+             * @description End of the trial, for trial subscriptions
+             */
+            trialEnd?: string;
+            /** Format: date-time */
+            nextBillingDate?: string;
+            /**
+             * @description In the currency's minor unit (cents)
+             * @example 999
+             */
+            amount?: number;
+            /** @example EUR */
+            currency?: string;
+            /** @example en */
+            locale?: string;
+        };
+        CancelledNotificationsDto: {
+            /**
+             * @description Pending notifications cancelled by this request
+             * @example 2
+             */
+            cancelled: number;
+        };
+        RescheduleNotificationDto: {
+            /**
+             * Format: date-time
+             * @description Must come before the date the notification announces
+             */
+            sendAt: string;
+        };
+        SendPaymentFailedEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for preferences, unsubscribe links and the scheduled reminders */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /** @enum {string} */
+            plan: "monthly" | "yearly";
+            /**
+             * @description In the currency's minor unit (cents)
+             * @example 999
+             */
+            amount: number;
+            /**
+             * @default EUR
+             * @example EUR
+             */
+            currency: string;
+            /**
+             * @description Failed attempts so far, 1 for the first
+             * @example 1
+             */
+            attemptCount: number;
+            /**
+             * Format: date-time
+             * @description Next automatic retry; leave out after the last attempt
+             */
+            nextAttemptDate?: string;
+        };
+        SuppressionDto: {
+            /** @enum {string} */
+            reason: "opted-out" | "hard-bounce" | "complaint" | "manual";
+            /**
+             * @description Category the user opted out of
+             * @enum {string}
+             */
+            category?: "transactional" | "billing" | "learning-reminders" | "product-news";
+        };
+        NotificationResponseDto: {
+            /** @example true */
+            success: boolean;
+            /** @example Welcome email queued for delivery */
+            message: string;
+            /** @description Id to look the notification up with GET /notifications/{id} */
+            jobId?: string;
+            /** @description Set when the email was not queued because the user does not want it */
+            suppression?: components["schemas"]["SuppressionDto"];
+            /** Format: date-time */
+            timestamp: string;
+        };
+        SendCardExpiringEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for preferences, unsubscribe links and the scheduled reminders */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /** @example Visa */
+            cardBrand: string;
+            /**
+             * @description Last 4 digits of the card
+             * @example 4242
+             */
+            last4: string;
+            /** @example 2 */
+            expiryMonth: number;
+            /** @example 2025 */
+            expiryYear: number;
+        };
+        SendPlanChangedEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for preferences, unsubscribe links and the scheduled reminders */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /** @enum {string} */
+            previousPlan: "monthly" | "yearly";
+            /** @enum {string} */
+            plan: "monthly" | "yearly";
+            /** Format: date-time */
+            effectiveDate: string;
+            /**
+             * @description Price of the new plan, in the currency's minor unit (cents)
+             * @example 9999
+             */
+            amount?: number;
+            /**
+             * @default EUR
+             * @example EUR
+             */
+            currency: string;
+            /**
+             * Format: date-time
+             * @description Also plans the renewal reminder of the new plan
+             */
+            nextBillingDate?: string;
+        };
+        SendSubscriptionCancelledEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for preferences, unsubscribe links and the scheduled reminders */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /** @enum {string} */
+            plan: "monthly" | "yearly";
+            /**
+             * Format: date-time
+             * @description End of the period already paid for
+             */
+            accessUntil: string;
+        };
+        SendSubscriptionExpiredEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for preferences, unsubscribe links and the scheduled reminders */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /** @enum {string} */
+            plan: "monthly" | "yearly";
+            /** Format: date-time */
+            expiredAt: string;
+        };
+        SendRefundIssuedEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for preferences, unsubscribe links and the scheduled reminders */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /**
+             * @description In the currency's minor unit (cents)
+             * @example 999
+             */
+            amount: number;
+            /**
+             * @default EUR
+             * @example EUR
+             */
+            currency: string;
+            /**
+             * @description Invoice the refund is for
+             * @example PP-2025-0042
+             */
+            invoiceNumber?: string;
+            /** Format: date-time */
+            refundedAt?: string;
+        };
+        SendReceiptEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for preferences, unsubscribe links and the scheduled reminders */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /** @example PP-2025-0042 */
+            invoiceNumber: string;
+            /** @enum {string} */
+            plan: "monthly" | "yearly";
+            /**
+             * @description In the currency's minor unit (cents)
+             * @example 999
+             */
+            amount: number;
+            /**
+             * @default EUR
+             * @example EUR
+             */
+            currency: string;
+            /** Format: date-time */
+            paidAt: string;
+            /**
+             * Format: date-time
+             * @description Start of the period paid for
+             */
+            periodStart?: string;
+            /**
+             * Format: date-time
+             * @description End of the period paid for
+             */
+            periodEnd?: string;
+            /** @example Visa */
+            cardBrand?: string;
+            /**
+             * @description Last 4 digits of the card
+             * @example 4242
+             */
+            last4?: string;
+        };
+        InvoiceLineDto: {
+            /** @example Abonnement Penpal AI – Annuel */
+            description: string;
+            /** @example 1 */
+            quantity: number;
+            /**
+             * @description Excluding VAT, in the currency's minor unit (cents)
+             * @example 8325
+             */
+            unitAmount: number;
+            /**
+             * @description Excluding VAT, in the currency's minor unit (cents)
+             * @example 8325
+             */
+            amount: number;
+        };
+        InvoiceDto: {
+            /** Format: uuid */
+            id: string;
+            /** @example PP-2025-0042 */
+            invoiceNumber: string;
+            /**
+             * @description Email the invoice was attached to
+             * @example receipt
+             */
+            template: string;
+            /** Format: email */
+            recipient: string;
+            userId?: string;
+            /** @description Email job the invoice was attached to */
+            jobId?: string;
+            /** @example Jane Doe */
+            customerName: string;
+            /** @example fr */
+            locale: string;
+            /** @example EUR */
+            currency: string;
+            lines: components["schemas"]["InvoiceLineDto"][];
+            /**
+             * @description Total excluding VAT, in cents
+             * @example 8325
+             */
+            subtotal: number;
+            /**
+             * @description VAT rate, in percent
+             * @example 20
+             */
+            vatRate: number;
+            /**
+             * @description In cents
+             * @example 1674
+             */
+            vatAmount: number;
+            /**
+             * @description Total including VAT, the amount charged, in cents
+             * @example 9999
+             */
+            total: number;
+            /** Format: date-time */
+            periodStart?: string;
+            /** Format: date-time */
+            periodEnd?: string;
+            /** Format: date-time */
+            paidAt?: string;
+            /** Format: date-time */
+            issuedAt: string;
+            /** @example facture-PP-2025-0042.pdf */
+            fileName: string;
+        };
+        SendEmailVerificationEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for the delivery history */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /**
+             * @description IANA time zone the dates and times of the email are shown in
+             * @default UTC
+             * @example Europe/Paris
+             */
+            timeZone: string;
+            /** @example https://app.penpal-ai.com/verify-email?token=abc123 */
+            verificationUrl: string;
+            /**
+             * Format: date-time
+             * @description When the link stops working
+             */
+            expiresAt: string;
+        };
+        SendPasswordResetEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for the delivery history */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /**
+             * @description IANA time zone the dates and times of the email are shown in
+             * @default UTC
+             * @example Europe/Paris
+             */
+            timeZone: string;
+            /**
+             * Format: date-time
+             * @description When the request was made
+             */
+            occurredAt?: string;
+            /** @example 203.0.113.42 */
+            ipAddress?: string;
+            /** @example Chrome on macOS */
+            device?: string;
+            /**
+             * @description Approximate, from the IP address
+             * @example Paris, France
+             */
+            location?: string;
+            /** @example https://app.penpal-ai.com/reset-password?token=abc123 */
+            resetUrl: string;
+            /**
+             * Format: date-time
+             * @description When the link stops working
+             */
+            expiresAt: string;
+        };
+        SendPasswordChangedEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for the delivery history */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /**
+             * @description IANA time zone the dates and times of the email are shown in
+             * @default UTC
+             * @example Europe/Paris
+             */
+            timeZone: string;
+            /**
+             * Format: date-time
+             * @description When the request was made
+             */
+            occurredAt?: string;
+            /** @example 203.0.113.42 */
+            ipAddress?: string;
+            /** @example Chrome on macOS */
+            device?: string;
+            /**
+             * @description Approximate, from the IP address
+             * @example Paris, France
+             */
+            location?: string;
+        };
+        SendEmailChangedEmailDto: {
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for the delivery history */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /**
+             * @description IANA time zone the dates and times of the email are shown in
+             * @default UTC
+             * @example Europe/Paris
+             */
+            timeZone: string;
+            /**
+             * Format: date-time
+             * @description When the request was made
+             */
+            occurredAt?: string;
+            /** @example 203.0.113.42 */
+            ipAddress?: string;
+            /** @example Chrome on macOS */
+            device?: string;
+            /**
+             * @description Approximate, from the IP address
+             * @example Paris, France
+             */
+            location?: string;
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            previousEmail: string;
+            /**
+             * Format: email
+             * @example jane@example.org
+             */
+            newEmail: string;
+            /**
+             * @description Link to cancel the change, sent to the previous address only
+             * @example https://app.penpal-ai.com/revert-email?token=abc123
+             */
+            revertUrl?: string;
+            /**
+             * Format: date-time
+             * @description When the revert link stops working
+             */
+            expiresAt?: string;
+        };
+        EmailChangedResponseDto: {
+            /**
+             * @description True when at least one address got its email
+             * @example true
+             */
+            success: boolean;
+            /** @description Email sent to the previous address */
+            previousAddress: components["schemas"]["NotificationResponseDto"];
+            /** @description Email sent to the new address */
+            newAddress: components["schemas"]["NotificationResponseDto"];
+        };
+        SendNewLoginEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for the delivery history */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /**
+             * @description IANA time zone the dates and times of the email are shown in
+             * @default UTC
+             * @example Europe/Paris
+             */
+            timeZone: string;
+            /**
+             * Format: date-time
+             * @description When the request was made
+             */
+            occurredAt?: string;
+            /** @example 203.0.113.42 */
+            ipAddress?: string;
+            /** @example Chrome on macOS */
+            device?: string;
+            /**
+             * @description Approximate, from the IP address
+             * @example Paris, France
+             */
+            location?: string;
+            /**
+             * @description Defaults to the security settings of the app
+             * @example https://app.penpal-ai.com/settings/security
+             */
+            secureAccountUrl?: string;
+        };
+        DigestLanguageDto: {
+            /**
+             * @description Language code
+             * @example es
+             */
+            language: string;
+            /** @example 4 */
+            conversations: number;
+            /** @example 70 */
+            minutes: number;
+        };
+        SendWeeklyDigestDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @description Used for preferences, unsubscribe links and to replace the user's pending digest */
+            userId?: string;
+            /** @example en */
+            locale?: string;
+            /**
+             * @description IANA time zone whose send hour the digest goes out at. Defaults to `DIGEST_DEFAULT_TIME_ZONE`
+             * @example America/New_York
+             */
+            timeZone?: string;
+            /**
+             * Format: date
+             * @description First day of the week
+             * @example 2025-01-13
+             */
+            weekStart: string;
+            /**
+             * @description Conversations held
+             * @example 6
+             */
+            conversations: number;
+            /** @example 95 */
+            minutesPractised: number;
+            /**
+             * @description Words met for the first time; the first 10 are listed
+             * @example [
+             *       "la cuenta",
+             *       "madrugar"
+             *     ]
+             */
+            newVocabulary: string[];
+            /**
+             * @description Days in a row with some practice, up to the end of the week
+             * @example 5
+             */
+            streakDays: number;
+            /**
+             * @description Minutes practised on each day, from `weekStart`. Drawn as a bar chart
+             * @example [
+             *       15,
+             *       20,
+             *       0,
+             *       10,
+             *       25,
+             *       0,
+             *       25
+             *     ]
+             */
+            dailyMinutes?: number[];
+            /** @description Practice per language, drawn as a chart of the minutes */
+            languages?: components["schemas"]["DigestLanguageDto"][];
+        };
+        ScheduleWeeklyDigestBatchDto: {
+            digests: components["schemas"]["SendWeeklyDigestDto"][];
+        };
+        BounceWebhookResponseDto: {
+            /**
+             * @description Addresses reported as hard bounces or complaints by this request
+             * @example 1
+             */
+            suppressed: number;
+        };
+        SendTemplatedEmailDto: {
+            /**
+             * @description Name of a template listed by GET /notifications/templates
+             * @example welcome
+             */
+            template: string;
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            to: string;
+            /** @description Validated against the template's schema */
+            data: {
+                [key: string]: unknown;
+            };
+            userId?: string;
+            /**
+             * @description Takes precedence over `data.locale`
+             * @example en
+             */
+            locale?: string;
+        };
+        SendWelcomeEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /**
+             * @description How the user signed up
+             * @enum {string}
+             */
+            provider: "google" | "facebook" | "apple" | "github" | "email";
+            /** @description Used for preferences, unsubscribe links and the default idempotency key */
+            userId?: string;
+            /**
+             * @description Locale of the email, the default locale when not set
+             * @example en
+             */
+            locale?: string;
+        };
+        SendSubscriptionConfirmationEmailDto: {
+            /**
+             * Format: email
+             * @example jane@example.com
+             */
+            email: string;
+            /** @example Jane */
+            firstName: string;
+            /** @example Doe */
+            lastName: string;
+            /** @enum {string} */
+            plan: "monthly" | "yearly";
+            /** @enum {string} */
+            status: "trial" | "active";
+            /**
+             * Format: date-time
+             * @description End of the trial, for trial subscriptions
+             */
+            trialEnd?: string;
+            /** Format: date-time */
+            nextBillingDate?: string;
+            /**
+             * @description In the currency's minor unit (cents)
+             * @example 999
+             */
+            amount?: number;
+            /** @example EUR */
+            currency?: string;
+            userId?: string;
+            /** @example en */
+            locale?: string;
+        };
+        TemplateDefinitionDto: {
+            /** @example welcome */
+            name: string;
+            description?: string;
+            /** @description Subject in the default locale */
+            subject: string;
+            /** @description Subjects for other locales, keyed by locale */
+            subjects?: {
+                [key: string]: string;
+            };
+            /** @description JSON Schema the data sent with the template must match */
+            schema: {
+                [key: string]: unknown;
+            };
+            /** @enum {string} */
+            category: "transactional" | "billing" | "learning-reminders" | "product-news";
+            /**
+             * @description Scope needed to send the template with `POST /notifications/send`
+             * @example notifications:security
+             */
+            scope?: string;
+        };
+        TemplateCacheStatusDto: {
+            size: number;
+            /** @description Cached `<template>:<locale>` entries */
+            keys: string[];
+            /** @description Registered partials and layouts */
+            partials: string[];
+            watching: boolean;
+        };
+        DeadLetterDto: {
+            id: string;
+            template: string;
+            /** Format: email */
+            recipient: string;
+            payload: {
+                [key: string]: unknown;
+            };
+            clientId?: string;
+            attempts: number;
+            error: string;
+            /** Format: date-time */
+            failedAt: string;
+        };
+        DeliveryAttemptDto: {
+            /** @example 1 */
+            attempt: number;
+            /** @enum {string} */
+            status: "sent" | "failed";
+            messageId?: string;
+            error?: string;
+            /** Format: date-time */
+            at: string;
+        };
+        NotificationRecordDto: {
+            id: string;
+            userId?: string;
+            /** @description API client that requested the notification */
+            clientId?: string;
+            /** Format: email */
+            recipient: string;
+            /** @example welcome */
+            template: string;
+            /** @enum {string} */
+            status: "queued" | "retrying" | "sent" | "failed" | "suppressed";
+            suppression?: components["schemas"]["SuppressionDto"];
+            messageId?: string;
+            error?: string;
+            attempts: number;
+            history: components["schemas"]["DeliveryAttemptDto"][];
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        NotificationPageDto: {
+            items: components["schemas"]["NotificationRecordDto"][];
+            total: number;
+            limit: number;
+            offset: number;
+        };
+        ApiKeyWarningDto: {
+            client: string;
+            /** @description Fingerprint of the key, never the key itself */
+            key: string;
+            /** @enum {string} */
+            reason: "expiring" | "deprecated";
+            /** Format: date-time */
+            expiresAt?: string;
+            /** Format: date-time */
+            lastUsedAt?: string;
+        };
+        HealthResponseDto: {
+            /** @enum {string} */
+            status: "healthy" | "degraded";
+            /** @enum {string} */
+            email_service: "connected" | "disconnected";
+            /** @description Keys about to expire or deprecated keys still in use */
+            api_key_warnings?: components["schemas"]["ApiKeyWarningDto"][];
+            /** Format: date-time */
+            timestamp: string;
+        };
+    };
+    responses: never;
+    parameters: never;
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export interface operations {
+    AppController_getHello: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Service is running */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+        };
+    };
+    AppController_healthCheck: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Service health status */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": {
+                        /** @example healthy */
+                        status?: string;
+                        /** @example notification-service */
+                        service?: string;
+                        /** Format: date-time */
+                        timestamp?: string;
+                    };
+                };
+            };
+        };
+    };
+    SandboxController_viewer: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Viewer page */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/html": string;
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/html": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SandboxController_listMessages: {
+        parameters: {
+            query?: {
+                to?: string;
+                limit?: number;
+                offset?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SandboxMessagePageDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SandboxController_clearMessages: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Mailbox emptied */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SandboxController_getMessage: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SandboxMessageDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    TemplatePreviewController_previewSample: {
+        parameters: {
+            query?: {
+                locale?: string;
+            };
+            header?: never;
+            path: {
+                name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TemplatePreviewDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist<br>`TEMPLATE_NOT_FOUND`: The template does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    TemplatePreviewController_preview: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                name: string;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["PreviewTemplateDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TemplatePreviewDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `TEMPLATE_NOT_FOUND`: The template does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    TemplatePreviewController_viewer: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Preview page */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/html": string;
+                };
+            };
+            /** @description `TEMPLATE_NOT_FOUND`: The template does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/html": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    PreferencesController_getPreferences: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                userId: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationPreferencesDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    PreferencesController_updatePreferences: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                userId: string;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdatePreferencesDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationPreferencesDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SuppressionController_listSuppressions: {
+        parameters: {
+            query?: {
+                reason?: "hard-bounce" | "complaint" | "manual";
+                limit?: number;
+                offset?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuppressionListPageDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SuppressionController_addSuppression: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AddSuppressionDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["SuppressedAddressDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SuppressionController_removeSuppression: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                address: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Address removed */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    ScheduledNotificationController_listScheduledNotifications: {
+        parameters: {
+            query: {
+                /** @description User whose upcoming notifications are listed */
+                userId: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ScheduledNotificationDto"][];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    ScheduledNotificationController_updateSubscriptionReminders: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                userId: string;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UpdateSubscriptionRemindersDto"];
+            };
+        };
+        responses: {
+            /** @description Reminders now planned */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ScheduledNotificationDto"][];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    ScheduledNotificationController_cancelSubscriptionReminders: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                userId: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["CancelledNotificationsDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    ScheduledNotificationController_cancelNotification: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Notification cancelled */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    ScheduledNotificationController_rescheduleNotification: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RescheduleNotificationDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ScheduledNotificationDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid<br>`BAD_REQUEST`: The request cannot be processed as sent */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BillingController_sendPaymentFailedEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendPaymentFailedEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BillingController_sendCardExpiringEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendCardExpiringEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BillingController_sendPlanChangedEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendPlanChangedEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BillingController_sendSubscriptionCancelledEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendSubscriptionCancelledEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BillingController_sendSubscriptionExpiredEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendSubscriptionExpiredEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BillingController_sendRefundIssuedEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendRefundIssuedEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BillingController_sendReceiptEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendReceiptEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    InvoiceController_listInvoices: {
+        parameters: {
+            query: {
+                /** @description User whose invoices are listed */
+                userId: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["InvoiceDto"][];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    InvoiceController_downloadInvoice: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Invoice PDF */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/pdf": string;
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/pdf": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SecurityController_sendEmailVerificationEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendEmailVerificationEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SecurityController_sendPasswordResetEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendPasswordResetEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SecurityController_sendPasswordChangedEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendPasswordChangedEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SecurityController_sendEmailChangedEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendEmailChangedEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["EmailChangedResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    SecurityController_sendNewLoginEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendNewLoginEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    DigestController_scheduleWeeklyDigest: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendWeeklyDigestDto"];
+            };
+        };
+        responses: {
+            /** @description Digest now planned */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ScheduledNotificationDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    DigestController_scheduleWeeklyDigestBatch: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ScheduleWeeklyDigestBatchDto"];
+            };
+        };
+        responses: {
+            /** @description Digests now planned, in the order of the request */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ScheduledNotificationDto"][];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    UnsubscribeController_confirm: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                token: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Confirmation page */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/html": string;
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    UnsubscribeController_unsubscribe: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                token: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Unsubscribed page */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/html": string;
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BounceWebhookController_receiveSendgridEvents: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                }[];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BounceWebhookResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BounceWebhookController_receiveMailgunEvent: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BounceWebhookResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BounceWebhookController_receiveSesNotification: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        /** @description SNS message, sent by SNS as text/plain */
+        requestBody: {
+            content: {
+                "application/json": {
+                    [key: string]: unknown;
+                };
+                "text/plain": {
+                    [key: string]: unknown;
+                };
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BounceWebhookResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    BounceWebhookController_receiveDsn: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "multipart/report": string;
+                "message/rfc822": string;
+                "text/plain": string;
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["BounceWebhookResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_sendTemplatedEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendTemplatedEmailDto"];
+            };
+        };
+        responses: {
+            /** @description Email queued, or not sent when the user opted out of its category */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `TEMPLATE_NOT_FOUND`: The template does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_sendWelcomeEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendWelcomeEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_sendSubscriptionConfirmationEmail: {
+        parameters: {
+            query?: never;
+            header?: {
+                /** @description Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again */
+                "Idempotency-Key"?: string;
+            };
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["SendSubscriptionConfirmationEmailDto"];
+            };
+        };
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `IDEMPOTENCY_CONFLICT`: The Idempotency-Key was used with a different payload<br>`ADDRESS_SUPPRESSED`: The address is on the suppression list */
+            422: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `RATE_LIMITED`: A rate limit was exceeded, retry after `details.retryAfterSeconds` */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_listTemplates: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TemplateDefinitionDto"][];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_getTemplateCache: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TemplateCacheStatusDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_clearTemplateCache: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Cache cleared */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_invalidateTemplate: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                name: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Template dropped from the cache */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `TEMPLATE_NOT_FOUND`: The template does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_listDeadLetters: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["DeadLetterDto"][];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_retryDeadLetter: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_listNotifications: {
+        parameters: {
+            query?: {
+                userId?: string;
+                email?: string;
+                template?: string;
+                status?: "queued" | "retrying" | "sent" | "failed" | "suppressed";
+                /** @description Only notifications created at or after this date */
+                from?: string;
+                /** @description Only notifications created at or before this date */
+                to?: string;
+                limit?: number;
+                offset?: number;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationPageDto"];
+                };
+            };
+            /** @description `VALIDATION_FAILED`: The request or the template data is invalid */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_healthCheck: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["HealthResponseDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+    NotificationController_getNotification: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: string;
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["NotificationRecordDto"];
+                };
+            };
+            /** @description `UNAUTHORIZED`: Missing or invalid credentials */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `FORBIDDEN`: The credentials lack a required scope */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `NOT_FOUND`: The resource does not exist */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+            /** @description `INTERNAL_ERROR`: Unexpected error */
+            500: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponseDto"];
+                };
+            };
+        };
+    };
+}
@@ -0,0 +1,3 @@
+export type { components, operations, paths } from "./api-types";
+export * from "./notification-client";
+export * from "./request-signer";
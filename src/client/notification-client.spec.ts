@@ -0,0 +1,103 @@
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+import { NotificationClient, NotificationClientError } from "./notification-client";
+import { computeSignature, RequestSigner } from "./request-signer";
+
+describe("notificationClient", () => {
+  let instance: AxiosInstance;
+  let sent: InternalAxiosRequestConfig;
+  let reply: { status: number; data: unknown } | undefined;
+
+  beforeEach(() => {
+    reply = { status: 200, data: {} };
+    instance = axios.create();
+    instance.defaults.adapter = async (config) => {
+      sent = config;
+      if (!reply) {
+        throw new AxiosError("connect ECONNREFUSED", "ECONNREFUSED", config);
+      }
+
+      const response = { data: reply.data, status: reply.status, statusText: "", headers: {}, config };
+      if (reply.status >= 400) {
+        throw new AxiosError(`Request failed with status code ${reply.status}`, "ERR_BAD_REQUEST", config, undefined, response);
+      }
+      return response;
+    };
+  });
+
+  function createClient(options: { apiKey?: string; signer?: RequestSigner } = { apiKey: "service-key" }): NotificationClient {
+    return new NotificationClient({ baseUrl: "http://notify:3007/api/v1", axios: instance, ...options });
+  }
+
+  it("should send the welcome email with the API key and idempotency key", async () => {
+    reply = { status: 200, data: { success: true, message: "Welcome email queued for delivery", jobId: "job-1", timestamp: "2024-01-01T00:00:00.000Z" } };
+
+    const response = await createClient().sendWelcomeEmail(
+      { email: "jane@example.com", firstName: "Jane", lastName: "Doe", provider: "google" },
+      { idempotencyKey: "signup-123" },
+    );
+
+    expect(response.jobId).toBe("job-1");
+    expect(sent.method).toBe("post");
+    expect(instance.getUri(sent)).toBe("http://notify:3007/api/v1/notifications/welcome-email");
+    expect(sent.headers["x-api-key"]).toBe("service-key");
+    expect(sent.headers["Idempotency-Key"]).toBe("signup-123");
+    expect(JSON.parse(sent.data)).toEqual({ email: "jane@example.com", firstName: "Jane", lastName: "Doe", provider: "google" });
+  });
+
+  it("should pass filters as query parameters and encode path parameters", async () => {
+    const client = createClient();
+
+    await client.listNotifications({ userId: "user-1", status: "failed", limit: 10 });
+    expect(instance.getUri(sent)).toBe("http://notify:3007/api/v1/notifications?userId=user-1&status=failed&limit=10");
+
+    await client.removeSuppression("jane+test@example.com");
+    expect(sent.method).toBe("delete");
+    expect(instance.getUri(sent)).toBe("http://notify:3007/api/v1/notifications/suppressions/jane%2Btest%40example.com");
+  });
+
+  it("should wrap the categories when updating preferences", async () => {
+    await createClient().updatePreferences("user-1", { "product-news": false });
+
+    expect(sent.method).toBe("patch");
+    expect(JSON.parse(sent.data)).toEqual({ categories: { "product-news": false } });
+  });
+
+  it("should sign requests instead of sending an API key", async () => {
+    const client = createClient({ signer: new RequestSigner("auth-service", "signing-secret") });
+
+    await client.sendTemplatedEmail({ template: "welcome", to: "jane@example.com", data: {} });
+
+    expect(sent.headers["x-api-key"]).toBeUndefined();
+    expect(sent.headers["x-signature"]).toBe(computeSignature("signing-secret", {
+      method: "post",
+      path: "/api/v1/notifications/send",
+      timestamp: sent.headers["x-timestamp"],
+      nonce: sent.headers["x-nonce"],
+      body: sent.data,
+    }));
+  });
+
+  it("should throw the service's error response", async () => {
+    reply = {
+      status: 429,
+      data: { success: false, statusCode: 429, code: "RATE_LIMITED", message: "Too many emails", retryable: true, details: { retryAfterSeconds: 30 } },
+    };
+
+    const error = await createClient().sendWelcomeEmail({ email: "jane@example.com", firstName: "Jane", lastName: "Doe", provider: "google" }).catch(e => e);
+
+    expect(error).toBeInstanceOf(NotificationClientError);
+    expect(error).toMatchObject({ message: "Too many emails", status: 429, code: "RATE_LIMITED", retryable: true, details: { retryAfterSeconds: 30 } });
+  });
+
+  it("should report unreachable services as retryable errors without a code", async () => {
+    reply = undefined;
+
+    const error = await createClient().health().catch(e => e);
+
+    expect(error).toBeInstanceOf(NotificationClientError);
+    expect(error.code).toBeUndefined();
+    expect(error.retryable).toBe(true);
+    expect(error.message).toContain("ECONNREFUSED");
+  });
+});
@@ -0,0 +1,350 @@
+import axios, { AxiosError, AxiosInstance, Method } from "axios";
+
+import type { components, operations } from "./api-types";
+
+import { RequestSigner, signAxiosRequests } from "./request-signer";
+
+/**
+ * Typed client for the notification service, so that other services do not
+ * hand-write their calls. The request and response types are generated from
+ * the service's OpenAPI document by `npm run client:generate`:
+ *
+ *   const notifications = new NotificationClient({ baseUrl: "http://notify-service:3007/api/v1", apiKey: process.env.NOTIFY_SERVICE_API_KEY });
+ *   await notifications.sendWelcomeEmail({ email, firstName, lastName, provider: "google", userId });
+ *
+ * Error responses are thrown as `NotificationClientError`.
+ */
+
+type Schemas = components["schemas"];
+
+export type SendTemplatedEmailRequest = Schemas["SendTemplatedEmailDto"];
+export type SendWelcomeEmailRequest = Schemas["SendWelcomeEmailDto"];
+export type SendSubscriptionConfirmationEmailRequest = Schemas["SendSubscriptionConfirmationEmailDto"];
+export type SendPaymentFailedEmailRequest = Schemas["SendPaymentFailedEmailDto"];
+export type SendCardExpiringEmailRequest = Schemas["SendCardExpiringEmailDto"];
+export type SendPlanChangedEmailRequest = Schemas["SendPlanChangedEmailDto"];
+export type SendSubscriptionCancelledEmailRequest = Schemas["SendSubscriptionCancelledEmailDto"];
+export type SendSubscriptionExpiredEmailRequest = Schemas["SendSubscriptionExpiredEmailDto"];
+export type SendRefundIssuedEmailRequest = Schemas["SendRefundIssuedEmailDto"];
+export type SendReceiptEmailRequest = Schemas["SendReceiptEmailDto"];
+export type SendEmailVerificationEmailRequest = Schemas["SendEmailVerificationEmailDto"];
+export type SendPasswordResetEmailRequest = Schemas["SendPasswordResetEmailDto"];
+export type SendPasswordChangedEmailRequest = Schemas["SendPasswordChangedEmailDto"];
+export type SendEmailChangedEmailRequest = Schemas["SendEmailChangedEmailDto"];
+export type SendNewLoginEmailRequest = Schemas["SendNewLoginEmailDto"];
+export type EmailChangedResponse = Schemas["EmailChangedResponseDto"];
+export type SendWeeklyDigestRequest = Schemas["SendWeeklyDigestDto"];
+export type ScheduleWeeklyDigestBatchRequest = Schemas["ScheduleWeeklyDigestBatchDto"];
+export type NotificationResponse = Schemas["NotificationResponseDto"];
+export type NotificationRecord = Schemas["NotificationRecordDto"];
+export type NotificationPage = Schemas["NotificationPageDto"];
+export type ListNotificationsQuery = NonNullable<operations["NotificationController_listNotifications"]["parameters"]["query"]>;
+export type TemplateDefinition = Schemas["TemplateDefinitionDto"];
+export type TemplateCacheStatus = Schemas["TemplateCacheStatusDto"];
+export type PreviewTemplateRequest = Schemas["PreviewTemplateDto"];
+export type TemplatePreview = Schemas["TemplatePreviewDto"];
+export type DeadLetter = Schemas["DeadLetterDto"];
+export type HealthResponse = Schemas["HealthResponseDto"];
+export type CategoryPreferences = Schemas["CategoryPreferencesDto"];
+export type NotificationPreferences = Schemas["NotificationPreferencesDto"];
+export type AddSuppressionRequest = Schemas["AddSuppressionDto"];
+export type ListSuppressionsQuery = NonNullable<operations["SuppressionController_listSuppressions"]["parameters"]["query"]>;
+export type SuppressedAddress = Schemas["SuppressedAddressDto"];
+export type SuppressionListPage = Schemas["SuppressionListPageDto"];
+export type ScheduledNotification = Schemas["ScheduledNotificationDto"];
+export type UpdateSubscriptionRemindersRequest = Schemas["UpdateSubscriptionRemindersDto"];
+export type CancelledNotifications = Schemas["CancelledNotificationsDto"];
+export type Invoice = Schemas["InvoiceDto"];
+export type ListSandboxMessagesQuery = NonNullable<operations["SandboxController_listMessages"]["parameters"]["query"]>;
+export type SandboxMessage = Schemas["SandboxMessageDto"];
+export type SandboxMessagePage = Schemas["SandboxMessagePageDto"];
+export type ErrorResponse = Schemas["ErrorResponseDto"];
+export type ErrorCode = ErrorResponse["code"];
+
+export type NotificationClientOptions = {
+  /** URL of the service including the global prefix, e.g. http://notify-service:3007/api/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  /** Signs the requests instead of sending an API key, for clients using HMAC authentication */
+  signer?: RequestSigner;
+  /** Milliseconds, 10 seconds by default */
+  timeout?: number;
+  /** Instance to send the requests with, e.g. `HttpService.axiosRef`. A new one is created when not set. */
+  axios?: AxiosInstance;
+};
+
+export type SendOptions = {
+  /** Sent as `Idempotency-Key`, so that retrying the call never sends the email twice */
+  idempotencyKey?: string;
+};
+
+type RequestOptions = {
+  body?: unknown;
+  query?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  /** For binary responses such as PDFs */
+  responseType?: "arraybuffer";
+};
+
+const DEFAULT_TIMEOUT = 10_000;
+
+/**
+ * Error response of the service, or failure to reach it. `code` is the
+ * service's error code and is not set when no response was received.
+ */
+export class NotificationClientError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly response?: ErrorResponse,
+  ) {
+    super(message);
+    this.name = NotificationClientError.name;
+  }
+
+  get code(): ErrorCode | undefined {
+    return this.response?.code;
+  }
+
+  /** Whether sending the same request again later may succeed */
+  get retryable(): boolean {
+    return this.response?.retryable ?? (this.status === undefined || this.status >= 500);
+  }
+
+  get details(): ErrorResponse["details"] {
+    return this.response?.details;
+  }
+
+  static fromAxiosError(error: AxiosError): NotificationClientError {
+    if (!error.response) {
+      return new NotificationClientError(`Notification service unreachable: ${error.message}`);
+    }
+
+    const body = error.response.data as Partial<ErrorResponse> | undefined;
+    if (body?.code) {
+      return new NotificationClientError(body.message ?? error.message, error.response.status, body as ErrorResponse);
+    }
+
+    return new NotificationClientError(error.message, error.response.status);
+  }
+}
+
+export class NotificationClient {
+  private readonly http: AxiosInstance;
+
+  constructor(private readonly options: NotificationClientOptions) {
+    this.http = options.axios ?? axios.create();
+    if (options.signer) {
+      signAxiosRequests(this.http, options.signer);
+    }
+  }
+
+  sendTemplatedEmail(request: SendTemplatedEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/send", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendWelcomeEmail(request: SendWelcomeEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/welcome-email", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendSubscriptionConfirmationEmail(request: SendSubscriptionConfirmationEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/subscription-confirmation", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendPaymentFailedEmail(request: SendPaymentFailedEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/billing/payment-failed", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendCardExpiringEmail(request: SendCardExpiringEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/billing/card-expiring", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendPlanChangedEmail(request: SendPlanChangedEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/billing/plan-changed", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendSubscriptionCancelledEmail(request: SendSubscriptionCancelledEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/billing/subscription-cancelled", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendSubscriptionExpiredEmail(request: SendSubscriptionExpiredEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/billing/subscription-expired", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendRefundIssuedEmail(request: SendRefundIssuedEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/billing/refund-issued", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendReceiptEmail(request: SendReceiptEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/billing/receipt", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendEmailVerificationEmail(request: SendEmailVerificationEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/security/email-verification", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendPasswordResetEmail(request: SendPasswordResetEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/security/password-reset", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendPasswordChangedEmail(request: SendPasswordChangedEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/security/password-changed", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  /** Sends one email to the previous address and one to the new address */
+  sendEmailChangedEmail(request: SendEmailChangedEmailRequest, options: SendOptions = {}): Promise<EmailChangedResponse> {
+    return this.request("POST", "/notifications/security/email-changed", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  sendNewLoginEmail(request: SendNewLoginEmailRequest, options: SendOptions = {}): Promise<NotificationResponse> {
+    return this.request("POST", "/notifications/security/new-login", { body: request, headers: this.sendHeaders(options) });
+  }
+
+  /** Planned at the send hour of the user's time zone, replacing their pending digest */
+  scheduleWeeklyDigest(request: SendWeeklyDigestRequest): Promise<ScheduledNotification> {
+    return this.request("POST", "/notifications/digests/weekly", { body: request });
+  }
+
+  scheduleWeeklyDigests(request: ScheduleWeeklyDigestBatchRequest): Promise<ScheduledNotification[]> {
+    return this.request("POST", "/notifications/digests/weekly/batch", { body: request });
+  }
+
+  listNotifications(query: ListNotificationsQuery = {}): Promise<NotificationPage> {
+    return this.request("GET", "/notifications", { query });
+  }
+
+  getNotification(id: string): Promise<NotificationRecord> {
+    return this.request("GET", `/notifications/${encodeURIComponent(id)}`);
+  }
+
+  listTemplates(): Promise<TemplateDefinition[]> {
+    return this.request("GET", "/notifications/templates");
+  }
+
+  /** Renders the template with its sample data */
+  previewTemplateSample(name: string, locale?: string): Promise<TemplatePreview> {
+    return this.request("GET", `/notifications/templates/${encodeURIComponent(name)}/preview`, { query: { locale } });
+  }
+
+  previewTemplate(name: string, request: PreviewTemplateRequest): Promise<TemplatePreview> {
+    return this.request("POST", `/notifications/templates/${encodeURIComponent(name)}/preview`, { body: request });
+  }
+
+  getTemplateCache(): Promise<TemplateCacheStatus> {
+    return this.request("GET", "/notifications/templates/cache");
+  }
+
+  clearTemplateCache(): Promise<void> {
+    return this.request("DELETE", "/notifications/templates/cache");
+  }
+
+  invalidateTemplate(name: string): Promise<void> {
+    return this.request("DELETE", `/notifications/templates/cache/${encodeURIComponent(name)}`);
+  }
+
+  listDeadLetters(): Promise<DeadLetter[]> {
+    return this.request("GET", "/notifications/dead-letters");
+  }
+
+  retryDeadLetter(id: string): Promise<NotificationResponse> {
+    return this.request("POST", `/notifications/dead-letters/${encodeURIComponent(id)}/retry`);
+  }
+
+  getPreferences(userId: string): Promise<NotificationPreferences> {
+    return this.request("GET", `/notifications/preferences/${encodeURIComponent(userId)}`);
+  }
+
+  /** Only the categories given are changed */
+  updatePreferences(userId: string, categories: CategoryPreferences): Promise<NotificationPreferences> {
+    return this.request("PATCH", `/notifications/preferences/${encodeURIComponent(userId)}`, { body: { categories } });
+  }
+
+  listSuppressions(query: ListSuppressionsQuery = {}): Promise<SuppressionListPage> {
+    return this.request("GET", "/notifications/suppressions", { query });
+  }
+
+  addSuppression(request: AddSuppressionRequest): Promise<SuppressedAddress> {
+    return this.request("POST", "/notifications/suppressions", { body: request });
+  }
+
+  removeSuppression(address: string): Promise<void> {
+    return this.request("DELETE", `/notifications/suppressions/${encodeURIComponent(address)}`);
+  }
+
+  listScheduledNotifications(userId: string): Promise<ScheduledNotification[]> {
+    return this.request("GET", "/notifications/scheduled", { query: { userId } });
+  }
+
+  updateSubscriptionReminders(userId: string, request: UpdateSubscriptionRemindersRequest): Promise<ScheduledNotification[]> {
+    return this.request("PUT", `/notifications/scheduled/subscriptions/${encodeURIComponent(userId)}`, { body: request });
+  }
+
+  cancelSubscriptionReminders(userId: string): Promise<CancelledNotifications> {
+    return this.request("DELETE", `/notifications/scheduled/subscriptions/${encodeURIComponent(userId)}`);
+  }
+
+  rescheduleNotification(id: string, sendAt: string): Promise<ScheduledNotification> {
+    return this.request("PATCH", `/notifications/scheduled/${encodeURIComponent(id)}`, { body: { sendAt } });
+  }
+
+  cancelScheduledNotification(id: string): Promise<void> {
+    return this.request("DELETE", `/notifications/scheduled/${encodeURIComponent(id)}`);
+  }
+
+  listInvoices(userId: string): Promise<Invoice[]> {
+    return this.request("GET", "/notifications/invoices", { query: { userId } });
+  }
+
+  /**
+   * Resolves with the content of the invoice PDF.
+   */
+  downloadInvoice(id: string): Promise<ArrayBuffer> {
+    return this.request("GET", `/notifications/invoices/${encodeURIComponent(id)}`, { responseType: "arraybuffer" });
+  }
+
+  listSandboxMessages(query: ListSandboxMessagesQuery = {}): Promise<SandboxMessagePage> {
+    return this.request("GET", "/notifications/sandbox/messages", { query });
+  }
+
+  getSandboxMessage(id: string): Promise<SandboxMessage> {
+    return this.request("GET", `/notifications/sandbox/messages/${encodeURIComponent(id)}`);
+  }
+
+  clearSandboxMessages(): Promise<void> {
+    return this.request("DELETE", "/notifications/sandbox/messages");
+  }
+
+  health(): Promise<HealthResponse> {
+    return this.request("GET", "/notifications/health");
+  }
+
+  private sendHeaders(options: SendOptions): Record<string, string> {
+    return options.idempotencyKey ? { "Idempotency-Key": options.idempotencyKey } : {};
+  }
+
+  private async request<T>(method: Method, path: string, { body, query, headers, responseType }: RequestOptions = {}): Promise<T> {
+    try {
+      const response = await this.http.request<T>({
+        method,
+        baseURL: this.options.baseUrl,
+        url: path,
+        data: body,
+        params: query,
+        responseType,
+        timeout: this.options.timeout ?? DEFAULT_TIMEOUT,
+        headers: {
+          ...(this.options.apiKey && { "x-api-key": this.options.apiKey }),
+          ...headers,
+        },
+      });
+
+      return response.data;
+    }
+    catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw NotificationClientError.fromAxiosError(error);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import axios from "axios";
+
+import { computeSignature, RequestSigner, signAxiosRequests } from "./request-signer";
+
+describe("requestSigner", () => {
+  const signer = new RequestSigner("payment-service", "signing-secret");
+
+  it("should sign the method, path, timestamp, nonce and body", () => {
+    const headers = signer.sign("post", "/api/v1/notifications/send", "{}", new Date("2024-01-01T00:00:00.000Z"));
+
+    expect(headers["x-client-id"]).toBe("payment-service");
+    expect(headers["x-timestamp"]).toBe("1704067200");
+    expect(headers["x-signature"]).toBe(computeSignature("signing-secret", {
+      method: "POST",
+      path: "/api/v1/notifications/send",
+      timestamp: "1704067200",
+      nonce: headers["x-nonce"],
+      body: "{}",
+    }));
+  });
+
+  it("should use a new nonce for each request", () => {
+    expect(signer.sign("GET", "/")["x-nonce"]).not.toBe(signer.sign("GET", "/")["x-nonce"]);
+  });
+
+  it("should sign axios requests with the serialized body and full path", async () => {
+    const instance = axios.create({ baseURL: "http://notify:3007/api/v1" });
+    signAxiosRequests(instance, signer);
+
+    let sent: any;
+    instance.defaults.adapter = async (config) => {
+      sent = config;
+      return { data: {}, status: 200, statusText: "OK", headers: {}, config };
+    };
+
+    await instance.post("/notifications/send", { template: "welcome" }, { params: { dryRun: true } });
+
+    expect(sent.data).toBe("{\"template\":\"welcome\"}");
+    expect(sent.headers["x-signature"]).toBe(computeSignature("signing-secret", {
+      method: "post",
+      path: "/api/v1/notifications/send?dryRun=true",
+      timestamp: sent.headers["x-timestamp"],
+      nonce: sent.headers["x-nonce"],
+      body: sent.data,
+    }));
+  });
+});
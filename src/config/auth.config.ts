@@ -0,0 +1,16 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("auth", () => ({
+  // Named keys as JSON: [{ "name": "auth-service", "key": "...", "scopes": ["notifications:welcome"] }]
+  apiKeys: process.env.API_KEYS || "",
+  // Same format, read from a file
+  apiKeysFile: process.env.API_KEYS_FILE || "",
+  // Single shared key from before named keys, granted every scope. "new,old" accepts both while rotating
+  legacyApiKey: process.env.NOTIFY_SERVICE_API_KEY || "",
+  // Keys expiring within this many days are reported in logs and health checks
+  expiryWarningDays: Number.parseInt(process.env.API_KEY_EXPIRY_WARNING_DAYS || "14", 10),
+  // How far the timestamp of a signed request may drift from the server clock
+  signatureMaxSkewSeconds: Number.parseInt(process.env.REQUEST_SIGNATURE_MAX_SKEW_SECONDS || "300", 10),
+  // Shared secret expected in the `token` query parameter of bounce webhooks. Webhooks are refused without it
+  webhookToken: process.env.WEBHOOK_TOKEN || "",
+}));
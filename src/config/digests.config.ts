@@ -0,0 +1,8 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("digests", () => ({
+  // Local hour the weekly digests are sent at, in each user's time zone
+  sendHour: Number.parseInt(process.env.DIGEST_SEND_HOUR || "9", 10),
+  // Time zone of the users whose digest does not give one
+  defaultTimeZone: process.env.DIGEST_DEFAULT_TIME_ZONE || "Europe/Paris",
+}));
@@ -12,7 +12,33 @@ export default registerAs("email", () => ({
     name: process.env.EMAIL_FROM_NAME || "Penpal AI",
     address: process.env.EMAIL_FROM_ADDRESS || process.env.SMTP_USER || "noreply@penpal-ai.com",
   },
+  // Transports to try in order: the next one is used when the previous one fails
+  transports: (process.env.EMAIL_TRANSPORTS || "smtp")
+    .split(",")
+    .map(transport => transport.trim())
+    .filter(Boolean),
+  http: {
+    provider: process.env.EMAIL_HTTP_PROVIDER || "sendgrid",
+    apiKey: process.env.EMAIL_HTTP_API_KEY || "",
+    apiSecret: process.env.EMAIL_HTTP_API_SECRET || "",
+    baseUrl: process.env.EMAIL_HTTP_BASE_URL || "",
+    domain: process.env.EMAIL_HTTP_DOMAIN || "",
+    region: process.env.EMAIL_HTTP_REGION || "eu-west-1",
+    timeoutMs: Number.parseInt(process.env.EMAIL_HTTP_TIMEOUT_MS || "10000", 10),
+  },
+  file: {
+    directory: process.env.EMAIL_FILE_DIR || "./data/mail",
+  },
+  // Captures emails in the sandbox mailbox instead of sending them
+  sandbox: {
+    enabled: process.env.EMAIL_SANDBOX === "true",
+    maxMessages: Number.parseInt(process.env.EMAIL_SANDBOX_MAX_MESSAGES || "500", 10),
+  },
   templates: {
     baseUrl: process.env.EMAIL_TEMPLATE_BASE_URL || "http://localhost:3000",
+    // Recompiles templates when their files change, on by default in development
+    watch: process.env.EMAIL_TEMPLATE_WATCH
+      ? process.env.EMAIL_TEMPLATE_WATCH === "true"
+      : process.env.NODE_ENV === "development",
   },
 }));
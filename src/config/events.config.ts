@@ -0,0 +1,17 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("events", () => ({
+  // Broker to consume domain events from: "amqp", or "memory" for in-process tests. The consumer is off when not set
+  broker: process.env.EVENT_BROKER || "",
+  // Templates of other event types as JSON, added to the defaults: { "subscription.trial_ending": { "template": "trial-ending" } }
+  templates: process.env.EVENT_TEMPLATES || "",
+  amqp: {
+    url: process.env.EVENT_AMQP_URL || "amqp://localhost:5672",
+    // Topic exchange the other services publish to, with the event type as routing key
+    exchange: process.env.EVENT_AMQP_EXCHANGE || "penpal.events",
+    // Shared by every instance of the service, so that each event is handled once
+    queue: process.env.EVENT_AMQP_QUEUE || "notify-service.events",
+    prefetch: Number.parseInt(process.env.EVENT_AMQP_PREFETCH || "10", 10),
+    reconnectDelayMs: Number.parseInt(process.env.EVENT_AMQP_RECONNECT_DELAY_MS || "5000", 10),
+  },
+}));
@@ -0,0 +1,9 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("i18n", () => ({
+  defaultLocale: process.env.DEFAULT_LOCALE || "fr",
+  supportedLocales: (process.env.SUPPORTED_LOCALES || "fr,en")
+    .split(",")
+    .map(locale => locale.trim())
+    .filter(Boolean),
+}));
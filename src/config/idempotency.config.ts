@@ -0,0 +1,5 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("idempotency", () => ({
+  ttlSeconds: Number.parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || "86400", 10),
+}));
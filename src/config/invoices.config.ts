@@ -0,0 +1,16 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("invoices", () => ({
+  // Attaches a PDF invoice to active subscription confirmations and receipts
+  enabled: process.env.INVOICES_ENABLED !== "false",
+  // Percentage included in the amounts sent by the payment service
+  vatRate: Number.parseFloat(process.env.INVOICE_VAT_RATE || "20"),
+  // Prefix of the numbers given to invoices the payment service did not number
+  numberPrefix: process.env.INVOICE_NUMBER_PREFIX || "PP",
+  seller: {
+    name: process.env.INVOICE_SELLER_NAME || "Penpal AI",
+    // Address lines, separated by "|"
+    address: (process.env.INVOICE_SELLER_ADDRESS || "").split("|").map(line => line.trim()).filter(Boolean),
+    vatNumber: process.env.INVOICE_SELLER_VAT_NUMBER || "",
+  },
+}));
@@ -0,0 +1,10 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("queue", () => ({
+  workerEnabled: process.env.QUEUE_WORKER_ENABLED !== "false",
+  pollIntervalMs: Number.parseInt(process.env.QUEUE_POLL_INTERVAL_MS || "1000", 10),
+  concurrency: Number.parseInt(process.env.QUEUE_CONCURRENCY || "5", 10),
+  maxAttempts: Number.parseInt(process.env.QUEUE_MAX_ATTEMPTS || "5", 10),
+  backoffBaseMs: Number.parseInt(process.env.QUEUE_BACKOFF_BASE_MS || "5000", 10),
+  backoffMaxMs: Number.parseInt(process.env.QUEUE_BACKOFF_MAX_MS || "3600000", 10),
+}));
@@ -0,0 +1,14 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("rateLimit", () => ({
+  enabled: process.env.RATE_LIMIT_ENABLED !== "false",
+  store: process.env.RATE_LIMIT_STORE || "memory",
+  // Limits as "<requests>/<interval>", e.g. "10/1h"; the requests can be sent in a burst
+  perClient: process.env.RATE_LIMIT_PER_CLIENT || "300/1m",
+  perRecipient: process.env.RATE_LIMIT_PER_RECIPIENT || "10/1h",
+  perTemplate: process.env.RATE_LIMIT_PER_TEMPLATE || "600/1m",
+  // Per template overrides as JSON: { "welcome": "100/1m" }
+  templates: process.env.RATE_LIMIT_TEMPLATES || "",
+  // Emails handed to the transport per second, 0 for no limit
+  maxSendsPerSecond: Number.parseFloat(process.env.EMAIL_MAX_SENDS_PER_SECOND || "0"),
+}));
@@ -0,0 +1,11 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("reminders", () => ({
+  // Sends the reminders that are due; planning, listing and cancelling work either way
+  schedulerEnabled: process.env.REMINDER_SCHEDULER_ENABLED !== "false",
+  pollIntervalMs: Number.parseInt(process.env.REMINDER_POLL_INTERVAL_MS || "60000", 10),
+  trialEndingDaysBefore: Number.parseInt(process.env.REMINDER_TRIAL_ENDING_DAYS || "3", 10),
+  renewalDaysBefore: Number.parseInt(process.env.REMINDER_RENEWAL_DAYS || "7", 10),
+  // Plans whose active subscriptions get a renewal reminder, comma-separated
+  renewalPlans: (process.env.REMINDER_RENEWAL_PLANS || "yearly").split(",").map(plan => plan.trim()).filter(Boolean),
+}));
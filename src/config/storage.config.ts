@@ -0,0 +1,7 @@
+import { registerAs } from "@nestjs/config";
+import * as path from "node:path";
+
+export default registerAs("storage", () => ({
+  driver: process.env.STORAGE_DRIVER || "memory",
+  directory: process.env.STORAGE_DIR || path.join(process.cwd(), "data"),
+}));
@@ -0,0 +1,8 @@
+import { registerAs } from "@nestjs/config";
+
+export default registerAs("unsubscribe", () => ({
+  // Signs unsubscribe tokens; changing it invalidates the links of emails already sent
+  secret: process.env.UNSUBSCRIBE_SECRET || "",
+  // Public URL of this service, used to build the links
+  baseUrl: process.env.UNSUBSCRIBE_BASE_URL || "http://localhost:3007/api/v1",
+}));
@@ -0,0 +1,82 @@
+import { Logger } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { IdempotencyInterceptor } from "../interceptors/idempotency.interceptor";
+import { RateLimitInterceptor } from "../interceptors/rate-limit.interceptor";
+import { EmailQueueService } from "../services/email-queue.service";
+import { BillingController } from "./billing.controller";
+
+describe("billingController", () => {
+  let controller: BillingController;
+
+  const mockEmailQueue = {
+    enqueue: jest.fn(),
+  };
+
+  const client = { id: "payment-service", scopes: ["notifications:billing"] };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    mockEmailQueue.enqueue.mockResolvedValue({ id: "job-1", status: "queued" });
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [BillingController],
+      providers: [{ provide: EmailQueueService, useValue: mockEmailQueue }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .overrideInterceptor(IdempotencyInterceptor)
+      .useValue({ intercept: (_context, next) => next.handle() })
+      .overrideInterceptor(RateLimitInterceptor)
+      .useValue({ intercept: (_context, next) => next.handle() })
+      .compile();
+
+    controller = module.get<BillingController>(BillingController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should queue the request body as the template data, without the user id", async () => {
+    const response = await controller.sendReceiptEmail({
+      email: "jane@example.com",
+      firstName: "Jane",
+      lastName: "Doe",
+      userId: "user-1",
+      invoiceNumber: "PP-2025-0042",
+      plan: "monthly",
+      amount: 999,
+      paidAt: "2025-01-15T00:00:00.000Z",
+    }, client);
+
+    expect(response).toMatchObject({ success: true, message: "Receipt email queued for delivery", jobId: "job-1" });
+    expect(mockEmailQueue.enqueue).toHaveBeenCalledWith("receipt", "jane@example.com", {
+      email: "jane@example.com",
+      firstName: "Jane",
+      lastName: "Doe",
+      invoiceNumber: "PP-2025-0042",
+      plan: "monthly",
+      amount: 999,
+      paidAt: "2025-01-15T00:00:00.000Z",
+    }, { userId: "user-1", clientId: "payment-service" });
+  });
+
+  it("should report emails the user opted out of", async () => {
+    mockEmailQueue.enqueue.mockResolvedValueOnce({ id: "job-2", status: "suppressed", suppression: { reason: "opted-out", category: "billing" } });
+
+    const response = await controller.sendCardExpiringEmail({
+      email: "jane@example.com",
+      firstName: "Jane",
+      lastName: "Doe",
+      cardBrand: "Visa",
+      last4: "4242",
+      expiryMonth: 2,
+      expiryYear: 2025,
+    }, client);
+
+    expect(response.message).toBe("Card expiring email not sent: opted-out (billing)");
+    expect(mockEmailQueue.enqueue).toHaveBeenCalledWith("card-expiring", "jane@example.com", expect.any(Object), { userId: undefined, clientId: "payment-service" });
+  });
+});
@@ -0,0 +1,146 @@
+import { Body, Controller, HttpCode, HttpStatus, Logger, Post, UseGuards, UseInterceptors } from "@nestjs/common";
+import { ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from "@nestjs/swagger";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { CurrentClient } from "../decorators/current-client.decorator";
+import { Idempotent } from "../decorators/idempotent.decorator";
+import { RateLimited } from "../decorators/rate-limited.decorator";
+import { RequireScopes } from "../decorators/require-scopes.decorator";
+import {
+  BillingEmailDto,
+  SendCardExpiringEmailDto,
+  SendPaymentFailedEmailDto,
+  SendPlanChangedEmailDto,
+  SendReceiptEmailDto,
+  SendRefundIssuedEmailDto,
+  SendSubscriptionCancelledEmailDto,
+  SendSubscriptionExpiredEmailDto,
+} from "../dto/billing.dto";
+import { NotificationResponseDto } from "../dto/notification.dto";
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { IdempotencyInterceptor } from "../interceptors/idempotency.interceptor";
+import { RateLimitInterceptor } from "../interceptors/rate-limit.interceptor";
+import { ApiClient } from "../services/api-key.service";
+import { EmailQueueService } from "../services/email-queue.service";
+import { toQueuedResponse } from "../utils/queued-response";
+
+const BILLING_DESCRIPTION = "Requires the `notifications:billing` scope. The same email can be due several times for a user, "
+  + "so no idempotency key is derived: send an `Idempotency-Key`, e.g. the payment or invoice id.";
+
+/**
+ * Emails of the subscription lifecycle sent by the payment service, after the
+ * confirmation sent by `POST /notifications/subscription-confirmation`.
+ */
+@Controller("notifications/billing")
+@ApiTags("billing")
+@ApiSecurity("api-key")
+@UseGuards(ApiKeyGuard)
+@ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN", "INTERNAL_ERROR")
+@UseInterceptors(IdempotencyInterceptor, RateLimitInterceptor)
+export class BillingController {
+  private readonly logger = new Logger(BillingController.name);
+
+  constructor(private readonly emailQueue: EmailQueueService) {}
+
+  @Post("payment-failed")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "payment-failed" })
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Queue the payment failed (dunning) email", description: BILLING_DESCRIPTION })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendPaymentFailedEmail(@Body() sendPaymentFailedEmailDto: SendPaymentFailedEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    return this.queue("payment-failed", sendPaymentFailedEmailDto, client, "Payment failed email");
+  }
+
+  @Post("card-expiring")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "card-expiring" })
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Queue the card expiring email", description: BILLING_DESCRIPTION })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendCardExpiringEmail(@Body() sendCardExpiringEmailDto: SendCardExpiringEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    return this.queue("card-expiring", sendCardExpiringEmailDto, client, "Card expiring email");
+  }
+
+  @Post("plan-changed")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "plan-changed" })
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Queue the plan changed email", description: `${BILLING_DESCRIPTION} Once sent, the reminders of the subscription are planned for the new plan.` })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendPlanChangedEmail(@Body() sendPlanChangedEmailDto: SendPlanChangedEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    return this.queue("plan-changed", sendPlanChangedEmailDto, client, "Plan changed email");
+  }
+
+  @Post("subscription-cancelled")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "subscription-cancelled" })
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Queue the cancellation confirmation email", description: `${BILLING_DESCRIPTION} Once sent, the pending reminders of the subscription are cancelled.` })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendSubscriptionCancelledEmail(
+    @Body() sendSubscriptionCancelledEmailDto: SendSubscriptionCancelledEmailDto,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<NotificationResponseDto> {
+    return this.queue("subscription-cancelled", sendSubscriptionCancelledEmailDto, client, "Subscription cancelled email");
+  }
+
+  @Post("subscription-expired")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "subscription-expired" })
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Queue the subscription expired email", description: `${BILLING_DESCRIPTION} Once sent, the pending reminders of the subscription are cancelled.` })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendSubscriptionExpiredEmail(
+    @Body() sendSubscriptionExpiredEmailDto: SendSubscriptionExpiredEmailDto,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<NotificationResponseDto> {
+    return this.queue("subscription-expired", sendSubscriptionExpiredEmailDto, client, "Subscription expired email");
+  }
+
+  @Post("refund-issued")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "refund-issued" })
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Queue the refund issued email", description: BILLING_DESCRIPTION })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendRefundIssuedEmail(@Body() sendRefundIssuedEmailDto: SendRefundIssuedEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    return this.queue("refund-issued", sendRefundIssuedEmailDto, client, "Refund issued email");
+  }
+
+  @Post("receipt")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "receipt" })
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Queue the payment receipt email", description: BILLING_DESCRIPTION })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendReceiptEmail(@Body() sendReceiptEmailDto: SendReceiptEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    return this.queue("receipt", sendReceiptEmailDto, client, "Receipt email");
+  }
+
+  /**
+   * The DTOs mirror the templates' schemas, so the request body is the template data.
+   */
+  private async queue(template: string, billingEmailDto: BillingEmailDto, client: ApiClient | undefined, description: string): Promise<NotificationResponseDto> {
+    this.logger.log(`Received ${template} email request for: ${billingEmailDto.email} from ${client?.id ?? "unknown client"}`);
+
+    const { userId, ...payload } = billingEmailDto;
+    const job = await this.emailQueue.enqueue(template, billingEmailDto.email, payload, { userId, clientId: client?.id });
+
+    return toQueuedResponse(job, description);
+  }
+}
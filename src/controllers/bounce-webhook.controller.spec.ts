@@ -0,0 +1,67 @@
+import { Logger } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { WebhookTokenGuard } from "../guards/webhook-token.guard";
+import { SuppressionListService } from "../services/suppression-list.service";
+import { BounceWebhookController } from "./bounce-webhook.controller";
+
+describe("bounceWebhookController", () => {
+  let controller: BounceWebhookController;
+
+  const mockSuppressionList = {
+    add: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [BounceWebhookController],
+      providers: [{ provide: SuppressionListService, useValue: mockSuppressionList }],
+    })
+      .overrideGuard(WebhookTokenGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<BounceWebhookController>(BounceWebhookController);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it("should suppress the addresses reported by the provider", async () => {
+    const result = await controller.receiveSendgridEvents([
+      { email: "bounced@example.com", event: "bounce", type: "bounce", reason: "User unknown" },
+      { email: "ok@example.com", event: "delivered" },
+    ]);
+
+    expect(result).toEqual({ suppressed: 1 });
+    expect(mockSuppressionList.add).toHaveBeenCalledWith({
+      address: "bounced@example.com",
+      reason: "hard-bounce",
+      source: "sendgrid",
+      detail: "User unknown",
+    });
+  });
+
+  it("should log the URL confirming an SNS subscription", async () => {
+    const warn = jest.spyOn(Logger.prototype, "warn");
+
+    const result = await controller.receiveSesNotification(JSON.stringify({
+      Type: "SubscriptionConfirmation",
+      SubscribeURL: "https://sns.eu-west-1.amazonaws.com/confirm",
+    }));
+
+    expect(result).toEqual({ suppressed: 0 });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("https://sns.eu-west-1.amazonaws.com/confirm"));
+  });
+
+  it("should tag DSN bounces with their source", async () => {
+    await controller.receiveDsn("Final-Recipient: rfc822; bounced@example.com\nAction: failed\nStatus: 5.1.1");
+
+    expect(mockSuppressionList.add).toHaveBeenCalledWith(expect.objectContaining({ address: "bounced@example.com", source: "dsn" }));
+  });
+});
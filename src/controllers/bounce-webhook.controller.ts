@@ -0,0 +1,85 @@
+import { Body, Controller, HttpCode, HttpStatus, Logger, Post, UseGuards } from "@nestjs/common";
+import { ApiBody, ApiConsumes, ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from "@nestjs/swagger";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { BounceWebhookResponseDto } from "../dto/suppression.dto";
+import { WebhookTokenGuard } from "../guards/webhook-token.guard";
+import { SuppressionListService } from "../services/suppression-list.service";
+import {
+  BounceEvent,
+  getSnsSubscribeUrl,
+  parseDsn,
+  parseMailgunEvent,
+  parseSendgridEvents,
+  parseSesNotification,
+} from "../utils/bounce-parsers";
+
+/**
+ * Receives bounce and complaint notifications and adds the addresses to the
+ * suppression list. Providers are pointed at these URLs with `?token=<WEBHOOK_TOKEN>`.
+ */
+@Controller("webhooks/bounces")
+@ApiTags("webhooks")
+@ApiSecurity("webhook-token")
+@UseGuards(WebhookTokenGuard)
+@ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN")
+export class BounceWebhookController {
+  private readonly logger = new Logger(BounceWebhookController.name);
+
+  constructor(private readonly suppressionList: SuppressionListService) {}
+
+  @Post("sendgrid")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Receive SendGrid event webhooks", description: "`bounce` events other than `blocked` ones and `spamreport` events are kept; others are ignored." })
+  @ApiBody({ schema: { type: "array", items: { type: "object", additionalProperties: true } } })
+  @ApiOkResponse({ type: BounceWebhookResponseDto })
+  async receiveSendgridEvents(@Body() body: unknown): Promise<BounceWebhookResponseDto> {
+    return this.suppress(parseSendgridEvents(body), "sendgrid");
+  }
+
+  @Post("mailgun")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Receive Mailgun webhooks", description: "Permanent `failed` events and `complained` events are kept; others are ignored." })
+  @ApiBody({ schema: { type: "object", additionalProperties: true } })
+  @ApiOkResponse({ type: BounceWebhookResponseDto })
+  async receiveMailgunEvent(@Body() body: unknown): Promise<BounceWebhookResponseDto> {
+    return this.suppress(parseMailgunEvent(body), "mailgun");
+  }
+
+  @Post("ses")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Receive Amazon SES notifications through SNS", description: "Permanent bounces and complaints are kept. Subscription confirmations are logged with the URL to visit." })
+  @ApiConsumes("application/json", "text/plain")
+  @ApiBody({ schema: { type: "object", additionalProperties: true }, description: "SNS message, sent by SNS as text/plain" })
+  @ApiOkResponse({ type: BounceWebhookResponseDto })
+  async receiveSesNotification(@Body() body: unknown): Promise<BounceWebhookResponseDto> {
+    const subscribeUrl = getSnsSubscribeUrl(body);
+    if (subscribeUrl) {
+      this.logger.warn(`SNS subscription pending - confirm it by visiting ${subscribeUrl}`);
+    }
+
+    return this.suppress(parseSesNotification(body), "ses");
+  }
+
+  /**
+   * Takes the raw bounce message, e.g. piped from the mailbox receiving bounces.
+   */
+  @Post("dsn")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Receive a raw bounce message", description: "Delivery status notifications (RFC 3464) and abuse reports (RFC 5965)." })
+  @ApiConsumes("multipart/report", "message/rfc822", "text/plain")
+  @ApiBody({ schema: { type: "string" } })
+  @ApiOkResponse({ type: BounceWebhookResponseDto })
+  async receiveDsn(@Body() body: unknown): Promise<BounceWebhookResponseDto> {
+    return this.suppress(parseDsn(body), "dsn");
+  }
+
+  private async suppress(events: BounceEvent[], source: string): Promise<BounceWebhookResponseDto> {
+    for (const event of events) {
+      await this.suppressionList.add({ address: event.address, reason: event.reason, source, detail: event.detail });
+    }
+
+    this.logger.log(`Received ${events.length} bounce(s) or complaint(s) from ${source}`);
+    return { suppressed: events.length };
+  }
+}
@@ -0,0 +1,64 @@
+import { Logger } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { DigestService } from "../services/digest.service";
+import { DigestController } from "./digest.controller";
+
+describe("digestController", () => {
+  let controller: DigestController;
+
+  const mockDigestService = {
+    schedule: jest.fn(),
+    scheduleBatch: jest.fn(),
+  };
+
+  const client = { id: "learning-service", scopes: ["notifications:learning"] };
+
+  const digest = {
+    email: "jane@example.com",
+    firstName: "Jane",
+    lastName: "Doe",
+    weekStart: "2025-01-13",
+    conversations: 6,
+    minutesPractised: 95,
+    newVocabulary: ["madrugar"],
+    streakDays: 5,
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    mockDigestService.schedule.mockResolvedValue({ id: "notification-1", status: "scheduled" });
+    mockDigestService.scheduleBatch.mockResolvedValue([{ id: "notification-1" }, { id: "notification-2" }]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [DigestController],
+      providers: [{ provide: DigestService, useValue: mockDigestService }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<DigestController>(DigestController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should schedule the request body as the digest, without the user id", async () => {
+    const scheduled = await controller.scheduleWeeklyDigest({ ...digest, userId: "user-1" }, client);
+
+    expect(scheduled).toEqual({ id: "notification-1", status: "scheduled" });
+    expect(mockDigestService.schedule).toHaveBeenCalledWith(digest, "user-1");
+  });
+
+  it("should schedule every digest of a batch", async () => {
+    const digests = [{ ...digest, userId: "user-1" }, { ...digest, email: "taro@example.com", userId: "user-2" }];
+
+    const scheduled = await controller.scheduleWeeklyDigestBatch({ digests }, client);
+
+    expect(scheduled).toHaveLength(2);
+    expect(mockDigestService.scheduleBatch).toHaveBeenCalledWith(digests);
+  });
+});
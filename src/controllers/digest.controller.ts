@@ -0,0 +1,62 @@
+import { Body, Controller, HttpCode, HttpStatus, Logger, Post, UseGuards } from "@nestjs/common";
+import { ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from "@nestjs/swagger";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { CurrentClient } from "../decorators/current-client.decorator";
+import { RequireScopes } from "../decorators/require-scopes.decorator";
+import { MAX_DIGEST_BATCH_SIZE, ScheduleWeeklyDigestBatchDto, SendWeeklyDigestDto } from "../dto/digest.dto";
+import { ScheduledNotificationDto } from "../dto/scheduled-notification.dto";
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { ApiClient } from "../services/api-key.service";
+import { DigestService } from "../services/digest.service";
+import { ScheduledNotification } from "../services/reminder-scheduler.service";
+
+const DIGEST_DESCRIPTION = "Requires the `notifications:learning` scope. The digest is sent at `DIGEST_SEND_HOUR` in the user's time zone, "
+  + "and replaces the digest still pending for the user. Users can opt out with the `learning-reminders` category.";
+
+/**
+ * Weekly learning digests pushed by the learning service, one at a time or
+ * by its weekly batch job. They are scheduled rather than queued, so that
+ * each user gets theirs at the same local time.
+ */
+@Controller("notifications/digests")
+@ApiTags("digests")
+@ApiSecurity("api-key")
+@UseGuards(ApiKeyGuard)
+@ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN", "INTERNAL_ERROR")
+export class DigestController {
+  private readonly logger = new Logger(DigestController.name);
+
+  constructor(private readonly digestService: DigestService) {}
+
+  @Post("weekly")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("notifications:learning")
+  @ApiOperation({ summary: "Schedule the weekly digest of a user", description: DIGEST_DESCRIPTION })
+  @ApiOkResponse({ type: ScheduledNotificationDto, description: "Digest now planned" })
+  @ApiErrorResponses("VALIDATION_FAILED")
+  async scheduleWeeklyDigest(@Body() sendWeeklyDigestDto: SendWeeklyDigestDto, @CurrentClient() client?: ApiClient): Promise<ScheduledNotification> {
+    this.logger.log(`Received weekly digest for: ${sendWeeklyDigestDto.email} from ${client?.id ?? "unknown client"}`);
+
+    const { userId, ...digest } = sendWeeklyDigestDto;
+    return this.digestService.schedule(digest, userId);
+  }
+
+  @Post("weekly/batch")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("notifications:learning")
+  @ApiOperation({
+    summary: "Schedule the weekly digests of many users",
+    description: `${DIGEST_DESCRIPTION} Up to ${MAX_DIGEST_BATCH_SIZE} digests per request; the whole batch is refused when one is invalid.`,
+  })
+  @ApiOkResponse({ type: [ScheduledNotificationDto], description: "Digests now planned, in the order of the request" })
+  @ApiErrorResponses("VALIDATION_FAILED")
+  async scheduleWeeklyDigestBatch(
+    @Body() scheduleWeeklyDigestBatchDto: ScheduleWeeklyDigestBatchDto,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<ScheduledNotification[]> {
+    this.logger.log(`Received a batch of ${scheduleWeeklyDigestBatchDto.digests.length} weekly digests from ${client?.id ?? "unknown client"}`);
+
+    return this.digestService.scheduleBatch(scheduleWeeklyDigestBatchDto.digests);
+  }
+}
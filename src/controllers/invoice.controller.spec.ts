@@ -0,0 +1,57 @@
+import { NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { Buffer } from "node:buffer";
+
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { InvoiceService } from "../services/invoice.service";
+import { InvoiceController } from "./invoice.controller";
+
+describe("invoiceController", () => {
+  let controller: InvoiceController;
+
+  const invoice = { id: "invoice-1", invoiceNumber: "PP-2025-0042", fileName: "facture-PP-2025-0042.pdf" };
+
+  const mockInvoiceService = {
+    listForUser: jest.fn().mockResolvedValue([invoice]),
+    getPdf: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [InvoiceController],
+      providers: [{ provide: InvoiceService, useValue: mockInvoiceService }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<InvoiceController>(InvoiceController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list the invoices of the user", async () => {
+    await expect(controller.listInvoices({ userId: "user-1" })).resolves.toEqual([invoice]);
+    expect(mockInvoiceService.listForUser).toHaveBeenCalledWith("user-1");
+  });
+
+  it("should send the PDF as a download", async () => {
+    mockInvoiceService.getPdf.mockResolvedValueOnce({ invoice, content: Buffer.from("%PDF-1.4") });
+
+    const file = await controller.downloadInvoice("invoice-1");
+
+    expect(file.getHeaders()).toEqual({
+      type: "application/pdf",
+      disposition: "attachment; filename=\"facture-PP-2025-0042.pdf\"",
+      length: 8,
+    });
+  });
+
+  it("should throw when the invoice does not exist", async () => {
+    mockInvoiceService.getPdf.mockResolvedValueOnce(undefined);
+
+    await expect(controller.downloadInvoice("unknown")).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,50 @@
+import { Controller, Get, HttpCode, HttpStatus, NotFoundException, Param, Query, StreamableFile, UseGuards } from "@nestjs/common";
+import { ApiOkResponse, ApiOperation, ApiProduces, ApiSecurity, ApiTags } from "@nestjs/swagger";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { RequireScopes } from "../decorators/require-scopes.decorator";
+import { InvoiceDto, ListInvoicesQueryDto } from "../dto/invoice.dto";
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { Invoice, InvoiceService } from "../services/invoice.service";
+
+/**
+ * PDF invoices attached to active subscription confirmations and receipts,
+ * kept as they were sent.
+ */
+@Controller("notifications/invoices")
+@ApiTags("invoices")
+@ApiSecurity("api-key")
+@UseGuards(ApiKeyGuard)
+@ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN")
+export class InvoiceController {
+  constructor(private readonly invoiceService: InvoiceService) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("notifications:read")
+  @ApiOperation({ summary: "List the invoices issued to a user", description: "Most recent first, without their PDF." })
+  @ApiOkResponse({ type: [InvoiceDto] })
+  @ApiErrorResponses("VALIDATION_FAILED")
+  async listInvoices(@Query() query: ListInvoicesQueryDto): Promise<Invoice[]> {
+    return this.invoiceService.listForUser(query.userId);
+  }
+
+  @Get(":id")
+  @RequireScopes("notifications:read")
+  @ApiOperation({ summary: "Download the PDF of an invoice" })
+  @ApiProduces("application/pdf")
+  @ApiOkResponse({ schema: { type: "string", format: "binary" }, description: "Invoice PDF" })
+  @ApiErrorResponses("NOT_FOUND")
+  async downloadInvoice(@Param("id") id: string): Promise<StreamableFile> {
+    const pdf = await this.invoiceService.getPdf(id);
+    if (!pdf) {
+      throw new NotFoundException(`Invoice not found: ${id}`);
+    }
+
+    return new StreamableFile(pdf.content, {
+      type: "application/pdf",
+      disposition: `attachment; filename="${pdf.invoice.fileName}"`,
+      length: pdf.content.length,
+    });
+  }
+}
@@ -1,22 +1,59 @@
-import { Logger } from "@nestjs/common";
+import { Logger, NotFoundException } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { Test, TestingModule } from "@nestjs/testing";
 
 import { SendSubscriptionConfirmationEmailDto, SendWelcomeEmailDto } from "../dto/notification.dto";
 import { ApiKeyGuard } from "../guards/api-key.guard";
+import { IdempotencyInterceptor } from "../interceptors/idempotency.interceptor";
+import { RateLimitInterceptor } from "../interceptors/rate-limit.interceptor";
+import { ApiKeyService } from "../services/api-key.service";
+import { EmailQueueService } from "../services/email-queue.service";
 import { EmailService } from "../services/email.service";
+import { NotificationHistoryService } from "../services/notification-history.service";
+import { AddressSuppressedError } from "../services/suppression-list.service";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { TemplateService } from "../utils/template.service";
 import { NotificationController } from "./notification.controller";
 
 describe("notificationController", () => {
   let controller: NotificationController;
   let emailService: jest.Mocked<EmailService>;
+  let emailQueue: jest.Mocked<EmailQueueService>;
+  let notificationHistory: jest.Mocked<NotificationHistoryService>;
 
   const mockEmailService = {
-    sendWelcomeEmail: jest.fn(),
-    sendSubscriptionConfirmationEmail: jest.fn(),
     verifyConnection: jest.fn(),
   };
 
+  const mockEmailQueue = {
+    enqueue: jest.fn(),
+    listDeadLetters: jest.fn(),
+    retryDeadLetter: jest.fn(),
+  };
+
+  const mockTemplateRegistry = {
+    exists: jest.fn(),
+    find: jest.fn(),
+    validate: jest.fn(),
+    list: jest.fn(),
+  };
+
+  const mockTemplateService = {
+    getCacheStatus: jest.fn(),
+    clearCache: jest.fn(),
+    invalidate: jest.fn(),
+  };
+
+  const mockNotificationHistory = {
+    list: jest.fn(),
+    findById: jest.fn(),
+  };
+
+  const mockApiKeyService = {
+    getWarnings: jest.fn().mockReturnValue([]),
+    hasScope: jest.fn((client: { scopes: string[] }, scope: string) => client.scopes.includes(scope)),
+  };
+
   const mockConfigService = {
     get: jest.fn().mockReturnValue("test-api-key"),
   };
@@ -29,19 +66,44 @@ describe("notificationController", () => {
           provide: EmailService,
           useValue: mockEmailService,
         },
+        {
+          provide: EmailQueueService,
+          useValue: mockEmailQueue,
+        },
+        {
+          provide: NotificationHistoryService,
+          useValue: mockNotificationHistory,
+        },
+        {
+          provide: TemplateRegistryService,
+          useValue: mockTemplateRegistry,
+        },
+        {
+          provide: TemplateService,
+          useValue: mockTemplateService,
+        },
+        {
+          provide: ApiKeyService,
+          useValue: mockApiKeyService,
+        },
         {
           provide: ConfigService,
           useValue: mockConfigService,
         },
-        ApiKeyGuard,
       ],
     })
       .overrideGuard(ApiKeyGuard)
       .useValue({ canActivate: () => true })
+      .overrideInterceptor(IdempotencyInterceptor)
+      .useValue({ intercept: (_context, next) => next.handle() })
+      .overrideInterceptor(RateLimitInterceptor)
+      .useValue({ intercept: (_context, next) => next.handle() })
       .compile();
 
     controller = module.get<NotificationController>(NotificationController);
     emailService = module.get(EmailService);
+    emailQueue = module.get(EmailQueueService);
+    notificationHistory = module.get(NotificationHistoryService);
 
     // Mock logger to prevent console output during tests
     jest.spyOn(Logger.prototype, "log").mockImplementation();
@@ -56,6 +118,111 @@ describe("notificationController", () => {
     expect(controller).toBeDefined();
   });
 
+  describe("sendTemplatedEmail", () => {
+    const mockSendDto = {
+      template: "welcome",
+      to: "test@example.com",
+      data: { firstName: "John", lastName: "Doe", provider: "google" },
+      userId: "user123",
+    };
+
+    it("should validate the data and queue the email", async () => {
+      mockTemplateRegistry.find.mockResolvedValue({ name: "welcome", category: "transactional" });
+      mockTemplateRegistry.validate.mockResolvedValue({ valid: true, errors: [] });
+      emailQueue.enqueue.mockResolvedValue({ id: "job-3" } as any);
+
+      const result = await controller.sendTemplatedEmail(mockSendDto);
+
+      expect(mockTemplateRegistry.validate).toHaveBeenCalledWith("welcome", mockSendDto.data);
+      expect(emailQueue.enqueue).toHaveBeenCalledWith("welcome", "test@example.com", mockSendDto.data, { userId: "user123" });
+      expect(result).toEqual({
+        success: true,
+        message: "welcome email queued for delivery",
+        jobId: "job-3",
+        timestamp: expect.any(Date),
+      });
+    });
+
+    it("should queue the email in the requested locale", async () => {
+      mockTemplateRegistry.find.mockResolvedValue({ name: "welcome", category: "transactional" });
+      mockTemplateRegistry.validate.mockResolvedValue({ valid: true, errors: [] });
+      emailQueue.enqueue.mockResolvedValue({ id: "job-3" } as any);
+
+      await controller.sendTemplatedEmail({ ...mockSendDto, locale: "pt-BR" });
+
+      expect(emailQueue.enqueue).toHaveBeenCalledWith("welcome", "test@example.com", { ...mockSendDto.data, locale: "pt-BR" }, { userId: "user123" });
+    });
+
+    it("should reject unknown templates", async () => {
+      mockTemplateRegistry.find.mockResolvedValue(undefined);
+
+      await expect(controller.sendTemplatedEmail({ ...mockSendDto, template: "missing" })).rejects.toMatchObject({ code: "TEMPLATE_NOT_FOUND", status: 404 });
+      expect(emailQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it("should require the scope of templates that have a route of their own", async () => {
+      mockTemplateRegistry.find.mockResolvedValue({ name: "password-reset", category: "transactional", scope: "notifications:security" });
+      mockTemplateRegistry.validate.mockResolvedValue({ valid: true, errors: [] });
+      emailQueue.enqueue.mockResolvedValue({ id: "job-3" } as any);
+      const resetDto = { ...mockSendDto, template: "password-reset" };
+
+      await expect(controller.sendTemplatedEmail(resetDto, { id: "payment-service", scopes: ["notifications:send"] }))
+        .rejects
+        .toMatchObject({ code: "FORBIDDEN", status: 403 });
+      expect(emailQueue.enqueue).not.toHaveBeenCalled();
+
+      await controller.sendTemplatedEmail(resetDto, { id: "auth-service", scopes: ["notifications:send", "notifications:security"] });
+      expect(emailQueue.enqueue).toHaveBeenCalled();
+    });
+
+    it("should reject data that does not match the template schema", async () => {
+      mockTemplateRegistry.find.mockResolvedValue({ name: "welcome", category: "transactional" });
+      mockTemplateRegistry.validate.mockResolvedValue({ valid: false, errors: ["data must have required property 'provider'"] });
+
+      await expect(controller.sendTemplatedEmail(mockSendDto)).rejects.toMatchObject({ code: "VALIDATION_FAILED", status: 400 });
+      expect(emailQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("listTemplates", () => {
+    it("should return the registered templates", async () => {
+      const templates = [{ name: "welcome", subject: "Bienvenue", schema: {} }];
+      mockTemplateRegistry.list.mockResolvedValue(templates);
+
+      expect(await controller.listTemplates()).toBe(templates);
+    });
+  });
+
+  describe("template cache", () => {
+    it("should return the cache status", () => {
+      const status = { size: 1, keys: ["welcome:fr"], watching: false };
+      mockTemplateService.getCacheStatus.mockReturnValue(status);
+
+      expect(controller.getTemplateCache()).toBe(status);
+    });
+
+    it("should clear the whole cache", () => {
+      controller.clearTemplateCache();
+
+      expect(mockTemplateService.clearCache).toHaveBeenCalled();
+    });
+
+    it("should invalidate a single template", async () => {
+      mockTemplateRegistry.exists.mockResolvedValue(true);
+
+      await controller.invalidateTemplate("welcome");
+
+      expect(mockTemplateService.invalidate).toHaveBeenCalledWith("welcome");
+    });
+
+    it("should throw when invalidating an unknown template", async () => {
+      mockTemplateRegistry.exists.mockResolvedValue(false);
+
+      await expect(controller.invalidateTemplate("missing")).rejects.toMatchObject({ code: "TEMPLATE_NOT_FOUND", status: 404 });
+      expect(mockTemplateService.invalidate).not.toHaveBeenCalled();
+    });
+  });
+
   describe("sendWelcomeEmail", () => {
     const mockWelcomeEmailDto: SendWelcomeEmailDto = {
       email: "test@example.com",
@@ -65,51 +232,45 @@ describe("notificationController", () => {
       userId: "user123",
     };
 
-    it("should send welcome email successfully", async () => {
-      emailService.sendWelcomeEmail.mockResolvedValue(true);
+    it("should queue welcome email and return the job id", async () => {
+      emailQueue.enqueue.mockResolvedValue({ id: "job-1" } as any);
 
       const result = await controller.sendWelcomeEmail(mockWelcomeEmailDto);
 
-      expect(emailService.sendWelcomeEmail).toHaveBeenCalledWith({
+      expect(emailQueue.enqueue).toHaveBeenCalledWith("welcome", mockWelcomeEmailDto.email, {
         email: mockWelcomeEmailDto.email,
         firstName: mockWelcomeEmailDto.firstName,
         lastName: mockWelcomeEmailDto.lastName,
         provider: mockWelcomeEmailDto.provider,
-      });
+      }, { userId: "user123" });
       expect(result).toEqual({
         success: true,
-        message: "Welcome email sent successfully",
+        message: "Welcome email queued for delivery",
+        jobId: "job-1",
         timestamp: expect.any(Date),
       });
     });
 
-    it("should handle email service failure", async () => {
-      emailService.sendWelcomeEmail.mockResolvedValue(false);
+    it("should record the client that requested the email", async () => {
+      emailQueue.enqueue.mockResolvedValue({ id: "job-1" } as any);
 
-      const result = await controller.sendWelcomeEmail(mockWelcomeEmailDto);
+      await controller.sendWelcomeEmail(mockWelcomeEmailDto, { id: "auth-service", scopes: ["notifications:welcome"] });
 
-      expect(result).toEqual({
-        success: false,
-        message: "Failed to send welcome email",
-        timestamp: expect.any(Date),
+      expect(emailQueue.enqueue).toHaveBeenCalledWith("welcome", mockWelcomeEmailDto.email, expect.any(Object), {
+        userId: "user123",
+        clientId: "auth-service",
       });
     });
 
-    it("should handle email service error", async () => {
-      const errorMessage = "SMTP connection failed";
-      emailService.sendWelcomeEmail.mockRejectedValue(new Error(errorMessage));
+    it("should let queue errors reach the exception filter", async () => {
+      const errorMessage = "Storage unavailable";
+      emailQueue.enqueue.mockRejectedValue(new Error(errorMessage));
 
-      const result = await controller.sendWelcomeEmail(mockWelcomeEmailDto);
-
-      expect(result).toEqual({
-        success: false,
-        message: `Error: ${errorMessage}`,
-        timestamp: expect.any(Date),
-      });
+      await expect(controller.sendWelcomeEmail(mockWelcomeEmailDto)).rejects.toThrow(errorMessage);
     });
 
     it("should return timestamp within reasonable range", async () => {
-      emailService.sendWelcomeEmail.mockResolvedValue(true);
+      emailQueue.enqueue.mockResolvedValue({ id: "job-1" } as any);
       const beforeTime = new Date();
 
       const result = await controller.sendWelcomeEmail(mockWelcomeEmailDto);
@@ -134,25 +295,26 @@ describe("notificationController", () => {
       userId: "user123",
     };
 
-    it("should send subscription confirmation email successfully", async () => {
-      emailService.sendSubscriptionConfirmationEmail.mockResolvedValue(true);
+    it("should queue subscription confirmation email and return the job id", async () => {
+      emailQueue.enqueue.mockResolvedValue({ id: "job-2" } as any);
 
       const result = await controller.sendSubscriptionConfirmationEmail(mockSubscriptionEmailDto);
 
-      expect(emailService.sendSubscriptionConfirmationEmail).toHaveBeenCalledWith({
+      expect(emailQueue.enqueue).toHaveBeenCalledWith("subscription", mockSubscriptionEmailDto.email, {
         email: mockSubscriptionEmailDto.email,
         firstName: mockSubscriptionEmailDto.firstName,
         lastName: mockSubscriptionEmailDto.lastName,
         plan: mockSubscriptionEmailDto.plan,
         status: mockSubscriptionEmailDto.status,
-        trialEnd: new Date(mockSubscriptionEmailDto.trialEnd!),
-        nextBillingDate: new Date(mockSubscriptionEmailDto.nextBillingDate!),
+        trialEnd: mockSubscriptionEmailDto.trialEnd,
+        nextBillingDate: mockSubscriptionEmailDto.nextBillingDate,
         amount: mockSubscriptionEmailDto.amount,
         currency: mockSubscriptionEmailDto.currency,
-      });
+      }, { userId: "user123" });
       expect(result).toEqual({
         success: true,
-        message: "Subscription confirmation email sent successfully",
+        message: "Subscription confirmation email queued for delivery",
+        jobId: "job-2",
         timestamp: expect.any(Date),
       });
     });
@@ -163,46 +325,102 @@ describe("notificationController", () => {
         trialEnd: undefined,
         nextBillingDate: undefined,
       };
-      emailService.sendSubscriptionConfirmationEmail.mockResolvedValue(true);
+      emailQueue.enqueue.mockResolvedValue({ id: "job-2" } as any);
 
       await controller.sendSubscriptionConfirmationEmail(dtoWithoutDates);
 
-      expect(emailService.sendSubscriptionConfirmationEmail).toHaveBeenCalledWith({
-        email: dtoWithoutDates.email,
-        firstName: dtoWithoutDates.firstName,
-        lastName: dtoWithoutDates.lastName,
-        plan: dtoWithoutDates.plan,
-        status: dtoWithoutDates.status,
+      expect(emailQueue.enqueue).toHaveBeenCalledWith("subscription", dtoWithoutDates.email, expect.objectContaining({
         trialEnd: undefined,
         nextBillingDate: undefined,
-        amount: dtoWithoutDates.amount,
-        currency: dtoWithoutDates.currency,
-      });
+      }), { userId: "user123" });
     });
 
-    it("should handle email service failure", async () => {
-      emailService.sendSubscriptionConfirmationEmail.mockResolvedValue(false);
+    it("should let queue errors reach the exception filter", async () => {
+      const errorMessage = "Storage unavailable";
+      emailQueue.enqueue.mockRejectedValue(new Error(errorMessage));
 
-      const result = await controller.sendSubscriptionConfirmationEmail(mockSubscriptionEmailDto);
+      await expect(controller.sendSubscriptionConfirmationEmail(mockSubscriptionEmailDto)).rejects.toThrow(errorMessage);
+    });
+  });
 
-      expect(result).toEqual({
-        success: false,
-        message: "Failed to send subscription confirmation email",
-        timestamp: expect.any(Date),
-      });
+  describe("notification status", () => {
+    const mockRecord = {
+      id: "job-1",
+      userId: "user123",
+      recipient: "test@example.com",
+      template: "welcome",
+      status: "sent",
+      messageId: "<msg-1@penpal.ai>",
+      attempts: 1,
+      history: [],
+      createdAt: "2024-02-15T00:00:00.000Z",
+      updatedAt: "2024-02-15T00:00:01.000Z",
+    };
+
+    it("should return a notification by id", async () => {
+      notificationHistory.findById.mockResolvedValue(mockRecord as any);
+
+      const result = await controller.getNotification("job-1");
+
+      expect(notificationHistory.findById).toHaveBeenCalledWith("job-1");
+      expect(result).toBe(mockRecord);
     });
 
-    it("should handle email service error", async () => {
-      const errorMessage = "Template not found";
-      emailService.sendSubscriptionConfirmationEmail.mockRejectedValue(new Error(errorMessage));
+    it("should throw when the notification does not exist", async () => {
+      notificationHistory.findById.mockResolvedValue(undefined);
 
-      const result = await controller.sendSubscriptionConfirmationEmail(mockSubscriptionEmailDto);
+      await expect(controller.getNotification("missing")).rejects.toThrow(NotFoundException);
+    });
 
-      expect(result).toEqual({
-        success: false,
-        message: `Error: ${errorMessage}`,
-        timestamp: expect.any(Date),
+    it("should list notifications with parsed filters", async () => {
+      const page = { items: [mockRecord], total: 1, limit: 50, offset: 0 };
+      notificationHistory.list.mockResolvedValue(page as any);
+
+      const result = await controller.listNotifications({
+        userId: "user123",
+        template: "welcome",
+        from: "2024-02-01T00:00:00.000Z",
+        to: "2024-02-28T00:00:00.000Z",
       });
+
+      expect(notificationHistory.list).toHaveBeenCalledWith({
+        userId: "user123",
+        email: undefined,
+        template: "welcome",
+        status: undefined,
+        from: new Date("2024-02-01T00:00:00.000Z"),
+        to: new Date("2024-02-28T00:00:00.000Z"),
+        limit: undefined,
+        offset: undefined,
+      });
+      expect(result).toBe(page);
+    });
+  });
+
+  describe("dead letters", () => {
+    it("should list dead-lettered jobs", async () => {
+      const deadLetters = [{ id: "job-1", error: "550 Mailbox unavailable" }];
+      emailQueue.listDeadLetters.mockResolvedValue(deadLetters as any);
+
+      const result = await controller.listDeadLetters();
+
+      expect(result).toBe(deadLetters);
+    });
+
+    it("should requeue a dead-lettered job", async () => {
+      emailQueue.retryDeadLetter.mockResolvedValue({ id: "job-1" } as any);
+
+      const result = await controller.retryDeadLetter("job-1");
+
+      expect(emailQueue.retryDeadLetter).toHaveBeenCalledWith("job-1");
+      expect(result.success).toBe(true);
+      expect(result.jobId).toBe("job-1");
+    });
+
+    it("should throw when the dead-lettered job does not exist", async () => {
+      emailQueue.retryDeadLetter.mockResolvedValue(undefined);
+
+      await expect(controller.retryDeadLetter("missing")).rejects.toThrow(NotFoundException);
     });
   });
 
@@ -244,6 +462,17 @@ describe("notificationController", () => {
       });
     });
 
+    it("should report API keys about to expire", async () => {
+      emailService.verifyConnection.mockResolvedValue(true);
+      const warning = { client: "auth-service", key: "key-0123456789ab", reason: "expiring", expiresAt: new Date("2024-06-20") };
+      mockApiKeyService.getWarnings.mockReturnValueOnce([warning]);
+
+      const result = await controller.healthCheck();
+
+      expect(result.status).toBe("healthy");
+      expect(result.api_key_warnings).toEqual([warning]);
+    });
+
     it("should include timestamp", async () => {
       emailService.verifyConnection.mockResolvedValue(true);
       const beforeTime = new Date();
@@ -258,7 +487,7 @@ describe("notificationController", () => {
   });
 
   describe("error handling", () => {
-    it("should handle unexpected errors gracefully in sendWelcomeEmail", async () => {
+    it("should not turn unexpected errors into successful responses in sendWelcomeEmail", async () => {
       const mockDto: SendWelcomeEmailDto = {
         email: "test@example.com",
         firstName: "John",
@@ -266,16 +495,12 @@ describe("notificationController", () => {
         provider: "google",
       };
 
-      emailService.sendWelcomeEmail.mockRejectedValue(new Error("Unexpected error"));
-
-      const result = await controller.sendWelcomeEmail(mockDto);
+      emailQueue.enqueue.mockRejectedValue(new Error("Unexpected error"));
 
-      expect(result.success).toBe(false);
-      expect(result.message).toBe("Error: Unexpected error");
-      expect(result.timestamp).toBeInstanceOf(Date);
+      await expect(controller.sendWelcomeEmail(mockDto)).rejects.toThrow("Unexpected error");
     });
 
-    it("should handle unexpected errors gracefully in sendSubscriptionConfirmationEmail", async () => {
+    it("should not turn unexpected errors into successful responses in sendSubscriptionConfirmationEmail", async () => {
       const mockDto: SendSubscriptionConfirmationEmailDto = {
         email: "test@example.com",
         firstName: "John",
@@ -284,20 +509,38 @@ describe("notificationController", () => {
         status: "trial",
       };
 
-      emailService.sendSubscriptionConfirmationEmail.mockRejectedValue(new Error("Unexpected error"));
+      emailQueue.enqueue.mockRejectedValue(new Error("Unexpected error"));
 
-      const result = await controller.sendSubscriptionConfirmationEmail(mockDto);
+      await expect(controller.sendSubscriptionConfirmationEmail(mockDto)).rejects.toThrow("Unexpected error");
+    });
 
-      expect(result.success).toBe(false);
-      expect(result.message).toBe("Error: Unexpected error");
-      expect(result.timestamp).toBeInstanceOf(Date);
+    it("should refuse emails to suppressed addresses with an error code", async () => {
+      const mockDto: SendWelcomeEmailDto = {
+        email: "bounced@example.com",
+        firstName: "John",
+        lastName: "Doe",
+        provider: "google",
+      };
+      emailQueue.enqueue.mockRejectedValue(new AddressSuppressedError({
+        id: "bounced@example.com",
+        address: "bounced@example.com",
+        reason: "hard-bounce",
+        source: "sendgrid",
+        createdAt: new Date().toISOString(),
+      }));
+
+      await expect(controller.sendWelcomeEmail(mockDto)).rejects.toMatchObject({
+        code: "ADDRESS_SUPPRESSED",
+        status: 422,
+        details: { suppression: { reason: "hard-bounce" } },
+      });
     });
   });
 
   describe("logging", () => {
     it("should log welcome email request", async () => {
       const logSpy = jest.spyOn(Logger.prototype, "log");
-      emailService.sendWelcomeEmail.mockResolvedValue(true);
+      emailQueue.enqueue.mockResolvedValue({ id: "job-1" } as any);
 
       const mockDto: SendWelcomeEmailDto = {
         email: "test@example.com",
@@ -315,7 +558,7 @@ describe("notificationController", () => {
 
     it("should log subscription confirmation email request", async () => {
       const logSpy = jest.spyOn(Logger.prototype, "log");
-      emailService.sendSubscriptionConfirmationEmail.mockResolvedValue(true);
+      emailQueue.enqueue.mockResolvedValue({ id: "job-2" } as any);
 
       const mockDto: SendSubscriptionConfirmationEmailDto = {
         email: "test@example.com",
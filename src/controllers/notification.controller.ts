@@ -1,121 +1,280 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
   HttpCode,
   HttpStatus,
   Logger,
+  NotFoundException,
+  Param,
   Post,
+  Query,
   UseGuards,
+  UseInterceptors,
 } from "@nestjs/common";
+import { ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from "@nestjs/swagger";
 
-import { NotificationResponseDto, SendSubscriptionConfirmationEmailDto, SendWelcomeEmailDto } from "../dto/notification.dto";
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { CurrentClient } from "../decorators/current-client.decorator";
+import { Idempotent } from "../decorators/idempotent.decorator";
+import { RateLimited } from "../decorators/rate-limited.decorator";
+import { RequireScopes } from "../decorators/require-scopes.decorator";
+import {
+  DeadLetterDto,
+  HealthResponseDto,
+  ListNotificationsQueryDto,
+  NotificationPageDto,
+  NotificationRecordDto,
+  NotificationResponseDto,
+  SendSubscriptionConfirmationEmailDto,
+  SendTemplatedEmailDto,
+  SendWelcomeEmailDto,
+  TemplateCacheStatusDto,
+  TemplateDefinitionDto,
+} from "../dto/notification.dto";
 import { ApiKeyGuard } from "../guards/api-key.guard";
+import { IdempotencyInterceptor } from "../interceptors/idempotency.interceptor";
+import { RateLimitInterceptor } from "../interceptors/rate-limit.interceptor";
+import { ApiClient, ApiKeyService } from "../services/api-key.service";
+import { DeadLetter, EmailQueueService } from "../services/email-queue.service";
 import { EmailService } from "../services/email.service";
+import { NotificationHistoryService, NotificationPage, NotificationRecord } from "../services/notification-history.service";
+import { ApiError } from "../utils/api-errors";
+import { toQueuedResponse } from "../utils/queued-response";
+import { TemplateDefinition, TemplateRegistryService } from "../utils/template-registry.service";
+import { TemplateCacheStatus, TemplateService } from "../utils/template.service";
 
 @Controller("notifications")
+@ApiTags("notifications")
+@ApiSecurity("api-key")
 @UseGuards(ApiKeyGuard)
+@ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN", "INTERNAL_ERROR")
+@UseInterceptors(IdempotencyInterceptor, RateLimitInterceptor)
 export class NotificationController {
   private readonly logger = new Logger(NotificationController.name);
 
-  constructor(private readonly emailService: EmailService) {}
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly emailQueue: EmailQueueService,
+    private readonly notificationHistory: NotificationHistoryService,
+    private readonly templateRegistry: TemplateRegistryService,
+    private readonly templateService: TemplateService,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
 
-  @Post("welcome-email")
+  @Post("send")
   @HttpCode(HttpStatus.OK)
-  async sendWelcomeEmail(@Body() sendWelcomeEmailDto: SendWelcomeEmailDto): Promise<NotificationResponseDto> {
-    this.logger.log(`Received welcome email request for: ${sendWelcomeEmailDto.email}`);
-
-    try {
-      const success = await this.emailService.sendWelcomeEmail({
-        email: sendWelcomeEmailDto.email,
-        firstName: sendWelcomeEmailDto.firstName,
-        lastName: sendWelcomeEmailDto.lastName,
-        provider: sendWelcomeEmailDto.provider,
-      });
-
-      if (success) {
-        this.logger.log(`Welcome email sent successfully to: ${sendWelcomeEmailDto.email}`);
-        return {
-          success: true,
-          message: "Welcome email sent successfully",
-          timestamp: new Date(),
-        };
-      }
-      else {
-        this.logger.error(`Failed to send welcome email to: ${sendWelcomeEmailDto.email}`);
-        return {
-          success: false,
-          message: "Failed to send welcome email",
-          timestamp: new Date(),
-        };
-      }
+  @Idempotent()
+  @RateLimited({ recipient: "to" })
+  @RequireScopes("notifications:send")
+  @ApiOperation({
+    summary: "Queue an email from any template",
+    description: "Requires the `notifications:send` scope, and the template's own `scope` when it has one, such as the security emails. "
+      + "`data` is validated against the template's schema.",
+  })
+  @ApiOkResponse({ type: NotificationResponseDto, description: "Email queued, or not sent when the user opted out of its category" })
+  @ApiErrorResponses("VALIDATION_FAILED", "TEMPLATE_NOT_FOUND", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendTemplatedEmail(@Body() sendTemplatedEmailDto: SendTemplatedEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    const { template, to, data, userId, locale } = sendTemplatedEmailDto;
+    this.logger.log(`Received ${template} email request for: ${to} from ${client?.id ?? "unknown client"}`);
+
+    const definition = await this.templateRegistry.find(template);
+    if (!definition) {
+      throw new ApiError("TEMPLATE_NOT_FOUND", `Template not found: ${template}`);
     }
-    catch (error) {
-      this.logger.error(`Error processing welcome email request: ${error.message}`, error.stack);
-      return {
-        success: false,
-        message: `Error: ${error.message}`,
-        timestamp: new Date(),
-      };
+    // Templates with a route of their own stay behind its scope
+    if (definition.scope && !(client && this.apiKeyService.hasScope(client, definition.scope))) {
+      throw new ApiError("FORBIDDEN", `Sending the ${template} template requires the ${definition.scope} scope`);
     }
+
+    const validation = await this.templateRegistry.validate(template, data);
+    if (!validation.valid) {
+      throw new ApiError("VALIDATION_FAILED", `Invalid data for template ${template}`, validation.errors);
+    }
+
+    const job = await this.emailQueue.enqueue(template, to, { ...data, locale: locale ?? data.locale }, { userId, clientId: client?.id });
+
+    return toQueuedResponse(job, `${template} email`);
+  }
+
+  @Post("welcome-email")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent("welcome")
+  @RateLimited({ recipient: "email", template: "welcome" })
+  @RequireScopes("notifications:welcome")
+  @ApiOperation({ summary: "Queue the welcome email", description: "Requires the `notifications:welcome` scope." })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendWelcomeEmail(@Body() sendWelcomeEmailDto: SendWelcomeEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    this.logger.log(`Received welcome email request for: ${sendWelcomeEmailDto.email} from ${client?.id ?? "unknown client"}`);
+
+    const job = await this.emailQueue.enqueue("welcome", sendWelcomeEmailDto.email, {
+      email: sendWelcomeEmailDto.email,
+      firstName: sendWelcomeEmailDto.firstName,
+      lastName: sendWelcomeEmailDto.lastName,
+      provider: sendWelcomeEmailDto.provider,
+      locale: sendWelcomeEmailDto.locale,
+    }, { userId: sendWelcomeEmailDto.userId, clientId: client?.id });
+
+    return toQueuedResponse(job, "Welcome email");
   }
 
   @Post("subscription-confirmation")
   @HttpCode(HttpStatus.OK)
-  async sendSubscriptionConfirmationEmail(@Body() sendSubscriptionEmailDto: SendSubscriptionConfirmationEmailDto): Promise<NotificationResponseDto> {
-    this.logger.log(`Received subscription confirmation email request for: ${sendSubscriptionEmailDto.email}`);
-
-    try {
-      const success = await this.emailService.sendSubscriptionConfirmationEmail({
-        email: sendSubscriptionEmailDto.email,
-        firstName: sendSubscriptionEmailDto.firstName,
-        lastName: sendSubscriptionEmailDto.lastName,
-        plan: sendSubscriptionEmailDto.plan,
-        status: sendSubscriptionEmailDto.status,
-        trialEnd: sendSubscriptionEmailDto.trialEnd ? new Date(sendSubscriptionEmailDto.trialEnd) : undefined,
-        nextBillingDate: sendSubscriptionEmailDto.nextBillingDate ? new Date(sendSubscriptionEmailDto.nextBillingDate) : undefined,
-        amount: sendSubscriptionEmailDto.amount,
-        currency: sendSubscriptionEmailDto.currency,
-      });
-
-      if (success) {
-        this.logger.log(`Subscription confirmation email sent successfully to: ${sendSubscriptionEmailDto.email}`);
-        return {
-          success: true,
-          message: "Subscription confirmation email sent successfully",
-          timestamp: new Date(),
-        };
-      }
-      else {
-        this.logger.error(`Failed to send subscription confirmation email to: ${sendSubscriptionEmailDto.email}`);
-        return {
-          success: false,
-          message: "Failed to send subscription confirmation email",
-          timestamp: new Date(),
-        };
-      }
+  @Idempotent("subscription")
+  @RateLimited({ recipient: "email", template: "subscription" })
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Queue the subscription confirmation email", description: "Requires the `notifications:billing` scope." })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendSubscriptionConfirmationEmail(
+    @Body() sendSubscriptionEmailDto: SendSubscriptionConfirmationEmailDto,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<NotificationResponseDto> {
+    this.logger.log(`Received subscription confirmation email request for: ${sendSubscriptionEmailDto.email} from ${client?.id ?? "unknown client"}`);
+
+    const job = await this.emailQueue.enqueue("subscription", sendSubscriptionEmailDto.email, {
+      email: sendSubscriptionEmailDto.email,
+      firstName: sendSubscriptionEmailDto.firstName,
+      lastName: sendSubscriptionEmailDto.lastName,
+      plan: sendSubscriptionEmailDto.plan,
+      status: sendSubscriptionEmailDto.status,
+      trialEnd: sendSubscriptionEmailDto.trialEnd,
+      nextBillingDate: sendSubscriptionEmailDto.nextBillingDate,
+      amount: sendSubscriptionEmailDto.amount,
+      currency: sendSubscriptionEmailDto.currency,
+      locale: sendSubscriptionEmailDto.locale,
+    }, { userId: sendSubscriptionEmailDto.userId, clientId: client?.id });
+
+    return toQueuedResponse(job, "Subscription confirmation email");
+  }
+
+  @Get("templates")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("notifications:read")
+  @ApiOperation({ summary: "List the templates and the data they expect" })
+  @ApiOkResponse({ type: [TemplateDefinitionDto] })
+  async listTemplates(): Promise<TemplateDefinition[]> {
+    return this.templateRegistry.list();
+  }
+
+  @Get("templates/cache")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("admin:templates")
+  @ApiOperation({ summary: "Show the compiled template cache" })
+  @ApiOkResponse({ type: TemplateCacheStatusDto })
+  getTemplateCache(): TemplateCacheStatus {
+    return this.templateService.getCacheStatus();
+  }
+
+  /**
+   * Drops every compiled template so that edited files are picked up without a restart.
+   */
+  @Delete("templates/cache")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes("admin:templates")
+  @ApiOperation({ summary: "Clear the compiled template cache" })
+  @ApiNoContentResponse({ description: "Cache cleared" })
+  clearTemplateCache(): void {
+    this.logger.log("Template cache cleared on request");
+    this.templateService.clearCache();
+  }
+
+  @Delete("templates/cache/:name")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes("admin:templates")
+  @ApiOperation({ summary: "Drop one template from the compiled template cache" })
+  @ApiNoContentResponse({ description: "Template dropped from the cache" })
+  @ApiErrorResponses("TEMPLATE_NOT_FOUND")
+  async invalidateTemplate(@Param("name") name: string): Promise<void> {
+    if (!(await this.templateRegistry.exists(name))) {
+      throw new ApiError("TEMPLATE_NOT_FOUND", `Template not found: ${name}`);
     }
-    catch (error) {
-      this.logger.error(`Error processing subscription confirmation email request: ${error.message}`, error.stack);
-      return {
-        success: false,
-        message: `Error: ${error.message}`,
-        timestamp: new Date(),
-      };
+
+    this.logger.log(`Template cache invalidated on request: ${name}`);
+    this.templateService.invalidate(name);
+  }
+
+  @Get("dead-letters")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("admin:queue")
+  @ApiOperation({ summary: "List the emails that failed every delivery attempt" })
+  @ApiOkResponse({ type: [DeadLetterDto] })
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    return this.emailQueue.listDeadLetters();
+  }
+
+  @Post("dead-letters/:id/retry")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("admin:queue")
+  @ApiOperation({ summary: "Queue a dead-lettered email again" })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("NOT_FOUND")
+  async retryDeadLetter(@Param("id") id: string): Promise<NotificationResponseDto> {
+    const job = await this.emailQueue.retryDeadLetter(id);
+    if (!job) {
+      throw new NotFoundException(`Dead-lettered job not found: ${id}`);
     }
+
+    return {
+      success: true,
+      message: "Email requeued for delivery",
+      jobId: job.id,
+      timestamp: new Date(),
+    };
+  }
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("notifications:read")
+  @ApiOperation({ summary: "Search the notification history", description: "Most recent first." })
+  @ApiOkResponse({ type: NotificationPageDto })
+  @ApiErrorResponses("VALIDATION_FAILED")
+  async listNotifications(@Query() query: ListNotificationsQueryDto): Promise<NotificationPage> {
+    return this.notificationHistory.list({
+      userId: query.userId,
+      email: query.email,
+      template: query.template,
+      status: query.status,
+      from: query.from ? new Date(query.from) : undefined,
+      to: query.to ? new Date(query.to) : undefined,
+      limit: query.limit,
+      offset: query.offset,
+    });
   }
 
   @Get("health")
   @HttpCode(HttpStatus.OK)
-  async healthCheck(): Promise<{ status: string; email_service: string; timestamp: Date }> {
+  @ApiOperation({ summary: "Check the connection to the email provider and the API keys" })
+  @ApiOkResponse({ type: HealthResponseDto })
+  async healthCheck(): Promise<HealthResponseDto> {
     this.logger.log("Health check requested");
 
     const emailServiceHealthy = await this.emailService.verifyConnection();
+    const apiKeyWarnings = this.apiKeyService.getWarnings();
 
     return {
       status: emailServiceHealthy ? "healthy" : "degraded",
       email_service: emailServiceHealthy ? "connected" : "disconnected",
+      // Keys about to expire or deprecated keys still in use
+      ...(apiKeyWarnings.length > 0 && { api_key_warnings: apiKeyWarnings }),
       timestamp: new Date(),
     };
   }
+
+  @Get(":id")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("notifications:read")
+  @ApiOperation({ summary: "Get a notification and its delivery attempts" })
+  @ApiOkResponse({ type: NotificationRecordDto })
+  @ApiErrorResponses("NOT_FOUND")
+  async getNotification(@Param("id") id: string): Promise<NotificationRecord> {
+    const notification = await this.notificationHistory.findById(id);
+    if (!notification) {
+      throw new NotFoundException(`Notification not found: ${id}`);
+    }
+
+    return notification;
+  }
 }
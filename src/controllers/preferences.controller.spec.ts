@@ -0,0 +1,46 @@
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { NotificationPreferencesService } from "../services/notification-preferences.service";
+import { PreferencesController } from "./preferences.controller";
+
+describe("preferencesController", () => {
+  let controller: PreferencesController;
+
+  const preferences = {
+    id: "user123",
+    categories: { "transactional": true, "billing": true, "learning-reminders": false, "product-news": false },
+  };
+
+  const mockPreferencesService = {
+    get: jest.fn().mockResolvedValue(preferences),
+    update: jest.fn().mockResolvedValue(preferences),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PreferencesController],
+      providers: [{ provide: NotificationPreferencesService, useValue: mockPreferencesService }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<PreferencesController>(PreferencesController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should return the user's preferences", async () => {
+    expect(await controller.getPreferences("user123")).toEqual(preferences);
+    expect(mockPreferencesService.get).toHaveBeenCalledWith("user123");
+  });
+
+  it("should update the given categories", async () => {
+    await controller.updatePreferences("user123", { categories: { "learning-reminders": false } });
+
+    expect(mockPreferencesService.update).toHaveBeenCalledWith("user123", { "learning-reminders": false });
+  });
+});
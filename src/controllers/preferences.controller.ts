@@ -0,0 +1,42 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Param, Patch, UseGuards } from "@nestjs/common";
+import { ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from "@nestjs/swagger";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { RequireScopes } from "../decorators/require-scopes.decorator";
+import { NotificationPreferencesDto, UpdatePreferencesDto } from "../dto/preferences.dto";
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { NotificationPreferences, NotificationPreferencesService } from "../services/notification-preferences.service";
+
+/**
+ * Reads and updates which categories of emails a user receives.
+ */
+@Controller("notifications/preferences")
+@ApiTags("preferences")
+@ApiSecurity("api-key")
+@UseGuards(ApiKeyGuard)
+@ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN")
+export class PreferencesController {
+  constructor(private readonly preferencesService: NotificationPreferencesService) {}
+
+  @Get(":userId")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("preferences:read")
+  @ApiOperation({ summary: "Get the categories of emails a user receives", description: "Users who never changed anything receive every category except product news." })
+  @ApiOkResponse({ type: NotificationPreferencesDto })
+  async getPreferences(@Param("userId") userId: string): Promise<NotificationPreferences> {
+    return this.preferencesService.get(userId);
+  }
+
+  /**
+   * Only the categories present in the body are changed.
+   */
+  @Patch(":userId")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("preferences:write")
+  @ApiOperation({ summary: "Turn categories of emails on or off for a user" })
+  @ApiOkResponse({ type: NotificationPreferencesDto })
+  @ApiErrorResponses("VALIDATION_FAILED")
+  async updatePreferences(@Param("userId") userId: string, @Body() updatePreferencesDto: UpdatePreferencesDto): Promise<NotificationPreferences> {
+    return this.preferencesService.update(userId, updatePreferencesDto.categories);
+  }
+}
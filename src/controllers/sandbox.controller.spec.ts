@@ -0,0 +1,81 @@
+import { NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { EmailService } from "../services/email.service";
+import { SandboxService } from "../services/sandbox.service";
+import { SandboxController } from "./sandbox.controller";
+
+describe("sandboxController", () => {
+  let controller: SandboxController;
+
+  const mockEmailService = {
+    isSandboxMode: true,
+  };
+
+  const mockSandboxService = {
+    list: jest.fn(),
+    get: jest.fn(),
+    clear: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    mockEmailService.isSandboxMode = true;
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SandboxController],
+      providers: [
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: SandboxService, useValue: mockSandboxService },
+      ],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<SandboxController>(SandboxController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should serve the viewer page", async () => {
+    const page = await controller.viewer();
+
+    expect(page).toContain("Sandbox mailbox");
+  });
+
+  it("should list captured messages", async () => {
+    const page = { items: [], total: 0, limit: 50, offset: 0 };
+    mockSandboxService.list.mockResolvedValue(page);
+
+    expect(await controller.listMessages({ to: "user@example.com" })).toBe(page);
+    expect(mockSandboxService.list).toHaveBeenCalledWith({ to: "user@example.com" });
+  });
+
+  it("should return a captured message", async () => {
+    mockSandboxService.get.mockResolvedValue({ id: "message-1" });
+
+    expect(await controller.getMessage("message-1")).toEqual({ id: "message-1" });
+  });
+
+  it("should throw when the message does not exist", async () => {
+    mockSandboxService.get.mockResolvedValue(undefined);
+
+    await expect(controller.getMessage("missing")).rejects.toThrow(NotFoundException);
+  });
+
+  it("should clear the mailbox", async () => {
+    await controller.clearMessages();
+
+    expect(mockSandboxService.clear).toHaveBeenCalled();
+  });
+
+  it("should hide the sandbox when emails are really sent", async () => {
+    mockEmailService.isSandboxMode = false;
+
+    await expect(controller.viewer()).rejects.toThrow(NotFoundException);
+    await expect(controller.listMessages({})).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiProduces, ApiSecurity, ApiTags } from "@nestjs/swagger";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { RequireScopes } from "../decorators/require-scopes.decorator";
+import { ListSandboxMessagesQueryDto, SandboxMessageDto, SandboxMessagePageDto } from "../dto/sandbox.dto";
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { EmailService } from "../services/email.service";
+import { SandboxMessage, SandboxMessagePage, SandboxService } from "../services/sandbox.service";
+
+const VIEWER_PAGE = path.join(__dirname, "..", "views", "sandbox-viewer.html");
+
+/**
+ * Browses the emails captured in sandbox mode. Every route answers 404 when
+ * the service is actually sending emails.
+ */
+@Controller("notifications/sandbox")
+@ApiTags("sandbox")
+export class SandboxController {
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly sandboxService: SandboxService,
+  ) {}
+
+  /**
+   * Viewer page. It holds no data: it asks for the API key and calls the routes below.
+   */
+  @Get()
+  @Header("Content-Type", "text/html; charset=utf-8")
+  @ApiOperation({ summary: "Open the sandbox mailbox in a browser" })
+  @ApiProduces("text/html")
+  @ApiOkResponse({ schema: { type: "string" }, description: "Viewer page" })
+  @ApiErrorResponses("NOT_FOUND")
+  async viewer(): Promise<string> {
+    this.assertSandboxMode();
+    return fs.promises.readFile(VIEWER_PAGE, "utf-8");
+  }
+
+  @Get("messages")
+  @UseGuards(ApiKeyGuard)
+  @RequireScopes("admin:sandbox")
+  @ApiSecurity("api-key")
+  @ApiOperation({ summary: "List the captured emails", description: "Most recent first." })
+  @ApiOkResponse({ type: SandboxMessagePageDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "UNAUTHORIZED", "FORBIDDEN", "NOT_FOUND")
+  async listMessages(@Query() query: ListSandboxMessagesQueryDto): Promise<SandboxMessagePage> {
+    this.assertSandboxMode();
+    return this.sandboxService.list(query);
+  }
+
+  @Get("messages/:id")
+  @UseGuards(ApiKeyGuard)
+  @RequireScopes("admin:sandbox")
+  @ApiSecurity("api-key")
+  @ApiOperation({ summary: "Get a captured email with its headers and bodies" })
+  @ApiOkResponse({ type: SandboxMessageDto })
+  @ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN", "NOT_FOUND")
+  async getMessage(@Param("id") id: string): Promise<SandboxMessage> {
+    this.assertSandboxMode();
+
+    const message = await this.sandboxService.get(id);
+    if (!message) {
+      throw new NotFoundException(`Sandbox message not found: ${id}`);
+    }
+
+    return message;
+  }
+
+  @Delete("messages")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(ApiKeyGuard)
+  @RequireScopes("admin:sandbox")
+  @ApiSecurity("api-key")
+  @ApiOperation({ summary: "Delete every captured email" })
+  @ApiNoContentResponse({ description: "Mailbox emptied" })
+  @ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN", "NOT_FOUND")
+  async clearMessages(): Promise<void> {
+    this.assertSandboxMode();
+    await this.sandboxService.clear();
+  }
+
+  private assertSandboxMode(): void {
+    if (!this.emailService.isSandboxMode) {
+      throw new NotFoundException("Sandbox mode is disabled");
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { ApiKeyService } from "../services/api-key.service";
+import { ReminderSchedulerService } from "../services/reminder-scheduler.service";
+import { ScheduledNotificationController } from "./scheduled-notification.controller";
+
+describe("scheduledNotificationController", () => {
+  let controller: ScheduledNotificationController;
+
+  const reminder = {
+    id: "reminder-1",
+    template: "trial-ending",
+    recipient: "jane@example.com",
+    payload: {},
+    userId: "user-1",
+    status: "scheduled",
+    sendAt: "2026-01-12T00:00:00.000Z",
+    eventAt: "2026-01-15T00:00:00.000Z",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  const mockReminderScheduler = {
+    listUpcoming: jest.fn().mockResolvedValue([reminder]),
+    planSubscriptionReminders: jest.fn().mockResolvedValue([reminder]),
+    cancelForUser: jest.fn().mockResolvedValue(2),
+    get: jest.fn(),
+    reschedule: jest.fn(),
+    cancel: jest.fn(),
+  };
+
+  const mockApiKeyService = {
+    hasScope: jest.fn((client: { scopes: string[] }, scope: string) => client.scopes.includes(scope)),
+  };
+
+  const billingClient = { id: "payment-service", scopes: ["notifications:billing"] };
+  const learningClient = { id: "learning-service", scopes: ["notifications:learning"] };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ScheduledNotificationController],
+      providers: [
+        { provide: ReminderSchedulerService, useValue: mockReminderScheduler },
+        { provide: ApiKeyService, useValue: mockApiKeyService },
+      ],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<ScheduledNotificationController>(ScheduledNotificationController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list the upcoming notifications of the user", async () => {
+    await expect(controller.listScheduledNotifications({ userId: "user-1" })).resolves.toEqual([reminder]);
+    expect(mockReminderScheduler.listUpcoming).toHaveBeenCalledWith("user-1");
+  });
+
+  it("should plan the reminders of a changed subscription for the user", async () => {
+    const subscription = { email: "jane@example.com", firstName: "Jane", lastName: "Doe", plan: "yearly", status: "active" } as const;
+
+    await controller.updateSubscriptionReminders("user-1", subscription);
+
+    expect(mockReminderScheduler.planSubscriptionReminders).toHaveBeenCalledWith("jane@example.com", subscription, "user-1");
+  });
+
+  it("should report how many reminders were cancelled", async () => {
+    await expect(controller.cancelSubscriptionReminders("user-1")).resolves.toEqual({ cancelled: 2 });
+  });
+
+  it("should reschedule a pending notification", async () => {
+    mockReminderScheduler.get.mockResolvedValueOnce(reminder);
+    mockReminderScheduler.reschedule.mockResolvedValueOnce(reminder);
+
+    await controller.rescheduleNotification("reminder-1", { sendAt: "2026-01-13T00:00:00.000Z" }, billingClient);
+
+    expect(mockReminderScheduler.reschedule).toHaveBeenCalledWith("reminder-1", new Date("2026-01-13T00:00:00.000Z"));
+  });
+
+  it("should return 404 for notifications that are no longer pending", async () => {
+    mockReminderScheduler.get.mockResolvedValue(reminder);
+
+    await expect(controller.rescheduleNotification("reminder-1", { sendAt: "2026-01-13T00:00:00.000Z" }, billingClient)).rejects.toThrow(NotFoundException);
+    await expect(controller.cancelNotification("reminder-1", billingClient)).rejects.toThrow(NotFoundException);
+  });
+
+  it("should only reschedule notifications planned by a service of the caller's scopes", async () => {
+    mockReminderScheduler.get.mockResolvedValue({ ...reminder, template: "weekly-digest" });
+    mockReminderScheduler.reschedule.mockResolvedValueOnce(reminder);
+
+    await expect(controller.rescheduleNotification("reminder-1", { sendAt: "2026-01-13T00:00:00.000Z" }, billingClient)).rejects.toThrow(NotFoundException);
+    expect(mockReminderScheduler.reschedule).not.toHaveBeenCalled();
+
+    await controller.rescheduleNotification("reminder-1", { sendAt: "2026-01-13T00:00:00.000Z" }, learningClient);
+    expect(mockReminderScheduler.reschedule).toHaveBeenCalledWith("reminder-1", new Date("2026-01-13T00:00:00.000Z"));
+  });
+
+  it("should only cancel notifications planned by a service of the caller's scopes", async () => {
+    mockReminderScheduler.get.mockResolvedValue(reminder);
+    mockReminderScheduler.cancel.mockResolvedValueOnce({ ...reminder, status: "cancelled" });
+
+    await expect(controller.cancelNotification("reminder-1", learningClient)).rejects.toThrow(NotFoundException);
+    expect(mockReminderScheduler.cancel).not.toHaveBeenCalled();
+
+    await controller.cancelNotification("reminder-1", billingClient);
+    expect(mockReminderScheduler.cancel).toHaveBeenCalledWith("reminder-1");
+  });
+});
@@ -0,0 +1,124 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, NotFoundException, Param, Patch, Put, Query, UseGuards } from "@nestjs/common";
+import { ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from "@nestjs/swagger";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { CurrentClient } from "../decorators/current-client.decorator";
+import { ApiScope, RequireScopes } from "../decorators/require-scopes.decorator";
+import {
+  CancelledNotificationsDto,
+  ListScheduledNotificationsQueryDto,
+  RescheduleNotificationDto,
+  ScheduledNotificationDto,
+  UpdateSubscriptionRemindersDto,
+} from "../dto/scheduled-notification.dto";
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { ApiClient, ApiKeyService } from "../services/api-key.service";
+import { DIGEST_TEMPLATE } from "../services/digest.service";
+import { ReminderSchedulerService, ScheduledNotification, SUBSCRIPTION_REMINDERS } from "../services/reminder-scheduler.service";
+
+const OWNER_SCOPE_DESCRIPTION = "Requires the scope of the service that planned it: `notifications:billing` for subscription reminders, "
+  + "`notifications:learning` for weekly digests. Notifications outside the caller's scopes answer 404.";
+
+/**
+ * Lists and changes the notifications planned ahead: the reminders of
+ * subscriptions, e.g. when one changes plan or ends, and the weekly digests.
+ */
+@Controller("notifications/scheduled")
+@ApiTags("scheduled")
+@ApiSecurity("api-key")
+@UseGuards(ApiKeyGuard)
+@ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN")
+export class ScheduledNotificationController {
+  constructor(
+    private readonly reminderScheduler: ReminderSchedulerService,
+    private readonly apiKeyService: ApiKeyService,
+  ) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("notifications:read")
+  @ApiOperation({ summary: "List the upcoming notifications of a user", description: "Soonest first." })
+  @ApiOkResponse({ type: [ScheduledNotificationDto] })
+  @ApiErrorResponses("VALIDATION_FAILED")
+  async listScheduledNotifications(@Query() query: ListScheduledNotificationsQueryDto): Promise<ScheduledNotification[]> {
+    return this.reminderScheduler.listUpcoming(query.userId);
+  }
+
+  /**
+   * The reminders still pending are replaced by those the new state calls for,
+   * without sending a new confirmation.
+   */
+  @Put("subscriptions/:userId")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Plan the reminders of a subscription again after it changed", description: "Requires the `notifications:billing` scope." })
+  @ApiOkResponse({ type: [ScheduledNotificationDto], description: "Reminders now planned" })
+  @ApiErrorResponses("VALIDATION_FAILED")
+  async updateSubscriptionReminders(
+    @Param("userId") userId: string,
+    @Body() updateSubscriptionRemindersDto: UpdateSubscriptionRemindersDto,
+  ): Promise<ScheduledNotification[]> {
+    return this.reminderScheduler.planSubscriptionReminders(updateSubscriptionRemindersDto.email, updateSubscriptionRemindersDto, userId);
+  }
+
+  @Delete("subscriptions/:userId")
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("notifications:billing")
+  @ApiOperation({ summary: "Cancel the pending reminders of a user's subscription", description: "Requires the `notifications:billing` scope." })
+  @ApiOkResponse({ type: CancelledNotificationsDto })
+  async cancelSubscriptionReminders(@Param("userId") userId: string): Promise<CancelledNotificationsDto> {
+    return { cancelled: await this.reminderScheduler.cancelForUser(userId) };
+  }
+
+  @Patch(":id")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Move a pending notification to another date", description: OWNER_SCOPE_DESCRIPTION })
+  @ApiOkResponse({ type: ScheduledNotificationDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "BAD_REQUEST", "NOT_FOUND")
+  async rescheduleNotification(
+    @Param("id") id: string,
+    @Body() rescheduleNotificationDto: RescheduleNotificationDto,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<ScheduledNotification> {
+    await this.findOwned(id, client);
+
+    const reminder = await this.reminderScheduler.reschedule(id, new Date(rescheduleNotificationDto.sendAt));
+    if (!reminder) {
+      throw new NotFoundException(`No pending notification: ${id}`);
+    }
+    return reminder;
+  }
+
+  @Delete(":id")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Cancel a pending notification", description: OWNER_SCOPE_DESCRIPTION })
+  @ApiNoContentResponse({ description: "Notification cancelled" })
+  @ApiErrorResponses("NOT_FOUND")
+  async cancelNotification(@Param("id") id: string, @CurrentClient() client?: ApiClient): Promise<void> {
+    await this.findOwned(id, client);
+
+    if (!(await this.reminderScheduler.cancel(id))) {
+      throw new NotFoundException(`No pending notification: ${id}`);
+    }
+  }
+
+  /**
+   * Hides the notifications planned by other services, so that one service
+   * cannot tell another's apart from missing ones.
+   */
+  private async findOwned(id: string, client: ApiClient | undefined): Promise<ScheduledNotification> {
+    const notification = await this.reminderScheduler.get(id);
+    const scope = notification && this.ownerScope(notification.template);
+    if (!notification || !scope || !client || !this.apiKeyService.hasScope(client, scope)) {
+      throw new NotFoundException(`No pending notification: ${id}`);
+    }
+    return notification;
+  }
+
+  private ownerScope(template: string): ApiScope | undefined {
+    if (template === DIGEST_TEMPLATE) {
+      return "notifications:learning";
+    }
+    return SUBSCRIPTION_REMINDERS.includes(template) ? "notifications:billing" : undefined;
+  }
+}
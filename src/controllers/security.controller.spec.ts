@@ -0,0 +1,149 @@
+import { Logger } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { IdempotencyInterceptor } from "../interceptors/idempotency.interceptor";
+import { RateLimitInterceptor } from "../interceptors/rate-limit.interceptor";
+import { EmailQueueService } from "../services/email-queue.service";
+import { AddressSuppressedError, SuppressedAddress } from "../services/suppression-list.service";
+import { SecurityController } from "./security.controller";
+
+describe("securityController", () => {
+  let controller: SecurityController;
+
+  const mockEmailQueue = {
+    enqueue: jest.fn(),
+  };
+
+  const client = { id: "auth-service", scopes: ["notifications:security"] };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    mockEmailQueue.enqueue.mockResolvedValue({ id: "job-1", status: "queued" });
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SecurityController],
+      providers: [{ provide: EmailQueueService, useValue: mockEmailQueue }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .overrideInterceptor(IdempotencyInterceptor)
+      .useValue({ intercept: (_context, next) => next.handle() })
+      .overrideInterceptor(RateLimitInterceptor)
+      .useValue({ intercept: (_context, next) => next.handle() })
+      .compile();
+
+    controller = module.get<SecurityController>(SecurityController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should queue the request body as the template data, without the user id", async () => {
+    const response = await controller.sendPasswordResetEmail({
+      email: "jane@example.com",
+      firstName: "Jane",
+      lastName: "Doe",
+      userId: "user-1",
+      resetUrl: "https://app.penpal-ai.com/reset-password?token=abc123",
+      expiresAt: "2025-01-15T11:30:00.000Z",
+      ipAddress: "203.0.113.42",
+      timeZone: "Europe/Paris",
+    }, client);
+
+    expect(response).toMatchObject({ success: true, message: "Password reset email queued for delivery", jobId: "job-1" });
+    expect(mockEmailQueue.enqueue).toHaveBeenCalledWith("password-reset", "jane@example.com", {
+      email: "jane@example.com",
+      firstName: "Jane",
+      lastName: "Doe",
+      resetUrl: "https://app.penpal-ai.com/reset-password?token=abc123",
+      expiresAt: "2025-01-15T11:30:00.000Z",
+      ipAddress: "203.0.113.42",
+      timeZone: "Europe/Paris",
+    }, { userId: "user-1", clientId: "auth-service" });
+  });
+
+  it("should send the email changed email to both addresses, with the revert link to the previous one only", async () => {
+    mockEmailQueue.enqueue.mockResolvedValueOnce({ id: "job-1", status: "queued" });
+    mockEmailQueue.enqueue.mockResolvedValueOnce({ id: "job-2", status: "queued" });
+
+    const response = await controller.sendEmailChangedEmail({
+      firstName: "Jane",
+      lastName: "Doe",
+      userId: "user-1",
+      previousEmail: "jane@example.com",
+      newEmail: "jane@example.org",
+      revertUrl: "https://app.penpal-ai.com/revert-email?token=abc123",
+      expiresAt: "2025-01-22T10:30:00.000Z",
+    }, client);
+
+    const data = { firstName: "Jane", lastName: "Doe", previousEmail: "jane@example.com", newEmail: "jane@example.org", expiresAt: "2025-01-22T10:30:00.000Z" };
+    expect(mockEmailQueue.enqueue).toHaveBeenNthCalledWith(1, "email-changed", "jane@example.com", {
+      ...data,
+      revertUrl: "https://app.penpal-ai.com/revert-email?token=abc123",
+    }, { userId: "user-1", clientId: "auth-service" });
+    expect(mockEmailQueue.enqueue).toHaveBeenNthCalledWith(2, "email-changed", "jane@example.org", data, { userId: "user-1", clientId: "auth-service" });
+    expect(response.previousAddress).toMatchObject({ jobId: "job-1", message: "Email changed email to the previous address queued for delivery" });
+    expect(response.newAddress).toMatchObject({ jobId: "job-2", message: "Email changed email to the new address queued for delivery" });
+  });
+
+  it("should still tell the new address when the previous one is suppressed", async () => {
+    mockEmailQueue.enqueue.mockRejectedValueOnce(new AddressSuppressedError({
+      id: "jane@example.com",
+      address: "jane@example.com",
+      reason: "hard-bounce",
+      source: "ses",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    } as SuppressedAddress));
+    mockEmailQueue.enqueue.mockResolvedValueOnce({ id: "job-2", status: "queued" });
+
+    const response = await controller.sendEmailChangedEmail({
+      firstName: "Jane",
+      lastName: "Doe",
+      previousEmail: "jane@example.com",
+      newEmail: "jane@example.org",
+    }, client);
+
+    expect(response.success).toBe(true);
+    expect(response.previousAddress).toMatchObject({
+      success: false,
+      message: "Email changed email to the previous address not sent: hard-bounce",
+      suppression: { reason: "hard-bounce" },
+    });
+    expect(response.newAddress).toMatchObject({ success: true, jobId: "job-2" });
+  });
+
+  it("should report an address that could not be queued rather than fail the request", async () => {
+    jest.spyOn(Logger.prototype, "error").mockImplementation();
+    mockEmailQueue.enqueue.mockResolvedValueOnce({ id: "job-1", status: "queued" });
+    mockEmailQueue.enqueue.mockRejectedValueOnce(new Error("Storage unavailable"));
+
+    const response = await controller.sendEmailChangedEmail({
+      firstName: "Jane",
+      lastName: "Doe",
+      previousEmail: "jane@example.com",
+      newEmail: "jane@example.org",
+    }, client);
+
+    expect(response.success).toBe(true);
+    expect(response.previousAddress).toMatchObject({ success: true, jobId: "job-1" });
+    expect(response.newAddress).toEqual({
+      success: false,
+      message: "Email changed email to the new address not sent: Storage unavailable",
+      timestamp: expect.any(Date),
+    });
+  });
+
+  it("should refuse the request when both addresses are suppressed", async () => {
+    const error = new AddressSuppressedError({ id: "jane@example.com", address: "jane@example.com", reason: "complaint", source: "ses" } as SuppressedAddress);
+    mockEmailQueue.enqueue.mockRejectedValue(error);
+
+    await expect(controller.sendEmailChangedEmail({
+      firstName: "Jane",
+      lastName: "Doe",
+      previousEmail: "jane@example.com",
+      newEmail: "jane@example.org",
+    }, client)).rejects.toBe(error);
+  });
+});
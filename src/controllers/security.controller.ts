@@ -0,0 +1,160 @@
+import { Body, Controller, HttpCode, HttpStatus, Logger, Post, UseGuards, UseInterceptors } from "@nestjs/common";
+import { ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from "@nestjs/swagger";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { CurrentClient } from "../decorators/current-client.decorator";
+import { Idempotent } from "../decorators/idempotent.decorator";
+import { RateLimited } from "../decorators/rate-limited.decorator";
+import { RequireScopes } from "../decorators/require-scopes.decorator";
+import { NotificationResponseDto } from "../dto/notification.dto";
+import {
+  EmailChangedResponseDto,
+  SecurityEmailDto,
+  SendEmailChangedEmailDto,
+  SendEmailVerificationEmailDto,
+  SendNewLoginEmailDto,
+  SendPasswordChangedEmailDto,
+  SendPasswordResetEmailDto,
+} from "../dto/security.dto";
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { IdempotencyInterceptor } from "../interceptors/idempotency.interceptor";
+import { RateLimitInterceptor } from "../interceptors/rate-limit.interceptor";
+import { ApiClient } from "../services/api-key.service";
+import { EmailJob, EmailQueueService } from "../services/email-queue.service";
+import { AddressSuppressedError } from "../services/suppression-list.service";
+import { toQueuedResponse } from "../utils/queued-response";
+
+const SECURITY_DESCRIPTION = "Requires the `notifications:security` scope. Times are shown in `timeZone`, UTC by default. "
+  + "Security emails are transactional: they are sent whatever the user's preferences.";
+
+/**
+ * Account security emails sent by the auth service. Their links are generated
+ * by the auth service, which also decides when they expire.
+ */
+@Controller("notifications/security")
+@ApiTags("security")
+@ApiSecurity("api-key")
+@UseGuards(ApiKeyGuard)
+@ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN", "INTERNAL_ERROR")
+@UseInterceptors(IdempotencyInterceptor, RateLimitInterceptor)
+export class SecurityController {
+  private readonly logger = new Logger(SecurityController.name);
+
+  constructor(private readonly emailQueue: EmailQueueService) {}
+
+  @Post("email-verification")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "email-verification" })
+  @RequireScopes("notifications:security")
+  @ApiOperation({ summary: "Queue the email address verification email", description: SECURITY_DESCRIPTION })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendEmailVerificationEmail(
+    @Body() sendEmailVerificationEmailDto: SendEmailVerificationEmailDto,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<NotificationResponseDto> {
+    return this.queue("email-verification", sendEmailVerificationEmailDto, client, "Email verification email");
+  }
+
+  @Post("password-reset")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "password-reset" })
+  @RequireScopes("notifications:security")
+  @ApiOperation({ summary: "Queue the password reset email", description: SECURITY_DESCRIPTION })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendPasswordResetEmail(@Body() sendPasswordResetEmailDto: SendPasswordResetEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    return this.queue("password-reset", sendPasswordResetEmailDto, client, "Password reset email");
+  }
+
+  @Post("password-changed")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "password-changed" })
+  @RequireScopes("notifications:security")
+  @ApiOperation({ summary: "Queue the password changed email", description: SECURITY_DESCRIPTION })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendPasswordChangedEmail(@Body() sendPasswordChangedEmailDto: SendPasswordChangedEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    return this.queue("password-changed", sendPasswordChangedEmailDto, client, "Password changed email");
+  }
+
+  @Post("email-changed")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "previousEmail", template: "email-changed" })
+  @RequireScopes("notifications:security")
+  @ApiOperation({
+    summary: "Queue the email changed emails, to the previous and the new address",
+    description: `${SECURITY_DESCRIPTION} The revert link is only sent to the previous address. An address on the suppression list `
+      + "or that could not be queued is reported in its part of the response, while the other one still gets its email; "
+      + "the request only fails when neither address got it, e.g. with `ADDRESS_SUPPRESSED` when both are suppressed.",
+  })
+  @ApiOkResponse({ type: EmailChangedResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendEmailChangedEmail(@Body() sendEmailChangedEmailDto: SendEmailChangedEmailDto, @CurrentClient() client?: ApiClient): Promise<EmailChangedResponseDto> {
+    const { userId, revertUrl, ...payload } = sendEmailChangedEmailDto;
+    this.logger.log(`Received email-changed email request for: ${payload.previousEmail} and ${payload.newEmail} from ${client?.id ?? "unknown client"}`);
+
+    // Whoever changed the address must not be able to revert it from the new one
+    const [previousAddress, newAddress] = await Promise.allSettled([
+      this.emailQueue.enqueue("email-changed", payload.previousEmail, { ...payload, revertUrl }, { userId, clientId: client?.id }),
+      this.emailQueue.enqueue("email-changed", payload.newEmail, payload, { userId, clientId: client?.id }),
+    ]);
+
+    // Once one email is queued, failing the request would make a retry queue it again
+    if (previousAddress.status === "rejected" && newAddress.status === "rejected") {
+      throw previousAddress.reason;
+    }
+
+    return {
+      success: true,
+      previousAddress: this.toAddressResponse(previousAddress, "Email changed email to the previous address"),
+      newAddress: this.toAddressResponse(newAddress, "Email changed email to the new address"),
+    };
+  }
+
+  @Post("new-login")
+  @HttpCode(HttpStatus.OK)
+  @Idempotent()
+  @RateLimited({ recipient: "email", template: "new-login" })
+  @RequireScopes("notifications:security")
+  @ApiOperation({ summary: "Queue the new device sign-in alert", description: SECURITY_DESCRIPTION })
+  @ApiOkResponse({ type: NotificationResponseDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "IDEMPOTENCY_CONFLICT", "ADDRESS_SUPPRESSED", "RATE_LIMITED")
+  async sendNewLoginEmail(@Body() sendNewLoginEmailDto: SendNewLoginEmailDto, @CurrentClient() client?: ApiClient): Promise<NotificationResponseDto> {
+    return this.queue("new-login", sendNewLoginEmailDto, client, "New login email");
+  }
+
+  /**
+   * The queued job of one address, or why it could not be queued: the reason
+   * it is on the suppression list, or the error.
+   */
+  private toAddressResponse(result: PromiseSettledResult<EmailJob>, description: string): NotificationResponseDto {
+    if (result.status === "fulfilled") {
+      return toQueuedResponse(result.value, description);
+    }
+
+    if (result.reason instanceof AddressSuppressedError) {
+      const { reason } = result.reason.entry;
+      return { success: false, message: `${description} not sent: ${reason}`, suppression: { reason }, timestamp: new Date() };
+    }
+
+    this.logger.error(`Failed to queue the ${description.toLowerCase()}: ${result.reason.message}`);
+    return { success: false, message: `${description} not sent: ${result.reason.message}`, timestamp: new Date() };
+  }
+
+  /**
+   * The DTOs mirror the templates' schemas, so the request body is the template data.
+   */
+  private async queue(template: string, securityEmailDto: SecurityEmailDto, client: ApiClient | undefined, description: string): Promise<NotificationResponseDto> {
+    this.logger.log(`Received ${template} email request for: ${securityEmailDto.email} from ${client?.id ?? "unknown client"}`);
+
+    const { userId, ...payload } = securityEmailDto;
+    const job = await this.emailQueue.enqueue(template, securityEmailDto.email, payload, { userId, clientId: client?.id });
+
+    return toQueuedResponse(job, description);
+  }
+}
@@ -0,0 +1,70 @@
+import { NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { SuppressionListService } from "../services/suppression-list.service";
+import { SuppressionController } from "./suppression.controller";
+
+describe("suppressionController", () => {
+  let controller: SuppressionController;
+
+  const entry = {
+    id: "jane@example.com",
+    address: "jane@example.com",
+    reason: "manual",
+    source: "admin-tools",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  const mockSuppressionList = {
+    list: jest.fn().mockResolvedValue({ items: [entry], total: 1, limit: 50, offset: 0 }),
+    add: jest.fn().mockResolvedValue(entry),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SuppressionController],
+      providers: [{ provide: SuppressionListService, useValue: mockSuppressionList }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<SuppressionController>(SuppressionController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should list suppressed addresses", async () => {
+    expect((await controller.listSuppressions({ reason: "manual", limit: 10 })).items).toEqual([entry]);
+    expect(mockSuppressionList.list).toHaveBeenCalledWith({ reason: "manual", limit: 10, offset: undefined });
+  });
+
+  it("should add addresses as manual entries from the calling client by default", async () => {
+    await controller.addSuppression({ address: "jane@example.com" }, { id: "admin-tools", scopes: [] } as any);
+
+    expect(mockSuppressionList.add).toHaveBeenCalledWith({
+      address: "jane@example.com",
+      reason: "manual",
+      source: "admin-tools",
+      detail: undefined,
+    });
+  });
+
+  it("should remove addresses", async () => {
+    mockSuppressionList.remove.mockResolvedValue(true);
+
+    await controller.removeSuppression("jane@example.com");
+
+    expect(mockSuppressionList.remove).toHaveBeenCalledWith("jane@example.com");
+  });
+
+  it("should return 404 for addresses that are not suppressed", async () => {
+    mockSuppressionList.remove.mockResolvedValue(false);
+
+    await expect(controller.removeSuppression("jane@example.com")).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,62 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, NotFoundException, Param, Post, Query, UseGuards } from "@nestjs/common";
+import { ApiNoContentResponse, ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from "@nestjs/swagger";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { CurrentClient } from "../decorators/current-client.decorator";
+import { RequireScopes } from "../decorators/require-scopes.decorator";
+import { AddSuppressionDto, ListSuppressionsQueryDto, SuppressedAddressDto, SuppressionListPageDto } from "../dto/suppression.dto";
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { ApiClient } from "../services/api-key.service";
+import { SuppressedAddress, SuppressionListPage, SuppressionListService } from "../services/suppression-list.service";
+
+/**
+ * Manages the addresses that are never mailed again.
+ */
+@Controller("notifications/suppressions")
+@ApiTags("suppressions")
+@ApiSecurity("api-key")
+@UseGuards(ApiKeyGuard)
+@ApiErrorResponses("UNAUTHORIZED", "FORBIDDEN")
+export class SuppressionController {
+  constructor(private readonly suppressionList: SuppressionListService) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("suppressions:read")
+  @ApiOperation({ summary: "List the suppressed addresses", description: "Most recent first." })
+  @ApiOkResponse({ type: SuppressionListPageDto })
+  @ApiErrorResponses("VALIDATION_FAILED")
+  async listSuppressions(@Query() query: ListSuppressionsQueryDto): Promise<SuppressionListPage> {
+    return this.suppressionList.list({ reason: query.reason, limit: query.limit, offset: query.offset });
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @RequireScopes("suppressions:write")
+  @ApiOperation({ summary: "Stop sending emails to an address", description: "An address already on the list keeps its entry." })
+  @ApiOkResponse({ type: SuppressedAddressDto })
+  @ApiErrorResponses("VALIDATION_FAILED")
+  async addSuppression(@Body() addSuppressionDto: AddSuppressionDto, @CurrentClient() client?: ApiClient): Promise<SuppressedAddress> {
+    return this.suppressionList.add({
+      address: addSuppressionDto.address,
+      reason: addSuppressionDto.reason ?? "manual",
+      source: client?.id ?? "api",
+      detail: addSuppressionDto.detail,
+    });
+  }
+
+  /**
+   * Lets the address receive emails again, e.g. once the user fixed their mailbox.
+   */
+  @Delete(":address")
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireScopes("suppressions:write")
+  @ApiOperation({ summary: "Remove an address from the suppression list" })
+  @ApiNoContentResponse({ description: "Address removed" })
+  @ApiErrorResponses("NOT_FOUND")
+  async removeSuppression(@Param("address") address: string): Promise<void> {
+    if (!(await this.suppressionList.remove(address))) {
+      throw new NotFoundException(`Address not suppressed: ${address}`);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { EmailService } from "../services/email.service";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { TemplatePreviewController } from "./template-preview.controller";
+
+describe("templatePreviewController", () => {
+  let controller: TemplatePreviewController;
+
+  const rendered = { subject: "Bienvenue", html: "<p>Bienvenue</p>", text: "Bienvenue" };
+
+  const mockEmailService = {
+    renderTemplatedEmail: jest.fn(),
+  };
+
+  const mockTemplateRegistry = {
+    exists: jest.fn(),
+    getSample: jest.fn(),
+    validate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    mockTemplateRegistry.exists.mockResolvedValue(true);
+    mockEmailService.renderTemplatedEmail.mockResolvedValue(rendered);
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TemplatePreviewController],
+      providers: [
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: TemplateRegistryService, useValue: mockTemplateRegistry },
+      ],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<TemplatePreviewController>(TemplatePreviewController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("previewSample", () => {
+    it("should render the template with its sample data", async () => {
+      mockTemplateRegistry.getSample.mockResolvedValue({ email: "jane@example.com", firstName: "Jane" });
+
+      const result = await controller.previewSample("welcome", { locale: "en" });
+
+      expect(mockEmailService.renderTemplatedEmail).toHaveBeenCalledWith("welcome", "jane@example.com", {
+        email: "jane@example.com",
+        firstName: "Jane",
+        locale: "en",
+      });
+      expect(result).toEqual({
+        template: "welcome",
+        to: "jane@example.com",
+        data: { email: "jane@example.com", firstName: "Jane", locale: "en" },
+        ...rendered,
+      });
+    });
+
+    it("should throw when the template has no sample", async () => {
+      mockTemplateRegistry.getSample.mockResolvedValue(undefined);
+
+      await expect(controller.previewSample("welcome", {})).rejects.toThrow(NotFoundException);
+    });
+
+    it("should throw when the template does not exist", async () => {
+      mockTemplateRegistry.exists.mockResolvedValue(false);
+
+      await expect(controller.previewSample("missing", {})).rejects.toMatchObject({ code: "TEMPLATE_NOT_FOUND", status: 404 });
+      expect(mockEmailService.renderTemplatedEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("preview", () => {
+    it("should render the submitted data", async () => {
+      mockTemplateRegistry.validate.mockResolvedValue({ valid: true, errors: [] });
+
+      const result = await controller.preview("welcome", { data: { firstName: "Jane" } });
+
+      expect(mockEmailService.renderTemplatedEmail).toHaveBeenCalledWith("welcome", "preview@penpal-ai.com", { firstName: "Jane" });
+      expect(result.to).toBe("preview@penpal-ai.com");
+      expect(result.html).toBe(rendered.html);
+    });
+
+    it("should render for the given recipient", async () => {
+      mockTemplateRegistry.validate.mockResolvedValue({ valid: true, errors: [] });
+
+      const result = await controller.preview("welcome", { data: { firstName: "Jane" }, to: "john@example.com" });
+
+      expect(result.to).toBe("john@example.com");
+    });
+
+    it("should reject data that does not match the schema", async () => {
+      mockTemplateRegistry.validate.mockResolvedValue({ valid: false, errors: ["data must have required property 'lastName'"] });
+
+      await expect(controller.preview("welcome", { data: {} })).rejects.toMatchObject({ code: "VALIDATION_FAILED", status: 400 });
+      expect(mockEmailService.renderTemplatedEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should serve the preview page", async () => {
+    const page = await controller.viewer("welcome");
+
+    expect(page).toContain("Template preview");
+  });
+});
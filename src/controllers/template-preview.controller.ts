@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from "@nestjs/common";
+import { ApiOkResponse, ApiOperation, ApiProduces, ApiSecurity, ApiTags } from "@nestjs/swagger";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { RequireScopes } from "../decorators/require-scopes.decorator";
+import { PreviewTemplateDto, PreviewTemplateQueryDto, TemplatePreviewDto } from "../dto/template.dto";
+import { ApiKeyGuard } from "../guards/api-key.guard";
+import { EmailService } from "../services/email.service";
+import { ApiError } from "../utils/api-errors";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+
+const VIEWER_PAGE = path.join(__dirname, "..", "views", "template-preview.html");
+const DEFAULT_PREVIEW_RECIPIENT = "preview@penpal-ai.com";
+
+/**
+ * Renders templates without sending them, through the same pipeline as real sends.
+ */
+@Controller("notifications/templates")
+@ApiTags("templates")
+export class TemplatePreviewController {
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly templateRegistry: TemplateRegistryService,
+  ) {}
+
+  /**
+   * Renders the template with its sample data.
+   */
+  @Get(":name/preview")
+  @UseGuards(ApiKeyGuard)
+  @RequireScopes("admin:templates")
+  @ApiSecurity("api-key")
+  @ApiOperation({ summary: "Render a template with its sample data" })
+  @ApiOkResponse({ type: TemplatePreviewDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "UNAUTHORIZED", "FORBIDDEN", "NOT_FOUND", "TEMPLATE_NOT_FOUND")
+  async previewSample(@Param("name") name: string, @Query() query: PreviewTemplateQueryDto): Promise<TemplatePreviewDto> {
+    await this.assertTemplateExists(name);
+
+    const sample = await this.templateRegistry.getSample(name);
+    if (!sample) {
+      throw new NotFoundException(`No sample data for template: ${name}`);
+    }
+
+    return this.render(name, { data: sample, locale: query.locale });
+  }
+
+  @Post(":name/preview")
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(ApiKeyGuard)
+  @RequireScopes("admin:templates")
+  @ApiSecurity("api-key")
+  @ApiOperation({ summary: "Render a template with the given data without sending it" })
+  @ApiOkResponse({ type: TemplatePreviewDto })
+  @ApiErrorResponses("VALIDATION_FAILED", "UNAUTHORIZED", "FORBIDDEN", "TEMPLATE_NOT_FOUND")
+  async preview(@Param("name") name: string, @Body() previewTemplateDto: PreviewTemplateDto): Promise<TemplatePreviewDto> {
+    await this.assertTemplateExists(name);
+
+    const validation = await this.templateRegistry.validate(name, previewTemplateDto.data);
+    if (!validation.valid) {
+      throw new ApiError("VALIDATION_FAILED", `Invalid data for template ${name}`, validation.errors);
+    }
+
+    return this.render(name, previewTemplateDto);
+  }
+
+  /**
+   * Preview page for the browser. It holds no data: it asks for the API key
+   * and calls the routes above.
+   */
+  @Get(":name/preview/view")
+  @Header("Content-Type", "text/html; charset=utf-8")
+  @ApiOperation({ summary: "Open the template preview in a browser" })
+  @ApiProduces("text/html")
+  @ApiOkResponse({ schema: { type: "string" }, description: "Preview page" })
+  @ApiErrorResponses("TEMPLATE_NOT_FOUND")
+  async viewer(@Param("name") name: string): Promise<string> {
+    await this.assertTemplateExists(name);
+    return fs.promises.readFile(VIEWER_PAGE, "utf-8");
+  }
+
+  private async render(name: string, { data, to, locale }: PreviewTemplateDto): Promise<TemplatePreviewDto> {
+    const recipient = to ?? data.email ?? DEFAULT_PREVIEW_RECIPIENT;
+    const payload = locale ? { ...data, locale } : data;
+    const rendered = await this.emailService.renderTemplatedEmail(name, recipient, payload);
+
+    return {
+      template: name,
+      to: recipient,
+      data: payload,
+      ...rendered,
+    };
+  }
+
+  private async assertTemplateExists(name: string): Promise<void> {
+    if (!(await this.templateRegistry.exists(name))) {
+      throw new ApiError("TEMPLATE_NOT_FOUND", `Template not found: ${name}`);
+    }
+  }
+}
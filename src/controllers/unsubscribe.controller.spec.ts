@@ -0,0 +1,54 @@
+import { NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { UnsubscribeService } from "../services/unsubscribe.service";
+import { UnsubscribeController } from "./unsubscribe.controller";
+
+describe("unsubscribeController", () => {
+  let controller: UnsubscribeController;
+  const target = { userId: "user123", email: "jane@example.com", category: "billing" };
+
+  const mockUnsubscribeService = {
+    verifyToken: jest.fn(),
+    unsubscribe: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [UnsubscribeController],
+      providers: [{ provide: UnsubscribeService, useValue: mockUnsubscribeService }],
+    }).compile();
+
+    controller = module.get<UnsubscribeController>(UnsubscribeController);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should ask for confirmation without unsubscribing", async () => {
+    mockUnsubscribeService.verifyToken.mockReturnValue(target);
+
+    const page = await controller.confirm("token");
+
+    expect(page).toContain("<form method=\"post\">");
+    expect(mockUnsubscribeService.unsubscribe).not.toHaveBeenCalled();
+  });
+
+  it("should unsubscribe and confirm it", async () => {
+    mockUnsubscribeService.unsubscribe.mockResolvedValue(target);
+
+    const page = await controller.unsubscribe("token");
+
+    expect(page).toContain("You have been unsubscribed");
+    expect(mockUnsubscribeService.unsubscribe).toHaveBeenCalledWith("token");
+  });
+
+  it("should reject invalid links", async () => {
+    mockUnsubscribeService.verifyToken.mockReturnValue(undefined);
+    mockUnsubscribeService.unsubscribe.mockResolvedValue(undefined);
+
+    await expect(controller.confirm("invalid")).rejects.toThrow(NotFoundException);
+    await expect(controller.unsubscribe("invalid")).rejects.toThrow(NotFoundException);
+  });
+});
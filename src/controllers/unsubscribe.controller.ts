@@ -0,0 +1,50 @@
+import { Controller, Get, Header, HttpCode, HttpStatus, NotFoundException, Param, Post } from "@nestjs/common";
+import { ApiOkResponse, ApiOperation, ApiProduces, ApiTags } from "@nestjs/swagger";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { ApiErrorResponses } from "../decorators/api-error-responses.decorator";
+import { UnsubscribeService } from "../services/unsubscribe.service";
+
+const CONFIRMATION_PAGE = path.join(__dirname, "..", "views", "unsubscribe.html");
+const DONE_PAGE = path.join(__dirname, "..", "views", "unsubscribed.html");
+
+/**
+ * Public unsubscribe links. The token is the credential, so these routes take
+ * no API key. Mail clients implementing RFC 8058 POST to the link directly;
+ * people following the link from the email get a page asking to confirm,
+ * so that link scanners opening it do not unsubscribe anyone.
+ */
+@Controller("unsubscribe")
+@ApiTags("unsubscribe")
+@ApiErrorResponses("NOT_FOUND")
+export class UnsubscribeController {
+  constructor(private readonly unsubscribeService: UnsubscribeService) {}
+
+  @Get(":token")
+  @Header("Content-Type", "text/html; charset=utf-8")
+  @ApiOperation({ summary: "Ask to confirm unsubscribing", description: "Target of the link in the email footer." })
+  @ApiProduces("text/html")
+  @ApiOkResponse({ schema: { type: "string" }, description: "Confirmation page" })
+  async confirm(@Param("token") token: string): Promise<string> {
+    if (!this.unsubscribeService.verifyToken(token)) {
+      throw new NotFoundException("Invalid unsubscribe link");
+    }
+
+    return fs.promises.readFile(CONFIRMATION_PAGE, "utf-8");
+  }
+
+  @Post(":token")
+  @HttpCode(HttpStatus.OK)
+  @Header("Content-Type", "text/html; charset=utf-8")
+  @ApiOperation({ summary: "Unsubscribe from the link's category", description: "One-click unsubscribe (RFC 8058), also posted by the confirmation page." })
+  @ApiProduces("text/html")
+  @ApiOkResponse({ schema: { type: "string" }, description: "Unsubscribed page" })
+  async unsubscribe(@Param("token") token: string): Promise<string> {
+    if (!(await this.unsubscribeService.unsubscribe(token))) {
+      throw new NotFoundException("Invalid unsubscribe link");
+    }
+
+    return fs.promises.readFile(DONE_PAGE, "utf-8");
+  }
+}
@@ -0,0 +1,22 @@
+import { applyDecorators } from "@nestjs/common";
+import { ApiResponse } from "@nestjs/swagger";
+
+import { ErrorResponseDto } from "../dto/error-response.dto";
+import { API_ERRORS, ApiErrorCode } from "../utils/api-errors";
+
+/**
+ * Documents the error responses a route can return, grouping codes sharing a status.
+ */
+export function ApiErrorResponses(...codes: ApiErrorCode[]) {
+  const byStatus = new Map<number, ApiErrorCode[]>();
+  for (const code of codes) {
+    const status = API_ERRORS[code].status;
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+
+  return applyDecorators(...Array.from(byStatus, ([status, statusCodes]) => ApiResponse({
+    status,
+    description: statusCodes.map(code => `\`${code}\`: ${API_ERRORS[code].description}`).join("<br>"),
+    type: ErrorResponseDto,
+  })));
+}
@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from "@nestjs/common";
+
+import { AuthenticatedRequest } from "../guards/api-key.guard";
+import { ApiClient } from "../services/api-key.service";
+
+/**
+ * Injects the client that the API key guard authenticated, if any.
+ */
+export const CurrentClient = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ApiClient | undefined =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().apiClient,
+);
@@ -0,0 +1,24 @@
+import { applyDecorators, SetMetadata } from "@nestjs/common";
+import { ApiHeader } from "@nestjs/swagger";
+
+export const IDEMPOTENT_OPTIONS_KEY = "idempotent:options";
+
+export type IdempotentOptions = {
+  template?: string;
+};
+
+/**
+ * Marks a send route as idempotent. The template name, taken from the route or
+ * else from the payload's `template` field, is combined with the payload's
+ * `userId` to derive a key when the caller sends no `Idempotency-Key`.
+ */
+export function Idempotent(template?: string) {
+  return applyDecorators(
+    SetMetadata<string, IdempotentOptions>(IDEMPOTENT_OPTIONS_KEY, { template }),
+    ApiHeader({
+      name: "Idempotency-Key",
+      required: false,
+      description: "Requests repeated with the same key within `IDEMPOTENCY_TTL_SECONDS` (24 hours by default) get the first response instead of sending again",
+    }),
+  );
+}
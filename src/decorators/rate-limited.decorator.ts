@@ -0,0 +1,16 @@
+import { SetMetadata } from "@nestjs/common";
+
+export const RATE_LIMITED_OPTIONS_KEY = "rate-limited:options";
+
+export type RateLimitedOptions = {
+  /** Payload field holding the recipient address */
+  recipient: string;
+  template?: string;
+};
+
+/**
+ * Applies the per client, per recipient and per template limits to a send
+ * route. The template is taken from the route or else from the payload's
+ * `template` field.
+ */
+export const RateLimited = (options: RateLimitedOptions) => SetMetadata<string, RateLimitedOptions>(RATE_LIMITED_OPTIONS_KEY, options);
@@ -0,0 +1,24 @@
+import { SetMetadata } from "@nestjs/common";
+
+export const REQUIRED_SCOPES_KEY = "auth:scopes";
+
+export type ApiScope
+  = | "notifications:send"
+    | "notifications:welcome"
+    | "notifications:billing"
+    | "notifications:security"
+    | "notifications:learning"
+    | "notifications:read"
+    | "preferences:read"
+    | "preferences:write"
+    | "suppressions:read"
+    | "suppressions:write"
+    | "admin:templates"
+    | "admin:queue"
+    | "admin:sandbox";
+
+/**
+ * Declares the scopes an API key needs to call a route, on top of being valid.
+ * A method-level declaration replaces the controller-level one.
+ */
+export const RequireScopes = (...scopes: ApiScope[]) => SetMetadata<string, ApiScope[]>(REQUIRED_SCOPES_KEY, scopes);
@@ -0,0 +1,198 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsDateString, IsEmail, IsIn, IsInt, IsISO4217CurrencyCode, IsLocale, IsOptional, IsString, Matches, Max, Min } from "class-validator";
+
+import { SubscriptionPlan } from "../utils/template.service";
+
+const PLANS: SubscriptionPlan[] = ["monthly", "yearly"];
+
+/**
+ * Recipient fields shared by every billing lifecycle email.
+ */
+export class BillingEmailDto {
+  @ApiProperty({ format: "email", example: "jane@example.com" })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ example: "Jane" })
+  @IsString()
+  firstName: string;
+
+  @ApiProperty({ example: "Doe" })
+  @IsString()
+  lastName: string;
+
+  @ApiPropertyOptional({ description: "Used for preferences, unsubscribe links and the scheduled reminders" })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ example: "en" })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+}
+
+export class SendPaymentFailedEmailDto extends BillingEmailDto {
+  @ApiProperty({ enum: PLANS })
+  @IsIn(PLANS)
+  plan: SubscriptionPlan;
+
+  @ApiProperty({ example: 999, description: "In the currency's minor unit (cents)" })
+  @IsInt()
+  @Min(0)
+  amount: number;
+
+  @ApiPropertyOptional({ example: "EUR", default: "EUR" })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiProperty({ example: 1, description: "Failed attempts so far, 1 for the first" })
+  @IsInt()
+  @Min(1)
+  attemptCount: number;
+
+  @ApiPropertyOptional({ format: "date-time", description: "Next automatic retry; leave out after the last attempt" })
+  @IsOptional()
+  @IsDateString()
+  nextAttemptDate?: string;
+}
+
+export class SendCardExpiringEmailDto extends BillingEmailDto {
+  @ApiProperty({ example: "Visa" })
+  @IsString()
+  cardBrand: string;
+
+  @ApiProperty({ example: "4242", description: "Last 4 digits of the card" })
+  @IsString()
+  @Matches(/^\d{4}$/, { message: "last4 must be 4 digits" })
+  last4: string;
+
+  @ApiProperty({ minimum: 1, maximum: 12, example: 2 })
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  expiryMonth: number;
+
+  @ApiProperty({ example: 2025 })
+  @IsInt()
+  @Min(2000)
+  expiryYear: number;
+}
+
+export class SendPlanChangedEmailDto extends BillingEmailDto {
+  @ApiProperty({ enum: PLANS })
+  @IsIn(PLANS)
+  previousPlan: SubscriptionPlan;
+
+  @ApiProperty({ enum: PLANS })
+  @IsIn(PLANS)
+  plan: SubscriptionPlan;
+
+  @ApiProperty({ format: "date-time" })
+  @IsDateString()
+  effectiveDate: string;
+
+  @ApiPropertyOptional({ example: 9999, description: "Price of the new plan, in the currency's minor unit (cents)" })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  amount?: number;
+
+  @ApiPropertyOptional({ example: "EUR", default: "EUR" })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiPropertyOptional({ format: "date-time", description: "Also plans the renewal reminder of the new plan" })
+  @IsOptional()
+  @IsDateString()
+  nextBillingDate?: string;
+}
+
+export class SendSubscriptionCancelledEmailDto extends BillingEmailDto {
+  @ApiProperty({ enum: PLANS })
+  @IsIn(PLANS)
+  plan: SubscriptionPlan;
+
+  @ApiProperty({ format: "date-time", description: "End of the period already paid for" })
+  @IsDateString()
+  accessUntil: string;
+}
+
+export class SendSubscriptionExpiredEmailDto extends BillingEmailDto {
+  @ApiProperty({ enum: PLANS })
+  @IsIn(PLANS)
+  plan: SubscriptionPlan;
+
+  @ApiProperty({ format: "date-time" })
+  @IsDateString()
+  expiredAt: string;
+}
+
+export class SendRefundIssuedEmailDto extends BillingEmailDto {
+  @ApiProperty({ example: 999, description: "In the currency's minor unit (cents)" })
+  @IsInt()
+  @Min(0)
+  amount: number;
+
+  @ApiPropertyOptional({ example: "EUR", default: "EUR" })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiPropertyOptional({ example: "PP-2025-0042", description: "Invoice the refund is for" })
+  @IsOptional()
+  @IsString()
+  invoiceNumber?: string;
+
+  @ApiPropertyOptional({ format: "date-time" })
+  @IsOptional()
+  @IsDateString()
+  refundedAt?: string;
+}
+
+export class SendReceiptEmailDto extends BillingEmailDto {
+  @ApiProperty({ example: "PP-2025-0042" })
+  @IsString()
+  invoiceNumber: string;
+
+  @ApiProperty({ enum: PLANS })
+  @IsIn(PLANS)
+  plan: SubscriptionPlan;
+
+  @ApiProperty({ example: 999, description: "In the currency's minor unit (cents)" })
+  @IsInt()
+  @Min(0)
+  amount: number;
+
+  @ApiPropertyOptional({ example: "EUR", default: "EUR" })
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiProperty({ format: "date-time" })
+  @IsDateString()
+  paidAt: string;
+
+  @ApiPropertyOptional({ format: "date-time", description: "Start of the period paid for" })
+  @IsOptional()
+  @IsDateString()
+  periodStart?: string;
+
+  @ApiPropertyOptional({ format: "date-time", description: "End of the period paid for" })
+  @IsOptional()
+  @IsDateString()
+  periodEnd?: string;
+
+  @ApiPropertyOptional({ example: "Visa" })
+  @IsOptional()
+  @IsString()
+  cardBrand?: string;
+
+  @ApiPropertyOptional({ example: "4242", description: "Last 4 digits of the card" })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{4}$/, { message: "last4 must be 4 digits" })
+  last4?: string;
+}
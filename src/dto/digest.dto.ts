@@ -0,0 +1,117 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEmail,
+  IsInt,
+  IsLocale,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Min,
+  ValidateNested,
+} from "class-validator";
+
+/** Digests accepted by a single batch request */
+export const MAX_DIGEST_BATCH_SIZE = 100;
+
+export class DigestLanguageDto {
+  @ApiProperty({ example: "es", description: "Language code" })
+  @IsLocale()
+  language: string;
+
+  @ApiProperty({ example: 4 })
+  @IsInt()
+  @Min(0)
+  conversations: number;
+
+  @ApiProperty({ example: 70 })
+  @IsInt()
+  @Min(0)
+  minutes: number;
+}
+
+/**
+ * Learning stats of a user over a week, computed by the learning service.
+ */
+export class SendWeeklyDigestDto {
+  @ApiProperty({ format: "email", example: "jane@example.com" })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ example: "Jane" })
+  @IsString()
+  firstName: string;
+
+  @ApiProperty({ example: "Doe" })
+  @IsString()
+  lastName: string;
+
+  @ApiPropertyOptional({ description: "Used for preferences, unsubscribe links and to replace the user's pending digest" })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ example: "en" })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+
+  @ApiPropertyOptional({ example: "America/New_York", description: "IANA time zone whose send hour the digest goes out at. Defaults to `DIGEST_DEFAULT_TIME_ZONE`" })
+  @IsOptional()
+  @IsTimeZone()
+  timeZone?: string;
+
+  @ApiProperty({ format: "date", example: "2025-01-13", description: "First day of the week" })
+  @IsDateString({ strict: true })
+  weekStart: string;
+
+  @ApiProperty({ example: 6, description: "Conversations held" })
+  @IsInt()
+  @Min(0)
+  conversations: number;
+
+  @ApiProperty({ example: 95 })
+  @IsInt()
+  @Min(0)
+  minutesPractised: number;
+
+  @ApiProperty({ type: [String], example: ["la cuenta", "madrugar"], description: "Words met for the first time; the first 10 are listed" })
+  @IsArray()
+  @IsString({ each: true })
+  newVocabulary: string[];
+
+  @ApiProperty({ example: 5, description: "Days in a row with some practice, up to the end of the week" })
+  @IsInt()
+  @Min(0)
+  streakDays: number;
+
+  @ApiPropertyOptional({ type: [Number], example: [15, 20, 0, 10, 25, 0, 25], description: "Minutes practised on each day, from `weekStart`. Drawn as a bar chart" })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(7)
+  @ArrayMaxSize(7)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  dailyMinutes?: number[];
+
+  @ApiPropertyOptional({ type: [DigestLanguageDto], description: "Practice per language, drawn as a chart of the minutes" })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DigestLanguageDto)
+  languages?: DigestLanguageDto[];
+}
+
+export class ScheduleWeeklyDigestBatchDto {
+  @ApiProperty({ type: [SendWeeklyDigestDto], maxItems: MAX_DIGEST_BATCH_SIZE })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_DIGEST_BATCH_SIZE)
+  @ValidateNested({ each: true })
+  @Type(() => SendWeeklyDigestDto)
+  digests: SendWeeklyDigestDto[];
+}
@@ -0,0 +1,36 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+
+import { API_ERROR_CODES, ApiErrorCode } from "../utils/api-errors";
+
+/**
+ * Body of every error response.
+ */
+export class ErrorResponseDto {
+  @ApiProperty({ example: false })
+  success: false;
+
+  @ApiProperty({ example: 422 })
+  statusCode: number;
+
+  @ApiProperty({ enum: API_ERROR_CODES, example: "ADDRESS_SUPPRESSED" })
+  code: ApiErrorCode;
+
+  @ApiProperty({ example: "jane@example.com is on the suppression list (hard-bounce)" })
+  message: string;
+
+  @ApiProperty({ description: "Whether sending the same request again later may succeed", example: false })
+  retryable: boolean;
+
+  @ApiPropertyOptional({
+    oneOf: [{ type: "object", additionalProperties: true }, { type: "array", items: { type: "string" } }],
+    description: "Code-specific context, e.g. the validation errors or the rate limit that was exceeded",
+    example: { suppression: { reason: "hard-bounce" } },
+  })
+  details?: Record<string, any> | string[];
+
+  @ApiProperty({ example: "/api/v1/notifications/welcome-email" })
+  path: string;
+
+  @ApiProperty({ format: "date-time" })
+  timestamp: string;
+}
@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsString } from "class-validator";
+
+export class ListInvoicesQueryDto {
+  @ApiProperty({ description: "User whose invoices are listed" })
+  @IsString()
+  userId: string;
+}
+
+export class InvoiceLineDto {
+  @ApiProperty({ example: "Abonnement Penpal AI – Annuel" })
+  description: string;
+
+  @ApiProperty({ example: 1 })
+  quantity: number;
+
+  @ApiProperty({ example: 8325, description: "Excluding VAT, in the currency's minor unit (cents)" })
+  unitAmount: number;
+
+  @ApiProperty({ example: 8325, description: "Excluding VAT, in the currency's minor unit (cents)" })
+  amount: number;
+}
+
+export class InvoiceDto {
+  @ApiProperty({ format: "uuid" })
+  id: string;
+
+  @ApiProperty({ example: "PP-2025-0042" })
+  invoiceNumber: string;
+
+  @ApiProperty({ example: "receipt", description: "Email the invoice was attached to" })
+  template: string;
+
+  @ApiProperty({ format: "email" })
+  recipient: string;
+
+  @ApiPropertyOptional()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: "Email job the invoice was attached to" })
+  jobId?: string;
+
+  @ApiProperty({ example: "Jane Doe" })
+  customerName: string;
+
+  @ApiProperty({ example: "fr" })
+  locale: string;
+
+  @ApiProperty({ example: "EUR" })
+  currency: string;
+
+  @ApiProperty({ type: [InvoiceLineDto] })
+  lines: InvoiceLineDto[];
+
+  @ApiProperty({ example: 8325, description: "Total excluding VAT, in cents" })
+  subtotal: number;
+
+  @ApiProperty({ example: 20, description: "VAT rate, in percent" })
+  vatRate: number;
+
+  @ApiProperty({ example: 1674, description: "In cents" })
+  vatAmount: number;
+
+  @ApiProperty({ example: 9999, description: "Total including VAT, the amount charged, in cents" })
+  total: number;
+
+  @ApiPropertyOptional({ format: "date-time" })
+  periodStart?: string;
+
+  @ApiPropertyOptional({ format: "date-time" })
+  periodEnd?: string;
+
+  @ApiPropertyOptional({ format: "date-time" })
+  paidAt?: string;
+
+  @ApiProperty({ format: "date-time" })
+  issuedAt: string;
+
+  @ApiProperty({ example: "facture-PP-2025-0042.pdf" })
+  fileName: string;
+}
@@ -1,65 +1,354 @@
-import { IsDateString, IsEmail, IsIn, IsNumber, IsOptional, IsString } from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsDateString, IsEmail, IsIn, IsInt, IsISO4217CurrencyCode, IsLocale, IsNumber, IsObject, IsOptional, IsString, Max, Min } from "class-validator";
+
+import { NotificationStatus, Suppression } from "../services/notification-history.service";
+import { NOTIFICATION_CATEGORIES, NotificationCategory } from "../services/notification-preferences.service";
+import { SUPPRESSION_REASONS } from "../services/suppression-list.service";
+
+const NOTIFICATION_STATUSES: NotificationStatus[] = ["queued", "retrying", "sent", "failed", "suppressed"];
 
 export class SendWelcomeEmailDto {
+  @ApiProperty({ format: "email", example: "jane@example.com" })
   @IsEmail()
   email: string;
 
+  @ApiProperty({ example: "Jane" })
   @IsString()
   firstName: string;
 
+  @ApiProperty({ example: "Doe" })
   @IsString()
   lastName: string;
 
+  @ApiProperty({ enum: ["google", "facebook", "apple", "github", "email"], description: "How the user signed up" })
   @IsString()
   @IsIn(["google", "facebook", "apple", "github", "email"])
   provider: string;
 
+  @ApiPropertyOptional({ description: "Used for preferences, unsubscribe links and the default idempotency key" })
   @IsOptional()
   @IsString()
   userId?: string;
+
+  @ApiPropertyOptional({ example: "en", description: "Locale of the email, the default locale when not set" })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
 }
 
 export class SendSubscriptionConfirmationEmailDto {
+  @ApiProperty({ format: "email", example: "jane@example.com" })
   @IsEmail()
   email: string;
 
+  @ApiProperty({ example: "Jane" })
   @IsString()
   firstName: string;
 
+  @ApiProperty({ example: "Doe" })
   @IsString()
   lastName: string;
 
+  @ApiProperty({ enum: ["monthly", "yearly"] })
   @IsString()
   @IsIn(["monthly", "yearly"])
   plan: "monthly" | "yearly";
 
+  @ApiProperty({ enum: ["trial", "active"] })
   @IsString()
   @IsIn(["trial", "active"])
   status: "trial" | "active";
 
+  @ApiPropertyOptional({ format: "date-time", description: "End of the trial, for trial subscriptions" })
   @IsOptional()
   @IsDateString()
   trialEnd?: string;
 
+  @ApiPropertyOptional({ format: "date-time" })
   @IsOptional()
   @IsDateString()
   nextBillingDate?: string;
 
+  @ApiPropertyOptional({ example: 999, description: "In the currency's minor unit (cents)" })
   @IsOptional()
   @IsNumber()
   amount?: number;
 
+  @ApiPropertyOptional({ example: "EUR" })
   @IsOptional()
-  @IsString()
+  @IsISO4217CurrencyCode()
   currency?: string;
 
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ example: "en" })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+}
+
+export class SendTemplatedEmailDto {
+  @ApiProperty({ example: "welcome", description: "Name of a template listed by GET /notifications/templates" })
+  @IsString()
+  template: string;
+
+  @ApiProperty({ format: "email", example: "jane@example.com" })
+  @IsEmail()
+  to: string;
+
+  @ApiProperty({ type: "object", additionalProperties: true, description: "Validated against the template's schema" })
+  @IsObject()
+  data: Record<string, any>;
+
+  @ApiPropertyOptional()
   @IsOptional()
   @IsString()
   userId?: string;
+
+  @ApiPropertyOptional({ example: "en", description: "Takes precedence over `data.locale`" })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+}
+
+export class SuppressionDto {
+  @ApiProperty({ enum: ["opted-out", ...SUPPRESSION_REASONS] })
+  reason: Suppression["reason"];
+
+  @ApiPropertyOptional({ enum: NOTIFICATION_CATEGORIES, description: "Category the user opted out of" })
+  category?: NotificationCategory;
 }
 
 export class NotificationResponseDto {
+  @ApiProperty({ example: true })
   success: boolean;
+
+  @ApiProperty({ example: "Welcome email queued for delivery" })
   message: string;
+
+  @ApiPropertyOptional({ description: "Id to look the notification up with GET /notifications/{id}" })
+  jobId?: string;
+
+  @ApiPropertyOptional({ type: SuppressionDto, description: "Set when the email was not queued because the user does not want it" })
+  suppression?: Suppression;
+
+  @ApiProperty({ type: String, format: "date-time" })
+  timestamp: Date;
+}
+
+export class ListNotificationsQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ format: "email" })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  template?: string;
+
+  @ApiPropertyOptional({ enum: NOTIFICATION_STATUSES })
+  @IsOptional()
+  @IsIn(NOTIFICATION_STATUSES)
+  status?: NotificationStatus;
+
+  @ApiPropertyOptional({ format: "date-time", description: "Only notifications created at or after this date" })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({ format: "date-time", description: "Only notifications created at or before this date" })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 200, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+
+  @ApiPropertyOptional({ minimum: 0, default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class DeliveryAttemptDto {
+  @ApiProperty({ example: 1 })
+  attempt: number;
+
+  @ApiProperty({ enum: ["sent", "failed"] })
+  status: "sent" | "failed";
+
+  @ApiPropertyOptional()
+  messageId?: string;
+
+  @ApiPropertyOptional()
+  error?: string;
+
+  @ApiProperty({ format: "date-time" })
+  at: string;
+}
+
+export class NotificationRecordDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiPropertyOptional()
+  userId?: string;
+
+  @ApiPropertyOptional({ description: "API client that requested the notification" })
+  clientId?: string;
+
+  @ApiProperty({ format: "email" })
+  recipient: string;
+
+  @ApiProperty({ example: "welcome" })
+  template: string;
+
+  @ApiProperty({ enum: NOTIFICATION_STATUSES })
+  status: NotificationStatus;
+
+  @ApiPropertyOptional({ type: SuppressionDto })
+  suppression?: SuppressionDto;
+
+  @ApiPropertyOptional()
+  messageId?: string;
+
+  @ApiPropertyOptional()
+  error?: string;
+
+  @ApiProperty()
+  attempts: number;
+
+  @ApiProperty({ type: [DeliveryAttemptDto] })
+  history: DeliveryAttemptDto[];
+
+  @ApiProperty({ format: "date-time" })
+  createdAt: string;
+
+  @ApiProperty({ format: "date-time" })
+  updatedAt: string;
+}
+
+export class NotificationPageDto {
+  @ApiProperty({ type: [NotificationRecordDto] })
+  items: NotificationRecordDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  offset: number;
+}
+
+export class DeadLetterDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  template: string;
+
+  @ApiProperty({ format: "email" })
+  recipient: string;
+
+  @ApiProperty({ type: "object", additionalProperties: true })
+  payload: Record<string, any>;
+
+  @ApiPropertyOptional()
+  clientId?: string;
+
+  @ApiProperty()
+  attempts: number;
+
+  @ApiProperty()
+  error: string;
+
+  @ApiProperty({ format: "date-time" })
+  failedAt: string;
+}
+
+export class TemplateDefinitionDto {
+  @ApiProperty({ example: "welcome" })
+  name: string;
+
+  @ApiPropertyOptional()
+  description?: string;
+
+  @ApiProperty({ description: "Subject in the default locale" })
+  subject: string;
+
+  @ApiPropertyOptional({ type: "object", additionalProperties: { type: "string" }, description: "Subjects for other locales, keyed by locale" })
+  subjects?: Record<string, string>;
+
+  @ApiProperty({ type: "object", additionalProperties: true, description: "JSON Schema the data sent with the template must match" })
+  schema: Record<string, any>;
+
+  @ApiProperty({ enum: NOTIFICATION_CATEGORIES })
+  category: NotificationCategory;
+
+  @ApiPropertyOptional({ example: "notifications:security", description: "Scope needed to send the template with `POST /notifications/send`" })
+  scope?: string;
+}
+
+export class TemplateCacheStatusDto {
+  @ApiProperty()
+  size: number;
+
+  @ApiProperty({ type: [String], description: "Cached `<template>:<locale>` entries" })
+  keys: string[];
+
+  @ApiProperty({ type: [String], description: "Registered partials and layouts" })
+  partials: string[];
+
+  @ApiProperty()
+  watching: boolean;
+}
+
+export class ApiKeyWarningDto {
+  @ApiProperty()
+  client: string;
+
+  @ApiProperty({ description: "Fingerprint of the key, never the key itself" })
+  key: string;
+
+  @ApiProperty({ enum: ["expiring", "deprecated"] })
+  reason: "expiring" | "deprecated";
+
+  @ApiPropertyOptional({ type: String, format: "date-time" })
+  expiresAt?: Date;
+
+  @ApiPropertyOptional({ type: String, format: "date-time" })
+  lastUsedAt?: Date;
+}
+
+export class HealthResponseDto {
+  @ApiProperty({ enum: ["healthy", "degraded"] })
+  status: string;
+
+  @ApiProperty({ enum: ["connected", "disconnected"] })
+  email_service: string;
+
+  @ApiPropertyOptional({ type: [ApiKeyWarningDto], description: "Keys about to expire or deprecated keys still in use" })
+  api_key_warnings?: ApiKeyWarningDto[];
+
+  @ApiProperty({ type: String, format: "date-time" })
   timestamp: Date;
 }
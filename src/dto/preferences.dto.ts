@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { Equals, IsBoolean, IsObject, IsOptional, ValidateNested } from "class-validator";
+
+export class CategoryPreferencesDto {
+  @ApiPropertyOptional({ description: "Can only be `true`: transactional emails cannot be turned off" })
+  @IsOptional()
+  @Equals(true, { message: "Transactional emails cannot be turned off" })
+  transactional?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  billing?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  "learning-reminders"?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  "product-news"?: boolean;
+}
+
+export class UpdatePreferencesDto {
+  @ApiProperty({ type: CategoryPreferencesDto, description: "Only the categories present are changed" })
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CategoryPreferencesDto)
+  categories: CategoryPreferencesDto;
+}
+
+export class CategorySettingsDto {
+  @ApiProperty()
+  transactional: boolean;
+
+  @ApiProperty()
+  billing: boolean;
+
+  @ApiProperty()
+  "learning-reminders": boolean;
+
+  @ApiProperty()
+  "product-news": boolean;
+}
+
+export class NotificationPreferencesDto {
+  @ApiProperty({ description: "User id" })
+  id: string;
+
+  @ApiProperty({ type: CategorySettingsDto })
+  categories: CategorySettingsDto;
+
+  @ApiPropertyOptional({ format: "date-time", description: "Not set until the user changes a preference" })
+  updatedAt?: string;
+}
@@ -0,0 +1,90 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsEmail, IsInt, IsOptional, Max, Min } from "class-validator";
+
+export class ListSandboxMessagesQueryDto {
+  @ApiPropertyOptional({ format: "email" })
+  @IsOptional()
+  @IsEmail()
+  to?: string;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 200, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+
+  @ApiPropertyOptional({ minimum: 0, default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class SandboxMessageSummaryDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  messageId: string;
+
+  @ApiProperty()
+  from: string;
+
+  @ApiProperty()
+  to: string;
+
+  @ApiProperty()
+  subject: string;
+
+  @ApiProperty({ format: "date-time" })
+  capturedAt: string;
+}
+
+export class SandboxAttachmentDto {
+  @ApiProperty({ example: "invoice-PP-2025-0042.pdf" })
+  filename: string;
+
+  @ApiProperty({ example: "application/pdf" })
+  contentType: string;
+
+  @ApiProperty({ description: "Size in bytes" })
+  size: number;
+
+  @ApiPropertyOptional({ description: "Content-ID of an inline attachment" })
+  cid?: string;
+
+  @ApiPropertyOptional({ format: "byte", description: "Base64 content of an inline attachment, such as a chart the HTML shows" })
+  content?: string;
+}
+
+export class SandboxMessageDto extends SandboxMessageSummaryDto {
+  @ApiProperty({ type: "object", additionalProperties: { type: "string" } })
+  headers: Record<string, string>;
+
+  @ApiProperty()
+  html: string;
+
+  @ApiProperty()
+  text: string;
+
+  @ApiProperty({ type: [SandboxAttachmentDto], description: "Listed without their content, except inline ones" })
+  attachments: SandboxAttachmentDto[];
+}
+
+export class SandboxMessagePageDto {
+  @ApiProperty({ type: [SandboxMessageSummaryDto] })
+  items: SandboxMessageSummaryDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  offset: number;
+}
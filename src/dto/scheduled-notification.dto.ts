@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from "@nestjs/swagger";
+import { IsDateString, IsString } from "class-validator";
+
+import { SCHEDULED_NOTIFICATION_STATUSES, ScheduledNotificationStatus } from "../services/reminder-scheduler.service";
+import { SendSubscriptionConfirmationEmailDto } from "./notification.dto";
+
+export class ListScheduledNotificationsQueryDto {
+  @ApiProperty({ description: "User whose upcoming notifications are listed" })
+  @IsString()
+  userId: string;
+}
+
+/**
+ * Current state of a subscription, from which its reminders are planned again.
+ */
+export class UpdateSubscriptionRemindersDto extends OmitType(SendSubscriptionConfirmationEmailDto, ["userId"] as const) {}
+
+export class RescheduleNotificationDto {
+  @ApiProperty({ format: "date-time", description: "Must come before the date the notification announces" })
+  @IsDateString()
+  sendAt: string;
+}
+
+export class ScheduledNotificationDto {
+  @ApiProperty({ format: "uuid" })
+  id: string;
+
+  @ApiProperty({ example: "trial-ending" })
+  template: string;
+
+  @ApiProperty({ format: "email" })
+  recipient: string;
+
+  @ApiProperty({ type: "object", additionalProperties: true, description: "Template data" })
+  payload: Record<string, any>;
+
+  @ApiPropertyOptional()
+  userId?: string;
+
+  @ApiProperty({ enum: SCHEDULED_NOTIFICATION_STATUSES })
+  status: ScheduledNotificationStatus;
+
+  @ApiProperty({ format: "date-time", description: "When the email is queued" })
+  sendAt: string;
+
+  @ApiProperty({ format: "date-time", description: "Date the email announces, such as the end of the trial, or after which it is stale; still pending then, it is dropped" })
+  eventAt: string;
+
+  @ApiPropertyOptional({ description: "Email job queued for the notification" })
+  jobId?: string;
+
+  @ApiProperty({ format: "date-time" })
+  createdAt: string;
+
+  @ApiProperty({ format: "date-time" })
+  updatedAt: string;
+}
+
+export class CancelledNotificationsDto {
+  @ApiProperty({ example: 2, description: "Pending notifications cancelled by this request" })
+  cancelled: number;
+}
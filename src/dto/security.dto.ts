@@ -0,0 +1,130 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from "@nestjs/swagger";
+import { IsDateString, IsEmail, IsIP, IsLocale, IsOptional, IsString, IsTimeZone, IsUrl } from "class-validator";
+
+import { NotificationResponseDto } from "./notification.dto";
+
+/**
+ * Recipient fields shared by every account security email.
+ */
+export class SecurityEmailDto {
+  @ApiProperty({ format: "email", example: "jane@example.com" })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ example: "Jane" })
+  @IsString()
+  firstName: string;
+
+  @ApiProperty({ example: "Doe" })
+  @IsString()
+  lastName: string;
+
+  @ApiPropertyOptional({ description: "Used for the delivery history" })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ example: "en" })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+
+  @ApiPropertyOptional({ example: "Europe/Paris", default: "UTC", description: "IANA time zone the dates and times of the email are shown in" })
+  @IsOptional()
+  @IsTimeZone()
+  timeZone?: string;
+}
+
+/**
+ * Where and when the request behind the email was made, shown to the user so
+ * that they can tell whether it was them.
+ */
+export class SecurityEventEmailDto extends SecurityEmailDto {
+  @ApiPropertyOptional({ format: "date-time", description: "When the request was made" })
+  @IsOptional()
+  @IsDateString()
+  occurredAt?: string;
+
+  @ApiPropertyOptional({ example: "203.0.113.42" })
+  @IsOptional()
+  @IsIP()
+  ipAddress?: string;
+
+  @ApiPropertyOptional({ example: "Chrome on macOS" })
+  @IsOptional()
+  @IsString()
+  device?: string;
+
+  @ApiPropertyOptional({ example: "Paris, France", description: "Approximate, from the IP address" })
+  @IsOptional()
+  @IsString()
+  location?: string;
+}
+
+export class SendEmailVerificationEmailDto extends SecurityEmailDto {
+  @ApiProperty({ example: "https://app.penpal-ai.com/verify-email?token=abc123" })
+  @IsUrl({ require_tld: false })
+  verificationUrl: string;
+
+  @ApiProperty({ format: "date-time", description: "When the link stops working" })
+  @IsDateString()
+  expiresAt: string;
+}
+
+export class SendPasswordResetEmailDto extends SecurityEventEmailDto {
+  @ApiProperty({ example: "https://app.penpal-ai.com/reset-password?token=abc123" })
+  @IsUrl({ require_tld: false })
+  resetUrl: string;
+
+  @ApiProperty({ format: "date-time", description: "When the link stops working" })
+  @IsDateString()
+  expiresAt: string;
+}
+
+export class SendPasswordChangedEmailDto extends SecurityEventEmailDto {}
+
+/**
+ * Sent to both addresses, so the body names them instead of a recipient.
+ */
+export class SendEmailChangedEmailDto extends OmitType(SecurityEventEmailDto, ["email"] as const) {
+  @ApiProperty({ format: "email", example: "jane@example.com" })
+  @IsEmail()
+  previousEmail: string;
+
+  @ApiProperty({ format: "email", example: "jane@example.org" })
+  @IsEmail()
+  newEmail: string;
+
+  @ApiPropertyOptional({ example: "https://app.penpal-ai.com/revert-email?token=abc123", description: "Link to cancel the change, sent to the previous address only" })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  revertUrl?: string;
+
+  @ApiPropertyOptional({ format: "date-time", description: "When the revert link stops working" })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
+
+export class SendNewLoginEmailDto extends SecurityEventEmailDto {
+  @ApiPropertyOptional({ example: "https://app.penpal-ai.com/settings/security", description: "Defaults to the security settings of the app" })
+  @IsOptional()
+  @IsUrl({ require_tld: false })
+  secureAccountUrl?: string;
+}
+
+/**
+ * Each address is reported on its own: one on the suppression list, or whose
+ * email could not be queued, has `success: false` (and its `suppression`),
+ * without keeping the other one from getting its email.
+ */
+export class EmailChangedResponseDto {
+  @ApiProperty({ example: true, description: "True when at least one address got its email" })
+  success: boolean;
+
+  @ApiProperty({ type: NotificationResponseDto, description: "Email sent to the previous address" })
+  previousAddress: NotificationResponseDto;
+
+  @ApiProperty({ type: NotificationResponseDto, description: "Email sent to the new address" })
+  newAddress: NotificationResponseDto;
+}
@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsEmail, IsIn, IsInt, IsOptional, IsString, Max, Min } from "class-validator";
+
+import { SUPPRESSION_REASONS, SuppressionReason } from "../services/suppression-list.service";
+
+export class AddSuppressionDto {
+  @ApiProperty({ format: "email", example: "jane@example.com" })
+  @IsEmail()
+  address: string;
+
+  @ApiPropertyOptional({ enum: SUPPRESSION_REASONS, default: "manual" })
+  @IsOptional()
+  @IsIn(SUPPRESSION_REASONS)
+  reason?: SuppressionReason;
+
+  @ApiPropertyOptional({ example: "Requested by support" })
+  @IsOptional()
+  @IsString()
+  detail?: string;
+}
+
+export class ListSuppressionsQueryDto {
+  @ApiPropertyOptional({ enum: SUPPRESSION_REASONS })
+  @IsOptional()
+  @IsIn(SUPPRESSION_REASONS)
+  reason?: SuppressionReason;
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 200, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+
+  @ApiPropertyOptional({ minimum: 0, default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
+
+export class SuppressedAddressDto {
+  @ApiProperty({ description: "Lowercased address" })
+  id: string;
+
+  @ApiProperty({ format: "email" })
+  address: string;
+
+  @ApiProperty({ enum: SUPPRESSION_REASONS })
+  reason: SuppressionReason;
+
+  @ApiProperty({ example: "sendgrid", description: "Where the entry came from: a provider webhook, \"dsn\" or the API client that added it" })
+  source: string;
+
+  @ApiPropertyOptional({ example: "550 5.1.1 User unknown", description: "Provider's diagnostic" })
+  detail?: string;
+
+  @ApiProperty({ format: "date-time" })
+  createdAt: string;
+}
+
+export class SuppressionListPageDto {
+  @ApiProperty({ type: [SuppressedAddressDto] })
+  items: SuppressedAddressDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  limit: number;
+
+  @ApiProperty()
+  offset: number;
+}
+
+export class BounceWebhookResponseDto {
+  @ApiProperty({ example: 1, description: "Addresses reported as hard bounces or complaints by this request" })
+  suppressed: number;
+}
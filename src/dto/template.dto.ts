@@ -0,0 +1,45 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsEmail, IsLocale, IsObject, IsOptional } from "class-validator";
+
+export class PreviewTemplateDto {
+  @ApiProperty({ type: "object", additionalProperties: true, description: "Validated against the template's schema" })
+  @IsObject()
+  data: Record<string, any>;
+
+  @ApiPropertyOptional({ format: "email", description: "Defaults to `data.email`, then to a placeholder address" })
+  @IsOptional()
+  @IsEmail()
+  to?: string;
+
+  @ApiPropertyOptional({ example: "en" })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+}
+
+export class PreviewTemplateQueryDto {
+  @ApiPropertyOptional({ example: "en" })
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+}
+
+export class TemplatePreviewDto {
+  @ApiProperty({ example: "welcome" })
+  template: string;
+
+  @ApiProperty({ format: "email" })
+  to: string;
+
+  @ApiProperty({ type: "object", additionalProperties: true, description: "Data the template was rendered with" })
+  data: Record<string, any>;
+
+  @ApiProperty()
+  subject: string;
+
+  @ApiProperty()
+  html: string;
+
+  @ApiProperty()
+  text: string;
+}
@@ -0,0 +1,164 @@
+import { Logger } from "@nestjs/common";
+import * as amqp from "amqplib";
+import { Buffer } from "node:buffer";
+import { EventEmitter } from "node:events";
+
+import { AmqpEventBroker } from "./amqp-event.broker";
+import { InvalidEventError } from "./event-broker";
+
+jest.mock("amqplib");
+
+describe("amqpEventBroker", () => {
+  let broker: AmqpEventBroker;
+  let connection: EventEmitter & { createChannel: jest.Mock; close: jest.Mock };
+  let channel: EventEmitter & Record<"assertExchange" | "assertQueue" | "bindQueue" | "prefetch" | "consume" | "ack" | "nack", jest.Mock>;
+  let consume: (message: any) => void;
+
+  const config = {
+    url: "amqp://rabbitmq:5672",
+    exchange: "penpal.events",
+    queue: "notify-service.events",
+    prefetch: 10,
+    reconnectDelayMs: 5000,
+  };
+
+  const handler = jest.fn();
+
+  const message = (body: unknown, overrides: Record<string, any> = {}) => ({
+    content: Buffer.from(typeof body === "string" ? body : JSON.stringify(body)),
+    fields: { routingKey: "user.registered", redelivered: false, ...overrides.fields },
+    properties: { messageId: "msg-1", ...overrides.properties },
+  });
+
+  // Acknowledgements happen once the handler has settled
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+    jest.spyOn(Logger.prototype, "error").mockImplementation();
+    handler.mockReset();
+
+    channel = Object.assign(new EventEmitter(), {
+      assertExchange: jest.fn(),
+      assertQueue: jest.fn(),
+      bindQueue: jest.fn(),
+      prefetch: jest.fn(),
+      consume: jest.fn(async (_queue, onMessage) => {
+        consume = onMessage;
+      }),
+      ack: jest.fn(),
+      nack: jest.fn(),
+    });
+    connection = Object.assign(new EventEmitter(), {
+      createChannel: jest.fn().mockResolvedValue(channel),
+      close: jest.fn().mockResolvedValue(undefined),
+    });
+    jest.mocked(amqp.connect).mockResolvedValue(connection as any);
+
+    broker = new AmqpEventBroker(config);
+  });
+
+  afterEach(async () => {
+    await broker.close();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it("should bind the queue to every event type on the topic exchange", async () => {
+    await broker.subscribe(["user.registered", "subscription.created"], handler);
+
+    expect(amqp.connect).toHaveBeenCalledWith("amqp://rabbitmq:5672");
+    expect(channel.assertExchange).toHaveBeenCalledWith("penpal.events", "topic", { durable: true });
+    expect(channel.assertQueue).toHaveBeenCalledWith("notify-service.events", { durable: true });
+    expect(channel.bindQueue).toHaveBeenCalledWith("notify-service.events", "penpal.events", "user.registered");
+    expect(channel.bindQueue).toHaveBeenCalledWith("notify-service.events", "penpal.events", "subscription.created");
+    expect(channel.prefetch).toHaveBeenCalledWith(10);
+  });
+
+  it("should hand the parsed event to the handler and acknowledge it", async () => {
+    await broker.subscribe(["user.registered"], handler);
+    const delivered = message({ data: { email: "jane@example.com" }, occurredAt: "2024-01-01T00:00:00.000Z" });
+
+    consume(delivered);
+    await flush();
+
+    expect(handler).toHaveBeenCalledWith({
+      id: "msg-1",
+      type: "user.registered",
+      occurredAt: "2024-01-01T00:00:00.000Z",
+      data: { email: "jane@example.com" },
+    });
+    expect(channel.ack).toHaveBeenCalledWith(delivered);
+  });
+
+  it("should requeue a failed event once, then reject it", async () => {
+    handler.mockRejectedValue(new Error("Storage unavailable"));
+    await broker.subscribe(["user.registered"], handler);
+    const first = message({ data: {} });
+    const second = message({ data: {} }, { fields: { redelivered: true } });
+
+    consume(first);
+    consume(second);
+    await flush();
+
+    expect(channel.nack).toHaveBeenCalledWith(first, false, true);
+    expect(channel.nack).toHaveBeenCalledWith(second, false, false);
+    expect(channel.ack).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid events without requeuing them", async () => {
+    handler.mockRejectedValue(new InvalidEventError("Invalid data"));
+    await broker.subscribe(["user.registered"], handler);
+    const invalid = message({ data: {} });
+    const notJson = message("{oops");
+
+    consume(invalid);
+    consume(notJson);
+    await flush();
+
+    expect(channel.nack).toHaveBeenCalledWith(invalid, false, false);
+    expect(channel.nack).toHaveBeenCalledWith(notJson, false, false);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep retrying to connect while the broker is unreachable", async () => {
+    jest.useFakeTimers();
+    jest.mocked(amqp.connect).mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+
+    await broker.subscribe(["user.registered"], handler);
+    expect(channel.consume).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(amqp.connect).toHaveBeenCalledTimes(2);
+    expect(channel.consume).toHaveBeenCalled();
+  });
+
+  it("should reconnect when the server closes the channel", async () => {
+    jest.useFakeTimers();
+    await broker.subscribe(["user.registered"], handler);
+
+    channel.emit("error", new Error("PRECONDITION_FAILED - delivery acknowledgement timed out"));
+    channel.emit("close");
+    expect(connection.close).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(amqp.connect).toHaveBeenCalledTimes(2);
+    expect(channel.consume).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reconnect when the connection is lost, but not once closed", async () => {
+    jest.useFakeTimers();
+    await broker.subscribe(["user.registered"], handler);
+
+    connection.emit("close");
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(amqp.connect).toHaveBeenCalledTimes(2);
+
+    await broker.close();
+    connection.emit("close");
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(amqp.connect).toHaveBeenCalledTimes(2);
+  });
+});
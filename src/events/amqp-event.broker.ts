@@ -0,0 +1,162 @@
+import { Logger } from "@nestjs/common";
+import * as amqp from "amqplib";
+
+import { DomainEvent, EventBroker, EventHandler, InvalidEventError } from "./event-broker";
+
+export type AmqpEventBrokerConfig = {
+  url: string;
+  exchange: string;
+  queue: string;
+  /** Events handled at the same time */
+  prefetch: number;
+  reconnectDelayMs: number;
+};
+
+/**
+ * Consumes events from a RabbitMQ topic exchange, each bound by its type as
+ * routing key. Messages hold `{ "id", "type", "occurredAt", "data" }` as JSON;
+ * `id` and `type` default to the message id and routing key.
+ *
+ * An event that fails is requeued once, then rejected, which moves it to the
+ * queue's dead letter exchange when one is configured. The broker reconnects
+ * on its own, so that the service keeps running while RabbitMQ is down.
+ */
+export class AmqpEventBroker extends EventBroker {
+  readonly name = "amqp";
+  private readonly logger = new Logger(AmqpEventBroker.name);
+  private connection?: amqp.ChannelModel;
+  private subscription?: { types: string[]; handler: EventHandler };
+  private reconnectTimer?: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(private readonly config: AmqpEventBrokerConfig) {
+    super();
+  }
+
+  async subscribe(types: string[], handler: EventHandler): Promise<void> {
+    this.subscription = { types, handler };
+    await this.connect();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+
+    const connection = this.connection;
+    this.connection = undefined;
+    await connection?.close().catch(() => undefined);
+  }
+
+  private async connect(): Promise<void> {
+    const { types } = this.subscription!;
+    const { url, exchange, queue, prefetch } = this.config;
+
+    try {
+      const connection = await amqp.connect(url);
+      this.connection = connection;
+      connection.on("error", error => this.logger.error(`Event broker connection error: ${error.message}`));
+      connection.on("close", () => {
+        if (this.connection === connection) {
+          this.connection = undefined;
+          this.logger.warn("Event broker connection lost");
+          this.scheduleReconnect();
+        }
+      });
+
+      const channel = await connection.createChannel();
+      // The server closes the channel on its own, e.g. on a consumer ack timeout
+      // or a deleted queue, which leaves the connection up without a consumer
+      channel.on("error", (error) => {
+        this.logger.error(`Event broker channel error: ${error.message}`);
+        this.dropConnection(connection);
+      });
+      channel.on("close", () => this.dropConnection(connection));
+      await channel.assertExchange(exchange, "topic", { durable: true });
+      await channel.assertQueue(queue, { durable: true });
+      for (const type of types) {
+        await channel.bindQueue(queue, exchange, type);
+      }
+      await channel.prefetch(prefetch);
+      await channel.consume(queue, (message) => {
+        this.deliver(channel, message).catch(error => this.logger.error(`Failed to acknowledge event: ${error.message}`));
+      });
+
+      this.logger.log(`Consuming ${types.length} event type(s) from exchange ${exchange} through queue ${queue}`);
+    }
+    catch (error) {
+      this.logger.error(`Failed to connect to the event broker: ${error.message}`);
+      const connection = this.connection;
+      this.connection = undefined;
+      await connection?.close().catch(() => undefined);
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Closes the connection of a lost channel and connects again, so that the
+   * queue gets a consumer back.
+   */
+  private dropConnection(connection: amqp.ChannelModel): void {
+    if (this.connection !== connection) {
+      return;
+    }
+
+    this.connection = undefined;
+    this.logger.warn("Event broker channel closed, reconnecting");
+    connection.close().catch(() => undefined);
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      void this.connect();
+    }, this.config.reconnectDelayMs);
+    this.reconnectTimer.unref();
+  }
+
+  private async deliver(channel: amqp.Channel, message: amqp.ConsumeMessage | null): Promise<void> {
+    // Null when RabbitMQ cancelled the consumer, e.g. because the queue was deleted
+    if (!message) {
+      this.logger.warn(`Consumer of queue ${this.config.queue} cancelled by the broker`);
+      return;
+    }
+
+    try {
+      await this.subscription!.handler(parseMessage(message));
+    }
+    catch (error) {
+      const requeue = !(error instanceof InvalidEventError) && !message.fields.redelivered;
+      this.logger.error(`Failed to handle event ${message.fields.routingKey} (${requeue ? "requeued" : "rejected"}): ${error.message}`);
+      channel.nack(message, false, requeue);
+      return;
+    }
+
+    channel.ack(message);
+  }
+}
+
+function parseMessage(message: amqp.ConsumeMessage): DomainEvent {
+  let body: any;
+  try {
+    body = JSON.parse(message.content.toString("utf-8"));
+  }
+  catch {
+    throw new InvalidEventError("Event is not valid JSON");
+  }
+
+  if (typeof body?.data !== "object" || body.data === null || Array.isArray(body.data)) {
+    throw new InvalidEventError("Event has no data object");
+  }
+
+  return {
+    id: body.id ?? message.properties.messageId,
+    type: body.type ?? message.fields.routingKey,
+    occurredAt: body.occurredAt,
+    data: body.data,
+  };
+}
@@ -0,0 +1,21 @@
+import { AmqpEventBroker } from "./amqp-event.broker";
+import { EventBroker } from "./event-broker";
+import { MemoryEventBroker } from "./memory-event.broker";
+
+export type EventBrokerName = "amqp" | "memory";
+
+export const EVENT_BROKER_NAMES: EventBrokerName[] = ["amqp", "memory"];
+
+/**
+ * Builds the broker registered under `name` from the `events` config.
+ */
+export function createEventBroker(name: string, eventsConfig: any): EventBroker {
+  switch (name) {
+    case "amqp":
+      return new AmqpEventBroker(eventsConfig.amqp);
+    case "memory":
+      return new MemoryEventBroker();
+    default:
+      throw new Error(`Unknown event broker "${name}", expected one of: ${EVENT_BROKER_NAMES.join(", ")}`);
+  }
+}
@@ -0,0 +1,38 @@
+export type DomainEvent = {
+  /** Set by the publisher, used to ignore redelivered events */
+  id?: string;
+  /** e.g. "user.registered" */
+  type: string;
+  occurredAt?: string;
+  data: Record<string, any>;
+};
+
+export type EventHandler = (event: DomainEvent) => Promise<void>;
+
+/**
+ * Raised for events that can never be handled, e.g. with missing fields, so
+ * that the broker drops them instead of delivering them again.
+ */
+export class InvalidEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = InvalidEventError.name;
+  }
+}
+
+/**
+ * Source of the domain events published by the other services. Events are
+ * delivered at least once: an event is acknowledged when the handler
+ * resolves, and delivered again when it throws anything but an
+ * `InvalidEventError`.
+ */
+export abstract class EventBroker {
+  abstract readonly name: string;
+
+  /**
+   * Starts handing the events of the given types to `handler`.
+   */
+  abstract subscribe(types: string[], handler: EventHandler): Promise<void>;
+
+  abstract close(): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import { DomainEvent, EventBroker, EventHandler } from "./event-broker";
+
+/**
+ * In-process stand-in for a broker, for tests: `publish` hands the event
+ * straight to the handler and lets its errors through.
+ */
+export class MemoryEventBroker extends EventBroker {
+  readonly name = "memory";
+  private readonly types = new Set<string>();
+  private handler?: EventHandler;
+
+  async subscribe(types: string[], handler: EventHandler): Promise<void> {
+    types.forEach(type => this.types.add(type));
+    this.handler = handler;
+  }
+
+  /**
+   * Returns false when no handler subscribed to the event's type.
+   */
+  async publish(event: DomainEvent): Promise<boolean> {
+    if (!this.handler || !this.types.has(event.type)) {
+      return false;
+    }
+
+    await this.handler(event);
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.types.clear();
+    this.handler = undefined;
+  }
+}
@@ -0,0 +1,94 @@
+import { ArgumentsHost, BadRequestException, ForbiddenException, HttpException, Logger, NotFoundException } from "@nestjs/common";
+
+import { HttpTransportError } from "../transports/http-api.transport";
+import { ApiError } from "../utils/api-errors";
+import { ApiExceptionFilter } from "./api-exception.filter";
+
+describe("apiExceptionFilter", () => {
+  const filter = new ApiExceptionFilter();
+  let response: { status: jest.Mock; json: jest.Mock };
+
+  const createHost = (): ArgumentsHost => ({
+    switchToHttp: () => ({
+      getRequest: () => ({ method: "POST", originalUrl: "/api/v1/notifications/send" }),
+      getResponse: () => response,
+    }),
+  }) as ArgumentsHost;
+
+  const handle = (exception: unknown) => {
+    filter.catch(exception, createHost());
+    return { status: response.status.mock.calls[0][0], body: response.json.mock.calls[0][0] };
+  };
+
+  beforeEach(() => {
+    response = { status: jest.fn(), json: jest.fn() };
+    response.status.mockReturnValue(response);
+    jest.spyOn(Logger.prototype, "error").mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should report API errors with their code and details", () => {
+    const { status, body } = handle(new ApiError("RATE_LIMITED", "Rate limit per client exceeded, retry in 30s", { limit: "client", retryAfterSeconds: 30 }));
+
+    expect(status).toBe(429);
+    expect(body).toEqual({
+      success: false,
+      statusCode: 429,
+      code: "RATE_LIMITED",
+      message: "Rate limit per client exceeded, retry in 30s",
+      retryable: true,
+      details: { limit: "client", retryAfterSeconds: 30 },
+      path: "/api/v1/notifications/send",
+      timestamp: expect.any(String),
+    });
+  });
+
+  it("should report validation pipe errors as details", () => {
+    const { status, body } = handle(new BadRequestException(["email must be an email", "firstName must be a string"]));
+
+    expect(status).toBe(400);
+    expect(body).toEqual(expect.objectContaining({
+      code: "VALIDATION_FAILED",
+      message: "Request validation failed",
+      retryable: false,
+      details: ["email must be an email", "firstName must be a string"],
+    }));
+  });
+
+  it("should derive the code of framework exceptions from their status", () => {
+    expect(handle(new ForbiddenException("Missing scope: notifications:welcome")).body).toEqual(expect.objectContaining({
+      statusCode: 403,
+      code: "FORBIDDEN",
+      message: "Missing scope: notifications:welcome",
+    }));
+  });
+
+  it("should keep the status of exceptions without a dedicated code", () => {
+    const { status, body } = handle(new HttpException("Payload too large", 413));
+
+    expect(status).toBe(413);
+    expect(body).toEqual(expect.objectContaining({ statusCode: 413, code: "BAD_REQUEST" }));
+  });
+
+  it("should report unreachable email providers as retryable", () => {
+    const { status, body } = handle(new HttpTransportError("sendgrid responded with 503", 503));
+
+    expect(status).toBe(503);
+    expect(body).toEqual(expect.objectContaining({ code: "TRANSPORT_UNAVAILABLE", retryable: true }));
+  });
+
+  it("should not leak the message of unexpected errors", () => {
+    const { status, body } = handle(new Error("ENOENT: /var/lib/notify/email-jobs.json"));
+
+    expect(status).toBe(500);
+    expect(body).toEqual(expect.objectContaining({ code: "INTERNAL_ERROR", message: "Internal server error", retryable: true }));
+    expect(Logger.prototype.error).toHaveBeenCalledWith(expect.stringContaining("ENOENT"), expect.any(String));
+  });
+
+  it("should keep the message of not found errors", () => {
+    expect(handle(new NotFoundException("Notification not found: job-1")).body.message).toBe("Notification not found: job-1");
+  });
+});
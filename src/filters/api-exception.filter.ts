@@ -0,0 +1,76 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpException, HttpStatus, Logger } from "@nestjs/common";
+import { Request, Response } from "express";
+
+import { ErrorResponseDto } from "../dto/error-response.dto";
+import { API_ERRORS, ApiError, ApiErrorCode } from "../utils/api-errors";
+import { isTransientDeliveryError } from "../utils/delivery-errors";
+
+const CODES_BY_STATUS: Partial<Record<number, ApiErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: "VALIDATION_FAILED",
+  [HttpStatus.UNAUTHORIZED]: "UNAUTHORIZED",
+  [HttpStatus.FORBIDDEN]: "FORBIDDEN",
+  [HttpStatus.NOT_FOUND]: "NOT_FOUND",
+  [HttpStatus.TOO_MANY_REQUESTS]: "RATE_LIMITED",
+  [HttpStatus.SERVICE_UNAVAILABLE]: "TRANSPORT_UNAVAILABLE",
+};
+
+/**
+ * Turns every exception into an ErrorResponseDto. Framework exceptions get a
+ * code from their status; other errors are reported as INTERNAL_ERROR
+ * without their message, which may leak internals, and logged instead.
+ */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const context = host.switchToHttp();
+    const request = context.getRequest<Request>();
+    const response = context.getResponse<Response>();
+
+    const error = this.toErrorResponse(exception, request.originalUrl);
+    if (error.statusCode >= 500) {
+      this.logger.error(`${request.method} ${request.originalUrl} failed: ${(exception as Error)?.message}`, (exception as Error)?.stack);
+    }
+
+    response.status(error.statusCode).json(error);
+  }
+
+  private toErrorResponse(exception: unknown, path: string): ErrorResponseDto {
+    if (exception instanceof ApiError) {
+      return this.build(exception.code, exception.message, path, exception.details);
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      const code = CODES_BY_STATUS[status] ?? (status >= 500 ? "INTERNAL_ERROR" : "BAD_REQUEST");
+      const body = exception.getResponse();
+      const message = typeof body === "object" && "message" in body ? body.message : body;
+
+      // ValidationPipe reports each constraint in `message`
+      if (Array.isArray(message)) {
+        return this.build(code, "Request validation failed", path, message, status);
+      }
+      return this.build(code, typeof message === "string" ? message : exception.message, path, undefined, status);
+    }
+
+    if (isTransientDeliveryError(exception)) {
+      return this.build("TRANSPORT_UNAVAILABLE", "Email provider unavailable, try again later", path);
+    }
+
+    return this.build("INTERNAL_ERROR", "Internal server error", path);
+  }
+
+  private build(code: ApiErrorCode, message: string, path: string, details?: ErrorResponseDto["details"], status?: number): ErrorResponseDto {
+    return {
+      success: false,
+      statusCode: status ?? API_ERRORS[code].status,
+      code,
+      message,
+      retryable: API_ERRORS[code].retryable,
+      ...(details !== undefined && { details }),
+      path,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
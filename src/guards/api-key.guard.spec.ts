@@ -1,23 +1,39 @@
-import { ExecutionContext, Logger, UnauthorizedException } from "@nestjs/common";
+import { ExecutionContext, ForbiddenException, Logger, UnauthorizedException } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
+import { Reflector } from "@nestjs/core";
 import { Test, TestingModule } from "@nestjs/testing";
+import { Buffer } from "node:buffer";
 
+import { RequestSigner } from "../client/request-signer";
+import { ApiKeyService } from "../services/api-key.service";
+import { RequestSignatureService } from "../services/request-signature.service";
 import { ApiKeyGuard } from "./api-key.guard";
 
 describe("apiKeyGuard", () => {
   let guard: ApiKeyGuard;
   let configService: jest.Mocked<ConfigService>;
+  const reflector = new Reflector();
 
   const mockConfigService = {
     get: jest.fn(),
   };
 
+  const authConfig = (legacyApiKey: string | null | undefined, apiKeys = "") => ({ legacyApiKey, apiKeys, apiKeysFile: "" });
+  const createGuard = () => new ApiKeyGuard(
+    new ApiKeyService(mockConfigService as any),
+    reflector,
+    new RequestSignatureService(mockConfigService as any),
+  );
+
   beforeEach(async () => {
     jest.clearAllMocks();
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         ApiKeyGuard,
+        ApiKeyService,
+        RequestSignatureService,
+        { provide: Reflector, useValue: reflector },
         { provide: ConfigService, useValue: mockConfigService },
       ],
     }).compile();
@@ -41,18 +57,18 @@ describe("apiKeyGuard", () => {
 
   describe("constructor", () => {
     it("should get API key from config service", () => {
-      expect(configService.get).toHaveBeenCalledWith("NOTIFY_SERVICE_API_KEY");
+      expect(configService.get).toHaveBeenCalledWith("auth");
     });
 
     it("should warn when API key is not configured", () => {
       const warnSpy = jest.spyOn(Logger.prototype, "warn");
-      mockConfigService.get.mockReturnValue("");
+      mockConfigService.get.mockReturnValue(authConfig(""));
 
       // Create new guard instance to trigger constructor
-      const _guard = new ApiKeyGuard(mockConfigService as any);
+      const _guard = createGuard();
 
       expect(warnSpy).toHaveBeenCalledWith(
-        "NOTIFY_SERVICE_API_KEY not set! All requests will be rejected.",
+        "No API key configured! All requests will be rejected.",
       );
     });
 
@@ -62,14 +78,18 @@ describe("apiKeyGuard", () => {
 
       // Create a fresh mock that returns a valid API key
       const freshMockConfigService = {
-        get: jest.fn().mockReturnValue("valid-api-key"),
+        get: jest.fn().mockReturnValue(authConfig("valid-api-key")),
       };
 
       // Create new guard instance to trigger constructor
-      const _guard = new ApiKeyGuard(freshMockConfigService as any);
+      const _guard = new ApiKeyGuard(
+        new ApiKeyService(freshMockConfigService as any),
+        reflector,
+        new RequestSignatureService(freshMockConfigService as any),
+      );
 
       expect(warnSpy).not.toHaveBeenCalledWith(
-        "NOTIFY_SERVICE_API_KEY not set! All requests will be rejected.",
+        "No API key configured! All requests will be rejected.",
       );
     });
   });
@@ -90,11 +110,13 @@ describe("apiKeyGuard", () => {
         switchToHttp: jest.fn().mockReturnValue({
           getRequest: jest.fn().mockReturnValue(mockRequest),
         }),
+        getHandler: jest.fn().mockReturnValue(jest.fn()),
+        getClass: jest.fn().mockReturnValue(ApiKeyGuard),
       } as any;
 
       // Set up valid API key by default
-      mockConfigService.get.mockReturnValue(validApiKey);
-      guard = new ApiKeyGuard(mockConfigService as any);
+      mockConfigService.get.mockReturnValue(authConfig(validApiKey));
+      guard = createGuard();
     });
 
     describe("authorization header", () => {
@@ -147,6 +169,119 @@ describe("apiKeyGuard", () => {
       });
     });
 
+    describe("client identification", () => {
+      it("should attach a client fingerprint that does not contain the key", () => {
+        mockRequest.headers["x-api-key"] = validApiKey;
+
+        guard.canActivate(mockExecutionContext);
+
+        expect(mockRequest.apiClient.id).toMatch(/^key-[0-9a-f]{12}$/);
+        expect(mockRequest.apiClient.id).not.toContain(validApiKey);
+      });
+    });
+
+    describe("scopes", () => {
+      const billingKey = "billing-service-key";
+
+      beforeEach(() => {
+        mockConfigService.get.mockReturnValue(authConfig("", JSON.stringify([
+          { name: "payment-service", key: billingKey, scopes: ["notifications:billing"] },
+        ])));
+        guard = createGuard();
+        mockRequest.headers["x-api-key"] = billingKey;
+      });
+
+      afterEach(() => {
+        jest.restoreAllMocks();
+      });
+
+      it("should identify the client by the name of its key", () => {
+        guard.canActivate(mockExecutionContext);
+
+        expect(mockRequest.apiClient).toEqual({ id: "payment-service", scopes: ["notifications:billing"] });
+      });
+
+      it("should allow routes requiring a granted scope", () => {
+        jest.spyOn(reflector, "getAllAndOverride").mockReturnValue(["notifications:billing"]);
+
+        expect(guard.canActivate(mockExecutionContext)).toBe(true);
+      });
+
+      it("should forbid routes requiring a scope the key lacks", () => {
+        jest.spyOn(reflector, "getAllAndOverride").mockReturnValue(["notifications:welcome"]);
+
+        expect(() => guard.canActivate(mockExecutionContext)).toThrow(ForbiddenException);
+        expect(mockRequest.apiClient).toBeUndefined();
+      });
+
+      it("should grant every scope to the legacy shared key", () => {
+        mockConfigService.get.mockReturnValue(authConfig(validApiKey));
+        guard = createGuard();
+        mockRequest.headers["x-api-key"] = validApiKey;
+        jest.spyOn(reflector, "getAllAndOverride").mockReturnValue(["admin:queue"]);
+
+        expect(guard.canActivate(mockExecutionContext)).toBe(true);
+      });
+    });
+
+    describe("signed requests", () => {
+      const secret = "billing-signing-secret";
+      const body = JSON.stringify({ email: "jane@example.com" });
+      const path = "/api/v1/notifications/subscription-confirmation";
+
+      const signRequest = (clientId = "payment-service", signingSecret = secret) => {
+        Object.assign(mockRequest, { method: "POST", originalUrl: path, rawBody: Buffer.from(body) });
+        Object.assign(mockRequest.headers, new RequestSigner(clientId, signingSecret).sign("POST", path, body));
+      };
+
+      beforeEach(() => {
+        mockConfigService.get.mockReturnValue(authConfig("", JSON.stringify([
+          { name: "payment-service", key: secret, scopes: ["notifications:billing"], auth: "hmac" },
+          { name: "auth-service", key: "auth-service-key", scopes: ["notifications:welcome"] },
+        ])));
+        guard = createGuard();
+      });
+
+      it("should authenticate a request signed with the client secret", () => {
+        signRequest();
+
+        expect(guard.canActivate(mockExecutionContext)).toBe(true);
+        expect(mockRequest.apiClient).toEqual({ id: "payment-service", scopes: ["notifications:billing"] });
+      });
+
+      it("should reject a request whose body was altered", () => {
+        signRequest();
+        mockRequest.rawBody = Buffer.from(JSON.stringify({ email: "mallory@example.com" }));
+
+        expect(() => guard.canActivate(mockExecutionContext)).toThrow("Invalid request signature");
+      });
+
+      it("should reject a replayed request", () => {
+        signRequest();
+        guard.canActivate(mockExecutionContext);
+
+        expect(() => guard.canActivate(mockExecutionContext)).toThrow("Request already processed");
+      });
+
+      it("should reject a signature made with another secret", () => {
+        signRequest("payment-service", "wrong-secret");
+
+        expect(() => guard.canActivate(mockExecutionContext)).toThrow(UnauthorizedException);
+      });
+
+      it("should reject signed requests from clients limited to API keys", () => {
+        signRequest("auth-service", "auth-service-key");
+
+        expect(() => guard.canActivate(mockExecutionContext)).toThrow("Invalid request signature");
+      });
+
+      it("should reject the key of a client that must sign its requests", () => {
+        mockRequest.headers["x-api-key"] = secret;
+
+        expect(() => guard.canActivate(mockExecutionContext)).toThrow("Invalid API key");
+      });
+    });
+
     describe("header priority", () => {
       it("should prefer Authorization header over X-API-Key", () => {
         mockRequest.headers.authorization = `Bearer ${validApiKey}`;
@@ -173,8 +308,8 @@ describe("apiKeyGuard", () => {
       });
 
       it("should reject request when API key is not configured", () => {
-        mockConfigService.get.mockReturnValue("");
-        guard = new ApiKeyGuard(mockConfigService as any);
+        mockConfigService.get.mockReturnValue(authConfig(""));
+        guard = createGuard();
 
         mockRequest.headers["x-api-key"] = "any-key";
 
@@ -201,7 +336,7 @@ describe("apiKeyGuard", () => {
         guard.canActivate(mockExecutionContext);
 
         expect(logSpy).toHaveBeenCalledWith(
-          "Valid API key provided from IP: 127.0.0.1",
+          `Valid API key provided by ${mockRequest.apiClient.id} from IP: 127.0.0.1`,
         );
       });
 
@@ -244,7 +379,7 @@ describe("apiKeyGuard", () => {
         guard.canActivate(mockExecutionContext);
 
         expect(logSpy).toHaveBeenCalledWith(
-          "Valid API key provided from IP: 192.168.1.100",
+          `Valid API key provided by ${mockRequest.apiClient.id} from IP: 192.168.1.100`,
         );
       });
     });
@@ -291,8 +426,8 @@ describe("apiKeyGuard", () => {
       it("should extract API key from Bearer token correctly", () => {
         const testKey = "test-bearer-key-123";
         mockRequest.headers.authorization = `Bearer ${testKey}`;
-        mockConfigService.get.mockReturnValue(testKey);
-        guard = new ApiKeyGuard(mockConfigService as any);
+        mockConfigService.get.mockReturnValue(authConfig(testKey));
+        guard = createGuard();
 
         const result = guard.canActivate(mockExecutionContext);
 
@@ -302,8 +437,8 @@ describe("apiKeyGuard", () => {
       it("should extract API key from X-API-Key header correctly", () => {
         const testKey = "test-x-api-key-456";
         mockRequest.headers["x-api-key"] = testKey;
-        mockConfigService.get.mockReturnValue(testKey);
-        guard = new ApiKeyGuard(mockConfigService as any);
+        mockConfigService.get.mockReturnValue(authConfig(testKey));
+        guard = createGuard();
 
         const result = guard.canActivate(mockExecutionContext);
 
@@ -315,8 +450,8 @@ describe("apiKeyGuard", () => {
         const lowercaseKey = "casesensitivekey";
 
         mockRequest.headers["x-api-key"] = lowercaseKey;
-        mockConfigService.get.mockReturnValue(originalKey);
-        guard = new ApiKeyGuard(mockConfigService as any);
+        mockConfigService.get.mockReturnValue(authConfig(originalKey));
+        guard = createGuard();
 
         expect(() => guard.canActivate(mockExecutionContext)).toThrow(UnauthorizedException);
       });
@@ -324,8 +459,8 @@ describe("apiKeyGuard", () => {
 
     describe("configuration scenarios", () => {
       it("should handle null API key configuration", () => {
-        mockConfigService.get.mockReturnValue(null);
-        guard = new ApiKeyGuard(mockConfigService as any);
+        mockConfigService.get.mockReturnValue(authConfig(null));
+        guard = createGuard();
 
         mockRequest.headers["x-api-key"] = "any-key";
 
@@ -333,8 +468,8 @@ describe("apiKeyGuard", () => {
       });
 
       it("should handle undefined API key configuration", () => {
-        mockConfigService.get.mockReturnValue(undefined);
-        guard = new ApiKeyGuard(mockConfigService as any);
+        mockConfigService.get.mockReturnValue(authConfig(undefined));
+        guard = createGuard();
 
         mockRequest.headers["x-api-key"] = "any-key";
 
@@ -1,42 +1,100 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   Logger,
+  RawBodyRequest,
   UnauthorizedException,
 } from "@nestjs/common";
-import { ConfigService } from "@nestjs/config";
+import { Reflector } from "@nestjs/core";
 import { Request } from "express";
 
+import { SIGNATURE_HEADERS } from "../client/request-signer";
+import { REQUIRED_SCOPES_KEY } from "../decorators/require-scopes.decorator";
+import { ApiClient, ApiKeyService } from "../services/api-key.service";
+import { RequestSignatureService } from "../services/request-signature.service";
+
+export type AuthenticatedRequest = RawBodyRequest<Request> & {
+  apiClient?: ApiClient;
+};
+
 @Injectable()
 export class ApiKeyGuard implements CanActivate {
   private readonly logger = new Logger(ApiKeyGuard.name);
-  private readonly expectedApiKey: string;
 
-  constructor(private readonly configService: ConfigService) {
-    this.expectedApiKey = this.configService.get<string>("NOTIFY_SERVICE_API_KEY") || "";
+  constructor(
+    private readonly apiKeyService: ApiKeyService,
+    private readonly reflector: Reflector,
+    private readonly requestSignatureService: RequestSignatureService,
+  ) {}
 
-    if (!this.expectedApiKey) {
-      this.logger.warn("NOTIFY_SERVICE_API_KEY not set! All requests will be rejected.");
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const client = request.headers[SIGNATURE_HEADERS.signature]
+      ? this.authenticateSignature(request)
+      : this.authenticateApiKey(request);
+
+    const requiredScopes = this.reflector.getAllAndOverride<string[]>(REQUIRED_SCOPES_KEY, [context.getHandler(), context.getClass()]) ?? [];
+    const missingScopes = requiredScopes.filter(scope => !this.apiKeyService.hasScope(client, scope));
+    if (missingScopes.length > 0) {
+      this.logger.warn(`API key of ${client.id} lacks scope ${missingScopes.join(", ")} for ${request.method} ${request.url}`);
+      throw new ForbiddenException(`Missing scope: ${missingScopes.join(", ")}`);
     }
+
+    request.apiClient = client;
+
+    this.logger.log(`Valid API key provided by ${client.id} from IP: ${request.ip}`);
+    return true;
   }
 
-  canActivate(context: ExecutionContext): boolean {
-    const request = context.switchToHttp().getRequest<Request>();
+  private authenticateApiKey(request: AuthenticatedRequest): ApiClient {
     const apiKey = this.extractApiKey(request);
 
-    if (!apiKey || !this.expectedApiKey) {
+    if (!apiKey || !this.apiKeyService.hasKeys) {
       this.logger.warn("API key missing or not configured");
       throw new UnauthorizedException("Invalid API key");
     }
 
-    if (apiKey !== this.expectedApiKey) {
+    const client = this.apiKeyService.authenticate(apiKey);
+    if (!client) {
       this.logger.warn(`Invalid API key attempt from IP: ${request.ip}`);
       throw new UnauthorizedException("Invalid API key");
     }
 
-    this.logger.log(`Valid API key provided from IP: ${request.ip}`);
-    return true;
+    return client;
+  }
+
+  private authenticateSignature(request: AuthenticatedRequest): ApiClient {
+    const header = (name: string) => {
+      const value = request.headers[name];
+      return typeof value === "string" ? value : "";
+    };
+
+    const clientId = header(SIGNATURE_HEADERS.clientId);
+    const signingClient = this.apiKeyService.findSigningClient(clientId);
+    if (!signingClient) {
+      this.logger.warn(`Signed request from unknown client "${clientId}" from IP: ${request.ip}`);
+      throw new UnauthorizedException("Invalid request signature");
+    }
+
+    const check = this.requestSignatureService.verify({
+      clientId,
+      method: request.method,
+      path: request.originalUrl,
+      timestamp: header(SIGNATURE_HEADERS.timestamp),
+      nonce: header(SIGNATURE_HEADERS.nonce),
+      signature: header(SIGNATURE_HEADERS.signature),
+      body: request.rawBody,
+    }, signingClient.secrets);
+    if (!check.valid) {
+      this.logger.warn(`Rejected signed request from ${clientId} from IP: ${request.ip}: ${check.reason}`);
+      throw new UnauthorizedException(check.reason);
+    }
+
+    this.apiKeyService.recordSignedUse(clientId, check.secret!);
+
+    return signingClient.client;
   }
 
   private extractApiKey(request: Request): string | null {
@@ -0,0 +1,41 @@
+import { ExecutionContext, ForbiddenException, Logger, UnauthorizedException } from "@nestjs/common";
+
+import { WebhookTokenGuard } from "./webhook-token.guard";
+
+describe("webhookTokenGuard", () => {
+  const createGuard = (webhookToken?: string) => new WebhookTokenGuard({ get: () => ({ webhookToken }) } as any);
+
+  const createContext = (request: { query?: Record<string, any>; headers?: Record<string, any> }): ExecutionContext => ({
+    switchToHttp: () => ({
+      getRequest: () => ({ query: {}, headers: {}, ip: "127.0.0.1", ...request }),
+    }),
+  }) as ExecutionContext;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should accept the token from the query string", () => {
+    expect(createGuard("webhook-secret").canActivate(createContext({ query: { token: "webhook-secret" } }))).toBe(true);
+  });
+
+  it("should accept the token from the header", () => {
+    expect(createGuard("webhook-secret").canActivate(createContext({ headers: { "x-webhook-token": "webhook-secret" } }))).toBe(true);
+  });
+
+  it("should reject a missing or wrong token", () => {
+    const guard = createGuard("webhook-secret");
+
+    expect(() => guard.canActivate(createContext({}))).toThrow(UnauthorizedException);
+    expect(() => guard.canActivate(createContext({ query: { token: "wrong" } }))).toThrow(UnauthorizedException);
+    expect(() => guard.canActivate(createContext({ query: { token: ["webhook-secret"] } }))).toThrow(UnauthorizedException);
+  });
+
+  it("should refuse every webhook when no token is configured", () => {
+    expect(() => createGuard().canActivate(createContext({ query: { token: "" } }))).toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,43 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, Logger, UnauthorizedException } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Request } from "express";
+import { Buffer } from "node:buffer";
+import { timingSafeEqual } from "node:crypto";
+
+export const WEBHOOK_TOKEN_HEADER = "x-webhook-token";
+
+/**
+ * Authenticates provider webhooks, which cannot send API keys, with a shared
+ * token set in the webhook URL (`?token=`) or the x-webhook-token header.
+ */
+@Injectable()
+export class WebhookTokenGuard implements CanActivate {
+  private readonly logger = new Logger(WebhookTokenGuard.name);
+  private readonly token: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.token = this.configService.get("auth")?.webhookToken ?? "";
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.token) {
+      this.logger.warn("Webhook refused: WEBHOOK_TOKEN is not configured");
+      throw new ForbiddenException("Webhooks are disabled");
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const received = request.query.token ?? request.headers[WEBHOOK_TOKEN_HEADER];
+    if (typeof received !== "string" || !this.matches(received)) {
+      this.logger.warn(`Webhook refused: invalid token from ${request.ip}`);
+      throw new UnauthorizedException("Invalid webhook token");
+    }
+
+    return true;
+  }
+
+  private matches(received: string): boolean {
+    const expected = Buffer.from(this.token);
+    const actual = Buffer.from(received);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
@@ -0,0 +1,174 @@
+import { BadRequestException, CallHandler, ExecutionContext, Logger } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { lastValueFrom, of } from "rxjs";
+
+import { IdempotencyService } from "../services/idempotency.service";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { IdempotencyInterceptor } from "./idempotency.interceptor";
+
+describe("idempotencyInterceptor", () => {
+  let interceptor: IdempotencyInterceptor;
+  let idempotencyService: IdempotencyService;
+  let mockRequest: any;
+  let mockResponse: any;
+  let mockContext: ExecutionContext;
+  let handler: jest.Mock;
+  let callHandler: CallHandler;
+
+  const mockReflector = {
+    get: jest.fn().mockReturnValue({ template: "welcome" }),
+  };
+
+  const mockTemplateRegistry = {
+    find: jest.fn(async (name: string) => ({ name, category: name === "receipt" ? "billing" : "transactional" })),
+  };
+
+  const body = {
+    email: "test@example.com",
+    firstName: "John",
+    lastName: "Doe",
+    provider: "google",
+    userId: "user123",
+  };
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+
+    const storage = new Map<string, any>();
+    idempotencyService = new IdempotencyService(
+      { get: () => ({ ttlSeconds: 60 }) } as any,
+      {
+        collection: () => ({
+          get: async (id: string) => storage.get(id),
+          save: async (record: any) => storage.set(record.id, record) && record,
+          delete: async (id: string) => storage.delete(id),
+          find: async () => [],
+        }),
+      } as any,
+    );
+    interceptor = new IdempotencyInterceptor(mockReflector as unknown as Reflector, idempotencyService, mockTemplateRegistry as unknown as TemplateRegistryService);
+
+    mockRequest = { headers: {}, body: { ...body }, apiClient: { id: "auth-service" } };
+    mockResponse = { setHeader: jest.fn() };
+    mockContext = {
+      getHandler: jest.fn(),
+      switchToHttp: () => ({
+        getRequest: () => mockRequest,
+        getResponse: () => mockResponse,
+      }),
+    } as any;
+
+    let calls = 0;
+    handler = jest.fn(() => of({ success: true, jobId: `job-${++calls}` }));
+    callHandler = { handle: handler };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const run = async () => lastValueFrom(await interceptor.intercept(mockContext, callHandler));
+
+  it("should pass through routes that are not marked idempotent", async () => {
+    mockReflector.get.mockReturnValueOnce(undefined);
+
+    expect(await run()).toEqual({ success: true, jobId: "job-1" });
+    expect(await run()).toEqual({ success: true, jobId: "job-2" });
+  });
+
+  it("should replay the original response for a repeated Idempotency-Key", async () => {
+    mockRequest.headers["idempotency-key"] = "signup-123";
+
+    const first = await run();
+    const second = await run();
+
+    expect(second).toEqual(first);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(mockResponse.setHeader).toHaveBeenCalledWith("Idempotent-Replayed", "true");
+  });
+
+  it("should fall back to the userId and template when no header is sent", async () => {
+    const first = await run();
+    mockRequest.body = { ...body, firstName: "Johnny" };
+    const second = await run();
+
+    expect(second).toEqual(first);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should take the template from the payload on generic routes", async () => {
+    mockReflector.get.mockReturnValueOnce({}).mockReturnValueOnce({});
+    mockRequest.body = { template: "receipt", to: "test@example.com", data: {}, userId: "user123" };
+
+    const first = await run();
+    const second = await run();
+
+    expect(second).toEqual(first);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not derive a key for transactional templates on generic routes", async () => {
+    mockReflector.get.mockReturnValueOnce({}).mockReturnValueOnce({});
+    mockRequest.body = { template: "password-reset", to: "test@example.com", data: {}, userId: "user123" };
+
+    await run();
+    await run();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not deduplicate requests without a key or userId", async () => {
+    mockRequest.body = { ...body, userId: undefined };
+
+    await run();
+    await run();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should scope keys per calling client", async () => {
+    mockRequest.headers["idempotency-key"] = "signup-123";
+    await run();
+
+    mockRequest.apiClient = { id: "payment-service" };
+    await run();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not remember failed responses", async () => {
+    mockRequest.headers["idempotency-key"] = "signup-123";
+    handler.mockReturnValueOnce(of({ success: false, message: "Error: Storage unavailable" }));
+
+    await run();
+    await run();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject a reused key with a different payload", async () => {
+    mockRequest.headers["idempotency-key"] = "signup-123";
+    await run();
+
+    mockRequest.body = { ...body, email: "other@example.com" };
+
+    await expect(run()).rejects.toMatchObject({ code: "IDEMPOTENCY_CONFLICT", status: 422 });
+  });
+
+  it("should reject a concurrent request with the same key and a different payload", async () => {
+    mockRequest.headers["idempotency-key"] = "signup-123";
+    const first = run();
+    mockRequest = { ...mockRequest, body: { ...body, email: "other@example.com" } };
+    const second = run();
+
+    expect(await first).toEqual({ success: true, jobId: "job-1" });
+    await expect(second).rejects.toMatchObject({ code: "IDEMPOTENCY_CONFLICT" });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject an empty Idempotency-Key", async () => {
+    mockRequest.headers["idempotency-key"] = "  ";
+
+    await expect(run()).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { Response } from "express";
+import { lastValueFrom, Observable, of } from "rxjs";
+
+import { IDEMPOTENT_OPTIONS_KEY, IdempotentOptions } from "../decorators/idempotent.decorator";
+import { NotificationResponseDto } from "../dto/notification.dto";
+import { AuthenticatedRequest } from "../guards/api-key.guard";
+import { IdempotencyRecord, IdempotencyService } from "../services/idempotency.service";
+import { ApiError } from "../utils/api-errors";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+
+const MAX_KEY_LENGTH = 255;
+
+type ResolvedKey = {
+  key: string;
+  explicit: boolean;
+};
+
+/**
+ * Replays the stored response when a send request is repeated with the same
+ * idempotency key, instead of sending the email a second time.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly idempotencyService: IdempotencyService,
+    private readonly templateRegistry: TemplateRegistryService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const options = this.reflector.get<IdempotentOptions>(IDEMPOTENT_OPTIONS_KEY, context.getHandler());
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const resolved = options ? await this.resolveKey(request, options) : null;
+
+    if (!resolved) {
+      return next.handle();
+    }
+
+    const clientId = request.apiClient?.id ?? "anonymous";
+    const requestHash = IdempotencyService.hash(request.body);
+
+    const existing = await this.idempotencyService.find(clientId, resolved.key);
+    if (existing) {
+      return of(this.replay(existing, resolved, requestHash, response));
+    }
+
+    const { result, shared, requestHash: sharedRequestHash } = await this.idempotencyService.runExclusive(clientId, resolved.key, async () => {
+      const value: NotificationResponseDto | undefined = await lastValueFrom(next.handle());
+      if (value?.success) {
+        await this.idempotencyService.remember(clientId, resolved.key, requestHash, value);
+      }
+      return value;
+    }, requestHash);
+
+    if (shared) {
+      this.assertSamePayload(resolved, sharedRequestHash, requestHash);
+      response.setHeader("Idempotent-Replayed", "true");
+    }
+
+    return of(result);
+  }
+
+  private replay(record: IdempotencyRecord, resolved: ResolvedKey, requestHash: string, response: Response): unknown {
+    this.assertSamePayload(resolved, record.requestHash, requestHash);
+
+    this.logger.log(`Replaying stored response for client ${record.clientId} and idempotency key ${record.key}`);
+    response.setHeader("Idempotent-Replayed", "true");
+    return record.response;
+  }
+
+  /**
+   * An explicit key reused with another payload is a client bug, not a retry.
+   * Derived keys are shared by design by every payload of the user.
+   */
+  private assertSamePayload(resolved: ResolvedKey, originalRequestHash: string | undefined, requestHash: string): void {
+    if (resolved.explicit && originalRequestHash !== requestHash) {
+      throw new ApiError("IDEMPOTENCY_CONFLICT", "Idempotency-Key has already been used with a different payload");
+    }
+  }
+
+  /**
+   * Uses the Idempotency-Key header when present, otherwise derives a key from
+   * the payload's userId and the route's template. Templates taken from the
+   * payload of the generic route get no derived key when transactional, since
+   * a user may rightly get the same one twice, such as a password reset.
+   * Returns null when no key applies.
+   */
+  private async resolveKey(request: AuthenticatedRequest, options: IdempotentOptions): Promise<ResolvedKey | null> {
+    const header = request.headers["idempotency-key"];
+
+    if (header !== undefined) {
+      const key = (Array.isArray(header) ? header[0] : header).trim();
+      if (!key || key.length > MAX_KEY_LENGTH) {
+        throw new BadRequestException(`Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`);
+      }
+      return { key, explicit: true };
+    }
+
+    const template = options.template ?? await this.derivableTemplate(request.body?.template);
+    const userId = request.body?.userId;
+    if (typeof userId === "string" && userId && template) {
+      return { key: `auto:${IdempotencyService.hash([userId, template])}`, explicit: false };
+    }
+
+    return null;
+  }
+
+  private async derivableTemplate(template: unknown): Promise<string | undefined> {
+    if (typeof template !== "string") {
+      return undefined;
+    }
+
+    const definition = await this.templateRegistry.find(template);
+    return definition && definition.category !== "transactional" ? template : undefined;
+  }
+}
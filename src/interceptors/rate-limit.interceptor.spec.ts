@@ -0,0 +1,100 @@
+import { BadRequestException, CallHandler, ExecutionContext, HttpException, HttpStatus, Logger } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { lastValueFrom, of, throwError } from "rxjs";
+
+import { RateLimitService } from "../services/rate-limit.service";
+import { RateLimitInterceptor } from "./rate-limit.interceptor";
+
+describe("rateLimitInterceptor", () => {
+  let interceptor: RateLimitInterceptor;
+  let mockRequest: any;
+  let mockResponse: any;
+  let mockContext: ExecutionContext;
+  let callHandler: CallHandler;
+
+  const mockReflector = {
+    get: jest.fn(),
+  };
+
+  const rateLimitConfig = { perClient: "100/1m", perRecipient: "2/1h", perTemplate: "100/1m" };
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+    mockReflector.get.mockReturnValue({ recipient: "email", template: "welcome" });
+
+    const rateLimitService = new RateLimitService({ get: () => rateLimitConfig } as any);
+    interceptor = new RateLimitInterceptor(mockReflector as unknown as Reflector, rateLimitService);
+
+    mockRequest = { headers: {}, body: { email: "jane@example.com" }, apiClient: { id: "auth-service" } };
+    mockResponse = { setHeader: jest.fn() };
+    mockContext = {
+      getHandler: jest.fn(),
+      switchToHttp: () => ({
+        getRequest: () => mockRequest,
+        getResponse: () => mockResponse,
+      }),
+    } as any;
+    callHandler = { handle: jest.fn(() => of({ success: true })) };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const send = async () => lastValueFrom(await interceptor.intercept(mockContext, callHandler));
+
+  it("should let requests within the limits through", async () => {
+    await expect(send()).resolves.toEqual({ success: true });
+    await expect(send()).resolves.toEqual({ success: true });
+  });
+
+  it("should refuse requests over the limit with 429 and Retry-After", async () => {
+    await send();
+    await send();
+
+    await expect(send()).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+      message: "Rate limit per recipient exceeded, retry in 1800s",
+    });
+    expect(mockResponse.setHeader).toHaveBeenCalledWith("Retry-After", "1800");
+    expect(callHandler.handle).toHaveBeenCalledTimes(2);
+  });
+
+  it("should count recipients regardless of case", async () => {
+    await send();
+    mockRequest.body.email = "Jane@Example.com";
+    await send();
+
+    await expect(send()).rejects.toThrow(HttpException);
+  });
+
+  it("should give the tokens of invalid requests back", async () => {
+    jest.mocked(callHandler.handle).mockReturnValueOnce(throwError(() => new BadRequestException(["email must be an email"])));
+    jest.mocked(callHandler.handle).mockReturnValueOnce(throwError(() => new BadRequestException(["email must be an email"])));
+
+    await expect(send()).rejects.toThrow(BadRequestException);
+    await expect(send()).rejects.toThrow(BadRequestException);
+
+    await expect(send()).resolves.toEqual({ success: true });
+    await expect(send()).resolves.toEqual({ success: true });
+  });
+
+  it("should keep the tokens of requests that failed otherwise", async () => {
+    jest.mocked(callHandler.handle).mockReturnValueOnce(throwError(() => new Error("Storage unavailable")));
+
+    await expect(send()).rejects.toThrow("Storage unavailable");
+    await send();
+
+    await expect(send()).rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+  });
+
+  it("should ignore routes without limits", async () => {
+    mockReflector.get.mockReturnValue(undefined);
+
+    for (let i = 0; i < 5; i++) {
+      await send();
+    }
+
+    expect(callHandler.handle).toHaveBeenCalledTimes(5);
+  });
+});
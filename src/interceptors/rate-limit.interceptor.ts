@@ -0,0 +1,71 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { Response } from "express";
+import { lastValueFrom, Observable, of } from "rxjs";
+
+import { RATE_LIMITED_OPTIONS_KEY, RateLimitedOptions } from "../decorators/rate-limited.decorator";
+import { AuthenticatedRequest } from "../guards/api-key.guard";
+import { RateLimitService } from "../services/rate-limit.service";
+import { ApiError } from "../utils/api-errors";
+
+/**
+ * Refuses send requests over their rate limits with 429 and a Retry-After
+ * header. Runs inside the idempotency interceptor, so that replayed
+ * responses do not use up the limits. Interceptors run before validation,
+ * so the tokens of a request that turns out invalid are given back.
+ */
+@Injectable()
+export class RateLimitInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const options = this.reflector.get<RateLimitedOptions>(RATE_LIMITED_OPTIONS_KEY, context.getHandler());
+    if (!options) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const recipient = request.body?.[options.recipient];
+    const template = options.template ?? request.body?.template;
+
+    const limited = {
+      clientId: request.apiClient?.id ?? "anonymous",
+      recipient: typeof recipient === "string" ? recipient : undefined,
+      template: typeof template === "string" ? template : undefined,
+    };
+    const result = await this.rateLimitService.take(limited);
+
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+      context.switchToHttp().getResponse<Response>().setHeader("Retry-After", String(retryAfterSeconds));
+      throw new ApiError("RATE_LIMITED", `Rate limit per ${result.exceeded} exceeded, retry in ${retryAfterSeconds}s`, {
+        limit: result.exceeded,
+        retryAfterSeconds,
+      });
+    }
+
+    try {
+      return of(await lastValueFrom(next.handle()));
+    }
+    catch (error) {
+      if (isValidationError(error)) {
+        await this.rateLimitService.refund(limited);
+      }
+      throw error;
+    }
+  }
+}
+
+/** Errors answered with VALIDATION_FAILED, see ApiExceptionFilter */
+function isValidationError(error: unknown): boolean {
+  return error instanceof ApiError ? error.code === "VALIDATION_FAILED" : error instanceof BadRequestException;
+}
@@ -1,13 +1,19 @@
 import { Logger, ValidationPipe } from "@nestjs/common";
 import { NestFactory } from "@nestjs/core";
-import { DocumentBuilder, SwaggerModule } from "@nestjs/swagger";
+import { NestExpressApplication } from "@nestjs/platform-express";
+import { SwaggerModule } from "@nestjs/swagger";
 
 import { AppModule } from "./app.module";
+import { createOpenApiDocument } from "./openapi";
 
 async function bootstrap() {
   const logger = new Logger("Bootstrap");
 
-  const app = await NestFactory.create(AppModule);
+  // Raw body is kept to verify signed requests
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { rawBody: true });
+
+  // SNS posts bounce notifications as text/plain, and raw DSNs are messages
+  app.useBodyParser("text", { type: ["text/plain", "message/*", "multipart/report"] });
 
   // Enable global validation pipe
   app.useGlobalPipes(new ValidationPipe({
@@ -27,51 +33,7 @@ async function bootstrap() {
   app.setGlobalPrefix("api/v1");
 
   // API Documentation
-  const config = new DocumentBuilder()
-    .setTitle("Penpal AI - Notification Service")
-    .setDescription(`
-      Service de notification pour l'application Penpal AI.
-      
-      ## Caractéristiques
-      
-      - **Notifications par email**: Envoi d'emails personnalisés
-      - **Templates HTML**: Templates Handlebars pour les emails
-      - **Authentification API**: Sécurisation par clé API
-      - **Monitoring**: Health check et logging
-      
-      ## Authentification
-      
-      Ce service utilise une authentification par clé API:
-      - x-api-key: Clé API pour l'authentification inter-services
-      
-      ## Configuration
-      
-      Consultez le fichier README.md pour plus d'informations.
-    `)
-    .setVersion("1.0.0")
-    .setContact(
-      "Penpal AI Team",
-      "https://penpal.ai",
-      "support@penpal.ai",
-    )
-    .setLicense(
-      "MIT",
-      "https://opensource.org/licenses/MIT",
-    )
-    .addApiKey(
-      {
-        type: "apiKey",
-        name: "x-api-key",
-        in: "header",
-        description: "API key for service authentication",
-      },
-      "api-key",
-    )
-    .addTag("notifications", "Gestion des notifications")
-    .addTag("health", "Monitoring et statut du service")
-    .build();
-
-  const document = SwaggerModule.createDocument(app, config);
+  const document = createOpenApiDocument(app);
   SwaggerModule.setup("api/v1/docs", app, document);
 
   const port = process.env.PORT ?? 3007;
@@ -0,0 +1,81 @@
+import { INestApplication } from "@nestjs/common";
+import { DocumentBuilder, OpenAPIObject, SwaggerModule } from "@nestjs/swagger";
+
+/**
+ * Builds the OpenAPI document served at /api/v1/docs and exported at build
+ * time, from which the client in src/client is generated.
+ */
+export function createOpenApiDocument(app: INestApplication): OpenAPIObject {
+  const config = new DocumentBuilder()
+    .setTitle("Penpal AI - Notification Service")
+    .setDescription(`
+      Service de notification pour l'application Penpal AI.
+      
+      ## Caractéristiques
+      
+      - **Notifications par email**: Envoi d'emails personnalisés
+      - **Templates HTML**: Templates Handlebars pour les emails
+      - **Authentification API**: Sécurisation par clé API
+      - **Monitoring**: Health check et logging
+      
+      ## Authentification
+      
+      Ce service utilise une authentification par clé API:
+      - x-api-key: Clé API pour l'authentification inter-services
+      - ou requêtes signées (HMAC) avec x-client-id, x-timestamp, x-nonce et x-signature
+      
+      Les webhooks de bounces sont authentifiés par le paramètre \`token\` (WEBHOOK_TOKEN).
+      
+      ## Erreurs
+      
+      Toutes les erreurs ont la forme \`ErrorResponseDto\`, avec un \`code\` stable.
+      
+      ## Configuration
+      
+      Consultez le fichier README.md pour plus d'informations.
+    `)
+    .setVersion("1.0.0")
+    .setContact(
+      "Penpal AI Team",
+      "https://penpal.ai",
+      "support@penpal.ai",
+    )
+    .setLicense(
+      "MIT",
+      "https://opensource.org/licenses/MIT",
+    )
+    .addApiKey(
+      {
+        type: "apiKey",
+        name: "x-api-key",
+        in: "header",
+        description: "API key for service authentication",
+      },
+      "api-key",
+    )
+    .addApiKey(
+      {
+        type: "apiKey",
+        name: "token",
+        in: "query",
+        description: "WEBHOOK_TOKEN, set in the URL given to the email provider",
+      },
+      "webhook-token",
+    )
+    .addTag("notifications", "Gestion des notifications")
+    .addTag("templates", "Templates, aperçus et cache")
+    .addTag("preferences", "Préférences de notification des utilisateurs")
+    .addTag("suppressions", "Adresses qui ne reçoivent plus d'emails")
+    .addTag("billing", "Emails du cycle de vie des abonnements")
+    .addTag("invoices", "Factures PDF jointes aux emails de facturation")
+    .addTag("security", "Emails de sécurité du compte : vérification, mot de passe, connexions")
+    .addTag("digests", "Bilans hebdomadaires de progression, envoyés à l'heure locale de chaque utilisateur")
+    .addTag("scheduled", "Rappels planifiés (fin d'essai, renouvellement)")
+    .addTag("sandbox", "Emails capturés en mode sandbox")
+    .addTag("webhooks", "Bounces et plaintes envoyés par les fournisseurs")
+    .addTag("unsubscribe", "Liens de désabonnement")
+    .addTag("health", "Monitoring et statut du service")
+    .build();
+
+  return SwaggerModule.createDocument(app, config);
+}
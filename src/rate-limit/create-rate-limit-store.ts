@@ -0,0 +1,18 @@
+import { MemoryRateLimitStore } from "./memory-rate-limit.store";
+import { RateLimitStore } from "./rate-limit.store";
+
+export type RateLimitStoreName = "memory";
+
+export const RATE_LIMIT_STORE_NAMES: RateLimitStoreName[] = ["memory"];
+
+/**
+ * Builds the rate limit store registered under `name`.
+ */
+export function createRateLimitStore(name: string): RateLimitStore {
+  switch (name) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown rate limit store "${name}", expected one of: ${RATE_LIMIT_STORE_NAMES.join(", ")}`);
+  }
+}
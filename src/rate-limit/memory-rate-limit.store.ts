@@ -0,0 +1,68 @@
+import { BucketRequest, RateLimit, RateLimitStore, TakeResult } from "./rate-limit.store";
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+  intervalMs: number;
+};
+
+const PURGE_INTERVAL_MS = 60_000;
+
+/**
+ * Keeps the buckets in memory, dropping those that have filled up again.
+ */
+export class MemoryRateLimitStore extends RateLimitStore {
+  readonly name = "memory";
+  private readonly buckets = new Map<string, Bucket>();
+  private lastPurge = 0;
+
+  async take(requests: BucketRequest[], now: number): Promise<TakeResult> {
+    this.purgeFull(now);
+
+    const states = requests.map(({ key, limit }) => ({ key, limit, tokens: this.tokensAt(key, limit, now) }));
+    const empty = states.filter(state => state.tokens < 1);
+
+    if (empty.length > 0) {
+      const waits = empty.map(({ key, limit, tokens }) => ({ key, waitMs: Math.ceil((1 - tokens) * limit.intervalMs / limit.capacity) }));
+      const longest = waits.reduce((longest, wait) => (wait.waitMs > longest.waitMs ? wait : longest));
+      return { allowed: false, retryAfterMs: longest.waitMs, exceeded: longest.key };
+    }
+
+    for (const { key, limit, tokens } of states) {
+      this.buckets.set(key, { tokens: tokens - 1, updatedAt: now, intervalMs: limit.intervalMs });
+    }
+
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  async refund(requests: BucketRequest[], now: number): Promise<void> {
+    for (const { key, limit } of requests) {
+      if (this.buckets.has(key)) {
+        this.buckets.set(key, { tokens: Math.min(limit.capacity, this.tokensAt(key, limit, now) + 1), updatedAt: now, intervalMs: limit.intervalMs });
+      }
+    }
+  }
+
+  private tokensAt(key: string, limit: RateLimit, now: number): number {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return limit.capacity;
+    }
+
+    const refilled = (now - bucket.updatedAt) * limit.capacity / limit.intervalMs;
+    return Math.min(limit.capacity, bucket.tokens + refilled);
+  }
+
+  private purgeFull(now: number): void {
+    if (now - this.lastPurge < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurge = now;
+
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= bucket.intervalMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
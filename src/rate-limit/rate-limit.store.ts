@@ -0,0 +1,40 @@
+export type RateLimit = {
+  /** Tokens in a full bucket, i.e. the allowed burst */
+  capacity: number;
+  /** Time for an empty bucket to fill up again */
+  intervalMs: number;
+};
+
+export type BucketRequest = {
+  key: string;
+  limit: RateLimit;
+};
+
+export type TakeResult = {
+  allowed: boolean;
+  /** Time before every bucket has a token again, 0 when allowed */
+  retryAfterMs: number;
+  /** Key of the bucket that ran out, when not allowed */
+  exceeded?: string;
+};
+
+/**
+ * Keeps the token buckets used for rate limiting. The in-memory store limits
+ * each instance on its own; a shared backend (e.g. Redis) implementing `take`
+ * atomically lets several instances share the same limits.
+ */
+export abstract class RateLimitStore {
+  abstract readonly name: string;
+
+  /**
+   * Takes one token from every bucket when all of them have one, otherwise
+   * takes none and tells how long to wait.
+   */
+  abstract take(requests: BucketRequest[], now: number): Promise<TakeResult>;
+
+  /**
+   * Gives back the token taken from every bucket, for a request that turned
+   * out not to count, such as an invalid one.
+   */
+  abstract refund(requests: BucketRequest[], now: number): Promise<void>;
+}
@@ -0,0 +1,203 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { ApiKeyService } from "./api-key.service";
+
+describe("apiKeyService", () => {
+  const keys = [
+    { name: "auth-service", key: "auth-key", scopes: ["notifications:welcome"] },
+    { name: "admin-tools", key: "admin-key", scopes: ["admin:*", "notifications:read"] },
+  ];
+
+  const createService = (authConfig: Record<string, any>) =>
+    new ApiKeyService({ get: jest.fn().mockReturnValue({ apiKeys: "", apiKeysFile: "", legacyApiKey: "", ...authConfig }) } as unknown as ConfigService);
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should authenticate named keys", () => {
+    const service = createService({ apiKeys: JSON.stringify(keys) });
+
+    expect(service.authenticate("auth-key")).toEqual({ id: "auth-service", scopes: ["notifications:welcome"] });
+    expect(service.authenticate("admin-key")?.id).toBe("admin-tools");
+    expect(service.authenticate("unknown-key")).toBeUndefined();
+  });
+
+  it("should load keys from a file", () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "api-keys-"));
+    const file = path.join(directory, "keys.json");
+    fs.writeFileSync(file, JSON.stringify(keys));
+
+    try {
+      const service = createService({ apiKeysFile: file });
+
+      expect(service.authenticate("admin-key")?.id).toBe("admin-tools");
+    }
+    finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should keep the legacy shared key working with every scope", () => {
+    const service = createService({ apiKeys: JSON.stringify(keys), legacyApiKey: "shared-key" });
+    const client = service.authenticate("shared-key")!;
+
+    expect(client.id).toMatch(/^key-[0-9a-f]{12}$/);
+    expect(service.hasScope(client, "admin:queue")).toBe(true);
+  });
+
+  it("should match exact and group wildcard scopes", () => {
+    const service = createService({ apiKeys: JSON.stringify(keys) });
+    const admin = service.authenticate("admin-key")!;
+    const auth = service.authenticate("auth-key")!;
+
+    expect(service.hasScope(admin, "admin:templates")).toBe(true);
+    expect(service.hasScope(admin, "notifications:read")).toBe(true);
+    expect(service.hasScope(admin, "notifications:welcome")).toBe(false);
+    expect(service.hasScope(auth, "notifications:welcome")).toBe(true);
+    expect(service.hasScope(auth, "notifications:billing")).toBe(false);
+  });
+
+  it("should reject invalid key definitions", () => {
+    expect(() => createService({ apiKeys: "not json" })).toThrow("Invalid API keys in API_KEYS");
+    expect(() => createService({ apiKeys: JSON.stringify([{ name: "no-key", scopes: [] }]) })).toThrow("Invalid API key #0");
+    expect(() => createService({ apiKeys: JSON.stringify([keys[0], keys[0]]) })).toThrow("Duplicate API key name: auth-service");
+    expect(() => createService({ apiKeys: JSON.stringify([{ ...keys[0], auth: "oauth" }]) })).toThrow("auth must be one of key, hmac, both");
+  });
+
+  it("should only expose signing secrets of clients allowed to sign", () => {
+    const service = createService({
+      apiKeys: JSON.stringify([
+        { ...keys[0], auth: "hmac" },
+        { ...keys[1], auth: "both" },
+        { name: "legacy-service", key: "legacy-key", scopes: ["*"] },
+      ]),
+    });
+
+    expect(service.findSigningClient("auth-service")).toEqual({ client: { id: "auth-service", scopes: ["notifications:welcome"] }, secrets: ["auth-key"] });
+    expect(service.findSigningClient("admin-tools")?.secrets).toEqual(["admin-key"]);
+    expect(service.findSigningClient("legacy-service")).toBeUndefined();
+    expect(service.findSigningClient("unknown")).toBeUndefined();
+  });
+
+  it("should refuse the key of clients that must sign their requests", () => {
+    const service = createService({ apiKeys: JSON.stringify([{ ...keys[0], auth: "hmac" }, { ...keys[1], auth: "both" }]) });
+
+    expect(service.authenticate("auth-key")).toBeUndefined();
+    expect(service.authenticate("admin-key")?.id).toBe("admin-tools");
+  });
+
+  describe("rotation", () => {
+    const now = new Date("2024-06-01T00:00:00.000Z");
+    const hash = (key: string) => `sha256:${createHash("sha256").update(key).digest("hex")}`;
+
+    it("should accept every key of a client within its validity window", () => {
+      const service = createService({
+        apiKeys: JSON.stringify([{
+          name: "auth-service",
+          scopes: ["notifications:welcome"],
+          keys: [
+            { key: "old-key", expiresAt: "2024-06-15T00:00:00.000Z", deprecated: true },
+            { key: "new-key", notBefore: "2024-05-01T00:00:00.000Z" },
+            { key: "next-key", notBefore: "2024-07-01T00:00:00.000Z" },
+            { key: "expired-key", expiresAt: "2024-05-01T00:00:00.000Z" },
+          ],
+        }]),
+      });
+
+      expect(service.authenticate("old-key", now)?.id).toBe("auth-service");
+      expect(service.authenticate("new-key", now)?.id).toBe("auth-service");
+      expect(service.authenticate("next-key", now)).toBeUndefined();
+      expect(service.authenticate("expired-key", now)).toBeUndefined();
+    });
+
+    it("should accept the previous shared key as deprecated", () => {
+      const service = createService({ legacyApiKey: "new-shared-key, old-shared-key" });
+
+      expect(service.authenticate("new-shared-key", now)?.scopes).toEqual(["*"]);
+      expect(service.authenticate("old-shared-key", now)?.scopes).toEqual(["*"]);
+      expect(service.getWarnings(now)).toEqual([expect.objectContaining({ reason: "deprecated" })]);
+    });
+
+    it("should accept keys stored as hashes", () => {
+      const service = createService({ apiKeys: JSON.stringify([{ name: "auth-service", scopes: ["*"], hash: hash("hashed-key") }]) });
+
+      expect(service.authenticate("hashed-key")?.id).toBe("auth-service");
+      expect(service.authenticate(hash("hashed-key"))).toBeUndefined();
+    });
+
+    it("should reject malformed rotation settings", () => {
+      const define = (definition: Record<string, unknown>) => createService({ apiKeys: JSON.stringify([{ name: "auth-service", scopes: [], ...definition }]) });
+
+      expect(() => define({ hash: "md5:abc" })).toThrow("hash must look like sha256:<64 hex characters>");
+      expect(() => define({ key: "key", expiresAt: "someday" })).toThrow("expiresAt must be a date");
+      expect(() => define({ keys: [] })).toThrow("keys must be a non-empty array");
+      expect(() => define({ hash: hash("key"), auth: "hmac" })).toThrow("clients signing their requests need plain keys, not hashes");
+    });
+
+    it("should report keys nearing expiry and deprecated keys in use", () => {
+      const service = createService({
+        expiryWarningDays: 30,
+        apiKeys: JSON.stringify([{
+          name: "auth-service",
+          scopes: ["*"],
+          keys: [
+            { key: "old-key", deprecated: true },
+            { key: "new-key", expiresAt: "2024-06-20T00:00:00.000Z" },
+            { key: "long-key", expiresAt: "2025-01-01T00:00:00.000Z" },
+          ],
+        }]),
+      });
+
+      expect(service.getWarnings(now)).toEqual([
+        { client: "auth-service", key: expect.stringMatching(/^key-[0-9a-f]{12}$/), reason: "expiring", expiresAt: new Date("2024-06-20T00:00:00.000Z") },
+      ]);
+
+      service.authenticate("old-key", now);
+
+      expect(service.getWarnings(now)).toContainEqual({ client: "auth-service", key: expect.any(String), reason: "deprecated", lastUsedAt: now });
+      expect(Logger.prototype.warn).toHaveBeenCalledWith(expect.stringMatching(/^Deprecated key key-[0-9a-f]{12} of auth-service is still in use$/));
+    });
+
+    it("should warn about a deprecated key at most once an hour", () => {
+      const service = createService({ apiKeys: JSON.stringify([{ name: "auth-service", scopes: ["*"], key: "old-key", deprecated: true }]) });
+      const warnSpy = jest.spyOn(Logger.prototype, "warn").mockClear();
+
+      service.authenticate("old-key", now);
+      service.authenticate("old-key", new Date(now.getTime() + 60_000));
+      service.authenticate("old-key", new Date(now.getTime() + 61 * 60_000));
+
+      expect(warnSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only sign with keys within their validity window", () => {
+      const service = createService({
+        apiKeys: JSON.stringify([{
+          name: "auth-service",
+          scopes: ["*"],
+          auth: "both",
+          keys: [{ key: "old-key", expiresAt: "2024-05-01T00:00:00.000Z" }, { key: "new-key" }, { hash: hash("hashed-key") }],
+        }]),
+      });
+
+      expect(service.findSigningClient("auth-service", now)?.secrets).toEqual(["new-key"]);
+    });
+  });
+
+  it("should warn when no key is configured", () => {
+    const service = createService({});
+
+    expect(service.hasKeys).toBe(false);
+    expect(Logger.prototype.warn).toHaveBeenCalledWith("No API key configured! All requests will be rejected.");
+  });
+});
@@ -0,0 +1,344 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Buffer } from "node:buffer";
+import { createHash, timingSafeEqual } from "node:crypto";
+import * as fs from "node:fs";
+
+export type ApiClient = {
+  /** Name of the key, or a fingerprint of the legacy shared key */
+  id: string;
+  scopes: string[];
+};
+
+/**
+ * How a client proves its identity: by sending its key (`x-api-key` or
+ * Bearer), by signing requests with it as HMAC secret, or either.
+ */
+export type ApiKeyAuthMode = "key" | "hmac" | "both";
+
+/**
+ * One key of a client. Several keys with overlapping windows allow rotating
+ * a key without redeploying every caller at once.
+ */
+export type ApiKeyVersionDefinition = {
+  /** Plain key, required to sign requests */
+  key?: string;
+  /** `sha256:<hex>` digest of the key, so that it is not stored in clear */
+  hash?: string;
+  notBefore?: string;
+  expiresAt?: string;
+  /** Still accepted, but its use is reported until callers move to a newer key */
+  deprecated?: boolean;
+};
+
+export type ApiKeyDefinition = ApiKeyVersionDefinition & {
+  name: string;
+  scopes: string[];
+  auth?: ApiKeyAuthMode;
+  keys?: ApiKeyVersionDefinition[];
+};
+
+export type SigningClient = {
+  client: ApiClient;
+  /** Secrets of the keys currently valid */
+  secrets: string[];
+};
+
+export type ApiKeyWarning = {
+  client: string;
+  /** Fingerprint of the key, never the key itself */
+  key: string;
+  reason: "expiring" | "deprecated";
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+};
+
+type KeyVersion = {
+  digest: Buffer;
+  fingerprint: string;
+  /** Only kept for clients allowed to sign requests */
+  secret?: string;
+  notBefore?: Date;
+  expiresAt?: Date;
+  deprecated: boolean;
+  lastUsedAt?: Date;
+  lastWarnedAt?: number;
+};
+
+type RegisteredClient = {
+  client: ApiClient;
+  auth: ApiKeyAuthMode;
+  versions: KeyVersion[];
+};
+
+const ALL_SCOPES = "*";
+const AUTH_MODES: ApiKeyAuthMode[] = ["key", "hmac", "both"];
+const HASH_PATTERN = /^sha256:[0-9a-f]{64}$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USAGE_WARNING_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Holds the API keys allowed to call the service. Each named key belongs to one
+ * calling service and grants a set of scopes; `*` grants every scope and
+ * `notifications:*` every scope of that group. Keys are only kept as digests,
+ * except the secrets of clients that sign their requests.
+ */
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly clients: RegisteredClient[] = [];
+  private readonly authConfig: any;
+  private readonly expiryWarningMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.authConfig = this.configService.get("auth");
+    this.expiryWarningMs = (this.authConfig?.expiryWarningDays ?? 14) * DAY_MS;
+    this.loadKeys();
+  }
+
+  get hasKeys(): boolean {
+    return this.clients.length > 0;
+  }
+
+  /**
+   * Returns the client owning the key, or undefined when no valid key matches.
+   * Every key is compared through its digest in constant time. Keys of clients
+   * that must sign their requests are not accepted as is.
+   */
+  authenticate(apiKey: string, now = new Date()): ApiClient | undefined {
+    const digest = sha256(apiKey);
+    let match: { registered: RegisteredClient; version: KeyVersion } | undefined;
+
+    for (const registered of this.clients) {
+      for (const version of registered.versions) {
+        if (timingSafeEqual(version.digest, digest)) {
+          match = { registered, version };
+        }
+      }
+    }
+
+    if (!match) {
+      return undefined;
+    }
+
+    const { registered, version } = match;
+    if (registered.auth === "hmac") {
+      this.logger.warn(`${registered.client.id} sent its key instead of signing the request`);
+      return undefined;
+    }
+
+    if (!isActive(version, now)) {
+      this.logger.warn(`Key ${version.fingerprint} of ${registered.client.id} used outside its validity window`);
+      return undefined;
+    }
+
+    this.recordUse(registered, version, now);
+    return registered.client;
+  }
+
+  /**
+   * Returns the client and the secrets of its valid keys, or undefined when
+   * the client is unknown or not allowed to sign requests.
+   */
+  findSigningClient(clientId: string, now = new Date()): SigningClient | undefined {
+    const registered = this.clients.find(registered => registered.client.id === clientId && registered.auth !== "key");
+    const secrets = registered?.versions
+      .filter(version => version.secret && isActive(version, now))
+      .map(version => version.secret!);
+
+    return registered && secrets?.length ? { client: registered.client, secrets } : undefined;
+  }
+
+  /**
+   * Records that a client signed a request with one of its secrets.
+   */
+  recordSignedUse(clientId: string, secret: string, now = new Date()): void {
+    const registered = this.clients.find(registered => registered.client.id === clientId);
+    const version = registered?.versions.find(version => version.secret === secret);
+
+    if (registered && version) {
+      this.recordUse(registered, version, now);
+    }
+  }
+
+  hasScope(client: ApiClient, scope: string): boolean {
+    const [group] = scope.split(":");
+
+    return client.scopes.some(granted => granted === ALL_SCOPES || granted === scope || granted === `${group}:*`);
+  }
+
+  /**
+   * Lists the keys that expire soon and the deprecated keys still in use, so
+   * that they show up in health checks before callers get locked out.
+   */
+  getWarnings(now = new Date()): ApiKeyWarning[] {
+    const warnings: ApiKeyWarning[] = [];
+
+    for (const { client, versions } of this.clients) {
+      for (const version of versions) {
+        if (this.isExpiring(version, now)) {
+          warnings.push({ client: client.id, key: version.fingerprint, reason: "expiring", expiresAt: version.expiresAt });
+        }
+        if (version.deprecated && version.lastUsedAt) {
+          warnings.push({ client: client.id, key: version.fingerprint, reason: "deprecated", lastUsedAt: version.lastUsedAt });
+        }
+      }
+    }
+
+    return warnings;
+  }
+
+  private recordUse(registered: RegisteredClient, version: KeyVersion, now: Date): void {
+    version.lastUsedAt = now;
+
+    const expiring = this.isExpiring(version, now);
+    if (!(version.deprecated || expiring)
+      || (version.lastWarnedAt && now.getTime() - version.lastWarnedAt < USAGE_WARNING_INTERVAL_MS)) {
+      return;
+    }
+    version.lastWarnedAt = now.getTime();
+
+    if (version.deprecated) {
+      this.logger.warn(`Deprecated key ${version.fingerprint} of ${registered.client.id} is still in use`);
+    }
+    if (expiring) {
+      this.logger.warn(`Key ${version.fingerprint} of ${registered.client.id} expires on ${version.expiresAt!.toISOString()}`);
+    }
+  }
+
+  private isExpiring(version: KeyVersion, now: Date): boolean {
+    return !!version.expiresAt
+      && version.expiresAt.getTime() > now.getTime()
+      && version.expiresAt.getTime() - now.getTime() <= this.expiryWarningMs;
+  }
+
+  private loadKeys(): void {
+    const definitions = [
+      ...this.parseDefinitions(this.authConfig?.apiKeys, "API_KEYS"),
+      ...(this.authConfig?.apiKeysFile
+        ? this.parseDefinitions(fs.readFileSync(this.authConfig.apiKeysFile, "utf-8"), this.authConfig.apiKeysFile)
+        : []),
+    ];
+
+    for (const definition of definitions) {
+      if (this.clients.some(registered => registered.client.id === definition.name)) {
+        throw new Error(`Duplicate API key name: ${definition.name}`);
+      }
+
+      const auth = definition.auth ?? "key";
+      this.clients.push({
+        client: { id: definition.name, scopes: definition.scopes },
+        auth,
+        versions: (definition.keys ?? [definition]).map(version => toKeyVersion(version, auth)),
+      });
+    }
+
+    // The shared key may list the previous value after the current one while callers move over
+    const legacyKeys = (this.authConfig?.legacyApiKey ?? "").split(",").map(key => key.trim()).filter(Boolean);
+    legacyKeys.forEach((key, index) => {
+      const version = toKeyVersion({ key, deprecated: index > 0 }, "key");
+      this.clients.push({ client: { id: version.fingerprint, scopes: [ALL_SCOPES] }, auth: "key", versions: [version] });
+    });
+
+    if (this.clients.length === 0) {
+      this.logger.warn("No API key configured! All requests will be rejected.");
+      return;
+    }
+
+    this.logger.log(`API keys loaded for: ${this.clients.map(registered => registered.client.id).join(", ")}`);
+    for (const warning of this.getWarnings().filter(warning => warning.reason === "expiring")) {
+      this.logger.warn(`Key ${warning.key} of ${warning.client} expires on ${warning.expiresAt!.toISOString()}`);
+    }
+  }
+
+  private parseDefinitions(source: string | undefined, origin: string): ApiKeyDefinition[] {
+    if (!source?.trim()) {
+      return [];
+    }
+
+    let definitions: unknown;
+    try {
+      definitions = JSON.parse(source);
+    }
+    catch (error) {
+      throw new Error(`Invalid API keys in ${origin}: ${error.message}`);
+    }
+
+    if (!Array.isArray(definitions)) {
+      throw new TypeError(`Invalid API keys in ${origin}: expected an array`);
+    }
+
+    return definitions.map((definition, index) => {
+      const invalid = (reason: string) => new TypeError(`Invalid API key #${index} in ${origin}: ${reason}`);
+
+      if (typeof definition?.name !== "string" || !definition.name
+        || !Array.isArray(definition.scopes) || definition.scopes.some(scope => typeof scope !== "string")) {
+        throw invalid("expected { name, key, scopes[] }");
+      }
+
+      if (definition.auth !== undefined && !AUTH_MODES.includes(definition.auth)) {
+        throw invalid(`auth must be one of ${AUTH_MODES.join(", ")}`);
+      }
+
+      if (definition.keys !== undefined && (!Array.isArray(definition.keys) || definition.keys.length === 0)) {
+        throw invalid("keys must be a non-empty array");
+      }
+
+      for (const version of definition.keys ?? [definition]) {
+        const reason = validateVersion(version);
+        if (reason) {
+          throw invalid(reason);
+        }
+      }
+
+      if (definition.auth === "hmac" && (definition.keys ?? [definition]).some(version => !version.key)) {
+        throw invalid("clients signing their requests need plain keys, not hashes");
+      }
+
+      return definition as ApiKeyDefinition;
+    });
+  }
+}
+
+function validateVersion(version: ApiKeyVersionDefinition): string | undefined {
+  if (typeof version?.key === "string" ? !version.key : typeof version?.hash !== "string") {
+    return "expected a key or a hash";
+  }
+  if (version.hash !== undefined && !HASH_PATTERN.test(version.hash)) {
+    return "hash must look like sha256:<64 hex characters>";
+  }
+
+  for (const field of ["notBefore", "expiresAt"] as const) {
+    if (version[field] !== undefined && Number.isNaN(Date.parse(version[field]))) {
+      return `${field} must be a date`;
+    }
+  }
+
+  return undefined;
+}
+
+function toKeyVersion(version: ApiKeyVersionDefinition, auth: ApiKeyAuthMode): KeyVersion {
+  const digest = version.key ? sha256(version.key) : Buffer.from(version.hash!.substring("sha256:".length), "hex");
+
+  return {
+    digest,
+    fingerprint: fingerprint(digest),
+    secret: auth !== "key" ? version.key : undefined,
+    notBefore: version.notBefore ? new Date(version.notBefore) : undefined,
+    expiresAt: version.expiresAt ? new Date(version.expiresAt) : undefined,
+    deprecated: version.deprecated === true,
+  };
+}
+
+function isActive(version: KeyVersion, now: Date): boolean {
+  return (!version.notBefore || version.notBefore <= now) && (!version.expiresAt || version.expiresAt > now);
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+// Identifies a key in logs and health checks without revealing it
+function fingerprint(digest: Buffer): string {
+  return `key-${digest.toString("hex").substring(0, 12)}`;
+}
@@ -0,0 +1,116 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { DigestService, nextLocalHour } from "./digest.service";
+import { ReminderSchedulerService } from "./reminder-scheduler.service";
+
+describe("digestService", () => {
+  let service: DigestService;
+
+  const mockConfigService = {
+    get: jest.fn(() => ({ sendHour: 9, defaultTimeZone: "Europe/Paris" })),
+  };
+
+  const mockReminderScheduler = {
+    schedule: jest.fn(async (template: string, recipient: string, payload: Record<string, any>, userId: string | undefined, sendAt: Date, eventAt: Date) =>
+      ({ template, recipient, payload, userId, sendAt: sendAt.toISOString(), eventAt: eventAt.toISOString() })),
+  };
+
+  const digest = {
+    email: "jane@example.com",
+    firstName: "Jane",
+    lastName: "Doe",
+    weekStart: "2025-01-13",
+    conversations: 6,
+    minutesPractised: 95,
+    newVocabulary: ["madrugar"],
+    streakDays: 5,
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DigestService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: ReminderSchedulerService, useValue: mockReminderScheduler },
+      ],
+    }).compile();
+
+    service = module.get<DigestService>(DigestService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("nextLocalHour", () => {
+    const now = new Date("2025-01-20T05:00:00.000Z");
+
+    it("should find the next send hour in the time zone, today or tomorrow", () => {
+      expect(nextLocalHour(9, "Europe/Paris", now).toISOString()).toBe("2025-01-20T08:00:00.000Z");
+      expect(nextLocalHour(9, "America/New_York", now).toISOString()).toBe("2025-01-20T14:00:00.000Z");
+      // Already 14:00 in Tokyo
+      expect(nextLocalHour(9, "Asia/Tokyo", now).toISOString()).toBe("2025-01-21T00:00:00.000Z");
+    });
+
+    it("should follow daylight saving time", () => {
+      expect(nextLocalHour(9, "Europe/Paris", new Date("2025-07-01T00:00:00.000Z")).toISOString()).toBe("2025-07-01T07:00:00.000Z");
+      // 02:00 does not exist on the night clocks move forward
+      expect(nextLocalHour(2, "Europe/Paris", new Date("2025-03-30T00:00:00.000Z")).toISOString()).toBe("2025-03-30T01:00:00.000Z");
+    });
+  });
+
+  it("should schedule the digest at the send hour of the user, dropped after a week", async () => {
+    const now = new Date("2025-01-20T05:00:00.000Z");
+
+    const scheduled = await service.schedule({ ...digest, timeZone: "America/New_York" }, "user-1", now);
+
+    expect(mockReminderScheduler.schedule).toHaveBeenCalledWith(
+      "weekly-digest",
+      "jane@example.com",
+      { ...digest, timeZone: "America/New_York" },
+      "user-1",
+      new Date("2025-01-20T14:00:00.000Z"),
+      new Date("2025-01-27T14:00:00.000Z"),
+      now,
+    );
+    expect(scheduled.sendAt).toBe("2025-01-20T14:00:00.000Z");
+  });
+
+  it("should schedule each digest of a batch in its own time zone", async () => {
+    const now = new Date("2025-01-20T05:00:00.000Z");
+
+    const scheduled = await service.scheduleBatch([
+      { ...digest, userId: "user-1" },
+      { ...digest, email: "taro@example.com", userId: "user-2", timeZone: "Asia/Tokyo" },
+    ], now);
+
+    expect(scheduled.map(notification => [notification.userId, notification.sendAt])).toEqual([
+      ["user-1", "2025-01-20T08:00:00.000Z"],
+      ["user-2", "2025-01-21T00:00:00.000Z"],
+    ]);
+    expect(mockReminderScheduler.schedule.mock.calls[0][2]).not.toHaveProperty("userId");
+  });
+
+  it("should attach the charts of digests only", () => {
+    const charts = service.attachmentsFor("weekly-digest", {
+      ...digest,
+      dailyMinutes: [15, 20, 0, 10, 25, 0, 25],
+      languages: [{ language: "es", conversations: 4, minutes: 70 }, { language: "en", conversations: 2, minutes: 25 }],
+    });
+
+    expect(charts.map(({ cid, contentType }) => ({ cid, contentType }))).toEqual([
+      { cid: "minutes-chart", contentType: "image/png" },
+      { cid: "languages-chart", contentType: "image/png" },
+    ]);
+    expect(charts[0].content.subarray(1, 4).toString()).toBe("PNG");
+    // 476 x 120 CSS pixels, drawn at twice the size
+    expect(charts[0].content.readUInt32BE(16)).toBe(952);
+    expect(charts[0].content.readUInt32BE(20)).toBe(240);
+    expect(service.attachmentsFor("weekly-digest", { ...digest, dailyMinutes: [0, 0, 0, 0, 0, 0, 0] })).toEqual([]);
+    expect(service.attachmentsFor("receipt", {})).toEqual([]);
+  });
+});
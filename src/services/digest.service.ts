@@ -0,0 +1,108 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+import { MailAttachment } from "../transports/mail-transport";
+import { renderDigestCharts } from "../utils/digest-charts";
+import { WeeklyDigestEmailData } from "../utils/template.service";
+import { ReminderSchedulerService, ScheduledNotification } from "./reminder-scheduler.service";
+
+export const DIGEST_TEMPLATE = "weekly-digest";
+
+/** A digest is part of a batch, with the user it is for */
+export type UserDigest = WeeklyDigestEmailData & {
+  userId?: string;
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Weekly learning digests: plans each one at the configured hour of its
+ * user's time zone, and draws the charts sent with it.
+ */
+@Injectable()
+export class DigestService {
+  private readonly logger = new Logger(DigestService.name);
+  private readonly digestsConfig: any;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly reminderScheduler: ReminderSchedulerService,
+  ) {
+    this.digestsConfig = this.configService.get("digests");
+  }
+
+  /**
+   * Plans the digest at the next send hour in the user's time zone, replacing
+   * the one still pending for them. A digest not sent within a week, e.g.
+   * while the service was down, is dropped rather than sent with the next one.
+   */
+  async schedule(digest: WeeklyDigestEmailData, userId?: string, now = new Date()): Promise<ScheduledNotification> {
+    const sendAt = nextLocalHour(this.digestsConfig.sendHour, digest.timeZone ?? this.digestsConfig.defaultTimeZone, now);
+
+    return this.reminderScheduler.schedule(DIGEST_TEMPLATE, digest.email, digest, userId, sendAt, new Date(sendAt.getTime() + WEEK_MS), now);
+  }
+
+  /**
+   * Plans the digests of many users at once, e.g. from the weekly job of the
+   * learning service. Each one goes out at the send hour of its own time zone.
+   */
+  async scheduleBatch(digests: UserDigest[], now = new Date()): Promise<ScheduledNotification[]> {
+    const scheduled: ScheduledNotification[] = [];
+    for (const { userId, ...digest } of digests) {
+      scheduled.push(await this.schedule(digest, userId, now));
+    }
+
+    this.logger.log(`Scheduled a batch of ${scheduled.length} weekly digests`);
+    return scheduled;
+  }
+
+  /**
+   * Charts attached inline to a digest, none for the other templates.
+   */
+  attachmentsFor(template: string, data: Record<string, any>): MailAttachment[] {
+    return template === DIGEST_TEMPLATE ? renderDigestCharts(data as WeeklyDigestEmailData) : [];
+  }
+}
+
+/**
+ * Next time it is `hour` o'clock in the time zone, today or tomorrow. On the
+ * day a clock change skips that hour, the time falls an hour later.
+ */
+export function nextLocalHour(hour: number, timeZone: string, now: Date): Date {
+  const today = localParts(now.getTime(), timeZone);
+  const sendAt = zonedTime(today.year, today.month, today.day, hour, timeZone);
+
+  return sendAt > now ? sendAt : zonedTime(today.year, today.month, today.day + 1, hour, timeZone);
+}
+
+/** Instant of a local date and hour; days past the end of the month roll over */
+function zonedTime(year: number, month: number, day: number, hour: number, timeZone: string): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour);
+  const guess = asUtc - offsetOf(asUtc, timeZone);
+
+  return new Date(asUtc - offsetOf(guess, timeZone));
+}
+
+/** How far the time zone is ahead of UTC at the instant, in milliseconds */
+function offsetOf(instant: number, timeZone: string): number {
+  const local = localParts(instant, timeZone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+
+  return localAsUtc - (instant - (instant % 1000));
+}
+
+function localParts(instant: number, timeZone: string): Record<"year" | "month" | "day" | "hour" | "minute" | "second", number> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)!.value);
+
+  return { year: value("year"), month: value("month"), day: value("day"), hour: value("hour"), minute: value("minute"), second: value("second") };
+}
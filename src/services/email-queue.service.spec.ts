@@ -0,0 +1,287 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { StorageService } from "../storage/storage.service";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { EmailQueueService } from "./email-queue.service";
+import { NotificationHistoryService } from "./notification-history.service";
+import { NotificationPreferencesService } from "./notification-preferences.service";
+import { AddressSuppressedError, SuppressionListService } from "./suppression-list.service";
+
+describe("emailQueueService", () => {
+  let service: EmailQueueService;
+  let notificationHistory: NotificationHistoryService;
+  let preferencesService: NotificationPreferencesService;
+  let suppressionList: SuppressionListService;
+
+  const mockQueueConfig = {
+    maxAttempts: 3,
+    backoffBaseMs: 1000,
+    backoffMaxMs: 10000,
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => (key === "queue" ? mockQueueConfig : { driver: "memory" })),
+  };
+
+  const welcomePayload = {
+    email: "test@example.com",
+    firstName: "John",
+    lastName: "Doe",
+    provider: "google",
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+    jest.spyOn(Logger.prototype, "error").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailQueueService,
+        StorageService,
+        NotificationHistoryService,
+        NotificationPreferencesService,
+        SuppressionListService,
+        TemplateRegistryService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<EmailQueueService>(EmailQueueService);
+    notificationHistory = module.get<NotificationHistoryService>(NotificationHistoryService);
+    preferencesService = module.get<NotificationPreferencesService>(NotificationPreferencesService);
+    suppressionList = module.get<SuppressionListService>(SuppressionListService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("enqueue", () => {
+    it("should persist a queued job with the configured attempt budget", async () => {
+      const job = await service.enqueue("welcome", "test@example.com", welcomePayload);
+
+      expect(job.id).toEqual(expect.any(String));
+      expect(job.status).toBe("queued");
+      expect(job.attempts).toBe(0);
+      expect(job.maxAttempts).toBe(3);
+      expect(await service.getJob(job.id)).toEqual(job);
+    });
+
+    it("should record a queued notification with the user id", async () => {
+      const job = await service.enqueue("welcome", "Test@Example.com", welcomePayload, { userId: "user123" });
+
+      expect(await notificationHistory.findById(job.id)).toEqual(expect.objectContaining({
+        userId: "user123",
+        recipient: "test@example.com",
+        template: "welcome",
+        status: "queued",
+        attempts: 0,
+      }));
+    });
+  });
+
+  describe("preferences", () => {
+    const subscriptionPayload = { email: "test@example.com", firstName: "John", lastName: "Doe", plan: "monthly", status: "active" };
+
+    beforeEach(async () => {
+      await preferencesService.update("user123", { "billing": false, "product-news": false });
+    });
+
+    it("should suppress emails of a category the user opted out of", async () => {
+      const job = await service.enqueue("subscription", "test@example.com", subscriptionPayload, { userId: "user123" });
+
+      expect(job.status).toBe("suppressed");
+      expect(job.suppression).toEqual({ reason: "opted-out", category: "billing" });
+      expect(await service.getJob(job.id)).toBeUndefined();
+      expect(await service.claimDueJobs(10)).toEqual([]);
+    });
+
+    it("should record suppressed emails with their reason", async () => {
+      const job = await service.enqueue("subscription", "test@example.com", subscriptionPayload, { userId: "user123" });
+
+      expect(await notificationHistory.findById(job.id)).toEqual(expect.objectContaining({
+        status: "suppressed",
+        suppression: { reason: "opted-out", category: "billing" },
+        attempts: 0,
+      }));
+    });
+
+    it("should always send transactional emails", async () => {
+      const job = await service.enqueue("welcome", "test@example.com", welcomePayload, { userId: "user123" });
+
+      expect(job.status).toBe("queued");
+    });
+
+    it("should not check preferences without a user id", async () => {
+      const job = await service.enqueue("subscription", "test@example.com", subscriptionPayload);
+
+      expect(job.status).toBe("queued");
+    });
+  });
+
+  describe("suppression list", () => {
+    const subscriptionPayload = { email: "bounced@example.com", firstName: "John", lastName: "Doe", plan: "monthly", status: "active" };
+
+    beforeEach(async () => {
+      await suppressionList.add({ address: "bounced@example.com", reason: "hard-bounce", source: "sendgrid" });
+    });
+
+    it("should refuse transactional emails to suppressed addresses without recording them", async () => {
+      await expect(service.enqueue("welcome", "Bounced@Example.com", welcomePayload)).rejects.toThrow(AddressSuppressedError);
+
+      expect((await notificationHistory.list()).total).toBe(0);
+      expect(await service.claimDueJobs(10)).toEqual([]);
+    });
+
+    it("should suppress other emails to suppressed addresses", async () => {
+      const job = await service.enqueue("subscription", "bounced@example.com", subscriptionPayload);
+
+      expect(job.status).toBe("suppressed");
+      expect(job.suppression).toEqual({ reason: "hard-bounce" });
+      expect(await notificationHistory.findById(job.id)).toEqual(expect.objectContaining({ status: "suppressed" }));
+    });
+
+    it("should mark queued jobs as suppressed", async () => {
+      const job = await service.enqueue("welcome", "test@example.com", welcomePayload);
+
+      await service.markSuppressed(job, { reason: "complaint" });
+
+      expect((await service.getJob(job.id))?.status).toBe("suppressed");
+      expect(await notificationHistory.findById(job.id)).toEqual(expect.objectContaining({
+        status: "suppressed",
+        suppression: { reason: "complaint" },
+      }));
+    });
+  });
+
+  describe("notification tracking", () => {
+    it("should record each delivery attempt", async () => {
+      const job = await service.enqueue("welcome", "test@example.com", welcomePayload);
+      let [claimed] = await service.claimDueJobs(1);
+      await service.scheduleRetry(claimed, new Error("ECONNRESET"));
+      [claimed] = await service.claimDueJobs(1, new Date(Date.now() + 60000));
+      await service.markSent(claimed, "<msg-1@penpal.ai>");
+
+      const notification = await notificationHistory.findById(job.id);
+
+      expect(notification?.status).toBe("sent");
+      expect(notification?.messageId).toBe("<msg-1@penpal.ai>");
+      expect(notification?.attempts).toBe(2);
+      expect(notification?.history).toEqual([
+        expect.objectContaining({ attempt: 1, status: "failed", error: "ECONNRESET" }),
+        expect.objectContaining({ attempt: 2, status: "sent", messageId: "<msg-1@penpal.ai>" }),
+      ]);
+    });
+
+    it("should mark dead-lettered notifications as failed", async () => {
+      const job = await service.enqueue("welcome", "test@example.com", welcomePayload);
+      const [claimed] = await service.claimDueJobs(1);
+      await service.moveToDeadLetter(claimed, new Error("550 Mailbox unavailable"));
+
+      const notification = await notificationHistory.findById(job.id);
+
+      expect(notification?.status).toBe("failed");
+      expect(notification?.error).toBe("550 Mailbox unavailable");
+    });
+  });
+
+  describe("claimDueJobs", () => {
+    it("should claim due jobs and count the attempt", async () => {
+      const job = await service.enqueue("welcome", "test@example.com", welcomePayload);
+
+      const claimed = await service.claimDueJobs(10);
+
+      expect(claimed).toHaveLength(1);
+      expect(claimed[0].id).toBe(job.id);
+      expect(claimed[0].status).toBe("processing");
+      expect(claimed[0].attempts).toBe(1);
+      expect(await service.claimDueJobs(10)).toHaveLength(0);
+    });
+
+    it("should respect the limit", async () => {
+      await service.enqueue("welcome", "a@example.com", welcomePayload);
+      await service.enqueue("welcome", "b@example.com", welcomePayload);
+
+      expect(await service.claimDueJobs(1)).toHaveLength(1);
+    });
+
+    it("should not claim jobs scheduled in the future", async () => {
+      const job = await service.enqueue("welcome", "test@example.com", welcomePayload);
+      const [claimed] = await service.claimDueJobs(1);
+      await service.scheduleRetry(claimed, new Error("421 Try again later"));
+
+      expect(await service.claimDueJobs(10)).toHaveLength(0);
+      expect((await service.getJob(job.id))?.status).toBe("queued");
+    });
+  });
+
+  describe("scheduleRetry", () => {
+    it("should requeue the job with exponential backoff", async () => {
+      await service.enqueue("welcome", "test@example.com", welcomePayload);
+      const [claimed] = await service.claimDueJobs(1);
+      const before = Date.now();
+
+      const job = await service.scheduleRetry(claimed, new Error("ECONNRESET"));
+
+      expect(job.status).toBe("queued");
+      expect(job.lastError).toBe("ECONNRESET");
+      expect(new Date(job.nextAttemptAt).getTime()).toBeGreaterThanOrEqual(before + 1000);
+    });
+  });
+
+  describe("getBackoffDelay", () => {
+    it("should double the delay on each attempt up to the maximum", () => {
+      expect(service.getBackoffDelay(1)).toBe(1000);
+      expect(service.getBackoffDelay(2)).toBe(2000);
+      expect(service.getBackoffDelay(3)).toBe(4000);
+      expect(service.getBackoffDelay(10)).toBe(10000);
+    });
+  });
+
+  describe("dead letters", () => {
+    it("should move a failed job to the dead-letter store", async () => {
+      await service.enqueue("welcome", "test@example.com", welcomePayload);
+      const [claimed] = await service.claimDueJobs(1);
+
+      const deadLetter = await service.moveToDeadLetter(claimed, new Error("550 Mailbox unavailable"));
+
+      expect(deadLetter).toEqual(expect.objectContaining({
+        id: claimed.id,
+        recipient: "test@example.com",
+        attempts: 1,
+        error: "550 Mailbox unavailable",
+      }));
+      expect((await service.getJob(claimed.id))?.status).toBe("dead");
+      expect(await service.listDeadLetters()).toHaveLength(1);
+    });
+
+    it("should requeue a dead-lettered job with a fresh attempt budget", async () => {
+      await service.enqueue("welcome", "test@example.com", welcomePayload);
+      const [claimed] = await service.claimDueJobs(1);
+      await service.moveToDeadLetter(claimed, new Error("550 Mailbox unavailable"));
+
+      const job = await service.retryDeadLetter(claimed.id);
+
+      expect(job?.status).toBe("queued");
+      expect(job?.attempts).toBe(0);
+      expect(await service.listDeadLetters()).toHaveLength(0);
+    });
+
+    it("should return undefined when retrying an unknown dead letter", async () => {
+      expect(await service.retryDeadLetter("missing")).toBeUndefined();
+    });
+  });
+
+  describe("recoverStalledJobs", () => {
+    it("should requeue jobs left in processing state", async () => {
+      await service.enqueue("welcome", "test@example.com", welcomePayload);
+      await service.claimDueJobs(1);
+
+      expect(await service.recoverStalledJobs()).toBe(1);
+      expect(await service.claimDueJobs(1)).toHaveLength(1);
+    });
+  });
+});
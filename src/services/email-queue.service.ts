@@ -0,0 +1,272 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "node:crypto";
+
+import { Collection } from "../storage/collection";
+import { StorageService } from "../storage/storage.service";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { NotificationHistoryService, Suppression } from "./notification-history.service";
+import { NotificationPreferencesService } from "./notification-preferences.service";
+import { AddressSuppressedError, SuppressionListService } from "./suppression-list.service";
+
+export type EmailJobStatus = "queued" | "processing" | "sent" | "dead" | "suppressed";
+
+export type EmailJob = {
+  id: string;
+  template: string;
+  recipient: string;
+  payload: Record<string, any>;
+  /** User the email is about, used for preferences and unsubscribe links */
+  userId?: string;
+  /** API client that requested the email */
+  clientId?: string;
+  status: EmailJobStatus;
+  /** Set instead of queuing when the recipient does not want this email */
+  suppression?: Suppression;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  messageId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type EnqueueOptions = {
+  userId?: string;
+  clientId?: string;
+};
+
+export type DeadLetter = {
+  id: string;
+  template: string;
+  recipient: string;
+  payload: Record<string, any>;
+  clientId?: string;
+  attempts: number;
+  error: string;
+  failedAt: string;
+};
+
+@Injectable()
+export class EmailQueueService {
+  private readonly logger = new Logger(EmailQueueService.name);
+  private readonly jobs: Collection<EmailJob>;
+  private readonly deadLetters: Collection<DeadLetter>;
+  private readonly queueConfig: any;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly notificationHistory: NotificationHistoryService,
+    private readonly templateRegistry: TemplateRegistryService,
+    private readonly preferencesService: NotificationPreferencesService,
+    private readonly suppressionList: SuppressionListService,
+  ) {
+    this.queueConfig = this.configService.get("queue");
+    this.jobs = this.storageService.collection<EmailJob>("email-jobs");
+    this.deadLetters = this.storageService.collection<DeadLetter>("email-dead-letters");
+  }
+
+  /**
+   * Queues the email for delivery. When the user opted out of the template's
+   * category, or the address is on the suppression list, the job comes back
+   * suppressed: it is only recorded in the notification history, with the
+   * reason.
+   */
+  async enqueue(template: string, recipient: string, payload: Record<string, any>, options: EnqueueOptions = {}): Promise<EmailJob> {
+    const now = new Date().toISOString();
+    const suppression = await this.findSuppression(template, recipient, options.userId);
+    const job: EmailJob = {
+      id: randomUUID(),
+      template,
+      recipient,
+      payload,
+      userId: options.userId,
+      clientId: options.clientId,
+      status: suppression ? "suppressed" : "queued",
+      suppression,
+      attempts: 0,
+      maxAttempts: this.queueConfig.maxAttempts,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (!suppression) {
+      await this.jobs.save(job);
+    }
+    await this.notificationHistory.create({
+      id: job.id,
+      userId: options.userId,
+      clientId: options.clientId,
+      recipient,
+      template,
+      suppression,
+    });
+
+    const requestedBy = options.clientId ? ` (requested by ${options.clientId})` : "";
+    if (suppression) {
+      this.logger.log(`Suppressed ${template} email ${job.id} for ${recipient}${requestedBy}: ${suppression.reason}${suppression.category ? ` (${suppression.category})` : ""}`);
+    }
+    else {
+      this.logger.log(`Queued ${template} email job ${job.id} for ${recipient}${requestedBy}`);
+    }
+
+    return job;
+  }
+
+  async getJob(id: string): Promise<EmailJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Marks up to `limit` due jobs as processing and returns them, oldest first.
+   */
+  async claimDueJobs(limit: number, now = new Date()): Promise<EmailJob[]> {
+    const dueJobs = (await this.jobs.find(job => job.status === "queued" && new Date(job.nextAttemptAt) <= now))
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+      .slice(0, limit);
+
+    for (const job of dueJobs) {
+      job.status = "processing";
+      job.attempts += 1;
+      job.updatedAt = now.toISOString();
+      await this.jobs.save(job);
+    }
+
+    return dueJobs;
+  }
+
+  async markSent(job: EmailJob, messageId?: string): Promise<EmailJob> {
+    job.status = "sent";
+    job.messageId = messageId;
+    job.lastError = undefined;
+    job.updatedAt = new Date().toISOString();
+    await this.notificationHistory.recordAttempt(job.id, "sent", { attempt: job.attempts, status: "sent", messageId });
+
+    return this.jobs.save(job);
+  }
+
+  async scheduleRetry(job: EmailJob, error: Error): Promise<EmailJob> {
+    const delay = this.getBackoffDelay(job.attempts);
+
+    job.status = "queued";
+    job.lastError = error.message;
+    job.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    job.updatedAt = new Date().toISOString();
+    await this.notificationHistory.recordAttempt(job.id, "retrying", { attempt: job.attempts, status: "failed", error: error.message });
+
+    this.logger.warn(`Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${error.message}`);
+    return this.jobs.save(job);
+  }
+
+  async moveToDeadLetter(job: EmailJob, error: Error): Promise<DeadLetter> {
+    const now = new Date().toISOString();
+
+    job.status = "dead";
+    job.lastError = error.message;
+    job.updatedAt = now;
+    await this.jobs.save(job);
+    await this.notificationHistory.recordAttempt(job.id, "failed", { attempt: job.attempts, status: "failed", error: error.message });
+
+    const deadLetter: DeadLetter = {
+      id: job.id,
+      template: job.template,
+      recipient: job.recipient,
+      payload: job.payload,
+      clientId: job.clientId,
+      attempts: job.attempts,
+      error: error.message,
+      failedAt: now,
+    };
+
+    this.logger.error(`Job ${job.id} moved to dead-letter store after ${job.attempts} attempt(s): ${error.message}`);
+    return this.deadLetters.save(deadLetter);
+  }
+
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    return (await this.deadLetters.values()).sort((a, b) => b.failedAt.localeCompare(a.failedAt));
+  }
+
+  /**
+   * Puts a dead-lettered job back in the queue with a fresh attempt budget.
+   */
+  async retryDeadLetter(id: string): Promise<EmailJob | undefined> {
+    const job = await this.jobs.get(id);
+    if (!job || !(await this.deadLetters.get(id))) {
+      return undefined;
+    }
+
+    job.status = "queued";
+    job.attempts = 0;
+    job.nextAttemptAt = new Date().toISOString();
+    job.updatedAt = job.nextAttemptAt;
+    await this.jobs.save(job);
+    await this.deadLetters.delete(id);
+    await this.notificationHistory.markRequeued(id);
+
+    this.logger.log(`Dead-lettered job ${id} requeued`);
+    return job;
+  }
+
+  /**
+   * Requeues jobs left in processing state by a previous run that stopped mid-delivery.
+   */
+  async recoverStalledJobs(): Promise<number> {
+    const stalledJobs = await this.jobs.find(job => job.status === "processing");
+
+    for (const job of stalledJobs) {
+      job.status = "queued";
+      job.updatedAt = new Date().toISOString();
+      await this.jobs.save(job);
+    }
+
+    if (stalledJobs.length > 0) {
+      this.logger.warn(`Recovered ${stalledJobs.length} stalled email job(s)`);
+    }
+
+    return stalledJobs.length;
+  }
+
+  getBackoffDelay(attempts: number): number {
+    const delay = this.queueConfig.backoffBaseMs * 2 ** Math.max(attempts - 1, 0);
+    return Math.min(delay, this.queueConfig.backoffMaxMs);
+  }
+
+  /**
+   * Marks a job the worker found to be addressed to a suppressed address.
+   */
+  async markSuppressed(job: EmailJob, suppression: Suppression): Promise<EmailJob> {
+    job.status = "suppressed";
+    job.suppression = suppression;
+    job.updatedAt = new Date().toISOString();
+    await this.notificationHistory.markSuppressed(job.id, suppression);
+
+    this.logger.log(`Suppressed ${job.template} email ${job.id} for ${job.recipient}: ${suppression.reason}`);
+    return this.jobs.save(job);
+  }
+
+  /**
+   * Returns why the email should not be sent, if at all. Transactional emails
+   * to a suppressed address throw an AddressSuppressedError instead, as the
+   * caller is usually waiting for them.
+   */
+  private async findSuppression(template: string, recipient: string, userId?: string): Promise<Suppression | undefined> {
+    const category = (await this.templateRegistry.find(template))?.category ?? "transactional";
+
+    const suppressedAddress = await this.suppressionList.find(recipient);
+    if (suppressedAddress) {
+      if (category === "transactional") {
+        throw new AddressSuppressedError(suppressedAddress);
+      }
+      return { reason: suppressedAddress.reason };
+    }
+
+    if (userId && !(await this.preferencesService.allows(userId, category))) {
+      return { reason: "opted-out", category };
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,192 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { EmailJob, EmailQueueService } from "./email-queue.service";
+import { EmailWorkerService } from "./email-worker.service";
+import { EmailService } from "./email.service";
+import { ReminderSchedulerService } from "./reminder-scheduler.service";
+import { SuppressionListService } from "./suppression-list.service";
+
+describe("emailWorkerService", () => {
+  let worker: EmailWorkerService;
+
+  const mockQueueConfig = {
+    workerEnabled: true,
+    pollIntervalMs: 1000,
+    concurrency: 5,
+  };
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue(mockQueueConfig),
+  };
+
+  const mockEmailQueue = {
+    claimDueJobs: jest.fn(),
+    markSent: jest.fn(),
+    scheduleRetry: jest.fn(),
+    moveToDeadLetter: jest.fn(),
+    recoverStalledJobs: jest.fn(),
+    markSuppressed: jest.fn(),
+  };
+
+  const mockEmailService = {
+    deliverTemplatedEmail: jest.fn(),
+  };
+
+  const mockSuppressionList = {
+    find: jest.fn(),
+  };
+
+  const mockReminderScheduler = {
+    handleSentEmail: jest.fn(),
+  };
+
+  const buildJob = (overrides: Partial<EmailJob> = {}): EmailJob => ({
+    id: "job-1",
+    template: "welcome",
+    recipient: "test@example.com",
+    payload: {
+      email: "test@example.com",
+      firstName: "John",
+      lastName: "Doe",
+      provider: "google",
+    },
+    status: "processing",
+    attempts: 1,
+    maxAttempts: 3,
+    nextAttemptAt: new Date().toISOString(),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+    jest.spyOn(Logger.prototype, "error").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailWorkerService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: EmailQueueService, useValue: mockEmailQueue },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: SuppressionListService, useValue: mockSuppressionList },
+        { provide: ReminderSchedulerService, useValue: mockReminderScheduler },
+      ],
+    }).compile();
+
+    worker = module.get<EmailWorkerService>(EmailWorkerService);
+  });
+
+  afterEach(() => {
+    worker.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  describe("lifecycle", () => {
+    it("should recover stalled jobs when starting", async () => {
+      await worker.onModuleInit();
+
+      expect(mockEmailQueue.recoverStalledJobs).toHaveBeenCalled();
+    });
+
+    it("should not start when the worker is disabled", async () => {
+      mockConfigService.get.mockReturnValueOnce({ ...mockQueueConfig, workerEnabled: false });
+      const disabledWorker = new EmailWorkerService(mockConfigService as any, mockEmailQueue as any, mockEmailService as any, mockSuppressionList as any, mockReminderScheduler as any);
+
+      await disabledWorker.onModuleInit();
+
+      expect(mockEmailQueue.recoverStalledJobs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("processDueJobs", () => {
+    it("should deliver claimed jobs and mark them as sent", async () => {
+      mockEmailQueue.claimDueJobs.mockResolvedValue([buildJob({ userId: "user-123" })]);
+      mockEmailService.deliverTemplatedEmail.mockResolvedValue({ messageId: "msg-1" });
+
+      const processed = await worker.processDueJobs();
+
+      expect(processed).toBe(1);
+      expect(mockEmailQueue.claimDueJobs).toHaveBeenCalledWith(5);
+      expect(mockEmailService.deliverTemplatedEmail).toHaveBeenCalledWith("welcome", "test@example.com", {
+        email: "test@example.com",
+        firstName: "John",
+        lastName: "Doe",
+        provider: "google",
+      }, { userId: "user-123", jobId: "job-1" });
+      expect(mockEmailQueue.markSent).toHaveBeenCalledWith(expect.objectContaining({ id: "job-1" }), "msg-1");
+      expect(mockReminderScheduler.handleSentEmail).toHaveBeenCalledWith(expect.objectContaining({ id: "job-1" }));
+    });
+
+    it("should not deliver jobs whose address was suppressed after they were queued", async () => {
+      mockEmailQueue.claimDueJobs.mockResolvedValue([buildJob()]);
+      mockSuppressionList.find.mockResolvedValueOnce({ address: "test@example.com", reason: "hard-bounce" });
+
+      await worker.processDueJobs();
+
+      expect(mockEmailService.deliverTemplatedEmail).not.toHaveBeenCalled();
+      expect(mockEmailQueue.markSuppressed).toHaveBeenCalledWith(expect.objectContaining({ id: "job-1" }), { reason: "hard-bounce" });
+    });
+
+    it("should survive queue failures", async () => {
+      mockEmailQueue.claimDueJobs.mockRejectedValue(new Error("Storage unavailable"));
+
+      await expect(worker.processDueJobs()).resolves.toBe(0);
+    });
+  });
+
+  describe("processJob", () => {
+    it("should schedule a retry on transient SMTP errors", async () => {
+      const error = Object.assign(new Error("Connection timeout"), { code: "ETIMEDOUT" });
+      mockEmailService.deliverTemplatedEmail.mockRejectedValue(error);
+
+      await worker.processJob(buildJob());
+
+      expect(mockEmailQueue.scheduleRetry).toHaveBeenCalledWith(expect.objectContaining({ id: "job-1" }), error);
+      expect(mockEmailQueue.moveToDeadLetter).not.toHaveBeenCalled();
+    });
+
+    it("should retry on SMTP 4xx replies", async () => {
+      const error = Object.assign(new Error("Mailbox busy"), { responseCode: 421 });
+      mockEmailService.deliverTemplatedEmail.mockRejectedValue(error);
+
+      await worker.processJob(buildJob());
+
+      expect(mockEmailQueue.scheduleRetry).toHaveBeenCalled();
+    });
+
+    it("should dead-letter permanent SMTP errors", async () => {
+      const error = Object.assign(new Error("Mailbox unavailable"), { responseCode: 550 });
+      mockEmailService.deliverTemplatedEmail.mockRejectedValue(error);
+
+      await worker.processJob(buildJob());
+
+      expect(mockEmailQueue.moveToDeadLetter).toHaveBeenCalledWith(expect.objectContaining({ id: "job-1" }), error);
+      expect(mockEmailQueue.scheduleRetry).not.toHaveBeenCalled();
+    });
+
+    it("should dead-letter transient errors once attempts are exhausted", async () => {
+      const error = Object.assign(new Error("Connection reset"), { code: "ECONNRESET" });
+      mockEmailService.deliverTemplatedEmail.mockRejectedValue(error);
+
+      await worker.processJob(buildJob({ attempts: 3 }));
+
+      expect(mockEmailQueue.moveToDeadLetter).toHaveBeenCalled();
+      expect(mockEmailQueue.scheduleRetry).not.toHaveBeenCalled();
+    });
+
+    it("should dead-letter jobs whose template cannot be rendered", async () => {
+      mockEmailService.deliverTemplatedEmail.mockRejectedValue(new Error("Template not found: unknown"));
+
+      await worker.processJob(buildJob({ template: "unknown" }));
+
+      expect(mockEmailQueue.moveToDeadLetter).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "job-1" }),
+        expect.objectContaining({ message: "Template not found: unknown" }),
+      );
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+import { isTransientDeliveryError } from "../utils/delivery-errors";
+import { EmailJob, EmailQueueService } from "./email-queue.service";
+import { EmailService } from "./email.service";
+import { ReminderSchedulerService } from "./reminder-scheduler.service";
+import { SuppressionListService } from "./suppression-list.service";
+
+@Injectable()
+export class EmailWorkerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EmailWorkerService.name);
+  private readonly queueConfig: any;
+  private timer?: NodeJS.Timeout;
+  private processing = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly emailQueue: EmailQueueService,
+    private readonly emailService: EmailService,
+    private readonly suppressionList: SuppressionListService,
+    private readonly reminderScheduler: ReminderSchedulerService,
+  ) {
+    this.queueConfig = this.configService.get("queue");
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (!this.queueConfig.workerEnabled) {
+      this.logger.warn("Email queue worker disabled - queued emails will not be sent");
+      return;
+    }
+
+    await this.emailQueue.recoverStalledJobs();
+
+    this.timer = setInterval(() => void this.processDueJobs(), this.queueConfig.pollIntervalMs);
+    this.timer.unref();
+    this.logger.log(`Email queue worker started (polling every ${this.queueConfig.pollIntervalMs}ms)`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Sends every job that is due, skipping the tick if the previous one is still running.
+   */
+  async processDueJobs(): Promise<number> {
+    if (this.processing) {
+      return 0;
+    }
+
+    this.processing = true;
+    try {
+      const jobs = await this.emailQueue.claimDueJobs(this.queueConfig.concurrency);
+      await Promise.all(jobs.map(job => this.processJob(job)));
+      return jobs.length;
+    }
+    catch (error) {
+      this.logger.error(`Failed to process email queue: ${error.message}`, error.stack);
+      return 0;
+    }
+    finally {
+      this.processing = false;
+    }
+  }
+
+  async processJob(job: EmailJob): Promise<void> {
+    try {
+      // The address may have bounced since the job was queued
+      const suppressedAddress = await this.suppressionList.find(job.recipient);
+      if (suppressedAddress) {
+        await this.emailQueue.markSuppressed(job, { reason: suppressedAddress.reason });
+        return;
+      }
+
+      const result = await this.emailService.deliverTemplatedEmail(job.template, job.recipient, job.payload, { userId: job.userId, jobId: job.id });
+      await this.emailQueue.markSent(job, result.messageId);
+      await this.reminderScheduler.handleSentEmail(job);
+    }
+    catch (error) {
+      if (isTransientDeliveryError(error) && job.attempts < job.maxAttempts) {
+        await this.emailQueue.scheduleRetry(job, error);
+      }
+      else {
+        await this.emailQueue.moveToDeadLetter(job, error);
+      }
+    }
+  }
+}
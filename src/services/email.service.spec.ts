@@ -1,10 +1,17 @@
 import { Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { Test, TestingModule } from "@nestjs/testing";
+import { Buffer } from "node:buffer";
 import * as nodemailer from "nodemailer";
 
-import { CompiledTemplate, SubscriptionConfirmationEmailData, TemplateService, WelcomeEmailData } from "../utils/template.service";
+import { MemoryTransport } from "../transports/memory.transport";
+import { CompiledTemplate, TemplateService } from "../utils/template.service";
+import { DigestService } from "./digest.service";
 import { EmailService } from "./email.service";
+import { InvoiceService } from "./invoice.service";
+import { RateLimitService } from "./rate-limit.service";
+import { SandboxService } from "./sandbox.service";
+import { UnsubscribeService } from "./unsubscribe.service";
 
 // Mock nodemailer
 jest.mock("nodemailer");
@@ -14,6 +21,7 @@ describe("emailService", () => {
   let service: EmailService;
   let configService: jest.Mocked<ConfigService>;
   let templateService: jest.Mocked<TemplateService>;
+  let sandboxService: jest.Mocked<SandboxService>;
   let mockTransporter: jest.Mocked<nodemailer.Transporter>;
 
   const mockEmailConfig = {
@@ -38,8 +46,27 @@ describe("emailService", () => {
   };
 
   const mockTemplateService = {
-    getWelcomeEmailTemplate: jest.fn(),
-    getSubscriptionConfirmationEmailTemplate: jest.fn(),
+    render: jest.fn(),
+  };
+
+  const mockSandboxService = {
+    capture: jest.fn(),
+  };
+
+  const mockRateLimitService = {
+    waitForSendSlot: jest.fn(),
+  };
+
+  const mockUnsubscribeService = {
+    createUrl: jest.fn(),
+  };
+
+  const mockInvoiceService = {
+    attachmentFor: jest.fn(),
+  };
+
+  const mockDigestService = {
+    attachmentsFor: jest.fn().mockReturnValue([]),
   };
 
   beforeEach(async () => {
@@ -60,12 +87,19 @@ describe("emailService", () => {
         EmailService,
         { provide: ConfigService, useValue: mockConfigService },
         { provide: TemplateService, useValue: mockTemplateService },
+        { provide: SandboxService, useValue: mockSandboxService },
+        { provide: RateLimitService, useValue: mockRateLimitService },
+        { provide: UnsubscribeService, useValue: mockUnsubscribeService },
+        { provide: InvoiceService, useValue: mockInvoiceService },
+        { provide: DigestService, useValue: mockDigestService },
       ],
     }).compile();
 
     service = module.get<EmailService>(EmailService);
     configService = module.get(ConfigService);
     templateService = module.get(TemplateService);
+    sandboxService = module.get(SandboxService);
+    mockSandboxService.capture.mockResolvedValue({ id: "sandbox-1", messageId: "<sandbox-1@sandbox.penpal-ai>" });
 
     // Mock logger to prevent console output during tests
     jest.spyOn(Logger.prototype, "log").mockImplementation();
@@ -104,315 +138,210 @@ describe("emailService", () => {
       });
 
       expect(() => {
-        const _service = new EmailService(configService, templateService);
+        const _service = new EmailService(configService, templateService, sandboxService, mockRateLimitService as any, mockUnsubscribeService as any, mockInvoiceService as any, mockDigestService as any);
       }).toThrow("Transporter creation failed");
     });
   });
 
-  describe("sendWelcomeEmail", () => {
-    const mockUserData: WelcomeEmailData = {
-      email: "test@example.com",
-      firstName: "John",
-      lastName: "Doe",
-      provider: "google",
-    };
-
+  describe("deliverTemplatedEmail", () => {
     const mockTemplate: CompiledTemplate = {
-      subject: "Welcome to Penpal AI!",
-      html: "<h1>Welcome John!</h1>",
-      text: "Welcome John!",
+      subject: "Hello!",
+      html: "<h1>Hello!</h1>",
+      text: "Hello!",
     };
 
-    it("should send welcome email successfully", async () => {
-      templateService.getWelcomeEmailTemplate.mockResolvedValue(mockTemplate);
+    it("should render the template with the recipient and send it", async () => {
+      templateService.render.mockResolvedValue(mockTemplate);
       mockTransporter.sendMail.mockResolvedValue({ messageId: "test-message-id" });
 
-      const result = await service.sendWelcomeEmail(mockUserData);
+      const result = await service.deliverTemplatedEmail("welcome", "test@example.com", { firstName: "John" });
 
-      expect(templateService.getWelcomeEmailTemplate).toHaveBeenCalledWith(mockUserData);
-      expect(mockTransporter.sendMail).toHaveBeenCalledWith({
-        from: {
-          name: mockEmailConfig.from.name,
-          address: mockEmailConfig.from.address,
-        },
-        to: mockUserData.email,
+      expect(templateService.render).toHaveBeenCalledWith("welcome", { email: "test@example.com", firstName: "John" });
+      expect(mockTransporter.sendMail).toHaveBeenCalledWith(expect.objectContaining({
+        to: "test@example.com",
         subject: mockTemplate.subject,
-        text: mockTemplate.text,
         html: mockTemplate.html,
-      });
-      expect(result).toBe(true);
+        text: mockTemplate.text,
+      }));
+      expect(result).toEqual({ messageId: "test-message-id" });
     });
 
-    it("should handle email sending failure", async () => {
-      templateService.getWelcomeEmailTemplate.mockResolvedValue(mockTemplate);
+    it("should propagate transport errors", async () => {
+      templateService.render.mockResolvedValue(mockTemplate);
       mockTransporter.sendMail.mockRejectedValue(new Error("SMTP error"));
 
-      const result = await service.sendWelcomeEmail(mockUserData);
-
-      expect(result).toBe(false);
+      await expect(service.deliverTemplatedEmail("welcome", "test@example.com", {})).rejects.toThrow("SMTP error");
     });
 
-    it("should handle template generation failure", async () => {
-      templateService.getWelcomeEmailTemplate.mockRejectedValue(new Error("Template error"));
+    it("should add an unsubscribe link and List-Unsubscribe headers when the user can opt out", async () => {
+      const unsubscribeUrl = "http://localhost:3007/api/v1/unsubscribe/token";
+      mockUnsubscribeService.createUrl.mockResolvedValueOnce(unsubscribeUrl);
+      templateService.render.mockResolvedValue(mockTemplate);
+      mockTransporter.sendMail.mockResolvedValue({ messageId: "test-message-id" });
 
-      const result = await service.sendWelcomeEmail(mockUserData);
+      await service.deliverTemplatedEmail("subscription", "test@example.com", { planName: "Premium" }, { userId: "user-123" });
 
-      expect(result).toBe(false);
+      expect(mockUnsubscribeService.createUrl).toHaveBeenCalledWith("subscription", "test@example.com", "user-123");
+      expect(templateService.render).toHaveBeenCalledWith("subscription", {
+        email: "test@example.com",
+        planName: "Premium",
+        unsubscribeUrl,
+      });
+      expect(mockTransporter.sendMail).toHaveBeenCalledWith(expect.objectContaining({
+        headers: {
+          "List-Unsubscribe": `<${unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        },
+      }));
     });
 
-    it("should run in test mode when SMTP not configured", async () => {
-      const testConfig = {
-        ...mockEmailConfig,
-        auth: { user: "", pass: "" },
-      };
-      configService.get.mockReturnValue(testConfig);
-
-      // Recreate service with test config
-      const testModule = await Test.createTestingModule({
-        providers: [
-          EmailService,
-          { provide: ConfigService, useValue: { get: () => testConfig } },
-          { provide: TemplateService, useValue: mockTemplateService },
-        ],
-      }).compile();
-
-      const testService = testModule.get<EmailService>(EmailService);
-      const result = await testService.sendWelcomeEmail(mockUserData);
-
-      expect(result).toBe(true);
-      expect(mockTransporter.sendMail).not.toHaveBeenCalled();
-    });
-  });
+    it("should attach the invoice of billing emails", async () => {
+      const invoice = { filename: "facture-PP-2025-0042.pdf", content: Buffer.from("%PDF-1.4"), contentType: "application/pdf" };
+      mockInvoiceService.attachmentFor.mockResolvedValueOnce(invoice);
+      templateService.render.mockResolvedValue(mockTemplate);
+      mockTransporter.sendMail.mockResolvedValue({ messageId: "test-message-id" });
 
-  describe("sendSubscriptionConfirmationEmail", () => {
-    const mockSubscriptionData: SubscriptionConfirmationEmailData = {
-      email: "test@example.com",
-      firstName: "John",
-      lastName: "Doe",
-      plan: "monthly",
-      status: "active",
-      trialEnd: new Date("2024-02-15"),
-      nextBillingDate: new Date("2024-02-15"),
-      amount: 999,
-      currency: "EUR",
-    };
+      await service.deliverTemplatedEmail("receipt", "test@example.com", { invoiceNumber: "PP-2025-0042" }, { userId: "user-123", jobId: "job-1" });
 
-    const mockTemplate: CompiledTemplate = {
-      subject: "Subscription Confirmed!",
-      html: "<h1>Subscription Active!</h1>",
-      text: "Subscription Active!",
-    };
+      expect(mockInvoiceService.attachmentFor).toHaveBeenCalledWith("receipt", "test@example.com", { invoiceNumber: "PP-2025-0042" }, { userId: "user-123", jobId: "job-1" });
+      expect(mockTransporter.sendMail).toHaveBeenCalledWith(expect.objectContaining({ attachments: [invoice] }));
+    });
 
-    it("should send subscription confirmation email successfully", async () => {
-      templateService.getSubscriptionConfirmationEmailTemplate.mockResolvedValue(mockTemplate);
+    it("should attach the charts of weekly digests inline", async () => {
+      const chart = { filename: "minutes-chart.png", content: Buffer.from("PNG"), contentType: "image/png", cid: "minutes-chart" };
+      mockDigestService.attachmentsFor.mockReturnValueOnce([chart]);
+      templateService.render.mockResolvedValue(mockTemplate);
       mockTransporter.sendMail.mockResolvedValue({ messageId: "test-message-id" });
 
-      const result = await service.sendSubscriptionConfirmationEmail(mockSubscriptionData);
+      await service.deliverTemplatedEmail("weekly-digest", "test@example.com", { dailyMinutes: [10, 0, 0, 0, 0, 0, 0] });
 
-      expect(templateService.getSubscriptionConfirmationEmailTemplate).toHaveBeenCalledWith(mockSubscriptionData);
-      expect(mockTransporter.sendMail).toHaveBeenCalledWith({
-        from: {
-          name: mockEmailConfig.from.name,
-          address: mockEmailConfig.from.address,
-        },
-        to: mockSubscriptionData.email,
-        subject: mockTemplate.subject,
-        text: mockTemplate.text,
-        html: mockTemplate.html,
-      });
-      expect(result).toBe(true);
+      expect(mockDigestService.attachmentsFor).toHaveBeenCalledWith("weekly-digest", { dailyMinutes: [10, 0, 0, 0, 0, 0, 0] });
+      expect(mockTransporter.sendMail).toHaveBeenCalledWith(expect.objectContaining({ attachments: [chart] }));
     });
 
-    it("should handle email sending failure", async () => {
-      templateService.getSubscriptionConfirmationEmailTemplate.mockResolvedValue(mockTemplate);
-      mockTransporter.sendMail.mockRejectedValue(new Error("SMTP error"));
+    it("should not add List-Unsubscribe headers to emails users cannot opt out of", async () => {
+      mockUnsubscribeService.createUrl.mockResolvedValueOnce(undefined);
+      templateService.render.mockResolvedValue(mockTemplate);
+      mockTransporter.sendMail.mockResolvedValue({ messageId: "test-message-id" });
 
-      const result = await service.sendSubscriptionConfirmationEmail(mockSubscriptionData);
+      await service.deliverTemplatedEmail("welcome", "test@example.com", {}, { userId: "user-123" });
 
-      expect(result).toBe(false);
+      expect(mockTransporter.sendMail).toHaveBeenCalledWith(expect.objectContaining({ headers: undefined }));
     });
 
-    it("should handle template generation failure", async () => {
-      templateService.getSubscriptionConfirmationEmailTemplate.mockRejectedValue(new Error("Template error"));
+    it("should capture instead of sending when SMTP is not configured", async () => {
+      const testConfig = { ...mockEmailConfig, auth: { user: "", pass: "" } };
+      const testService = new EmailService({ get: () => testConfig } as any, templateService, sandboxService, mockRateLimitService as any, mockUnsubscribeService as any, mockInvoiceService as any, mockDigestService as any);
+      templateService.render.mockResolvedValue(mockTemplate);
 
-      const result = await service.sendSubscriptionConfirmationEmail(mockSubscriptionData);
+      const result = await testService.deliverTemplatedEmail("welcome", "test@example.com", {});
 
-      expect(result).toBe(false);
+      expect(result).toEqual({ messageId: "<sandbox-1@sandbox.penpal-ai>" });
+      expect(testService.isSandboxMode).toBe(true);
+      expect(mockTransporter.sendMail).not.toHaveBeenCalled();
     });
 
-    it("should run in test mode when SMTP not configured", async () => {
-      const testConfig = {
-        ...mockEmailConfig,
-        auth: { user: "", pass: "" },
-      };
-
-      // Recreate service with test config
-      const testModule = await Test.createTestingModule({
-        providers: [
-          EmailService,
-          { provide: ConfigService, useValue: { get: () => testConfig } },
-          { provide: TemplateService, useValue: mockTemplateService },
-        ],
-      }).compile();
+    it("should capture instead of sending when sandbox mode is enabled", async () => {
+      const sandboxConfig = { ...mockEmailConfig, sandbox: { enabled: true } };
+      const sandboxedService = new EmailService({ get: () => sandboxConfig } as any, templateService, sandboxService, mockRateLimitService as any, mockUnsubscribeService as any, mockInvoiceService as any, mockDigestService as any);
+      templateService.render.mockResolvedValue(mockTemplate);
 
-      const testService = testModule.get<EmailService>(EmailService);
-      const result = await testService.sendSubscriptionConfirmationEmail(mockSubscriptionData);
+      await sandboxedService.deliverTemplatedEmail("welcome", "test@example.com", {});
 
-      expect(result).toBe(true);
+      expect(mockSandboxService.capture).toHaveBeenCalled();
       expect(mockTransporter.sendMail).not.toHaveBeenCalled();
+      expect(mockRateLimitService.waitForSendSlot).not.toHaveBeenCalled();
     });
-  });
 
-  describe("verifyConnection", () => {
-    it("should return true when connection is verified", async () => {
-      mockTransporter.verify.mockResolvedValue(true);
+    it("should wait for the send rate before handing the email to the transport", async () => {
+      const order: string[] = [];
+      templateService.render.mockResolvedValue(mockTemplate);
+      mockRateLimitService.waitForSendSlot.mockImplementationOnce(async () => void order.push("wait"));
+      mockTransporter.sendMail.mockImplementationOnce(async () => {
+        order.push("send");
+        return { messageId: "smtp-id" };
+      });
 
-      const result = await service.verifyConnection();
+      await service.deliverTemplatedEmail("welcome", "test@example.com", {});
 
-      expect(mockTransporter.verify).toHaveBeenCalled();
-      expect(result).toBe(true);
+      expect(order).toEqual(["wait", "send"]);
     });
+  });
 
-    it("should return false when connection verification fails", async () => {
-      mockTransporter.verify.mockRejectedValue(new Error("Connection failed"));
+  describe("transport failover", () => {
+    const mockTemplate: CompiledTemplate = {
+      subject: "Hello!",
+      html: "<h1>Hello!</h1>",
+      text: "Hello!",
+    };
 
-      const result = await service.verifyConnection();
+    let failoverService: EmailService;
+    let memoryTransport: MemoryTransport;
 
-      expect(result).toBe(false);
+    beforeEach(() => {
+      const failoverConfig = { ...mockEmailConfig, transports: ["smtp", "memory"] };
+      failoverService = new EmailService({ get: () => failoverConfig } as any, templateService, sandboxService, mockRateLimitService as any, mockUnsubscribeService as any, mockInvoiceService as any, mockDigestService as any);
+      memoryTransport = (failoverService as any).transports[1];
+      templateService.render.mockResolvedValue(mockTemplate);
     });
 
-    it("should handle verification timeout", async () => {
-      mockTransporter.verify.mockRejectedValue(new Error("Timeout"));
+    it("should use the primary transport when it succeeds", async () => {
+      mockTransporter.sendMail.mockResolvedValue({ messageId: "smtp-id" });
 
-      const result = await service.verifyConnection();
+      const result = await failoverService.deliverTemplatedEmail("welcome", "test@example.com", {});
 
-      expect(result).toBe(false);
+      expect(result).toEqual({ messageId: "smtp-id" });
+      expect(memoryTransport.messages).toHaveLength(0);
     });
-  });
 
-  describe("error handling", () => {
-    it("should handle network errors gracefully", async () => {
-      const mockUserData: WelcomeEmailData = {
-        email: "test@example.com",
-        firstName: "John",
-        lastName: "Doe",
-        provider: "google",
-      };
-
-      templateService.getWelcomeEmailTemplate.mockResolvedValue({
-        subject: "Welcome!",
-        html: "<h1>Welcome!</h1>",
-        text: "Welcome!",
-      });
-      mockTransporter.sendMail.mockRejectedValue(new Error("ECONNRESET"));
+    it("should fail over to the next transport when the primary errors", async () => {
+      mockTransporter.sendMail.mockRejectedValue(new Error("SMTP error"));
 
-      const result = await service.sendWelcomeEmail(mockUserData);
+      const result = await failoverService.deliverTemplatedEmail("welcome", "test@example.com", {});
 
-      expect(result).toBe(false);
+      expect(memoryTransport.messages).toHaveLength(1);
+      expect(memoryTransport.messages[0]).toMatchObject({ to: "test@example.com", subject: "Hello!" });
+      expect(result.messageId).toBe(memoryTransport.messages[0].messageId);
     });
 
-    it("should handle authentication errors", async () => {
-      const mockUserData: WelcomeEmailData = {
-        email: "test@example.com",
-        firstName: "John",
-        lastName: "Doe",
-        provider: "google",
-      };
-
-      templateService.getWelcomeEmailTemplate.mockResolvedValue({
-        subject: "Welcome!",
-        html: "<h1>Welcome!</h1>",
-        text: "Welcome!",
-      });
-      mockTransporter.sendMail.mockRejectedValue(new Error("Invalid credentials"));
+    it("should throw the last error when every transport fails", async () => {
+      mockTransporter.sendMail.mockRejectedValue(new Error("SMTP error"));
+      jest.spyOn(memoryTransport, "send").mockRejectedValue(new Error("Memory error"));
+
+      await expect(failoverService.deliverTemplatedEmail("welcome", "test@example.com", {})).rejects.toThrow("Memory error");
+    });
 
-      const result = await service.sendWelcomeEmail(mockUserData);
+    it("should reject unknown transports", () => {
+      const invalidConfig = { ...mockEmailConfig, transports: ["pigeon"] };
 
-      expect(result).toBe(false);
+      expect(() => new EmailService({ get: () => invalidConfig } as any, templateService, sandboxService, mockRateLimitService as any, mockUnsubscribeService as any, mockInvoiceService as any, mockDigestService as any)).toThrow("Unknown email transport \"pigeon\"");
     });
   });
 
-  describe("logging", () => {
-    it("should log successful email sending", async () => {
-      const logSpy = jest.spyOn(Logger.prototype, "log");
-
-      const mockUserData: WelcomeEmailData = {
-        email: "test@example.com",
-        firstName: "John",
-        lastName: "Doe",
-        provider: "google",
-      };
-
-      templateService.getWelcomeEmailTemplate.mockResolvedValue({
-        subject: "Welcome!",
-        html: "<h1>Welcome!</h1>",
-        text: "Welcome!",
-      });
-      mockTransporter.sendMail.mockResolvedValue({ messageId: "test-id" });
+  describe("verifyConnection", () => {
+    it("should return true when connection is verified", async () => {
+      mockTransporter.verify.mockResolvedValue(true);
 
-      await service.sendWelcomeEmail(mockUserData);
+      const result = await service.verifyConnection();
 
-      expect(logSpy).toHaveBeenCalledWith(
-        expect.stringContaining("Welcome email sent successfully to test@example.com"),
-      );
+      expect(mockTransporter.verify).toHaveBeenCalled();
+      expect(result).toBe(true);
     });
 
-    it("should log errors when email sending fails", async () => {
-      const errorSpy = jest.spyOn(Logger.prototype, "error");
-
-      const mockUserData: WelcomeEmailData = {
-        email: "test@example.com",
-        firstName: "John",
-        lastName: "Doe",
-        provider: "google",
-      };
-
-      templateService.getWelcomeEmailTemplate.mockResolvedValue({
-        subject: "Welcome!",
-        html: "<h1>Welcome!</h1>",
-        text: "Welcome!",
-      });
-      mockTransporter.sendMail.mockRejectedValue(new Error("SMTP error"));
+    it("should return false when connection verification fails", async () => {
+      mockTransporter.verify.mockRejectedValue(new Error("Connection failed"));
 
-      await service.sendWelcomeEmail(mockUserData);
+      const result = await service.verifyConnection();
 
-      expect(errorSpy).toHaveBeenCalledWith(
-        expect.stringContaining("Failed to send welcome email to test@example.com: SMTP error"),
-        expect.any(String),
-      );
+      expect(result).toBe(false);
     });
-  });
 
-  describe("test mode", () => {
-    it("should display test email content when in test mode", async () => {
-      const testConfig = {
-        ...mockEmailConfig,
-        auth: { user: "", pass: "" },
-      };
-
-      const testModule = await Test.createTestingModule({
-        providers: [
-          EmailService,
-          { provide: ConfigService, useValue: { get: () => testConfig } },
-          { provide: TemplateService, useValue: mockTemplateService },
-        ],
-      }).compile();
-
-      const testService = testModule.get<EmailService>(EmailService);
-      const logSpy = jest.spyOn(Logger.prototype, "log");
-
-      const mockUserData: WelcomeEmailData = {
-        email: "test@example.com",
-        firstName: "John",
-        lastName: "Doe",
-        provider: "google",
-      };
+    it("should handle verification timeout", async () => {
+      mockTransporter.verify.mockRejectedValue(new Error("Timeout"));
 
-      await testService.sendWelcomeEmail(mockUserData);
+      const result = await service.verifyConnection();
 
-      expect(logSpy).toHaveBeenCalledWith(
-        expect.stringContaining("EMAIL DE TEST - BIENVENUE"),
-      );
+      expect(result).toBe(false);
     });
   });
 });
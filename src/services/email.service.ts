@@ -1,183 +1,178 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
-import * as nodemailer from "nodemailer";
 
-import { SubscriptionConfirmationEmailData, TemplateService, WelcomeEmailData } from "../utils/template.service";
+import { createMailTransport } from "../transports/create-mail-transport";
+import { DeliveryResult, MailAttachment, MailTransport, OutgoingMessage } from "../transports/mail-transport";
+import { SandboxTransport } from "../transports/sandbox.transport";
+import { CompiledTemplate, TemplateService } from "../utils/template.service";
+import { DigestService } from "./digest.service";
+import { InvoiceService } from "./invoice.service";
+import { RateLimitService } from "./rate-limit.service";
+import { SandboxService } from "./sandbox.service";
+import { UnsubscribeService } from "./unsubscribe.service";
+
+export type DeliveryOptions = {
+  /** Recipient's user, required for the email to carry an unsubscribe link */
+  userId?: string;
+  /** Queued job being delivered, so that a retry attaches the same invoice */
+  jobId?: string;
+};
 
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
-  private transporter: nodemailer.Transporter;
+  private transports: MailTransport[] = [];
   private readonly emailConfig: any;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly templateService: TemplateService,
+    private readonly sandboxService: SandboxService,
+    private readonly rateLimitService: RateLimitService,
+    private readonly unsubscribeService: UnsubscribeService,
+    private readonly invoiceService: InvoiceService,
+    private readonly digestService: DigestService,
   ) {
     this.emailConfig = this.configService.get("email");
-    this.createTransporter();
+    this.createTransports();
   }
 
-  private createTransporter() {
-    try {
-      this.transporter = nodemailer.createTransport({
-        host: this.emailConfig.host,
-        port: this.emailConfig.port,
-        secure: this.emailConfig.secure,
-        auth: {
-          user: this.emailConfig.auth.user,
-          pass: this.emailConfig.auth.pass,
-        },
-        tls: {
-          rejectUnauthorized: false,
-        },
-      });
-
-      this.logger.log(`Email transporter configured for ${this.emailConfig.host}:${this.emailConfig.port}`);
+  /**
+   * Creates the transports listed in the config, in failover order. SMTP is
+   * skipped when it has no credentials. In sandbox mode, or when no transport
+   * is left, emails are captured in the sandbox mailbox instead.
+   */
+  private createTransports() {
+    if (this.emailConfig.sandbox?.enabled) {
+      this.logger.warn("Sandbox mode enabled - emails are captured instead of sent");
+      this.transports = [new SandboxTransport(this.sandboxService)];
+      return;
     }
-    catch (error) {
-      this.logger.error(`Failed to create email transporter: ${error.message}`);
-      throw error;
-    }
-  }
-
-  async sendWelcomeEmail(userData: WelcomeEmailData): Promise<boolean> {
-    try {
-      this.logger.log(`Sending welcome email to ${userData.email}`);
 
-      // Check if we're in test mode (no SMTP configured)
-      if (!this.emailConfig.auth.user || !this.emailConfig.auth.pass) {
-        this.logger.warn("SMTP not configured - running in TEST MODE");
-        this.logTestWelcomeEmail(userData);
-        return true;
+    for (const name of this.emailConfig.transports ?? ["smtp"]) {
+      if (name === "smtp" && (!this.emailConfig.auth.user || !this.emailConfig.auth.pass)) {
+        this.logger.warn("SMTP credentials missing - SMTP transport disabled");
+        continue;
       }
 
-      const template = await this.templateService.getWelcomeEmailTemplate(userData);
-
-      const mailOptions = {
-        from: {
-          name: this.emailConfig.from.name,
-          address: this.emailConfig.from.address,
-        },
-        to: userData.email,
-        subject: template.subject,
-        text: template.text,
-        html: template.html,
-      };
-
-      const info = await this.transporter.sendMail(mailOptions);
-      this.logger.log(`Welcome email sent successfully to ${userData.email}. Message ID: ${info.messageId}`);
-
-      return true;
-    }
-    catch (error) {
-      this.logger.error(`Failed to send welcome email to ${userData.email}: ${error.message}`, error.stack);
-      return false;
-    }
-  }
-
-  async sendSubscriptionConfirmationEmail(subscriptionData: SubscriptionConfirmationEmailData): Promise<boolean> {
-    try {
-      this.logger.log(`Sending subscription confirmation email to ${subscriptionData.email}`);
-
-      // Check if we're in test mode (no SMTP configured)
-      if (!this.emailConfig.auth.user || !this.emailConfig.auth.pass) {
-        this.logger.warn("SMTP not configured - running in TEST MODE");
-        this.logTestSubscriptionEmail(subscriptionData);
-        return true;
+      try {
+        this.transports.push(createMailTransport(name, this.emailConfig));
+      }
+      catch (error) {
+        this.logger.error(`Failed to create ${name} email transport: ${error.message}`);
+        throw error;
       }
-
-      const template = await this.templateService.getSubscriptionConfirmationEmailTemplate(subscriptionData);
-
-      const mailOptions = {
-        from: {
-          name: this.emailConfig.from.name,
-          address: this.emailConfig.from.address,
-        },
-        to: subscriptionData.email,
-        subject: template.subject,
-        text: template.text,
-        html: template.html,
-      };
-
-      const info = await this.transporter.sendMail(mailOptions);
-      this.logger.log(`Subscription confirmation email sent successfully to ${subscriptionData.email}. Message ID: ${info.messageId}`);
-
-      return true;
-    }
-    catch (error) {
-      this.logger.error(`Failed to send subscription confirmation email to ${subscriptionData.email}: ${error.message}`, error.stack);
-      return false;
     }
-  }
 
-  async verifyConnection(): Promise<boolean> {
-    try {
-      await this.transporter.verify();
-      this.logger.log("Email transporter connection verified successfully");
-      return true;
-    }
-    catch (error) {
-      this.logger.error(`Email transporter verification failed: ${error.message}`);
-      return false;
+    if (this.transports.length === 0) {
+      this.logger.warn("No email transport configured - emails are captured in the sandbox instead of sent");
+      this.transports = [new SandboxTransport(this.sandboxService)];
+      return;
     }
+
+    this.logger.log(`Email transports configured: ${this.transports.map(transport => transport.name).join(" → ")}`);
   }
 
-  private logTestWelcomeEmail(userData: WelcomeEmailData): void {
-    this.logger.log(`
-📧 EMAIL DE TEST - BIENVENUE
-=====================================
-À: ${userData.email}
-Nom: ${userData.firstName} ${userData.lastName}
-Provider: ${userData.provider}
-=====================================
+  get isSandboxMode(): boolean {
+    return this.transports[0] instanceof SandboxTransport;
+  }
 
-🎉 Bienvenue ${userData.firstName} !
+  /**
+   * Renders any registered template and sends it, letting transport errors
+   * propagate so that the queue worker can decide whether to retry. Emails
+   * users can opt out of get an unsubscribe link and the matching
+   * List-Unsubscribe headers (RFC 8058), billing emails that stand for a
+   * payment get its PDF invoice attached, and weekly digests their charts.
+   */
+  async deliverTemplatedEmail(templateName: string, to: string, data: Record<string, any>, options: DeliveryOptions = {}): Promise<DeliveryResult> {
+    this.logger.log(`Sending ${templateName} email to ${to}`);
+
+    const unsubscribeUrl = await this.unsubscribeService.createUrl(templateName, to, options.userId);
+    const template = await this.renderTemplatedEmail(templateName, to, { ...data, unsubscribeUrl });
+    const headers = unsubscribeUrl
+      ? { "List-Unsubscribe": `<${unsubscribeUrl}>`, "List-Unsubscribe-Post": "List-Unsubscribe=One-Click" }
+      : undefined;
+    const invoice = await this.invoiceService.attachmentFor(templateName, to, data, options);
+    const attachments = [...(invoice ? [invoice] : []), ...this.digestService.attachmentsFor(templateName, data)];
+    const result = await this.sendRendered(to, template, headers, attachments.length ? attachments : undefined);
+    this.logger.log(`${templateName} email sent successfully to ${to}. Message ID: ${result.messageId}`);
+
+    return result;
+  }
 
-Votre compte Penpal AI a été créé avec succès via ${userData.provider}.
+  /**
+   * Renders a template exactly as it is sent to `to`, without sending it.
+   */
+  async renderTemplatedEmail(templateName: string, to: string, data: Record<string, any>): Promise<CompiledTemplate> {
+    return this.templateService.render(templateName, { email: to, ...data });
+  }
 
-Vous pouvez maintenant :
-• 💬 Converser avec des IA spécialisées
-• 📚 Améliorer vos compétences linguistiques  
-• 🌍 Découvrir de nouvelles cultures
-• 📈 Suivre vos progrès
+  /**
+   * Hands the message to each transport in turn until one accepts it. When
+   * all of them fail, the last error is thrown. Real sends wait for the
+   * configured send rate; sandbox captures do not.
+   */
+  private async sendRendered(
+    to: string,
+    template: CompiledTemplate,
+    headers?: Record<string, string>,
+    attachments?: MailAttachment[],
+  ): Promise<DeliveryResult> {
+    const message: OutgoingMessage = {
+      from: {
+        name: this.emailConfig.from.name,
+        address: this.emailConfig.from.address,
+      },
+      to,
+      subject: template.subject,
+      text: template.text,
+      html: template.html,
+      headers,
+      attachments,
+    };
+
+    if (!this.isSandboxMode) {
+      await this.rateLimitService.waitForSendSlot();
+    }
 
-Accédez à votre tableau de bord : ${this.emailConfig.templates.baseUrl}/onboarding
+    let lastError: Error | undefined;
+    for (const [index, transport] of this.transports.entries()) {
+      try {
+        return await transport.send(message);
+      }
+      catch (error) {
+        lastError = error;
+        const next = this.transports[index + 1];
+        if (next) {
+          this.logger.warn(`${transport.name} transport failed for ${to}: ${error.message} - failing over to ${next.name}`);
+        }
+      }
+    }
 
-=====================================
-✅ Email de test affiché dans les logs
-    `);
+    throw lastError;
   }
 
-  private logTestSubscriptionEmail(subscriptionData: SubscriptionConfirmationEmailData): void {
-    this.logger.log(`
-📧 EMAIL DE TEST - ABONNEMENT
-==============================================
-À: ${subscriptionData.email}
-Nom: ${subscriptionData.firstName} ${subscriptionData.lastName}
-Plan: ${subscriptionData.plan}
-Status: ${subscriptionData.status}
-==============================================
-
-${subscriptionData.status === "trial" ? "🎉 Période d'essai commencée !" : "🎉 Abonnement confirmé !"}
-
-Bonjour ${subscriptionData.firstName} !
-
-${subscriptionData.status === "trial"
-    ? `Votre période d'essai gratuite Penpal AI a commencé.
-Plan: Essai ${subscriptionData.plan === "monthly" ? "Mensuel" : "Annuel"}
-${subscriptionData.trialEnd ? `Fin: ${subscriptionData.trialEnd.toLocaleDateString("fr-FR")}` : ""}
-Accès: Toutes les fonctionnalités premium`
-    : `Votre abonnement Penpal AI est maintenant actif !
-Plan: ${subscriptionData.plan === "monthly" ? "Mensuel" : "Annuel"}
-${subscriptionData.amount ? `Montant: ${(subscriptionData.amount / 100).toFixed(2)} ${subscriptionData.currency?.toUpperCase() || "EUR"}` : ""}
-${subscriptionData.nextBillingDate ? `Prochaine facturation: ${subscriptionData.nextBillingDate.toLocaleDateString("fr-FR")}` : ""}`
-}
-
-Accédez à Penpal AI : ${this.emailConfig.templates.baseUrl}
+  /**
+   * Returns true when at least one transport is able to send.
+   */
+  async verifyConnection(): Promise<boolean> {
+    let available = false;
+
+    for (const transport of this.transports) {
+      try {
+        if (await transport.verify()) {
+          this.logger.log(`${transport.name} email transport verified successfully`);
+          available = true;
+        }
+        else {
+          this.logger.error(`${transport.name} email transport is not configured`);
+        }
+      }
+      catch (error) {
+        this.logger.error(`${transport.name} email transport verification failed: ${error.message}`);
+      }
+    }
 
-==============================================
-✅ Email de test affiché dans les logs
-    `);
+    return available;
   }
 }
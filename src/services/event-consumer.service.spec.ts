@@ -0,0 +1,156 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { InvalidEventError } from "../events/event-broker";
+import { MemoryEventBroker } from "../events/memory-event.broker";
+import { StorageService } from "../storage/storage.service";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { EmailQueueService } from "./email-queue.service";
+import { EVENT_CLIENT_ID, EventConsumerService } from "./event-consumer.service";
+import { IdempotencyService } from "./idempotency.service";
+import { AddressSuppressedError } from "./suppression-list.service";
+
+describe("eventConsumerService", () => {
+  let consumer: EventConsumerService;
+  let eventsConfig: Record<string, any>;
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => (key === "events" ? eventsConfig : key === "storage" ? { driver: "memory" } : undefined)),
+  };
+
+  const mockEmailQueue = {
+    enqueue: jest.fn(),
+  };
+
+  const welcomeData = {
+    email: "jane@example.com",
+    firstName: "Jane",
+    lastName: "Doe",
+    provider: "google",
+    userId: "user-1",
+  };
+
+  async function createConsumer(): Promise<EventConsumerService> {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EventConsumerService,
+        IdempotencyService,
+        StorageService,
+        TemplateRegistryService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: EmailQueueService, useValue: mockEmailQueue },
+      ],
+    }).compile();
+
+    return module.get<EventConsumerService>(EventConsumerService);
+  }
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+    eventsConfig = { broker: "memory" };
+    mockEmailQueue.enqueue.mockImplementation(async (template: string) => ({ id: `job-${template}` }));
+    consumer = await createConsumer();
+  });
+
+  afterEach(async () => {
+    await consumer.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  describe("handle", () => {
+    it("should queue the template mapped to the event with the event data", async () => {
+      const job = await consumer.handle({ type: "user.registered", data: welcomeData });
+
+      expect(job?.id).toBe("job-welcome");
+      expect(mockEmailQueue.enqueue).toHaveBeenCalledWith("welcome", "jane@example.com", welcomeData, { userId: "user-1", clientId: EVENT_CLIENT_ID });
+    });
+
+    it("should handle an event delivered twice only once", async () => {
+      const event = { id: "evt-1", type: "user.registered", data: welcomeData };
+
+      await Promise.all([consumer.handle(event), consumer.handle(event)]);
+      const redelivered = await consumer.handle(event);
+
+      expect(redelivered).toBeUndefined();
+      expect(mockEmailQueue.enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject events that no retry would fix", async () => {
+      await expect(consumer.handle({ type: "user.deleted", data: welcomeData })).rejects.toThrow(InvalidEventError);
+      await expect(consumer.handle({ type: "user.registered", data: { ...welcomeData, email: undefined } })).rejects.toThrow("no recipient in \"email\"");
+      await expect(consumer.handle({ type: "user.registered", data: { ...welcomeData, provider: "myspace" } })).rejects.toThrow("Invalid data for template welcome");
+      expect(mockEmailQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it("should skip suppressed addresses without failing the event", async () => {
+      mockEmailQueue.enqueue.mockRejectedValueOnce(new AddressSuppressedError({
+        id: "jane@example.com",
+        address: "jane@example.com",
+        reason: "hard-bounce",
+        source: "sendgrid",
+        createdAt: new Date().toISOString(),
+      }));
+
+      await expect(consumer.handle({ type: "user.registered", data: welcomeData })).resolves.toBeUndefined();
+    });
+
+    it("should let other errors through so that the event is delivered again", async () => {
+      mockEmailQueue.enqueue.mockRejectedValueOnce(new Error("Storage unavailable"));
+
+      await expect(consumer.handle({ id: "evt-2", type: "user.registered", data: welcomeData })).rejects.toThrow("Storage unavailable");
+      await expect(consumer.handle({ id: "evt-2", type: "user.registered", data: welcomeData })).resolves.toMatchObject({ id: "job-welcome" });
+    });
+  });
+
+  describe("configured templates", () => {
+    it("should map other event types and fields from EVENT_TEMPLATES", async () => {
+      eventsConfig = {
+        broker: "memory",
+        templates: JSON.stringify({ "account.invited": { template: "welcome", recipientField: "invitee", userIdField: "inviteeId" } }),
+      };
+      consumer = await createConsumer();
+
+      await consumer.handle({ type: "account.invited", data: { ...welcomeData, invitee: "bob@example.com", inviteeId: "user-2" } });
+
+      expect(mockEmailQueue.enqueue).toHaveBeenCalledWith("welcome", "bob@example.com", expect.any(Object), { userId: "user-2", clientId: EVENT_CLIENT_ID });
+    });
+
+    it("should refuse malformed mappings", async () => {
+      eventsConfig = { broker: "memory", templates: JSON.stringify({ "account.invited": { recipientField: "invitee" } }) };
+
+      await expect(createConsumer()).rejects.toThrow("event account.invited has no template");
+    });
+
+    it("should refuse to start with a mapping to an unknown template", async () => {
+      eventsConfig = { broker: "memory", templates: JSON.stringify({ "account.invited": { template: "invitation" } }) };
+      consumer = await createConsumer();
+
+      await expect(consumer.onModuleInit()).rejects.toThrow("Template \"invitation\" mapped to event account.invited does not exist");
+    });
+  });
+
+  describe("broker", () => {
+    it("should not subscribe when no broker is configured", async () => {
+      eventsConfig = { broker: "" };
+      consumer = await createConsumer();
+
+      await consumer.onModuleInit();
+
+      expect(consumer.broker).toBeUndefined();
+    });
+
+    it("should handle the events published to the broker", async () => {
+      await consumer.onModuleInit();
+      const broker = consumer.broker as MemoryEventBroker;
+
+      await expect(broker.publish({ type: "subscription.created", data: { email: "jane@example.com", firstName: "Jane", lastName: "Doe", plan: "yearly", status: "active" } }))
+        .resolves
+        .toBe(true);
+      await expect(broker.publish({ type: "user.deleted", data: {} })).resolves.toBe(false);
+      expect(mockEmailQueue.enqueue).toHaveBeenCalledWith("subscription", "jane@example.com", expect.any(Object), expect.any(Object));
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+import { createEventBroker } from "../events/create-event-broker";
+import { DomainEvent, EventBroker, InvalidEventError } from "../events/event-broker";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { EmailJob, EmailQueueService } from "./email-queue.service";
+import { IdempotencyService } from "./idempotency.service";
+import { AddressSuppressedError } from "./suppression-list.service";
+
+export type EventTemplate = {
+  template: string;
+  /** Field of the event data holding the recipient, "email" by default */
+  recipientField?: string;
+  /** Field of the event data holding the user id, "userId" by default */
+  userIdField?: string;
+};
+
+export const DEFAULT_EVENT_TEMPLATES: Record<string, EventTemplate> = {
+  "user.registered": { template: "welcome" },
+  "subscription.created": { template: "subscription" },
+};
+
+/** Client recorded in the history of the emails sent for events, and owner of their idempotency keys */
+export const EVENT_CLIENT_ID = "events";
+
+/**
+ * Consumer mode: sends the email mapped to each domain event received from
+ * the broker, through the same queue as the HTTP routes. The event data is
+ * the template data, validated against the template's schema.
+ */
+@Injectable()
+export class EventConsumerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EventConsumerService.name);
+  private readonly eventsConfig: any;
+  private readonly templates: Record<string, EventTemplate>;
+  private eventBroker?: EventBroker;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly emailQueue: EmailQueueService,
+    private readonly templateRegistry: TemplateRegistryService,
+    private readonly idempotencyService: IdempotencyService,
+  ) {
+    this.eventsConfig = this.configService.get("events") ?? {};
+    this.templates = { ...DEFAULT_EVENT_TEMPLATES, ...this.parseTemplates(this.eventsConfig.templates) };
+  }
+
+  /**
+   * Broker the events are consumed from, undefined when the consumer is off.
+   */
+  get broker(): EventBroker | undefined {
+    return this.eventBroker;
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (!this.eventsConfig.broker) {
+      return;
+    }
+
+    for (const [type, { template }] of Object.entries(this.templates)) {
+      if (!(await this.templateRegistry.exists(template))) {
+        throw new Error(`Template "${template}" mapped to event ${type} does not exist`);
+      }
+    }
+
+    this.eventBroker = createEventBroker(this.eventsConfig.broker, this.eventsConfig);
+    await this.eventBroker.subscribe(Object.keys(this.templates), async (event) => {
+      await this.handle(event);
+    });
+    this.logger.log(`Event consumer started (${this.eventBroker.name}): ${Object.keys(this.templates).join(", ")}`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.eventBroker?.close();
+  }
+
+  /**
+   * Queues the email mapped to the event. Returns undefined when the event was
+   * already handled or the recipient is on the suppression list.
+   */
+  async handle(event: DomainEvent): Promise<EmailJob | undefined> {
+    const mapping = this.templates[event.type];
+    if (!mapping) {
+      throw new InvalidEventError(`No template mapped to event ${event.type}`);
+    }
+
+    const recipientField = mapping.recipientField ?? "email";
+    const recipient = event.data[recipientField];
+    if (typeof recipient !== "string" || !recipient) {
+      throw new InvalidEventError(`Event ${event.type} has no recipient in "${recipientField}"`);
+    }
+
+    const validation = await this.templateRegistry.validate(mapping.template, event.data);
+    if (!validation.valid) {
+      throw new InvalidEventError(`Invalid data for template ${mapping.template}: ${validation.errors.join(", ")}`);
+    }
+
+    if (!event.id) {
+      return this.enqueue(event, mapping, recipient);
+    }
+
+    // Brokers may deliver an event twice, possibly at the same time
+    const { result } = await this.idempotencyService.runExclusive(EVENT_CLIENT_ID, event.id, async () => {
+      if (await this.idempotencyService.find(EVENT_CLIENT_ID, event.id!)) {
+        this.logger.log(`Ignoring event ${event.type} ${event.id}: already handled`);
+        return undefined;
+      }
+
+      const job = await this.enqueue(event, mapping, recipient);
+      await this.idempotencyService.remember(EVENT_CLIENT_ID, event.id!, IdempotencyService.hash(event.data), { jobId: job?.id });
+      return job;
+    });
+
+    return result;
+  }
+
+  private async enqueue(event: DomainEvent, mapping: EventTemplate, recipient: string): Promise<EmailJob | undefined> {
+    const userId = event.data[mapping.userIdField ?? "userId"];
+
+    try {
+      const job = await this.emailQueue.enqueue(mapping.template, recipient, event.data, {
+        userId: typeof userId === "string" ? userId : undefined,
+        clientId: EVENT_CLIENT_ID,
+      });
+      this.logger.log(`Queued ${mapping.template} email for event ${event.type}${event.id ? ` ${event.id}` : ""}`);
+      return job;
+    }
+    catch (error) {
+      if (error instanceof AddressSuppressedError) {
+        this.logger.warn(`Not sending ${mapping.template} email for event ${event.type}: ${error.message}`);
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private parseTemplates(source: string | undefined): Record<string, EventTemplate> {
+    if (!source) {
+      return {};
+    }
+
+    let templates: unknown;
+    try {
+      templates = JSON.parse(source);
+    }
+    catch (error) {
+      throw new Error(`Invalid EVENT_TEMPLATES: ${error.message}`);
+    }
+
+    if (typeof templates !== "object" || templates === null || Array.isArray(templates)) {
+      throw new TypeError("Invalid EVENT_TEMPLATES: expected an object keyed by event type");
+    }
+
+    for (const [type, mapping] of Object.entries(templates)) {
+      if (typeof mapping?.template !== "string") {
+        throw new TypeError(`Invalid EVENT_TEMPLATES: event ${type} has no template`);
+      }
+    }
+
+    return templates as Record<string, EventTemplate>;
+  }
+}
@@ -0,0 +1,85 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { StorageService } from "../storage/storage.service";
+import { IdempotencyService } from "./idempotency.service";
+
+describe("idempotencyService", () => {
+  let service: IdempotencyService;
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => (key === "idempotency" ? { ttlSeconds: 60 } : { driver: "memory" })),
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        StorageService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe("remember and find", () => {
+    it("should return the remembered response", async () => {
+      await service.remember("client-a", "key-1", "hash", { success: true, jobId: "job-1" });
+
+      const record = await service.find("client-a", "key-1");
+
+      expect(record?.response).toEqual({ success: true, jobId: "job-1" });
+      expect(record?.requestHash).toBe("hash");
+    });
+
+    it("should scope keys per client", async () => {
+      await service.remember("client-a", "key-1", "hash", { success: true });
+
+      expect(await service.find("client-b", "key-1")).toBeUndefined();
+    });
+
+    it("should forget keys once the window has passed", async () => {
+      jest.useFakeTimers({ now: new Date("2024-01-01T00:00:00.000Z") });
+      await service.remember("client-a", "key-1", "hash", { success: true });
+
+      jest.setSystemTime(new Date("2024-01-01T00:01:01.000Z"));
+
+      expect(await service.find("client-a", "key-1")).toBeUndefined();
+    });
+  });
+
+  describe("runExclusive", () => {
+    it("should share the result of concurrent calls with the same key", async () => {
+      let resolveWork: (value: string) => void = () => undefined;
+      const work = jest.fn(() => new Promise<string>((resolve) => {
+        resolveWork = resolve;
+      }));
+
+      const first = service.runExclusive("client-a", "key-1", work, "hash-1");
+      const second = service.runExclusive("client-a", "key-1", work, "hash-2");
+      resolveWork("job-1");
+
+      expect(await first).toEqual({ result: "job-1", shared: false, requestHash: "hash-1" });
+      // The hash of the request whose result is shared
+      expect(await second).toEqual({ result: "job-1", shared: true, requestHash: "hash-1" });
+      expect(work).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("hash", () => {
+    it("should be stable for equal values", () => {
+      expect(IdempotencyService.hash({ a: 1 })).toBe(IdempotencyService.hash({ a: 1 }));
+      expect(IdempotencyService.hash({ a: 1 })).not.toBe(IdempotencyService.hash({ a: 2 }));
+    });
+  });
+});
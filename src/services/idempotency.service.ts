@@ -0,0 +1,119 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { createHash } from "node:crypto";
+
+import { Collection } from "../storage/collection";
+import { StorageService } from "../storage/storage.service";
+
+export type IdempotencyRecord = {
+  id: string;
+  clientId: string;
+  key: string;
+  requestHash: string;
+  response: unknown;
+  createdAt: string;
+  expiresAt: string;
+};
+
+const PURGE_INTERVAL_MS = 60_000;
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly records: Collection<IdempotencyRecord>;
+  private readonly inFlight = new Map<string, { promise: Promise<unknown>; requestHash?: string }>();
+  private readonly ttlSeconds: number;
+  private lastPurgeAt = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+  ) {
+    this.ttlSeconds = this.configService.get("idempotency")?.ttlSeconds ?? 86400;
+    this.records = this.storageService.collection<IdempotencyRecord>("idempotency-keys");
+  }
+
+  static hash(value: unknown): string {
+    return createHash("sha256").update(JSON.stringify(value ?? null)).digest("hex");
+  }
+
+  /**
+   * Returns the remembered record for a key, or undefined if none is still valid.
+   */
+  async find(clientId: string, key: string): Promise<IdempotencyRecord | undefined> {
+    const id = this.recordId(clientId, key);
+    const record = await this.records.get(id);
+
+    if (record && new Date(record.expiresAt) <= new Date()) {
+      await this.records.delete(id);
+      return undefined;
+    }
+
+    return record;
+  }
+
+  async remember(clientId: string, key: string, requestHash: string, response: unknown): Promise<IdempotencyRecord> {
+    await this.purgeExpired();
+
+    const now = new Date();
+    return this.records.save({
+      id: this.recordId(clientId, key),
+      clientId,
+      key,
+      requestHash,
+      response,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.ttlSeconds * 1000).toISOString(),
+    });
+  }
+
+  /**
+   * Runs `work` once per client/key at a time, so that concurrent retries wait
+   * for the first request instead of sending a second email. Calls that waited
+   * also get the hash of the request that did the work, to tell retries from
+   * conflicting requests.
+   */
+  async runExclusive<T>(
+    clientId: string,
+    key: string,
+    work: () => Promise<T>,
+    requestHash?: string,
+  ): Promise<{ result: T; shared: boolean; requestHash?: string }> {
+    const id = this.recordId(clientId, key);
+    const pending = this.inFlight.get(id);
+
+    if (pending) {
+      return { result: await (pending.promise as Promise<T>), shared: true, requestHash: pending.requestHash };
+    }
+
+    const promise = work();
+    this.inFlight.set(id, { promise, requestHash });
+    try {
+      return { result: await promise, shared: false, requestHash };
+    }
+    finally {
+      this.inFlight.delete(id);
+    }
+  }
+
+  private recordId(clientId: string, key: string): string {
+    return IdempotencyService.hash([clientId, key]);
+  }
+
+  private async purgeExpired(): Promise<void> {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurgeAt = Date.now();
+
+    const now = new Date();
+    const expired = await this.records.find(record => new Date(record.expiresAt) <= now);
+    for (const record of expired) {
+      await this.records.delete(record.id);
+    }
+
+    if (expired.length > 0) {
+      this.logger.log(`Purged ${expired.length} expired idempotency key(s)`);
+    }
+  }
+}
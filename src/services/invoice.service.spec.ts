@@ -0,0 +1,132 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { StorageService } from "../storage/storage.service";
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { TranslationService } from "../utils/translation.service";
+import { InvoiceService } from "./invoice.service";
+
+describe("invoiceService", () => {
+  let service: InvoiceService;
+
+  const invoicesConfig = {
+    enabled: true,
+    vatRate: 20,
+    numberPrefix: "PP",
+    seller: { name: "Penpal AI", address: ["1 rue de la Paix", "75002 Paris"], vatNumber: "FR12345678901" },
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => ({
+      invoices: invoicesConfig,
+      storage: { driver: "memory" },
+      i18n: { defaultLocale: "fr", supportedLocales: ["fr", "en"] },
+    })[key]),
+  };
+
+  const receipt = {
+    email: "jane@example.com",
+    firstName: "Jane",
+    lastName: "Doe",
+    invoiceNumber: "PP-2025-0042",
+    plan: "yearly",
+    amount: 9999,
+    paidAt: "2025-01-15T10:00:00.000Z",
+    periodStart: "2025-01-15T00:00:00.000Z",
+    periodEnd: "2026-01-15T00:00:00.000Z",
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvoiceService,
+        StorageService,
+        TranslationService,
+        TemplateRegistryService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<InvoiceService>(InvoiceService);
+  });
+
+  afterEach(() => {
+    invoicesConfig.enabled = true;
+    jest.restoreAllMocks();
+  });
+
+  it("should issue a PDF invoice for a receipt, with the VAT included in the amount", async () => {
+    const attachment = await service.attachmentFor("receipt", "jane@example.com", receipt, { userId: "user-1", jobId: "job-1" });
+
+    expect(attachment).toMatchObject({ filename: "facture-PP-2025-0042.pdf", contentType: "application/pdf" });
+    expect(attachment!.content.subarray(0, 8).toString()).toBe("%PDF-1.4");
+    expect(attachment!.content.toString("latin1")).toMatch(/%%EOF\n$/);
+
+    const [invoice] = await service.listForUser("user-1");
+    expect(invoice).toMatchObject({
+      invoiceNumber: "PP-2025-0042",
+      template: "receipt",
+      customerName: "Jane Doe",
+      currency: "EUR",
+      lines: [{ description: "Abonnement Penpal AI – Annuel", quantity: 1, unitAmount: 8333, amount: 8333 }],
+      subtotal: 8333,
+      vatRate: 20,
+      vatAmount: 1666,
+      total: 9999,
+      periodEnd: "2026-01-15T00:00:00.000Z",
+    });
+    expect(invoice).not.toHaveProperty("content");
+  });
+
+  it("should attach the same invoice again when the delivery is retried", async () => {
+    const subscription = { email: "jane@example.com", firstName: "Jane", lastName: "Doe", plan: "yearly", status: "active", amount: 9999, locale: "en" };
+
+    const first = await service.attachmentFor("subscription", "jane@example.com", subscription, { userId: "user-1", jobId: "job-1" });
+    const retried = await service.attachmentFor("subscription", "jane@example.com", subscription, { userId: "user-1", jobId: "job-1" });
+
+    expect(first!.filename).toMatch(/^invoice-PP-\d{4}-000001\.pdf$/);
+    expect(retried).toEqual(first);
+    expect(await service.listForUser("user-1")).toHaveLength(1);
+  });
+
+  it("should number the invoices it issues in a continuous sequence, skipping numbers already given", async () => {
+    const year = new Date().getUTCFullYear();
+    const subscription = { email: "jane@example.com", firstName: "Jane", lastName: "Doe", plan: "yearly", status: "active", amount: 9999 };
+    await service.attachmentFor("receipt", "jane@example.com", { ...receipt, invoiceNumber: `PP-${year}-000002` }, { userId: "user-1" });
+
+    await Promise.all(["job-1", "job-2", "job-3"].map(jobId => service.attachmentFor("subscription", "jane@example.com", subscription, { userId: "user-1", jobId })));
+
+    const numbers = (await service.listForUser("user-1")).map(invoice => invoice.invoiceNumber).sort();
+    expect(numbers).toEqual([`PP-${year}-000001`, `PP-${year}-000002`, `PP-${year}-000003`, `PP-${year}-000004`]);
+  });
+
+  it("should keep only safe characters in the file name", async () => {
+    const attachment = await service.attachmentFor("receipt", "jane@example.com", { ...receipt, invoiceNumber: "PP\"; x=\"2025/42" });
+
+    expect(attachment!.filename).toBe("facture-PP___x__2025_42.pdf");
+  });
+
+  it("should not issue invoices for trials, other emails or when disabled", async () => {
+    const trial = { email: "jane@example.com", firstName: "Jane", lastName: "Doe", plan: "monthly", status: "trial" };
+
+    expect(await service.attachmentFor("subscription", "jane@example.com", trial)).toBeUndefined();
+    expect(await service.attachmentFor("welcome", "jane@example.com", {})).toBeUndefined();
+
+    invoicesConfig.enabled = false;
+    expect(await service.attachmentFor("receipt", "jane@example.com", receipt)).toBeUndefined();
+  });
+
+  it("should return the PDF as it was issued", async () => {
+    const attachment = await service.attachmentFor("receipt", "jane@example.com", receipt, { userId: "user-1" });
+    const [invoice] = await service.listForUser("user-1");
+
+    const pdf = await service.getPdf(invoice.id);
+
+    expect(pdf!.content.equals(attachment!.content)).toBe(true);
+    expect(pdf!.invoice.id).toBe(invoice.id);
+    expect(await service.getPdf("unknown")).toBeUndefined();
+  });
+});
@@ -0,0 +1,309 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService, ConfigType } from "@nestjs/config";
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+
+import invoicesConfig from "../config/invoices.config";
+import { Collection } from "../storage/collection";
+import { StorageService } from "../storage/storage.service";
+import { MailAttachment } from "../transports/mail-transport";
+import { PdfDocument } from "../utils/pdf-document";
+import { ReceiptEmailData, SubscriptionConfirmationEmailData, SubscriptionPlan } from "../utils/template.service";
+import { TranslationService } from "../utils/translation.service";
+
+/** Amounts are excluding VAT, in the currency's minor unit */
+export type InvoiceLine = {
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+};
+
+export type Invoice = {
+  id: string;
+  invoiceNumber: string;
+  /** Email the invoice was attached to */
+  template: string;
+  recipient: string;
+  userId?: string;
+  jobId?: string;
+  customerName: string;
+  locale: string;
+  currency: string;
+  lines: InvoiceLine[];
+  /** Total excluding VAT */
+  subtotal: number;
+  /** Percentage */
+  vatRate: number;
+  vatAmount: number;
+  /** Total including VAT, the amount charged */
+  total: number;
+  periodStart?: string;
+  periodEnd?: string;
+  paidAt?: string;
+  issuedAt: string;
+  fileName: string;
+};
+
+/** The PDF is kept as issued, so that it can be downloaded again unchanged */
+type StoredInvoice = Invoice & {
+  content: string;
+};
+
+export type InvoiceReference = {
+  userId?: string;
+  /** Email job the invoice is generated for, so that a retried delivery attaches the same invoice */
+  jobId?: string;
+};
+
+/** Last number given in a year, so that the invoices of the service follow each other */
+type InvoiceSequence = {
+  /** `<prefix>-<year>` */
+  id: string;
+  last: number;
+};
+
+/** What an email's data says about the payment it is the invoice of */
+type InvoiceSource = {
+  invoiceNumber?: string;
+  plan: SubscriptionPlan;
+  amount: number;
+  currency?: string;
+  periodStart?: Date | string;
+  periodEnd?: Date | string;
+  paidAt?: Date | string;
+};
+
+/**
+ * Issues the PDF invoices attached to billing emails and keeps them, so that
+ * they can be downloaded later. Amounts sent by the payment service include
+ * VAT, which is worked out from the configured rate.
+ */
+@Injectable()
+export class InvoiceService {
+  private readonly logger = new Logger(InvoiceService.name);
+  private readonly invoices: Collection<StoredInvoice>;
+  private readonly sequences: Collection<InvoiceSequence>;
+  private pendingIssue: Promise<unknown> = Promise.resolve();
+  private readonly invoicesConfig: ConfigType<typeof invoicesConfig>;
+
+  /**
+   * Emails that carry an invoice. A source returns undefined when the data
+   * does not describe a payment, such as a trial confirmation.
+   */
+  private readonly sources: Record<string, (data: any) => InvoiceSource | undefined> = {
+    subscription: (data: SubscriptionConfirmationEmailData) => data.status === "active" && data.amount
+      ? { plan: data.plan, amount: data.amount, currency: data.currency, periodEnd: data.nextBillingDate }
+      : undefined,
+    receipt: (data: ReceiptEmailData) => ({
+      invoiceNumber: data.invoiceNumber,
+      plan: data.plan,
+      amount: data.amount,
+      currency: data.currency,
+      periodStart: data.periodStart,
+      periodEnd: data.periodEnd,
+      paidAt: data.paidAt,
+    }),
+  };
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly translationService: TranslationService,
+  ) {
+    this.invoicesConfig = this.configService.get("invoices")!;
+    this.invoices = this.storageService.collection<StoredInvoice>("invoices");
+    this.sequences = this.storageService.collection<InvoiceSequence>("invoice-sequences");
+  }
+
+  /**
+   * Returns the invoice to attach to the email, issuing it the first time, or
+   * undefined when the email carries none. An invoice already issued for the
+   * same job or invoice number is attached again as it was.
+   */
+  async attachmentFor(template: string, recipient: string, data: Record<string, any>, reference: InvoiceReference = {}): Promise<MailAttachment | undefined> {
+    const source = this.invoicesConfig.enabled ? this.sources[template]?.(data) : undefined;
+    if (!source) {
+      return undefined;
+    }
+
+    const stored = await this.runExclusive(async () => {
+      const [existing] = await this.invoices.find(invoice =>
+        (reference.jobId !== undefined && invoice.jobId === reference.jobId)
+        || (source.invoiceNumber !== undefined && invoice.invoiceNumber === source.invoiceNumber));
+      return existing ?? this.issue(template, recipient, data, source, reference);
+    });
+
+    return {
+      filename: stored.fileName,
+      content: Buffer.from(stored.content, "base64"),
+      contentType: "application/pdf",
+    };
+  }
+
+  /**
+   * Invoices of the user, most recent first, without their PDF.
+   */
+  async listForUser(userId: string): Promise<Invoice[]> {
+    return (await this.invoices.find(invoice => invoice.userId === userId))
+      .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt))
+      .map(({ content: _content, ...invoice }) => invoice);
+  }
+
+  async getPdf(id: string): Promise<{ invoice: Invoice; content: Buffer } | undefined> {
+    const stored = await this.invoices.get(id);
+    if (!stored) {
+      return undefined;
+    }
+
+    const { content, ...invoice } = stored;
+    return { invoice, content: Buffer.from(content, "base64") };
+  }
+
+  private async issue(
+    template: string,
+    recipient: string,
+    data: Record<string, any>,
+    source: InvoiceSource,
+    reference: InvoiceReference,
+  ): Promise<StoredInvoice> {
+    const issuedAt = new Date();
+    const locale = this.translationService.resolveLocale(data.locale);
+    const messages = await this.translationService.getMessages(locale);
+    const vatRate: number = this.invoicesConfig.vatRate;
+    const subtotal = Math.round((source.amount * 100) / (100 + vatRate));
+    const invoiceNumber = source.invoiceNumber ?? await this.nextInvoiceNumber(issuedAt);
+    const plan = messages[`plans.${source.plan}`] ?? source.plan;
+
+    const invoice: Invoice = {
+      id: randomUUID(),
+      invoiceNumber,
+      template,
+      recipient,
+      userId: reference.userId,
+      jobId: reference.jobId,
+      customerName: `${data.firstName ?? ""} ${data.lastName ?? ""}`.trim(),
+      locale,
+      currency: source.currency?.toUpperCase() || "EUR",
+      lines: [{
+        description: this.translationService.formatMessage(messages["invoice.subscription"] ?? "{plan}", { plan }),
+        quantity: 1,
+        unitAmount: subtotal,
+        amount: subtotal,
+      }],
+      subtotal,
+      vatRate,
+      vatAmount: source.amount - subtotal,
+      total: source.amount,
+      // Without a start, the period billed starts with the invoice
+      periodStart: toIsoString(source.periodStart ?? (source.periodEnd ? issuedAt : undefined)),
+      periodEnd: toIsoString(source.periodEnd),
+      paidAt: toIsoString(source.paidAt),
+      issuedAt: issuedAt.toISOString(),
+      // Invoice numbers come from the payment service, and the name ends up in a header
+      fileName: `${messages["invoice.fileName"] ?? "invoice"}-${invoiceNumber}.pdf`.replace(/[^\w.-]/g, "_"),
+    };
+
+    const content = this.render(invoice, messages).toString("base64");
+    const stored = await this.invoices.save({ ...invoice, content });
+    this.logger.log(`Issued invoice ${invoiceNumber} (${invoice.id}) for ${recipient}`);
+
+    return stored;
+  }
+
+  /**
+   * Numbers follow each other within a year, as invoices must, skipping those
+   * the payment service already gave.
+   */
+  private async nextInvoiceNumber(issuedAt: Date): Promise<string> {
+    const id = `${this.invoicesConfig.numberPrefix}-${issuedAt.getUTCFullYear()}`;
+    const sequence = await this.sequences.get(id) ?? { id, last: 0 };
+
+    let invoiceNumber: string;
+    do {
+      sequence.last += 1;
+      invoiceNumber = `${id}-${String(sequence.last).padStart(6, "0")}`;
+    } while ((await this.invoices.find(invoice => invoice.invoiceNumber === invoiceNumber)).length > 0);
+
+    await this.sequences.save(sequence);
+    return invoiceNumber;
+  }
+
+  /**
+   * Issues one invoice at a time, so that two emails never get the same number
+   * nor the same job two invoices.
+   */
+  private async runExclusive<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.pendingIssue.then(work);
+    this.pendingIssue = result.catch(() => undefined);
+    return result;
+  }
+
+  private render(invoice: Invoice, messages: Record<string, string>): Buffer {
+    const t = (key: string, values: Record<string, string> = {}) => this.translationService.formatMessage(messages[`invoice.${key}`] ?? key, values);
+    const money = (amount: number) => this.translationService.formatCurrency(amount, invoice.currency, invoice.locale);
+    const date = (value: string) => this.translationService.formatDate(value, invoice.locale);
+    const { seller } = this.invoicesConfig;
+    const left = 50;
+    const right = 545;
+    const pdf = new PdfDocument();
+
+    pdf.text(left, 70, seller.name, { size: 16, bold: true });
+    pdf.text(right, 70, t("title"), { size: 20, bold: true, align: "right" });
+    let y = 88;
+    for (const line of seller.address) {
+      pdf.text(left, y, line, { size: 9 });
+      y += 12;
+    }
+    if (seller.vatNumber) {
+      pdf.text(left, y, t("sellerVatNumber", { vatNumber: seller.vatNumber }), { size: 9 });
+    }
+    pdf.text(right, 92, t("number", { number: invoice.invoiceNumber }), { align: "right" });
+    pdf.text(right, 106, `${t("issuedAt")} ${date(invoice.issuedAt)}`, { align: "right" });
+
+    pdf.text(left, 170, t("billedTo"), { bold: true });
+    pdf.text(left, 184, invoice.customerName);
+    pdf.text(left, 198, invoice.recipient);
+
+    y = 250;
+    pdf.text(left, y, t("description"), { bold: true });
+    pdf.text(345, y, t("quantity"), { bold: true, align: "right" });
+    pdf.text(450, y, t("unitPrice"), { bold: true, align: "right" });
+    pdf.text(right, y, t("lineTotal"), { bold: true, align: "right" });
+    pdf.line(left, y + 6, right, y + 6);
+
+    for (const line of invoice.lines) {
+      y += 22;
+      pdf.text(left, y, line.description);
+      pdf.text(345, y, String(line.quantity), { align: "right" });
+      pdf.text(450, y, money(line.unitAmount), { align: "right" });
+      pdf.text(right, y, money(line.amount), { align: "right" });
+      if (invoice.periodStart && invoice.periodEnd) {
+        y += 13;
+        pdf.text(left, y, t("period", { start: date(invoice.periodStart), end: date(invoice.periodEnd) }), { size: 9 });
+      }
+    }
+    pdf.line(left, y + 10, right, y + 10);
+
+    y += 32;
+    for (const [label, amount, bold] of [
+      [t("subtotal"), invoice.subtotal, false],
+      [t("vat", { rate: String(invoice.vatRate) }), invoice.vatAmount, false],
+      [t("total"), invoice.total, true],
+    ] as const) {
+      pdf.text(450, y, label, { bold, align: "right" });
+      pdf.text(right, y, money(amount), { bold, align: "right" });
+      y += 16;
+    }
+
+    if (invoice.paidAt) {
+      pdf.text(left, y + 20, t("paid", { date: date(invoice.paidAt) }));
+    }
+
+    return pdf.toBuffer({ title: `${t("title")} ${invoice.invoiceNumber}`, creationDate: new Date(invoice.issuedAt) });
+  }
+}
+
+function toIsoString(value: Date | string | undefined): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
@@ -0,0 +1,107 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { StorageService } from "../storage/storage.service";
+import { NotificationHistoryService } from "./notification-history.service";
+
+describe("notificationHistoryService", () => {
+  let service: NotificationHistoryService;
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue({ driver: "memory" }),
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationHistoryService,
+        StorageService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<NotificationHistoryService>(NotificationHistoryService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("create", () => {
+    it("should store a queued notification with a normalized recipient", async () => {
+      const record = await service.create({ id: "n-1", userId: "user123", recipient: "John@Example.com", template: "welcome" });
+
+      expect(record).toEqual(expect.objectContaining({
+        id: "n-1",
+        userId: "user123",
+        recipient: "john@example.com",
+        status: "queued",
+        attempts: 0,
+        history: [],
+      }));
+    });
+  });
+
+  describe("recordAttempt", () => {
+    it("should append attempts and update the status", async () => {
+      await service.create({ id: "n-1", recipient: "test@example.com", template: "welcome" });
+
+      await service.recordAttempt("n-1", "retrying", { attempt: 1, status: "failed", error: "ETIMEDOUT" });
+      const record = await service.recordAttempt("n-1", "sent", { attempt: 2, status: "sent", messageId: "<msg-1@penpal.ai>" });
+
+      expect(record?.status).toBe("sent");
+      expect(record?.attempts).toBe(2);
+      expect(record?.error).toBeUndefined();
+      expect(record?.messageId).toBe("<msg-1@penpal.ai>");
+      expect(record?.history).toHaveLength(2);
+    });
+
+    it("should ignore unknown notifications", async () => {
+      expect(await service.recordAttempt("missing", "sent", { attempt: 1, status: "sent" })).toBeUndefined();
+    });
+  });
+
+  describe("findById", () => {
+    it("should find a notification by its transport message id", async () => {
+      await service.create({ id: "n-1", recipient: "test@example.com", template: "welcome" });
+      await service.recordAttempt("n-1", "sent", { attempt: 1, status: "sent", messageId: "<msg-1@penpal.ai>" });
+
+      expect((await service.findById("<msg-1@penpal.ai>"))?.id).toBe("n-1");
+      expect(await service.findById("missing")).toBeUndefined();
+    });
+  });
+
+  describe("list", () => {
+    beforeEach(async () => {
+      await service.create({ id: "n-1", userId: "user1", recipient: "one@example.com", template: "welcome" });
+      await service.create({ id: "n-2", userId: "user1", recipient: "one@example.com", template: "subscription" });
+      await service.create({ id: "n-3", userId: "user2", recipient: "two@example.com", template: "welcome" });
+    });
+
+    it("should filter by user id, email and template", async () => {
+      expect((await service.list({ userId: "user1" })).total).toBe(2);
+      expect((await service.list({ email: "TWO@example.com" })).items.map(item => item.id)).toEqual(["n-3"]);
+      expect((await service.list({ userId: "user1", template: "welcome" })).items.map(item => item.id)).toEqual(["n-1"]);
+    });
+
+    it("should filter by date range", async () => {
+      const future = new Date(Date.now() + 60000);
+
+      expect((await service.list({ from: future })).total).toBe(0);
+      expect((await service.list({ to: future })).total).toBe(3);
+    });
+
+    it("should paginate results", async () => {
+      const page = await service.list({ limit: 2, offset: 1 });
+
+      expect(page.total).toBe(3);
+      expect(page.items).toHaveLength(2);
+      expect(page.limit).toBe(2);
+      expect(page.offset).toBe(1);
+    });
+  });
+});
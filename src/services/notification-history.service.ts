@@ -0,0 +1,174 @@
+import { Injectable, Logger } from "@nestjs/common";
+
+import { Collection } from "../storage/collection";
+import { StorageService } from "../storage/storage.service";
+import { NotificationCategory } from "./notification-preferences.service";
+import { SuppressionReason } from "./suppression-list.service";
+
+export type NotificationStatus = "queued" | "retrying" | "sent" | "failed" | "suppressed";
+
+/**
+ * Why a notification was not sent: the user opted out of its category, or
+ * the address is on the suppression list.
+ */
+export type Suppression = {
+  reason: "opted-out" | SuppressionReason;
+  category?: NotificationCategory;
+};
+
+export type DeliveryAttempt = {
+  attempt: number;
+  status: "sent" | "failed";
+  messageId?: string;
+  error?: string;
+  at: string;
+};
+
+export type NotificationRecord = {
+  id: string;
+  userId?: string;
+  /** API client that requested the notification */
+  clientId?: string;
+  recipient: string;
+  template: string;
+  status: NotificationStatus;
+  suppression?: Suppression;
+  messageId?: string;
+  error?: string;
+  attempts: number;
+  history: DeliveryAttempt[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type NotificationFilter = {
+  userId?: string;
+  email?: string;
+  template?: string;
+  status?: NotificationStatus;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+};
+
+export type NotificationPage = {
+  items: NotificationRecord[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+
+@Injectable()
+export class NotificationHistoryService {
+  private readonly logger = new Logger(NotificationHistoryService.name);
+  private readonly notifications: Collection<NotificationRecord>;
+
+  constructor(private readonly storageService: StorageService) {
+    this.notifications = this.storageService.collection<NotificationRecord>("notifications");
+  }
+
+  /**
+   * Records a queued notification, or a suppressed one when `suppression` is given.
+   */
+  async create(record: Pick<NotificationRecord, "id" | "userId" | "clientId" | "recipient" | "template" | "suppression">): Promise<NotificationRecord> {
+    const now = new Date().toISOString();
+
+    return this.notifications.save({
+      ...record,
+      recipient: record.recipient.toLowerCase(),
+      status: record.suppression ? "suppressed" : "queued",
+      attempts: 0,
+      history: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Appends a delivery attempt and moves the notification to its resulting status.
+   */
+  async recordAttempt(id: string, status: NotificationStatus, attempt: Omit<DeliveryAttempt, "at">): Promise<NotificationRecord | undefined> {
+    const record = await this.notifications.get(id);
+    if (!record) {
+      this.logger.warn(`Cannot record attempt for unknown notification: ${id}`);
+      return undefined;
+    }
+
+    const now = new Date().toISOString();
+    record.history.push({ ...attempt, at: now });
+    record.attempts = record.history.length;
+    record.status = status;
+    record.messageId = attempt.messageId ?? record.messageId;
+    record.error = attempt.error;
+    record.updatedAt = now;
+
+    return this.notifications.save(record);
+  }
+
+  /**
+   * Marks a queued notification as suppressed, when the address was added to
+   * the suppression list before it could be delivered.
+   */
+  async markSuppressed(id: string, suppression: Suppression): Promise<NotificationRecord | undefined> {
+    const record = await this.notifications.get(id);
+    if (!record) {
+      return undefined;
+    }
+
+    record.status = "suppressed";
+    record.suppression = suppression;
+    record.updatedAt = new Date().toISOString();
+    return this.notifications.save(record);
+  }
+
+  async markRequeued(id: string): Promise<NotificationRecord | undefined> {
+    const record = await this.notifications.get(id);
+    if (!record) {
+      return undefined;
+    }
+
+    record.status = "queued";
+    record.error = undefined;
+    record.updatedAt = new Date().toISOString();
+    return this.notifications.save(record);
+  }
+
+  /**
+   * Looks a notification up by its id, falling back to the transport message id.
+   */
+  async findById(id: string): Promise<NotificationRecord | undefined> {
+    const record = await this.notifications.get(id);
+    if (record) {
+      return record;
+    }
+
+    const [byMessageId] = await this.notifications.find(notification => notification.messageId === id);
+    return byMessageId;
+  }
+
+  async list(filter: NotificationFilter = {}): Promise<NotificationPage> {
+    const email = filter.email?.toLowerCase();
+    const limit = filter.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = filter.offset ?? 0;
+
+    const matches = (await this.notifications.find((record) => {
+      const createdAt = new Date(record.createdAt);
+      return (!filter.userId || record.userId === filter.userId)
+        && (!email || record.recipient === email)
+        && (!filter.template || record.template === filter.template)
+        && (!filter.status || record.status === filter.status)
+        && (!filter.from || createdAt >= filter.from)
+        && (!filter.to || createdAt <= filter.to);
+    })).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      items: matches.slice(offset, offset + limit),
+      total: matches.length,
+      limit,
+      offset,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { StorageService } from "../storage/storage.service";
+import { NotificationPreferencesService } from "./notification-preferences.service";
+
+describe("notificationPreferencesService", () => {
+  let service: NotificationPreferencesService;
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationPreferencesService,
+        StorageService,
+        { provide: ConfigService, useValue: { get: () => ({ driver: "memory" }) } },
+      ],
+    }).compile();
+
+    service = module.get<NotificationPreferencesService>(NotificationPreferencesService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return the defaults for a user without preferences", async () => {
+    expect(await service.get("user123")).toEqual({
+      id: "user123",
+      categories: { "transactional": true, "billing": true, "learning-reminders": true, "product-news": false },
+      updatedAt: undefined,
+    });
+  });
+
+  it("should only change the given categories", async () => {
+    await service.update("user123", { "product-news": true });
+    const preferences = await service.update("user123", { "learning-reminders": false });
+
+    expect(preferences.categories).toEqual({ "transactional": true, "billing": true, "learning-reminders": false, "product-news": true });
+    expect(await service.get("user123")).toEqual(preferences);
+  });
+
+  it("should keep transactional emails on", async () => {
+    const preferences = await service.update("user123", { transactional: false });
+
+    expect(preferences.categories.transactional).toBe(true);
+    expect(await service.allows("user123", "transactional")).toBe(true);
+  });
+
+  it("should tell whether a user accepts a category", async () => {
+    await service.update("user123", { billing: false });
+
+    expect(await service.allows("user123", "billing")).toBe(false);
+    expect(await service.allows("user123", "learning-reminders")).toBe(true);
+    expect(await service.allows("user123", "product-news")).toBe(false);
+    expect(await service.allows("other-user", "billing")).toBe(true);
+  });
+});
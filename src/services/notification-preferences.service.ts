@@ -0,0 +1,74 @@
+import { Injectable, Logger } from "@nestjs/common";
+
+import { Collection } from "../storage/collection";
+import { StorageService } from "../storage/storage.service";
+
+export const NOTIFICATION_CATEGORIES = ["transactional", "billing", "learning-reminders", "product-news"] as const;
+
+/**
+ * Kind of email a template sends, declared by `category` in its manifest.
+ * Transactional emails are always sent; users opt in or out of the others.
+ */
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+export type CategoryPreferences = Record<NotificationCategory, boolean>;
+
+export type NotificationPreferences = {
+  /** User id */
+  id: string;
+  categories: CategoryPreferences;
+  updatedAt?: string;
+};
+
+// Product news is marketing, which users have to opt in to
+const DEFAULT_CATEGORIES: CategoryPreferences = {
+  "transactional": true,
+  "billing": true,
+  "learning-reminders": true,
+  "product-news": false,
+};
+
+@Injectable()
+export class NotificationPreferencesService {
+  private readonly logger = new Logger(NotificationPreferencesService.name);
+  private readonly preferences: Collection<NotificationPreferences>;
+
+  constructor(private readonly storageService: StorageService) {
+    this.preferences = this.storageService.collection<NotificationPreferences>("notification-preferences");
+  }
+
+  /**
+   * Returns the user's preferences, with the defaults for the categories they never set.
+   */
+  async get(userId: string): Promise<NotificationPreferences> {
+    const stored = await this.preferences.get(userId);
+
+    return {
+      id: userId,
+      categories: { ...DEFAULT_CATEGORIES, ...stored?.categories, transactional: true },
+      updatedAt: stored?.updatedAt,
+    };
+  }
+
+  /**
+   * Opts the user in or out of the given categories, leaving the others as
+   * they are. Transactional emails stay on whatever is asked.
+   */
+  async update(userId: string, changes: Partial<CategoryPreferences>): Promise<NotificationPreferences> {
+    const current = await this.get(userId);
+    const updated: NotificationPreferences = {
+      id: userId,
+      categories: { ...current.categories, ...changes, transactional: true },
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.preferences.save(updated);
+    this.logger.log(`Preferences of user ${userId} updated: ${Object.entries(changes).map(([category, enabled]) => `${category}=${enabled}`).join(", ")}`);
+
+    return updated;
+  }
+
+  async allows(userId: string, category: NotificationCategory): Promise<boolean> {
+    return category === "transactional" || (await this.get(userId)).categories[category];
+  }
+}
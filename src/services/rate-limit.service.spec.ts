@@ -0,0 +1,119 @@
+import { Logger } from "@nestjs/common";
+
+import { parseRateLimit, RateLimitService } from "./rate-limit.service";
+
+describe("rateLimitService", () => {
+  const createService = (rateLimitConfig: Record<string, any> = {}) =>
+    new RateLimitService({ get: () => ({ perClient: "3/1m", perRecipient: "2/1h", perTemplate: "5/1m", ...rateLimitConfig }) } as any);
+
+  const now = Date.parse("2024-01-01T00:00:00.000Z");
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  describe("parseRateLimit", () => {
+    it("should parse requests per interval", () => {
+      expect(parseRateLimit("10/1h")).toEqual({ capacity: 10, intervalMs: 3_600_000 });
+      expect(parseRateLimit("5/d")).toEqual({ capacity: 5, intervalMs: 86_400_000 });
+      expect(parseRateLimit("100/30s")).toEqual({ capacity: 100, intervalMs: 30_000 });
+    });
+
+    it("should reject malformed limits", () => {
+      expect(() => parseRateLimit("10 per hour")).toThrow("Invalid rate limit \"10 per hour\"");
+      expect(() => parseRateLimit("0/1m")).toThrow("Invalid rate limit");
+    });
+  });
+
+  describe("take", () => {
+    it("should refuse a recipient over its limit until its bucket refills", async () => {
+      const service = createService();
+      const request = { clientId: "auth-service", recipient: "jane@example.com", template: "welcome" };
+
+      await service.take(request, now);
+      await service.take(request, now);
+
+      expect(await service.take(request, now)).toEqual({ allowed: false, retryAfterMs: 1_800_000, exceeded: "recipient" });
+      expect((await service.take(request, now + 1_800_000)).allowed).toBe(true);
+    });
+
+    it("should limit each client on its own", async () => {
+      const service = createService();
+
+      for (let i = 0; i < 3; i++) {
+        await service.take({ clientId: "auth-service" }, now);
+      }
+
+      expect(await service.take({ clientId: "auth-service" }, now)).toEqual({ allowed: false, retryAfterMs: 20_000, exceeded: "client" });
+      expect((await service.take({ clientId: "payment-service" }, now)).allowed).toBe(true);
+    });
+
+    it("should not use up other limits when one is exceeded", async () => {
+      const service = createService({ perClient: "1/1m" });
+
+      await service.take({ clientId: "auth-service", recipient: "jane@example.com" }, now);
+      await service.take({ clientId: "auth-service", recipient: "jane@example.com" }, now);
+
+      expect((await service.take({ clientId: "payment-service", recipient: "jane@example.com" }, now)).allowed).toBe(true);
+    });
+
+    it("should apply template overrides", async () => {
+      const service = createService({ perClient: "100/1m", perRecipient: "100/1m", templates: JSON.stringify({ welcome: "1/1d" }) });
+
+      await service.take({ clientId: "auth-service", template: "welcome" }, now);
+
+      expect(await service.take({ clientId: "auth-service", template: "welcome" }, now)).toMatchObject({ allowed: false, exceeded: "template" });
+      expect((await service.take({ clientId: "auth-service", template: "subscription" }, now)).allowed).toBe(true);
+    });
+
+    it("should allow everything when disabled", async () => {
+      const service = createService({ enabled: false, perClient: "1/1h" });
+
+      await service.take({ clientId: "auth-service" }, now);
+
+      expect((await service.take({ clientId: "auth-service" }, now)).allowed).toBe(true);
+    });
+  });
+
+  describe("refund", () => {
+    it("should give back the tokens taken, without going over the capacity", async () => {
+      const service = createService();
+      const request = { clientId: "auth-service", recipient: "jane@example.com", template: "welcome" };
+
+      await service.take(request, now);
+      await service.take(request, now);
+      await service.refund(request, now);
+      await service.refund(request, now);
+      await service.refund(request, now);
+
+      await service.take(request, now);
+      await service.take(request, now);
+      expect((await service.take(request, now)).allowed).toBe(false);
+    });
+  });
+
+  describe("waitForSendSlot", () => {
+    it("should return at once without a send rate", async () => {
+      await expect(createService().waitForSendSlot()).resolves.toBeUndefined();
+    });
+
+    it("should pace sends to the configured rate", async () => {
+      jest.useFakeTimers({ now });
+      const service = createService({ maxSendsPerSecond: 2 });
+      const sent: number[] = [];
+
+      const sends = Array.from({ length: 3 }, () => service.waitForSendSlot().then(() => sent.push(Date.now())));
+      await jest.advanceTimersByTimeAsync(1000);
+      await Promise.all(sends);
+
+      expect(sent.slice(0, 2)).toEqual([now, now]);
+      expect(sent[2]).toBe(now + 500);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+
+import { createRateLimitStore } from "../rate-limit/create-rate-limit-store";
+import { BucketRequest, RateLimit, RateLimitStore } from "../rate-limit/rate-limit.store";
+
+export type RateLimitDimension = "client" | "recipient" | "template";
+
+export type RateLimitedRequest = {
+  clientId: string;
+  recipient?: string;
+  template?: string;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  retryAfterMs: number;
+  exceeded?: RateLimitDimension;
+};
+
+const INTERVAL_UNITS_MS = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+const OUTBOUND_BUCKET = "outbound";
+
+/**
+ * Parses a limit written as "<requests>/<interval>", e.g. "10/1h" or "5/d".
+ */
+export function parseRateLimit(value: string): RateLimit {
+  const match = /^(\d+)\/(\d*)([smhd])$/.exec(value.trim());
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(`Invalid rate limit "${value}", expected e.g. "10/1h"`);
+  }
+
+  return { capacity: Number(match[1]), intervalMs: Number(match[2] || 1) * INTERVAL_UNITS_MS[match[3]] };
+}
+
+/**
+ * Applies token bucket limits to send requests, per API client, recipient and
+ * template, and paces outgoing emails to the provider's send rate.
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+  private readonly rateLimitConfig: any;
+  private readonly store: RateLimitStore;
+  private readonly limits: Record<RateLimitDimension, RateLimit>;
+  private readonly templateLimits: Record<string, RateLimit>;
+  private readonly outboundLimit?: RateLimit;
+
+  constructor(private readonly configService: ConfigService) {
+    this.rateLimitConfig = this.configService.get("rateLimit") ?? {};
+    this.store = createRateLimitStore(this.rateLimitConfig.store ?? "memory");
+
+    this.limits = {
+      client: parseRateLimit(this.rateLimitConfig.perClient ?? "300/1m"),
+      recipient: parseRateLimit(this.rateLimitConfig.perRecipient ?? "10/1h"),
+      template: parseRateLimit(this.rateLimitConfig.perTemplate ?? "600/1m"),
+    };
+    this.templateLimits = Object.fromEntries(
+      Object.entries(this.parseTemplateLimits(this.rateLimitConfig.templates)).map(([template, limit]) => [template, parseRateLimit(limit)]),
+    );
+
+    const maxSendsPerSecond = this.rateLimitConfig.maxSendsPerSecond ?? 0;
+    if (maxSendsPerSecond > 0) {
+      // Fractional rates, e.g. 0.5/s, become one send every 2 seconds
+      const capacity = Math.max(1, Math.floor(maxSendsPerSecond));
+      this.outboundLimit = { capacity, intervalMs: capacity * 1000 / maxSendsPerSecond };
+      this.logger.log(`Outgoing emails limited to ${maxSendsPerSecond} per second`);
+    }
+
+    if (this.rateLimitConfig.enabled === false) {
+      this.logger.warn("Rate limiting disabled");
+    }
+  }
+
+  /**
+   * Takes a token for the client, the recipient and the template. When one of
+   * them is exhausted, nothing is taken and the request should be refused.
+   */
+  async take(request: RateLimitedRequest, now = Date.now()): Promise<RateLimitResult> {
+    if (this.rateLimitConfig.enabled === false) {
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    const result = await this.store.take(this.bucketsFor(request), now);
+    if (result.allowed) {
+      return { allowed: true, retryAfterMs: 0 };
+    }
+
+    const exceeded = result.exceeded?.split(":")[0] as RateLimitDimension;
+    this.logger.warn(`Rate limit per ${exceeded} reached for ${result.exceeded} (client ${request.clientId})`);
+    return { allowed: false, retryAfterMs: result.retryAfterMs, exceeded };
+  }
+
+  /**
+   * Gives back the tokens taken for a request that was refused afterwards,
+   * e.g. because it failed validation, so that it does not count.
+   */
+  async refund(request: RateLimitedRequest, now = Date.now()): Promise<void> {
+    if (this.rateLimitConfig.enabled === false) {
+      return;
+    }
+
+    await this.store.refund(this.bucketsFor(request), now);
+  }
+
+  /**
+   * Resolves once an email may be handed to the transport without exceeding
+   * the configured send rate.
+   */
+  async waitForSendSlot(): Promise<void> {
+    if (!this.outboundLimit) {
+      return;
+    }
+
+    for (;;) {
+      const result = await this.store.take([{ key: OUTBOUND_BUCKET, limit: this.outboundLimit }], Date.now());
+      if (result.allowed) {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, result.retryAfterMs));
+    }
+  }
+
+  private bucketsFor(request: RateLimitedRequest): BucketRequest[] {
+    const buckets: BucketRequest[] = [{ key: `client:${request.clientId}`, limit: this.limits.client }];
+    if (request.recipient) {
+      buckets.push({ key: `recipient:${request.recipient.trim().toLowerCase()}`, limit: this.limits.recipient });
+    }
+    if (request.template) {
+      buckets.push({ key: `template:${request.template}`, limit: this.templateLimits[request.template] ?? this.limits.template });
+    }
+
+    return buckets;
+  }
+
+  private parseTemplateLimits(source: string | undefined): Record<string, string> {
+    if (!source?.trim()) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(source);
+    }
+    catch (error) {
+      throw new Error(`Invalid RATE_LIMIT_TEMPLATES: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { StorageService } from "../storage/storage.service";
+import { EmailJob, EmailQueueService } from "./email-queue.service";
+import { ReminderSchedulerService, SCHEDULER_CLIENT_ID } from "./reminder-scheduler.service";
+import { AddressSuppressedError, SuppressedAddress } from "./suppression-list.service";
+
+describe("reminderSchedulerService", () => {
+  let scheduler: ReminderSchedulerService;
+
+  const now = new Date("2026-01-01T00:00:00.000Z");
+
+  const remindersConfig = {
+    schedulerEnabled: true,
+    pollIntervalMs: 60000,
+    trialEndingDaysBefore: 3,
+    renewalDaysBefore: 7,
+    renewalPlans: ["yearly"],
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => (key === "reminders" ? remindersConfig : key === "storage" ? { driver: "memory" } : undefined)),
+  };
+
+  const mockEmailQueue = {
+    enqueue: jest.fn(),
+  };
+
+  const trial = {
+    email: "jane@example.com",
+    firstName: "Jane",
+    lastName: "Doe",
+    plan: "monthly",
+    status: "trial",
+    trialEnd: "2026-01-15T00:00:00.000Z",
+    nextBillingDate: "2026-01-15T00:00:00.000Z",
+  } as const;
+
+  const yearly = {
+    email: "jane@example.com",
+    firstName: "Jane",
+    lastName: "Doe",
+    plan: "yearly",
+    status: "active",
+    nextBillingDate: "2027-01-01T00:00:00.000Z",
+  } as const;
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "error").mockImplementation();
+    mockEmailQueue.enqueue.mockImplementation(async (template: string) => ({ id: `job-${template}` }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReminderSchedulerService,
+        StorageService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: EmailQueueService, useValue: mockEmailQueue },
+      ],
+    }).compile();
+
+    scheduler = module.get<ReminderSchedulerService>(ReminderSchedulerService);
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.clearAllMocks();
+  });
+
+  describe("planSubscriptionReminders", () => {
+    it("should plan a reminder 3 days before the end of a trial", async () => {
+      const [reminder, ...others] = await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+
+      expect(others).toEqual([]);
+      expect(reminder).toMatchObject({
+        template: "trial-ending",
+        recipient: "jane@example.com",
+        userId: "user-1",
+        status: "scheduled",
+        sendAt: "2026-01-12T00:00:00.000Z",
+        eventAt: "2026-01-15T00:00:00.000Z",
+        payload: trial,
+      });
+    });
+
+    it("should plan a reminder 7 days before a yearly renewal only", async () => {
+      const [reminder] = await scheduler.planSubscriptionReminders("jane@example.com", yearly, "user-1", now);
+
+      expect(reminder).toMatchObject({ template: "renewal-reminder", sendAt: "2026-12-25T00:00:00.000Z" });
+      await expect(scheduler.planSubscriptionReminders("jane@example.com", { ...yearly, plan: "monthly" }, "user-2", now)).resolves.toEqual([]);
+    });
+
+    it("should send right away when the reminder date already passed, but not after the event", async () => {
+      const [soon] = await scheduler.planSubscriptionReminders("jane@example.com", { ...trial, trialEnd: "2026-01-02T00:00:00.000Z" }, "user-1", now);
+
+      expect(soon.sendAt).toBe(now.toISOString());
+      await expect(scheduler.planSubscriptionReminders("jane@example.com", { ...trial, trialEnd: "2025-12-31T00:00:00.000Z" }, "user-1", now)).resolves.toEqual([]);
+    });
+
+    it("should replace the pending reminders of the subscription", async () => {
+      await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+      await scheduler.planSubscriptionReminders("jane@example.com", yearly, "user-1", now);
+
+      const upcoming = await scheduler.listUpcoming("user-1");
+      expect(upcoming.map(reminder => reminder.template)).toEqual(["renewal-reminder"]);
+    });
+  });
+
+  describe("handleSentEmail", () => {
+    // Planned against the current date
+    const trialEnd = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString();
+    const job = { id: "job-1", template: "subscription", recipient: "jane@example.com", payload: { ...trial, trialEnd }, userId: "user-1" } as unknown as EmailJob;
+
+    it("should plan the reminders once a subscription confirmation was sent", async () => {
+      await scheduler.handleSentEmail(job);
+      await scheduler.handleSentEmail({ ...job, template: "welcome" });
+
+      expect(await scheduler.listUpcoming("user-1")).toHaveLength(1);
+    });
+
+    it("should plan the renewal of the new plan after a plan change", async () => {
+      const nextBillingDate = new Date(Date.now() + 100 * 24 * 60 * 60 * 1000).toISOString();
+      await scheduler.handleSentEmail(job);
+
+      await scheduler.handleSentEmail({
+        ...job,
+        template: "plan-changed",
+        payload: { ...yearly, previousPlan: "monthly", effectiveDate: new Date().toISOString(), nextBillingDate },
+      });
+
+      expect((await scheduler.listUpcoming("user-1")).map(reminder => reminder.template)).toEqual(["renewal-reminder"]);
+    });
+
+    it("should cancel the pending reminders once the subscription is cancelled", async () => {
+      await scheduler.handleSentEmail(job);
+
+      await scheduler.handleSentEmail({ ...job, template: "subscription-cancelled", payload: { ...trial, accessUntil: trial.trialEnd } });
+
+      await expect(scheduler.listUpcoming("user-1")).resolves.toEqual([]);
+    });
+
+    it("should not fail the sent email when planning fails", async () => {
+      jest.spyOn(scheduler, "planSubscriptionReminders").mockRejectedValueOnce(new Error("Storage unavailable"));
+
+      await expect(scheduler.handleSentEmail(job)).resolves.toBeUndefined();
+    });
+  });
+
+  describe("cancel and reschedule", () => {
+    it("should only change pending reminders", async () => {
+      const [reminder] = await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+
+      await expect(scheduler.reschedule(reminder.id, new Date("2026-01-10T00:00:00.000Z"))).resolves.toMatchObject({ sendAt: "2026-01-10T00:00:00.000Z" });
+      await expect(scheduler.cancel(reminder.id)).resolves.toMatchObject({ status: "cancelled" });
+      await expect(scheduler.cancel(reminder.id)).resolves.toBeUndefined();
+      await expect(scheduler.reschedule("unknown", new Date())).resolves.toBeUndefined();
+    });
+
+    it("should refuse to send a reminder after the date it announces", async () => {
+      const [reminder] = await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+
+      await expect(scheduler.reschedule(reminder.id, new Date("2026-01-16T00:00:00.000Z"))).rejects.toThrow("must be sent before 2026-01-15T00:00:00.000Z");
+    });
+
+    it("should cancel every pending reminder of a user", async () => {
+      await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+
+      await expect(scheduler.cancelForUser("user-1")).resolves.toBe(1);
+      await expect(scheduler.listUpcoming("user-1")).resolves.toEqual([]);
+    });
+  });
+
+  describe("schedule", () => {
+    it("should replace the pending email of the same template, and leave it out of the subscription reminders", async () => {
+      const digest = { email: "jane@example.com", firstName: "Jane", lastName: "Doe", weekStart: "2025-12-22" };
+      await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+
+      const first = await scheduler.schedule("weekly-digest", "jane@example.com", digest, "user-1", new Date("2026-01-01T08:00:00.000Z"), new Date("2026-01-08T08:00:00.000Z"), now);
+      const second = await scheduler.schedule("weekly-digest", "jane@example.com", digest, "user-1", new Date("2026-01-02T08:00:00.000Z"), new Date("2026-01-09T08:00:00.000Z"), now);
+
+      await expect(scheduler.get(first.id)).resolves.toMatchObject({ status: "cancelled" });
+      expect((await scheduler.listUpcoming("user-1")).map(notification => notification.template)).toEqual(["weekly-digest", "trial-ending"]);
+
+      await scheduler.cancelForUser("user-1");
+      await expect(scheduler.listUpcoming("user-1")).resolves.toEqual([expect.objectContaining({ id: second.id })]);
+    });
+  });
+
+  describe("dispatchDueReminders", () => {
+    it("should queue due reminders once", async () => {
+      const [reminder] = await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+
+      await expect(scheduler.dispatchDueReminders(new Date("2026-01-11T00:00:00.000Z"))).resolves.toBe(0);
+      await expect(scheduler.dispatchDueReminders(new Date("2026-01-12T00:00:00.000Z"))).resolves.toBe(1);
+      await expect(scheduler.dispatchDueReminders(new Date("2026-01-12T00:01:00.000Z"))).resolves.toBe(0);
+
+      expect(mockEmailQueue.enqueue).toHaveBeenCalledTimes(1);
+      expect(mockEmailQueue.enqueue).toHaveBeenCalledWith("trial-ending", "jane@example.com", trial, { userId: "user-1", clientId: SCHEDULER_CLIENT_ID });
+      await expect(scheduler.get(reminder.id)).resolves.toMatchObject({ status: "queued", jobId: "job-trial-ending" });
+    });
+
+    it("should drop reminders whose date passed while the service was down", async () => {
+      const [reminder] = await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+
+      await scheduler.dispatchDueReminders(new Date("2026-01-20T00:00:00.000Z"));
+
+      expect(mockEmailQueue.enqueue).not.toHaveBeenCalled();
+      await expect(scheduler.get(reminder.id)).resolves.toMatchObject({ status: "expired" });
+    });
+
+    it("should try again on the next tick when queuing fails", async () => {
+      await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+      mockEmailQueue.enqueue.mockRejectedValueOnce(new Error("Storage unavailable"));
+      const dueDate = new Date("2026-01-12T00:00:00.000Z");
+
+      await expect(scheduler.dispatchDueReminders(dueDate)).resolves.toBe(0);
+      await expect(scheduler.dispatchDueReminders(dueDate)).resolves.toBe(1);
+    });
+
+    it("should stop trying once the address is on the suppression list", async () => {
+      jest.spyOn(Logger.prototype, "warn").mockImplementation();
+      const [reminder] = await scheduler.planSubscriptionReminders("jane@example.com", trial, "user-1", now);
+      mockEmailQueue.enqueue.mockRejectedValueOnce(new AddressSuppressedError({ id: "jane@example.com", address: "jane@example.com", reason: "hard-bounce" } as SuppressedAddress));
+      const dueDate = new Date("2026-01-12T00:00:00.000Z");
+
+      await expect(scheduler.dispatchDueReminders(dueDate)).resolves.toBe(0);
+      await expect(scheduler.dispatchDueReminders(dueDate)).resolves.toBe(0);
+
+      expect(mockEmailQueue.enqueue).toHaveBeenCalledTimes(1);
+      await expect(scheduler.get(reminder.id)).resolves.toMatchObject({ status: "suppressed" });
+    });
+  });
+});
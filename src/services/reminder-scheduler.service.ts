@@ -0,0 +1,314 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "node:crypto";
+
+import { Collection } from "../storage/collection";
+import { StorageService } from "../storage/storage.service";
+import { ApiError } from "../utils/api-errors";
+import { SubscriptionConfirmationEmailData } from "../utils/template.service";
+import { EmailJob, EmailQueueService } from "./email-queue.service";
+import { AddressSuppressedError } from "./suppression-list.service";
+
+export const SCHEDULED_NOTIFICATION_STATUSES = ["scheduled", "queued", "cancelled", "expired", "suppressed"] as const;
+
+export type ScheduledNotificationStatus = (typeof SCHEDULED_NOTIFICATION_STATUSES)[number];
+
+export type ScheduledNotification = {
+  id: string;
+  template: string;
+  recipient: string;
+  payload: Record<string, any>;
+  /** Owner of the subscription; reminders planned without one are matched by recipient */
+  userId?: string;
+  status: ScheduledNotificationStatus;
+  /** When the email is queued */
+  sendAt: string;
+  /** Date the email announces, such as the end of the trial, or after which it is stale. A reminder still pending then is dropped */
+  eventAt: string;
+  /** Email job queued for the reminder */
+  jobId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Client recorded in the history of the reminders */
+export const SCHEDULER_CLIENT_ID = "scheduler";
+
+/** Reminders planned from the state of a subscription, replaced or cancelled when it changes */
+export const SUBSCRIPTION_REMINDERS = ["trial-ending", "renewal-reminder"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Plans the reminders of a subscription (end of trial, yearly renewal) once
+ * its confirmation is sent, and other emails sent at a given time such as
+ * the weekly digests, keeps them in storage so that they survive restarts,
+ * and queues each one when it is due.
+ */
+@Injectable()
+export class ReminderSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ReminderSchedulerService.name);
+  private readonly reminders: Collection<ScheduledNotification>;
+  private readonly remindersConfig: any;
+  private timer?: NodeJS.Timeout;
+  private dispatching = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly emailQueue: EmailQueueService,
+  ) {
+    this.remindersConfig = this.configService.get("reminders");
+    this.reminders = this.storageService.collection<ScheduledNotification>("scheduled-notifications");
+  }
+
+  onModuleInit(): void {
+    if (!this.remindersConfig.schedulerEnabled) {
+      this.logger.warn("Reminder scheduler disabled - scheduled notifications will not be sent");
+      return;
+    }
+
+    this.timer = setInterval(() => void this.dispatchDueReminders(), this.remindersConfig.pollIntervalMs);
+    this.timer.unref();
+    this.logger.log(`Reminder scheduler started (polling every ${this.remindersConfig.pollIntervalMs}ms)`);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Keeps the reminders of a subscription in line with the billing emails
+   * sent about it: planned by the confirmation, planned again for the new plan
+   * by a plan change, and cancelled once it is cancelled or expired. Failures
+   * are only logged, since the email itself went out.
+   */
+  async handleSentEmail(job: EmailJob): Promise<void> {
+    try {
+      switch (job.template) {
+        case "subscription":
+          await this.planSubscriptionReminders(job.recipient, job.payload as SubscriptionConfirmationEmailData, job.userId);
+          break;
+        case "plan-changed":
+          await this.planSubscriptionReminders(job.recipient, { ...job.payload, status: "active" } as SubscriptionConfirmationEmailData, job.userId);
+          break;
+        case "subscription-cancelled":
+        case "subscription-expired":
+          await this.cancelPending(SUBSCRIPTION_REMINDERS, job.userId, job.recipient);
+          break;
+      }
+    }
+    catch (error) {
+      this.logger.error(`Failed to update the reminders of ${job.recipient}'s subscription: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Replaces the pending reminders of the subscription with those its current
+   * state calls for: one before the end of a trial, and one before the renewal
+   * of an active subscription on a renewal plan. Dates already past are skipped.
+   */
+  async planSubscriptionReminders(
+    recipient: string,
+    subscription: SubscriptionConfirmationEmailData,
+    userId?: string,
+    now = new Date(),
+  ): Promise<ScheduledNotification[]> {
+    await this.cancelPending(SUBSCRIPTION_REMINDERS, userId, recipient);
+
+    const planned: ScheduledNotification[] = [];
+    const plan = (template: string, eventDate: Date | string, daysBefore: number) => {
+      const eventAt = new Date(eventDate);
+      if (eventAt > now) {
+        const sendAt = new Date(Math.max(eventAt.getTime() - daysBefore * DAY_MS, now.getTime()));
+        planned.push(this.buildReminder(template, recipient, subscription, userId, sendAt, eventAt, now));
+      }
+    };
+
+    if (subscription.status === "trial" && subscription.trialEnd) {
+      plan("trial-ending", subscription.trialEnd, this.remindersConfig.trialEndingDaysBefore);
+    }
+    if (subscription.status === "active" && subscription.nextBillingDate && this.remindersConfig.renewalPlans.includes(subscription.plan)) {
+      plan("renewal-reminder", subscription.nextBillingDate, this.remindersConfig.renewalDaysBefore);
+    }
+
+    for (const reminder of planned) {
+      await this.reminders.save(reminder);
+      this.logger.log(`Scheduled ${reminder.template} email ${reminder.id} for ${recipient} at ${reminder.sendAt}`);
+    }
+
+    return planned;
+  }
+
+  /**
+   * Plans an email at `sendAt`, replacing the one of the same template still
+   * pending for the user, or for the recipient without a user. It is dropped
+   * if it is still pending at `eventAt`.
+   */
+  async schedule(
+    template: string,
+    recipient: string,
+    payload: Record<string, any>,
+    userId: string | undefined,
+    sendAt: Date,
+    eventAt: Date,
+    now = new Date(),
+  ): Promise<ScheduledNotification> {
+    await this.cancelPending([template], userId, recipient);
+
+    const notification = await this.reminders.save(this.buildReminder(template, recipient, payload, userId, sendAt, eventAt, now));
+    this.logger.log(`Scheduled ${template} email ${notification.id} for ${recipient} at ${notification.sendAt}`);
+
+    return notification;
+  }
+
+  /**
+   * Notifications of the user still waiting to be sent, soonest first.
+   */
+  async listUpcoming(userId: string): Promise<ScheduledNotification[]> {
+    return (await this.reminders.find(reminder => reminder.status === "scheduled" && reminder.userId === userId))
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+  }
+
+  async get(id: string): Promise<ScheduledNotification | undefined> {
+    return this.reminders.get(id);
+  }
+
+  /**
+   * Returns undefined when the reminder does not exist or is no longer pending.
+   */
+  async cancel(id: string): Promise<ScheduledNotification | undefined> {
+    const reminder = await this.reminders.get(id);
+    if (reminder?.status !== "scheduled") {
+      return undefined;
+    }
+
+    return this.setStatus(reminder, "cancelled");
+  }
+
+  /**
+   * Moves a pending reminder to another date, which must come before the date
+   * it announces. Returns undefined when the reminder is no longer pending.
+   */
+  async reschedule(id: string, sendAt: Date): Promise<ScheduledNotification | undefined> {
+    const reminder = await this.reminders.get(id);
+    if (reminder?.status !== "scheduled") {
+      return undefined;
+    }
+
+    if (sendAt >= new Date(reminder.eventAt)) {
+      throw new ApiError("BAD_REQUEST", `The ${reminder.template} email must be sent before ${reminder.eventAt}`);
+    }
+
+    reminder.sendAt = sendAt.toISOString();
+    reminder.updatedAt = new Date().toISOString();
+    this.logger.log(`Rescheduled ${reminder.template} email ${reminder.id} at ${reminder.sendAt}`);
+    return this.reminders.save(reminder);
+  }
+
+  /**
+   * Cancels the pending subscription reminders of the user, e.g. once their
+   * subscription ended.
+   */
+  async cancelForUser(userId: string): Promise<number> {
+    return this.cancelPending(SUBSCRIPTION_REMINDERS, userId);
+  }
+
+  /**
+   * Queues the reminders that are due. Those whose date already passed, e.g.
+   * while the service was down, are dropped. A reminder that cannot be queued
+   * is tried again on the next tick.
+   */
+  async dispatchDueReminders(now = new Date()): Promise<number> {
+    if (this.dispatching) {
+      return 0;
+    }
+
+    this.dispatching = true;
+    try {
+      const dueReminders = (await this.reminders.find(reminder => reminder.status === "scheduled" && new Date(reminder.sendAt) <= now))
+        .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+
+      let queued = 0;
+      for (const reminder of dueReminders) {
+        if (new Date(reminder.eventAt) <= now) {
+          await this.setStatus(reminder, "expired");
+          continue;
+        }
+
+        try {
+          const job = await this.emailQueue.enqueue(reminder.template, reminder.recipient, reminder.payload, {
+            userId: reminder.userId,
+            clientId: SCHEDULER_CLIENT_ID,
+          });
+          reminder.jobId = job.id;
+          await this.setStatus(reminder, "queued");
+          queued += 1;
+        }
+        catch (error) {
+          // Retrying would not get the email to an address on the suppression list
+          if (error instanceof AddressSuppressedError) {
+            this.logger.warn(`Not sending ${reminder.template} email ${reminder.id}: ${error.message}`);
+            await this.setStatus(reminder, "suppressed");
+            continue;
+          }
+          this.logger.error(`Failed to queue ${reminder.template} email ${reminder.id}: ${error.message}`);
+        }
+      }
+
+      return queued;
+    }
+    catch (error) {
+      this.logger.error(`Failed to dispatch scheduled notifications: ${error.message}`, error.stack);
+      return 0;
+    }
+    finally {
+      this.dispatching = false;
+    }
+  }
+
+  private async cancelPending(templates: string[], userId: string | undefined, recipient?: string): Promise<number> {
+    const pending = await this.reminders.find(reminder => reminder.status === "scheduled" && templates.includes(reminder.template)
+      && (userId ? reminder.userId === userId : !reminder.userId && reminder.recipient === recipient));
+
+    for (const reminder of pending) {
+      await this.setStatus(reminder, "cancelled");
+    }
+
+    return pending.length;
+  }
+
+  private async setStatus(reminder: ScheduledNotification, status: ScheduledNotificationStatus): Promise<ScheduledNotification> {
+    reminder.status = status;
+    reminder.updatedAt = new Date().toISOString();
+    this.logger.log(`${reminder.template} email ${reminder.id} for ${reminder.recipient}: ${status}`);
+    return this.reminders.save(reminder);
+  }
+
+  private buildReminder(
+    template: string,
+    recipient: string,
+    payload: Record<string, any>,
+    userId: string | undefined,
+    sendAt: Date,
+    eventAt: Date,
+    now: Date,
+  ): ScheduledNotification {
+    return {
+      id: randomUUID(),
+      template,
+      recipient,
+      // Kept as JSON, like queued payloads
+      payload: JSON.parse(JSON.stringify(payload)),
+      userId,
+      status: "scheduled",
+      sendAt: sendAt.toISOString(),
+      eventAt: eventAt.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+  }
+}
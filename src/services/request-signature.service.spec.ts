@@ -0,0 +1,104 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { computeSignature } from "../client/request-signer";
+import { RequestSignatureService, SignedRequest } from "./request-signature.service";
+
+describe("requestSignatureService", () => {
+  let service: RequestSignatureService;
+
+  const secret = "signing-secret";
+  const now = new Date("2024-01-01T12:00:00.000Z");
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue({ signatureMaxSkewSeconds: 300 }),
+  };
+
+  const signedRequest = (overrides: Partial<SignedRequest> = {}): SignedRequest => {
+    const request = {
+      clientId: "payment-service",
+      method: "POST",
+      path: "/api/v1/notifications/send",
+      timestamp: String(now.getTime() / 1000),
+      nonce: "nonce-1",
+      body: "{\"template\":\"welcome\"}",
+      ...overrides,
+    };
+
+    return { signature: computeSignature(secret, request), ...request };
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RequestSignatureService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<RequestSignatureService>(RequestSignatureService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should accept a valid signature", () => {
+    expect(service.verify(signedRequest(), [secret], now)).toEqual({ valid: true, secret });
+  });
+
+  it("should accept a signature made with any of the client secrets", () => {
+    expect(service.verify(signedRequest(), ["previous-secret", secret], now)).toEqual({ valid: true, secret });
+  });
+
+  it("should reject a signature over other values", () => {
+    const request = { ...signedRequest(), path: "/api/v1/notifications/dead-letters" };
+
+    expect(service.verify(request, [secret], now)).toEqual({ valid: false, reason: "Invalid request signature" });
+  });
+
+  it("should reject a malformed signature", () => {
+    const request = { ...signedRequest(), signature: "not-hex" };
+
+    expect(service.verify(request, [secret], now).valid).toBe(false);
+  });
+
+  it("should reject timestamps outside the allowed skew", () => {
+    const late = signedRequest({ timestamp: String(now.getTime() / 1000 - 301) });
+    const early = signedRequest({ timestamp: String(now.getTime() / 1000 + 301) });
+
+    expect(service.verify(late, [secret], now).reason).toBe("Request timestamp outside the allowed window");
+    expect(service.verify(early, [secret], now).reason).toBe("Request timestamp outside the allowed window");
+  });
+
+  it("should accept timestamps within the allowed skew", () => {
+    const request = signedRequest({ timestamp: String(now.getTime() / 1000 - 299) });
+
+    expect(service.verify(request, [secret], now).valid).toBe(true);
+  });
+
+  it("should reject a replayed nonce", () => {
+    service.verify(signedRequest(), [secret], now);
+
+    expect(service.verify(signedRequest(), [secret], now)).toEqual({ valid: false, reason: "Request already processed" });
+  });
+
+  it("should scope nonces per client", () => {
+    service.verify(signedRequest(), [secret], now);
+
+    expect(service.verify(signedRequest({ clientId: "auth-service" }), [secret], now).valid).toBe(true);
+  });
+
+  it("should not remember nonces of invalid signatures", () => {
+    service.verify({ ...signedRequest(), signature: "00" }, [secret], now);
+
+    expect(service.verify(signedRequest(), [secret], now).valid).toBe(true);
+  });
+
+  it("should require a nonce", () => {
+    expect(service.verify(signedRequest({ nonce: "" }), [secret], now).reason).toBe("Invalid request nonce");
+  });
+});
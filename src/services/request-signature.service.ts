@@ -0,0 +1,87 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Buffer } from "node:buffer";
+import { timingSafeEqual } from "node:crypto";
+
+import { computeSignature, SignatureInput } from "../client/request-signer";
+
+export type SignedRequest = SignatureInput & {
+  clientId: string;
+  signature: string;
+};
+
+export type SignatureCheck = {
+  valid: boolean;
+  reason?: string;
+  /** Secret the request was signed with */
+  secret?: string;
+};
+
+const MAX_NONCE_LENGTH = 128;
+const PURGE_INTERVAL_MS = 60_000;
+
+/**
+ * Verifies HMAC-signed requests (see `RequestSigner`). A signature is only
+ * accepted while its timestamp is within the allowed clock skew, and each
+ * nonce only once during that window. Seen nonces are kept in memory: they
+ * are only useful for the skew window, which a restart outlasts anyway.
+ */
+@Injectable()
+export class RequestSignatureService {
+  private readonly logger = new Logger(RequestSignatureService.name);
+  private readonly maxSkewSeconds: number;
+  private readonly seenNonces = new Map<string, number>();
+  private lastPurge = 0;
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxSkewSeconds = this.configService.get("auth")?.signatureMaxSkewSeconds ?? 300;
+  }
+
+  /**
+   * Checks the request against each secret of the client, as a client has
+   * several valid keys while one is being rotated.
+   */
+  verify(request: SignedRequest, secrets: string[], now = new Date()): SignatureCheck {
+    const timestamp = Number(request.timestamp);
+    if (!/^\d+$/.test(request.timestamp) || Math.abs(now.getTime() / 1000 - timestamp) > this.maxSkewSeconds) {
+      return { valid: false, reason: "Request timestamp outside the allowed window" };
+    }
+
+    if (!request.nonce || request.nonce.length > MAX_NONCE_LENGTH) {
+      return { valid: false, reason: "Invalid request nonce" };
+    }
+
+    const received = Buffer.from(request.signature, "hex");
+    const secret = secrets.find((secret) => {
+      const expected = Buffer.from(computeSignature(secret, request), "hex");
+      return received.length === expected.length && timingSafeEqual(received, expected);
+    });
+    if (!secret) {
+      return { valid: false, reason: "Invalid request signature" };
+    }
+
+    // Only remember nonces of authentic requests, so that forged ones cannot fill the cache
+    this.purgeExpired(now);
+    const nonceKey = `${request.clientId}:${request.nonce}`;
+    if (this.seenNonces.has(nonceKey)) {
+      this.logger.warn(`Replayed request from ${request.clientId} (nonce ${request.nonce})`);
+      return { valid: false, reason: "Request already processed" };
+    }
+    this.seenNonces.set(nonceKey, (timestamp + this.maxSkewSeconds) * 1000);
+
+    return { valid: true, secret };
+  }
+
+  private purgeExpired(now: Date): void {
+    if (now.getTime() - this.lastPurge < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurge = now.getTime();
+
+    for (const [key, expiresAt] of this.seenNonces) {
+      if (expiresAt <= now.getTime()) {
+        this.seenNonces.delete(key);
+      }
+    }
+  }
+}
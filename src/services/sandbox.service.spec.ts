@@ -0,0 +1,124 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+import { Buffer } from "node:buffer";
+
+import { StorageService } from "../storage/storage.service";
+import { OutgoingMessage } from "../transports/mail-transport";
+import { SandboxService } from "./sandbox.service";
+
+describe("sandboxService", () => {
+  let service: SandboxService;
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => (key === "email" ? { sandbox: { maxMessages: 2 } } : { driver: "memory" })),
+  };
+
+  const message: OutgoingMessage = {
+    from: { name: "Penpal AI", address: "noreply@penpal-ai.com" },
+    to: "User@Example.com",
+    subject: "Bienvenue !",
+    text: "Bonjour",
+    html: "<p>Bonjour</p>",
+    headers: { "List-Unsubscribe": "<https://penpal-ai.com/unsubscribe>" },
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SandboxService,
+        StorageService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<SandboxService>(SandboxService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  describe("capture", () => {
+    it("should store the full message with its headers", async () => {
+      const captured = await service.capture(message);
+
+      expect(await service.get(captured.id)).toEqual({
+        id: captured.id,
+        messageId: captured.messageId,
+        from: "\"Penpal AI\" <noreply@penpal-ai.com>",
+        to: "User@Example.com",
+        subject: "Bienvenue !",
+        headers: {
+          "From": "\"Penpal AI\" <noreply@penpal-ai.com>",
+          "To": "User@Example.com",
+          "Subject": "Bienvenue !",
+          "Date": expect.any(String),
+          "Message-ID": captured.messageId,
+          "List-Unsubscribe": "<https://penpal-ai.com/unsubscribe>",
+        },
+        html: "<p>Bonjour</p>",
+        text: "Bonjour",
+        attachments: [],
+        capturedAt: expect.any(String),
+      });
+    });
+
+    it("should keep the content of inline attachments only, so that the viewer can show them", async () => {
+      const captured = await service.capture({
+        ...message,
+        attachments: [
+          { filename: "minutes-chart.png", content: Buffer.from("PNG"), contentType: "image/png", cid: "minutes-chart" },
+          { filename: "facture-PP-2025-000001.pdf", content: Buffer.from("%PDF-1.4"), contentType: "application/pdf" },
+        ],
+      });
+
+      expect((await service.get(captured.id))!.attachments).toEqual([
+        { filename: "minutes-chart.png", contentType: "image/png", size: 3, cid: "minutes-chart", content: "UE5H" },
+        { filename: "facture-PP-2025-000001.pdf", contentType: "application/pdf", size: 8 },
+      ]);
+    });
+
+    it("should only keep the most recent messages", async () => {
+      jest.useFakeTimers({ now: new Date("2024-01-01T00:00:00.000Z") });
+      const first = await service.capture(message);
+      jest.setSystemTime(new Date("2024-01-01T00:00:01.000Z"));
+      await service.capture(message);
+      jest.setSystemTime(new Date("2024-01-01T00:00:02.000Z"));
+      await service.capture(message);
+
+      expect((await service.list()).total).toBe(2);
+      expect(await service.get(first.id)).toBeUndefined();
+    });
+  });
+
+  describe("list", () => {
+    it("should list summaries newest first, filtered by recipient", async () => {
+      jest.useFakeTimers({ now: new Date("2024-01-01T00:00:00.000Z") });
+      const older = await service.capture(message);
+      jest.setSystemTime(new Date("2024-01-01T00:00:01.000Z"));
+      const newer = await service.capture({ ...message, to: "other@example.com" });
+
+      const all = await service.list();
+      const filtered = await service.list({ to: "user@example.com" });
+
+      expect(all.items.map(item => item.id)).toEqual([newer.id, older.id]);
+      expect(all.items[0]).not.toHaveProperty("html");
+      expect(filtered.items.map(item => item.id)).toEqual([older.id]);
+    });
+  });
+
+  describe("clear", () => {
+    it("should delete every captured message", async () => {
+      await service.capture(message);
+
+      await service.clear();
+
+      expect((await service.list()).total).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { randomUUID } from "node:crypto";
+
+import { Collection } from "../storage/collection";
+import { StorageService } from "../storage/storage.service";
+import { formatAddress, OutgoingMessage } from "../transports/mail-transport";
+
+/** Attachments are listed; only the content of inline ones is kept, for the viewer to show them */
+export type SandboxAttachment = {
+  filename: string;
+  contentType: string;
+  size: number;
+  cid?: string;
+  /** Base64 content, for inline attachments */
+  content?: string;
+};
+
+export type SandboxMessage = {
+  id: string;
+  messageId: string;
+  from: string;
+  to: string;
+  subject: string;
+  headers: Record<string, string>;
+  html: string;
+  text: string;
+  attachments: SandboxAttachment[];
+  capturedAt: string;
+};
+
+export type SandboxMessageSummary = Omit<SandboxMessage, "headers" | "html" | "text" | "attachments">;
+
+export type SandboxMessageFilter = {
+  to?: string;
+  limit?: number;
+  offset?: number;
+};
+
+export type SandboxMessagePage = {
+  items: SandboxMessageSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Mailbox that keeps the emails rendered in sandbox mode, so they can be
+ * browsed instead of being delivered. Only the most recent messages are kept.
+ */
+@Injectable()
+export class SandboxService {
+  private readonly logger = new Logger(SandboxService.name);
+  private readonly messages: Collection<SandboxMessage>;
+  private readonly maxMessages: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+  ) {
+    this.messages = this.storageService.collection<SandboxMessage>("sandbox-messages");
+    this.maxMessages = this.configService.get("email")?.sandbox?.maxMessages ?? 500;
+  }
+
+  async capture(message: OutgoingMessage): Promise<SandboxMessage> {
+    const id = randomUUID();
+    const capturedAt = new Date();
+    const messageId = `<${id}@sandbox.penpal-ai>`;
+    const from = formatAddress(message.from);
+
+    const captured = await this.messages.save({
+      id,
+      messageId,
+      from,
+      to: message.to,
+      subject: message.subject,
+      headers: {
+        "From": from,
+        "To": message.to,
+        "Subject": message.subject,
+        "Date": capturedAt.toUTCString(),
+        "Message-ID": messageId,
+        ...message.headers,
+      },
+      html: message.html,
+      text: message.text,
+      attachments: (message.attachments ?? []).map(attachment => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        size: attachment.content.length,
+        cid: attachment.cid,
+        content: attachment.cid ? attachment.content.toString("base64") : undefined,
+      })),
+      capturedAt: capturedAt.toISOString(),
+    });
+
+    this.logger.log(`📥 Sandbox captured "${message.subject}" for ${message.to} (${id})`);
+    await this.prune();
+
+    return captured;
+  }
+
+  async get(id: string): Promise<SandboxMessage | undefined> {
+    return this.messages.get(id);
+  }
+
+  async list(filter: SandboxMessageFilter = {}): Promise<SandboxMessagePage> {
+    const to = filter.to?.toLowerCase();
+    const limit = filter.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = filter.offset ?? 0;
+
+    const matches = (await this.messages.find(message => !to || message.to.toLowerCase() === to))
+      .sort((a, b) => b.capturedAt.localeCompare(a.capturedAt));
+
+    return {
+      items: matches.slice(offset, offset + limit).map(({ headers: _headers, html: _html, text: _text, attachments: _attachments, ...summary }) => summary),
+      total: matches.length,
+      limit,
+      offset,
+    };
+  }
+
+  async clear(): Promise<void> {
+    await this.messages.clear();
+    this.logger.log("Sandbox mailbox cleared");
+  }
+
+  private async prune(): Promise<void> {
+    const messages = await this.messages.values();
+    if (messages.length <= this.maxMessages) {
+      return;
+    }
+
+    const oldest = messages
+      .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt))
+      .slice(0, messages.length - this.maxMessages);
+    for (const message of oldest) {
+      await this.messages.delete(message.id);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { StorageService } from "../storage/storage.service";
+import { SuppressionListService } from "./suppression-list.service";
+
+describe("suppressionListService", () => {
+  let service: SuppressionListService;
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SuppressionListService,
+        StorageService,
+        { provide: ConfigService, useValue: { get: () => ({ driver: "memory" }) } },
+      ],
+    }).compile();
+
+    service = module.get<SuppressionListService>(SuppressionListService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should find added addresses regardless of case", async () => {
+    await service.add({ address: "Jane@Example.com", reason: "hard-bounce", source: "sendgrid", detail: "550 5.1.1 User unknown" });
+
+    expect(await service.find("jane@EXAMPLE.com")).toEqual({
+      id: "jane@example.com",
+      address: "jane@example.com",
+      reason: "hard-bounce",
+      source: "sendgrid",
+      detail: "550 5.1.1 User unknown",
+      createdAt: expect.any(String),
+    });
+  });
+
+  it("should keep the first entry of an address already listed", async () => {
+    const first = await service.add({ address: "jane@example.com", reason: "hard-bounce", source: "sendgrid" });
+    const second = await service.add({ address: "jane@example.com", reason: "complaint", source: "ses" });
+
+    expect(second).toEqual(first);
+  });
+
+  it("should remove addresses", async () => {
+    await service.add({ address: "jane@example.com", reason: "manual", source: "admin-tools" });
+
+    expect(await service.remove("Jane@example.com")).toBe(true);
+    expect(await service.find("jane@example.com")).toBeUndefined();
+    expect(await service.remove("jane@example.com")).toBe(false);
+  });
+
+  it("should list entries by reason, newest first", async () => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    await service.add({ address: "first@example.com", reason: "hard-bounce", source: "sendgrid" });
+    jest.setSystemTime(new Date("2026-01-02T00:00:00Z"));
+    await service.add({ address: "second@example.com", reason: "hard-bounce", source: "mailgun" });
+    await service.add({ address: "third@example.com", reason: "complaint", source: "ses" });
+    jest.useRealTimers();
+
+    const page = await service.list({ reason: "hard-bounce", limit: 1 });
+
+    expect(page.total).toBe(2);
+    expect(page.items.map(entry => entry.address)).toEqual(["second@example.com"]);
+  });
+});
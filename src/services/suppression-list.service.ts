@@ -0,0 +1,112 @@
+import { Injectable, Logger } from "@nestjs/common";
+
+import { Collection } from "../storage/collection";
+import { StorageService } from "../storage/storage.service";
+import { ApiError } from "../utils/api-errors";
+
+export const SUPPRESSION_REASONS = ["hard-bounce", "complaint", "manual"] as const;
+
+export type SuppressionReason = (typeof SUPPRESSION_REASONS)[number];
+
+export type SuppressedAddress = {
+  /** Lowercased address */
+  id: string;
+  address: string;
+  reason: SuppressionReason;
+  /** Where the entry came from: a provider webhook, "dsn" or the API client that added it */
+  source: string;
+  /** Provider's diagnostic, e.g. "550 5.1.1 User unknown" */
+  detail?: string;
+  createdAt: string;
+};
+
+export type SuppressionListFilter = {
+  reason?: SuppressionReason;
+  limit?: number;
+  offset?: number;
+};
+
+export type SuppressionListPage = {
+  items: SuppressedAddress[];
+  total: number;
+  limit: number;
+  offset: number;
+};
+
+/**
+ * Raised when a transactional email is requested for an address on the
+ * suppression list, so that the caller learns right away that it will never
+ * be delivered.
+ */
+export class AddressSuppressedError extends ApiError {
+  constructor(readonly entry: SuppressedAddress) {
+    super("ADDRESS_SUPPRESSED", `${entry.address} is on the suppression list (${entry.reason})`, { suppression: { reason: entry.reason } });
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Addresses that must not be mailed again: hard bounces and spam complaints
+ * reported by the providers, and addresses added by hand.
+ */
+@Injectable()
+export class SuppressionListService {
+  private readonly logger = new Logger(SuppressionListService.name);
+  private readonly entries: Collection<SuppressedAddress>;
+
+  constructor(private readonly storageService: StorageService) {
+    this.entries = this.storageService.collection<SuppressedAddress>("suppression-list");
+  }
+
+  async find(address: string): Promise<SuppressedAddress | undefined> {
+    return this.entries.get(address.toLowerCase());
+  }
+
+  /**
+   * Adds an address to the list. An address already listed keeps its entry,
+   * so that providers retrying a webhook do not reset it.
+   */
+  async add(entry: Pick<SuppressedAddress, "address" | "reason" | "source" | "detail">): Promise<SuppressedAddress> {
+    const existing = await this.find(entry.address);
+    if (existing) {
+      return existing;
+    }
+
+    const address = entry.address.toLowerCase();
+    this.logger.warn(`Suppressing ${address}: ${entry.reason} reported by ${entry.source}${entry.detail ? ` (${entry.detail})` : ""}`);
+
+    return this.entries.save({
+      id: address,
+      address,
+      reason: entry.reason,
+      source: entry.source,
+      detail: entry.detail,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async remove(address: string): Promise<boolean> {
+    const removed = await this.entries.delete(address.toLowerCase());
+    if (removed) {
+      this.logger.log(`Removed ${address.toLowerCase()} from the suppression list`);
+    }
+
+    return removed;
+  }
+
+  async list(filter: SuppressionListFilter = {}): Promise<SuppressionListPage> {
+    const limit = filter.limit ?? DEFAULT_PAGE_SIZE;
+    const offset = filter.offset ?? 0;
+
+    const matches = (await this.entries.find(entry => !filter.reason || entry.reason === filter.reason))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return {
+      items: matches.slice(offset, offset + limit),
+      total: matches.length,
+      limit,
+      offset,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+import { Buffer } from "node:buffer";
+
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { NotificationPreferencesService } from "./notification-preferences.service";
+import { UnsubscribeService } from "./unsubscribe.service";
+
+describe("unsubscribeService", () => {
+  let service: UnsubscribeService;
+  const unsubscribeConfig = { secret: "test-unsubscribe-secret", baseUrl: "https://notify.penpal-ai.com/api/v1/" };
+
+  const mockTemplateRegistry = {
+    find: jest.fn(),
+  };
+
+  const mockPreferencesService = {
+    update: jest.fn(),
+  };
+
+  const createService = async (config: Record<string, any>): Promise<UnsubscribeService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UnsubscribeService,
+        { provide: ConfigService, useValue: { get: () => config } },
+        { provide: TemplateRegistryService, useValue: mockTemplateRegistry },
+        { provide: NotificationPreferencesService, useValue: mockPreferencesService },
+      ],
+    }).compile();
+
+    return module.get<UnsubscribeService>(UnsubscribeService);
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+    mockTemplateRegistry.find.mockResolvedValue({ name: "subscription", category: "billing" });
+
+    service = await createService(unsubscribeConfig);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  describe("createUrl", () => {
+    it("should build a link carrying the user, address and category", async () => {
+      const url = await service.createUrl("subscription", "Jane@Example.com", "user-123");
+
+      expect(url).toMatch(/^https:\/\/notify\.penpal-ai\.com\/api\/v1\/unsubscribe\/[\w-]+\.[\w-]+$/);
+      expect(service.verifyToken(url!.split("/").pop()!)).toEqual({
+        userId: "user-123",
+        email: "jane@example.com",
+        category: "billing",
+      });
+    });
+
+    it("should not build a link for transactional templates", async () => {
+      mockTemplateRegistry.find.mockResolvedValue({ name: "welcome", category: "transactional" });
+
+      expect(await service.createUrl("welcome", "jane@example.com", "user-123")).toBeUndefined();
+    });
+
+    it("should not build a link without a user", async () => {
+      expect(await service.createUrl("subscription", "jane@example.com")).toBeUndefined();
+    });
+  });
+
+  describe("verifyToken", () => {
+    const target = { userId: "user-123", email: "jane@example.com", category: "billing" as const };
+
+    it("should reject tampered tokens", () => {
+      const [, signature] = service.createToken(target).split(".");
+      const forged = Buffer.from(JSON.stringify({ u: "user-456", e: "jane@example.com", c: "billing" })).toString("base64url");
+
+      expect(service.verifyToken(`${forged}.${signature}`)).toBeUndefined();
+    });
+
+    it("should reject malformed tokens", () => {
+      expect(service.verifyToken("not-a-token")).toBeUndefined();
+      expect(service.verifyToken("a.b.c")).toBeUndefined();
+    });
+
+    it("should reject tokens signed with another secret", async () => {
+      const otherService = await createService({ ...unsubscribeConfig, secret: "another-secret" });
+
+      expect(service.verifyToken(otherService.createToken(target))).toBeUndefined();
+    });
+
+    it("should reject unknown categories", () => {
+      const token = service.createToken({ ...target, category: "spam" as any });
+
+      expect(service.verifyToken(token)).toBeUndefined();
+    });
+
+    it("should generate a secret when none is configured", async () => {
+      const warn = jest.spyOn(Logger.prototype, "warn");
+      const unsecuredService = await createService({ baseUrl: unsubscribeConfig.baseUrl });
+
+      expect(unsecuredService.verifyToken(unsecuredService.createToken(target))).toEqual(target);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("UNSUBSCRIBE_SECRET not set"));
+    });
+  });
+
+  describe("unsubscribe", () => {
+    it("should turn the token's category off", async () => {
+      const token = service.createToken({ userId: "user-123", email: "jane@example.com", category: "billing" });
+
+      const target = await service.unsubscribe(token);
+
+      expect(target).toEqual({ userId: "user-123", email: "jane@example.com", category: "billing" });
+      expect(mockPreferencesService.update).toHaveBeenCalledWith("user-123", { billing: false });
+    });
+
+    it("should leave preferences alone for invalid tokens", async () => {
+      expect(await service.unsubscribe("invalid.token")).toBeUndefined();
+      expect(mockPreferencesService.update).not.toHaveBeenCalled();
+    });
+  });
+});
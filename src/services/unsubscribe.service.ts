@@ -0,0 +1,104 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Buffer } from "node:buffer";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+import { TemplateRegistryService } from "../utils/template-registry.service";
+import { NOTIFICATION_CATEGORIES, NotificationCategory, NotificationPreferencesService } from "./notification-preferences.service";
+
+export type UnsubscribeTarget = {
+  userId: string;
+  email: string;
+  category: NotificationCategory;
+};
+
+/**
+ * Issues and redeems the per-recipient unsubscribe links added to emails users
+ * can opt out of. A token carries the user, address and category, signed with
+ * UNSUBSCRIBE_SECRET, so that nothing has to be stored per email sent.
+ */
+@Injectable()
+export class UnsubscribeService {
+  private readonly logger = new Logger(UnsubscribeService.name);
+  private readonly secret: string;
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly templateRegistry: TemplateRegistryService,
+    private readonly preferencesService: NotificationPreferencesService,
+  ) {
+    const unsubscribeConfig = this.configService.get("unsubscribe") ?? {};
+    this.baseUrl = (unsubscribeConfig.baseUrl ?? "").replace(/\/+$/, "");
+    this.secret = unsubscribeConfig.secret;
+
+    if (!this.secret) {
+      this.secret = randomBytes(32).toString("hex");
+      this.logger.warn("UNSUBSCRIBE_SECRET not set - unsubscribe links will stop working after a restart");
+    }
+  }
+
+  /**
+   * Returns the unsubscribe link for an email, or undefined when the template
+   * is transactional or the recipient is not a known user.
+   */
+  async createUrl(templateName: string, email: string, userId?: string): Promise<string | undefined> {
+    const category = (await this.templateRegistry.find(templateName))?.category ?? "transactional";
+    if (!userId || category === "transactional") {
+      return undefined;
+    }
+
+    return `${this.baseUrl}/unsubscribe/${this.createToken({ userId, email: email.toLowerCase(), category })}`;
+  }
+
+  createToken(target: UnsubscribeTarget): string {
+    const payload = Buffer.from(JSON.stringify({ u: target.userId, e: target.email, c: target.category })).toString("base64url");
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Returns what the token unsubscribes from, or undefined when it was not
+   * issued by this service.
+   */
+  verifyToken(token: string): UnsubscribeTarget | undefined {
+    const [payload, signature, ...rest] = token.split(".");
+    if (!payload || !signature || rest.length > 0) {
+      return undefined;
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const received = Buffer.from(signature);
+    if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+      return undefined;
+    }
+
+    try {
+      const { u, e, c } = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+      return typeof u === "string" && typeof e === "string" && NOTIFICATION_CATEGORIES.includes(c)
+        ? { userId: u, email: e, category: c }
+        : undefined;
+    }
+    catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Opts the user out of the token's category. Returns undefined for invalid tokens.
+   */
+  async unsubscribe(token: string): Promise<UnsubscribeTarget | undefined> {
+    const target = this.verifyToken(token);
+    if (!target) {
+      return undefined;
+    }
+
+    await this.preferencesService.update(target.userId, { [target.category]: false });
+    this.logger.log(`User ${target.userId} unsubscribed from ${target.category} emails`);
+
+    return target;
+  }
+
+  private sign(payload: string): string {
+    return createHmac("sha256", this.secret).update(payload).digest("base64url");
+  }
+}
@@ -0,0 +1,72 @@
+import { Logger } from "@nestjs/common";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { Collection } from "./collection";
+
+type TestRecord = {
+  id: string;
+  name: string;
+};
+
+describe("collection", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "error").mockImplementation();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "notify-collection-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  describe("in memory", () => {
+    it("should save, get, find and delete records", async () => {
+      const collection = new Collection<TestRecord>("records");
+
+      await collection.save({ id: "1", name: "first" });
+      await collection.save({ id: "2", name: "second" });
+
+      expect(await collection.get("1")).toEqual({ id: "1", name: "first" });
+      expect(await collection.find(record => record.name === "second")).toEqual([{ id: "2", name: "second" }]);
+      expect(await collection.delete("1")).toBe(true);
+      expect(await collection.delete("1")).toBe(false);
+      expect(await collection.values()).toHaveLength(1);
+    });
+
+    it("should return copies so callers cannot mutate stored records", async () => {
+      const collection = new Collection<TestRecord>("records");
+      await collection.save({ id: "1", name: "first" });
+
+      const record = await collection.get("1");
+      record!.name = "changed";
+
+      expect((await collection.get("1"))!.name).toBe("first");
+    });
+  });
+
+  describe("file backed", () => {
+    it("should persist records and reload them in a new instance", async () => {
+      const filePath = path.join(tempDir, "records.json");
+      const collection = new Collection<TestRecord>("records", filePath);
+
+      await collection.save({ id: "1", name: "first" });
+      await collection.save({ id: "2", name: "second" });
+      await collection.delete("2");
+
+      const reloaded = new Collection<TestRecord>("records", filePath);
+      expect(await reloaded.values()).toEqual([{ id: "1", name: "first" }]);
+    });
+
+    it("should fail loudly on a corrupted file", () => {
+      const filePath = path.join(tempDir, "records.json");
+      fs.writeFileSync(filePath, "not json");
+
+      expect(() => new Collection<TestRecord>("records", filePath)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { Logger } from "@nestjs/common";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export type StoredRecord = {
+  id: string;
+};
+
+/**
+ * A named set of records kept in memory and, when a file path is given,
+ * written through to a JSON file so the data survives restarts.
+ */
+export class Collection<T extends StoredRecord> {
+  private readonly logger = new Logger(Collection.name);
+  private readonly records = new Map<string, T>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly name: string,
+    private readonly filePath?: string,
+  ) {
+    if (this.filePath) {
+      this.load(this.filePath);
+    }
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  async values(): Promise<T[]> {
+    return Array.from(this.records.values(), record => structuredClone(record));
+  }
+
+  async find(predicate: (record: T) => boolean): Promise<T[]> {
+    return (await this.values()).filter(predicate);
+  }
+
+  async save(record: T): Promise<T> {
+    this.records.set(record.id, structuredClone(record));
+    await this.flush();
+    return record;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = this.records.delete(id);
+    if (deleted) {
+      await this.flush();
+    }
+    return deleted;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+    await this.flush();
+  }
+
+  private load(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const records: T[] = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      for (const record of records) {
+        this.records.set(record.id, record);
+      }
+      this.logger.log(`Loaded ${records.length} record(s) into collection: ${this.name}`);
+    }
+    catch (error) {
+      this.logger.error(`Failed to load collection ${this.name} from ${filePath}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes are chained so that concurrent mutations never interleave on disk,
+   * and each write goes through a temporary file to stay atomic.
+   */
+  private flush(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+
+    const snapshot = JSON.stringify(Array.from(this.records.values()), null, 2);
+    this.pendingWrite = this.pendingWrite.catch(() => undefined).then(async () => {
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, snapshot, "utf-8");
+      await fs.promises.rename(tempPath, filePath);
+    });
+
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as path from "node:path";
+
+import { Collection, StoredRecord } from "./collection";
+
+export type StorageDriver = "memory" | "file";
+
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly collections = new Map<string, Collection<any>>();
+  private readonly storageConfig: { driver: StorageDriver; directory: string };
+
+  constructor(private readonly configService: ConfigService) {
+    this.storageConfig = this.configService.get("storage") ?? { driver: "memory", directory: "" };
+
+    if (this.storageConfig.driver === "file") {
+      this.logger.log(`File storage enabled in ${this.storageConfig.directory}`);
+    }
+    else {
+      this.logger.warn("In-memory storage enabled - data will not survive restarts");
+    }
+  }
+
+  collection<T extends StoredRecord>(name: string): Collection<T> {
+    let collection = this.collections.get(name);
+
+    if (!collection) {
+      const filePath = this.storageConfig.driver === "file"
+        ? path.join(this.storageConfig.directory, `${name}.json`)
+        : undefined;
+      collection = new Collection<T>(name, filePath);
+      this.collections.set(name, collection);
+    }
+
+    return collection;
+  }
+}
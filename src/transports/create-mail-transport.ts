@@ -0,0 +1,27 @@
+import { FileTransport } from "./file.transport";
+import { HttpApiTransport } from "./http-api.transport";
+import { MailTransport } from "./mail-transport";
+import { MemoryTransport } from "./memory.transport";
+import { SmtpTransport } from "./smtp.transport";
+
+export type MailTransportName = "smtp" | "http" | "file" | "memory";
+
+export const MAIL_TRANSPORT_NAMES: MailTransportName[] = ["smtp", "http", "file", "memory"];
+
+/**
+ * Builds the transport registered under `name` from the `email` config.
+ */
+export function createMailTransport(name: string, emailConfig: any): MailTransport {
+  switch (name) {
+    case "smtp":
+      return new SmtpTransport(emailConfig);
+    case "http":
+      return new HttpApiTransport(emailConfig.http);
+    case "file":
+      return new FileTransport(emailConfig.file);
+    case "memory":
+      return new MemoryTransport();
+    default:
+      throw new Error(`Unknown email transport "${name}", expected one of: ${MAIL_TRANSPORT_NAMES.join(", ")}`);
+  }
+}
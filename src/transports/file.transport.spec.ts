@@ -0,0 +1,39 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { FileTransport } from "./file.transport";
+
+describe("fileTransport", () => {
+  let directory: string;
+  let transport: FileTransport;
+
+  beforeEach(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), "maildir-"));
+    transport = new FileTransport({ directory });
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should deliver each message as an .eml file in the maildir's new folder", async () => {
+    const result = await transport.send({
+      from: { name: "Penpal AI", address: "noreply@penpal-ai.com" },
+      to: "user@example.com",
+      subject: "Welcome!",
+      text: "Hello",
+      html: "<p>Hello</p>",
+    });
+
+    const files = await fs.promises.readdir(path.join(directory, "new"));
+    const content = await fs.promises.readFile(path.join(directory, "new", files[0]), "utf-8");
+
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/\.eml$/);
+    expect(await fs.promises.readdir(path.join(directory, "tmp"))).toEqual([]);
+    expect(content).toContain("To: user@example.com");
+    expect(content).toContain("Subject: Welcome!");
+    expect(content).toContain(`Message-ID: ${result.messageId}`);
+  });
+});
@@ -0,0 +1,48 @@
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as nodemailer from "nodemailer";
+
+import { DeliveryResult, MailTransport, OutgoingMessage } from "./mail-transport";
+
+export type FileTransportConfig = {
+  directory: string;
+};
+
+/**
+ * Writes each message as an `.eml` file in a maildir (`tmp/`, `new/`, `cur/`)
+ * so that local development never sends real email. Messages are written to
+ * `tmp/` first and moved to `new/` once complete, as mail clients expect.
+ */
+export class FileTransport extends MailTransport {
+  readonly name = "file";
+  private readonly composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  constructor(private readonly config: FileTransportConfig) {
+    super();
+  }
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const info = await this.composer.sendMail(message);
+    const fileName = `${Date.now()}.${randomUUID()}.${os.hostname()}.eml`;
+    const tmpPath = path.join(this.config.directory, "tmp", fileName);
+
+    await this.ensureMaildir();
+    await fs.promises.writeFile(tmpPath, info.message as Buffer);
+    await fs.promises.rename(tmpPath, path.join(this.config.directory, "new", fileName));
+
+    return { messageId: info.messageId };
+  }
+
+  async verify(): Promise<boolean> {
+    await this.ensureMaildir();
+    return true;
+  }
+
+  private async ensureMaildir(): Promise<void> {
+    await Promise.all(["tmp", "new", "cur"].map(folder =>
+      fs.promises.mkdir(path.join(this.config.directory, folder), { recursive: true })));
+  }
+}
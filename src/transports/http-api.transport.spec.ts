@@ -0,0 +1,163 @@
+import { Buffer } from "node:buffer";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+
+import { HttpApiTransport, HttpApiTransportConfig, HttpTransportError } from "./http-api.transport";
+import { OutgoingMessage } from "./mail-transport";
+
+type ReceivedRequest = {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
+
+describe("httpApiTransport", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let reply: { status: number; body: unknown; headers?: Record<string, string> };
+
+  const message: OutgoingMessage = {
+    from: { name: "Penpal AI", address: "noreply@penpal-ai.com" },
+    to: "user@example.com",
+    subject: "Bienvenue !",
+    text: "Bonjour",
+    html: "<p>Bonjour</p>",
+    headers: { "X-Notification-Id": "notif-1" },
+  };
+
+  const createTransport = (config: Partial<HttpApiTransportConfig>) =>
+    new HttpApiTransport({ provider: "sendgrid", apiKey: "test-key", baseUrl, timeoutMs: 1000, ...config });
+
+  beforeAll(async () => {
+    // Local stand-in for the provider APIs
+    server = http.createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => {
+        body += chunk;
+      });
+      request.on("end", () => {
+        received.push({ method: request.method, url: request.url, headers: request.headers, body });
+        response.writeHead(reply.status, { "Content-Type": "application/json", ...reply.headers });
+        response.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    received = [];
+    reply = { status: 202, body: "" };
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe("sendgrid", () => {
+    it("should post a v3 mail/send payload", async () => {
+      reply = { status: 202, body: "", headers: { "X-Message-Id": "sg-123" } };
+
+      const result = await createTransport({ provider: "sendgrid" }).send(message);
+
+      expect(result).toEqual({ messageId: "sg-123" });
+      expect(received[0].url).toBe("/v3/mail/send");
+      expect(received[0].headers.authorization).toBe("Bearer test-key");
+      expect(JSON.parse(received[0].body)).toEqual({
+        personalizations: [{ to: [{ email: "user@example.com" }] }],
+        from: { email: "noreply@penpal-ai.com", name: "Penpal AI" },
+        subject: "Bienvenue !",
+        content: [
+          { type: "text/plain", value: "Bonjour" },
+          { type: "text/html", value: "<p>Bonjour</p>" },
+        ],
+        headers: { "X-Notification-Id": "notif-1" },
+      });
+    });
+
+    it("should send attachments base64-encoded", async () => {
+      const attachments = [{ filename: "facture-PP-2025-0042.pdf", content: Buffer.from("%PDF-1.4"), contentType: "application/pdf" }];
+
+      await createTransport({ provider: "sendgrid" }).send({ ...message, attachments });
+
+      expect(JSON.parse(received[0].body).attachments).toEqual([{
+        content: Buffer.from("%PDF-1.4").toString("base64"),
+        filename: "facture-PP-2025-0042.pdf",
+        type: "application/pdf",
+        disposition: "attachment",
+      }]);
+    });
+  });
+
+  describe("mailgun", () => {
+    it("should post a form to the domain's messages endpoint", async () => {
+      reply = { status: 200, body: { id: "<mg-123@penpal-ai.com>", message: "Queued. Thank you." } };
+
+      const result = await createTransport({ provider: "mailgun", domain: "mg.penpal-ai.com" }).send(message);
+      const form = new URLSearchParams(received[0].body);
+
+      expect(result).toEqual({ messageId: "<mg-123@penpal-ai.com>" });
+      expect(received[0].url).toBe("/v3/mg.penpal-ai.com/messages");
+      expect(received[0].headers.authorization).toBe(`Basic ${Buffer.from("api:test-key").toString("base64")}`);
+      expect(form.get("from")).toBe("\"Penpal AI\" <noreply@penpal-ai.com>");
+      expect(form.get("to")).toBe("user@example.com");
+      expect(form.get("h:X-Notification-Id")).toBe("notif-1");
+    });
+
+    it("should switch to multipart when the message has attachments", async () => {
+      reply = { status: 200, body: { id: "<mg-123@penpal-ai.com>" } };
+      const attachments = [{ filename: "facture-PP-2025-0042.pdf", content: Buffer.from("%PDF-1.4"), contentType: "application/pdf" }];
+
+      await createTransport({ provider: "mailgun", domain: "mg.penpal-ai.com" }).send({ ...message, attachments });
+
+      expect(received[0].headers["content-type"]).toMatch(/^multipart\/form-data; boundary=/);
+      expect(received[0].body).toContain("name=\"attachment\"; filename=\"facture-PP-2025-0042.pdf\"");
+      expect(received[0].body).toContain("%PDF-1.4");
+    });
+  });
+
+  describe("ses", () => {
+    it("should post a signed v2 SendEmail payload", async () => {
+      reply = { status: 200, body: { MessageId: "ses-123" } };
+
+      const result = await createTransport({ provider: "ses", apiSecret: "secret", region: "eu-west-1" }).send(message);
+      const body = JSON.parse(received[0].body);
+
+      expect(result).toEqual({ messageId: "ses-123" });
+      expect(received[0].url).toBe("/v2/email/outbound-emails");
+      expect(received[0].headers.authorization).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=test-key\/\d{8}\/eu-west-1\/ses\/aws4_request, SignedHeaders=content-type;host;x-amz-date, Signature=[0-9a-f]{64}$/,
+      );
+      expect(body.Destination).toEqual({ ToAddresses: ["user@example.com"] });
+      expect(body.Content.Simple.Subject.Data).toBe("Bienvenue !");
+      expect(body.Content.Simple.Headers).toEqual([{ Name: "X-Notification-Id", Value: "notif-1" }]);
+    });
+  });
+
+  describe("errors", () => {
+    it("should expose the provider's status code", async () => {
+      reply = { status: 429, body: { errors: [{ message: "Too many requests" }] } };
+
+      const error = await createTransport({}).send(message).catch(error_ => error_);
+
+      expect(error).toBeInstanceOf(HttpTransportError);
+      expect(error.statusCode).toBe(429);
+      expect(error.message).toContain("Too many requests");
+    });
+
+    it("should let network errors through", async () => {
+      const transport = new HttpApiTransport({ provider: "sendgrid", apiKey: "test-key", baseUrl: "http://127.0.0.1:1", timeoutMs: 1000 });
+
+      await expect(transport.send(message)).rejects.toMatchObject({ code: "ECONNREFUSED" });
+    });
+  });
+
+  describe("verify", () => {
+    it("should require an API key", async () => {
+      expect(await createTransport({}).verify()).toBe(true);
+      expect(await createTransport({ apiKey: "" }).verify()).toBe(false);
+    });
+  });
+});
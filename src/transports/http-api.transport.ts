@@ -0,0 +1,247 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import { Buffer } from "node:buffer";
+import * as crypto from "node:crypto";
+
+import { DeliveryResult, formatAddress, MailTransport, OutgoingMessage } from "./mail-transport";
+
+export type HttpApiProvider = "sendgrid" | "mailgun" | "ses";
+
+export type HttpApiTransportConfig = {
+  provider: HttpApiProvider;
+  /** API key, or the access key id for SES */
+  apiKey: string;
+  /** Secret access key, only used by SES */
+  apiSecret?: string;
+  /** Overrides the provider's endpoint, e.g. to point at a local stub server */
+  baseUrl?: string;
+  /** Sending domain, only used by Mailgun */
+  domain?: string;
+  /** Only used by SES */
+  region?: string;
+  timeoutMs: number;
+};
+
+type ProviderRequest = AxiosRequestConfig & {
+  url: string;
+  data: string | FormData;
+};
+
+/**
+ * Raised when the provider answered with an error status, so that the queue
+ * can tell rate limiting and outages (retried) from rejected messages.
+ */
+export class HttpTransportError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = HttpTransportError.name;
+  }
+}
+
+const DEFAULT_BASE_URLS: Record<HttpApiProvider, (config: HttpApiTransportConfig) => string> = {
+  sendgrid: () => "https://api.sendgrid.com",
+  mailgun: () => "https://api.mailgun.net",
+  ses: config => `https://email.${config.region}.amazonaws.com`,
+};
+
+/**
+ * Sends through a provider's HTTP API instead of SMTP. Supports the SendGrid
+ * v3, Mailgun v3 and SES v2 request formats.
+ */
+export class HttpApiTransport extends MailTransport {
+  readonly name = "http";
+  private readonly client: AxiosInstance;
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: HttpApiTransportConfig) {
+    super();
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URLS[config.provider](config)).replace(/\/$/, "");
+    this.client = axios.create({ baseURL: this.baseUrl, timeout: config.timeoutMs });
+  }
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const request = this.buildRequest(message);
+
+    try {
+      const response = await this.client.request({ method: "POST", ...request });
+
+      return {
+        messageId: response.headers["x-message-id"] ?? response.data?.id ?? response.data?.MessageId,
+      };
+    }
+    catch (error) {
+      if (error.response) {
+        const body = typeof error.response.data === "string" ? error.response.data : JSON.stringify(error.response.data);
+        throw new HttpTransportError(`${this.config.provider} API responded with ${error.response.status}: ${body}`, error.response.status);
+      }
+      throw error;
+    }
+  }
+
+  async verify(): Promise<boolean> {
+    return Boolean(this.config.apiKey);
+  }
+
+  private buildRequest(message: OutgoingMessage): ProviderRequest {
+    switch (this.config.provider) {
+      case "sendgrid":
+        return this.buildSendGridRequest(message);
+      case "mailgun":
+        return this.buildMailgunRequest(message);
+      case "ses":
+        return this.buildSesRequest(message);
+      default:
+        throw new Error(`Unsupported HTTP email provider: ${this.config.provider}`);
+    }
+  }
+
+  private buildSendGridRequest(message: OutgoingMessage): ProviderRequest {
+    return {
+      url: "/v3/mail/send",
+      headers: {
+        "Authorization": `Bearer ${this.config.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      data: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: message.from.address, name: message.from.name },
+        subject: message.subject,
+        content: [
+          { type: "text/plain", value: message.text },
+          { type: "text/html", value: message.html },
+        ],
+        ...(message.headers && { headers: message.headers }),
+        ...(message.attachments?.length && {
+          attachments: message.attachments.map(attachment => ({
+            content: attachment.content.toString("base64"),
+            filename: attachment.filename,
+            type: attachment.contentType,
+            disposition: attachment.cid ? "inline" : "attachment",
+            ...(attachment.cid && { content_id: attachment.cid }),
+          })),
+        }),
+      }),
+    };
+  }
+
+  /**
+   * Messages with attachments are sent as multipart, the others as a plain
+   * form. Mailgun references inline attachments by file name, so their file
+   * name is their Content-ID.
+   */
+  private buildMailgunRequest(message: OutgoingMessage): ProviderRequest {
+    const fields: [string, string][] = [
+      ["from", formatAddress(message.from)],
+      ["to", message.to],
+      ["subject", message.subject],
+      ["text", message.text],
+      ["html", message.html],
+      ...Object.entries(message.headers ?? {}).map(([name, value]): [string, string] => [`h:${name}`, value]),
+    ];
+    const authorization = `Basic ${Buffer.from(`api:${this.config.apiKey}`).toString("base64")}`;
+    const url = `/v3/${this.config.domain}/messages`;
+
+    if (!message.attachments?.length) {
+      return {
+        url,
+        headers: {
+          "Authorization": authorization,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        data: new URLSearchParams(fields).toString(),
+      };
+    }
+
+    const form = new FormData();
+    for (const [name, value] of fields) {
+      form.append(name, value);
+    }
+    for (const attachment of message.attachments) {
+      const blob = new Blob([attachment.content], { type: attachment.contentType });
+      form.append(attachment.cid ? "inline" : "attachment", blob, attachment.cid ?? attachment.filename);
+    }
+
+    return { url, headers: { Authorization: authorization }, data: form };
+  }
+
+  private buildSesRequest(message: OutgoingMessage): ProviderRequest {
+    const path = "/v2/email/outbound-emails";
+    const data = JSON.stringify({
+      FromEmailAddress: formatAddress(message.from),
+      Destination: { ToAddresses: [message.to] },
+      Content: {
+        Simple: {
+          Subject: { Data: message.subject, Charset: "UTF-8" },
+          Body: {
+            Text: { Data: message.text, Charset: "UTF-8" },
+            Html: { Data: message.html, Charset: "UTF-8" },
+          },
+          ...(message.headers && {
+            Headers: Object.entries(message.headers).map(([Name, Value]) => ({ Name, Value })),
+          }),
+          ...(message.attachments?.length && {
+            Attachments: message.attachments.map(attachment => ({
+              RawContent: attachment.content.toString("base64"),
+              FileName: attachment.filename,
+              ContentType: attachment.contentType,
+              ContentDisposition: attachment.cid ? "INLINE" : "ATTACHMENT",
+              ...(attachment.cid && { ContentId: attachment.cid }),
+            })),
+          }),
+        },
+      },
+    });
+
+    return {
+      url: path,
+      headers: this.signAwsRequest("POST", path, data, { "content-type": "application/json" }),
+      data,
+    };
+  }
+
+  /**
+   * Signs a request with AWS Signature Version 4 and returns the headers to send.
+   */
+  private signAwsRequest(method: string, path: string, body: string, headers: Record<string, string>): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/ses/aws4_request`;
+
+    const signedHeaders: Record<string, string> = {
+      ...headers,
+      "host": new URL(this.baseUrl).host,
+      "x-amz-date": amzDate,
+    };
+    const headerNames = Object.keys(signedHeaders).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      "",
+      ...headerNames.map(name => `${name}:${signedHeaders[name].trim()}`),
+      "",
+      headerNames.join(";"),
+      sha256(body),
+    ].join("\n");
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+
+    const signingKey = [dateStamp, this.config.region!, "ses", "aws4_request"]
+      .reduce<Buffer | string>((key, part) => hmac(key, part), `AWS4${this.config.apiSecret}`);
+    const signature = hmac(signingKey, stringToSign).toString("hex");
+
+    return {
+      ...headers,
+      "x-amz-date": amzDate,
+      "Authorization": `AWS4-HMAC-SHA256 Credential=${this.config.apiKey}/${scope}, SignedHeaders=${headerNames.join(";")}, Signature=${signature}`,
+    };
+  }
+}
+
+function sha256(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return crypto.createHmac("sha256", key).update(value).digest();
+}
@@ -0,0 +1,46 @@
+import { Buffer } from "node:buffer";
+
+export type MailAddress = {
+  name: string;
+  address: string;
+};
+
+export type MailAttachment = {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+  /** Content-ID of an inline attachment, referenced as `cid:<cid>` by the HTML */
+  cid?: string;
+};
+
+export type OutgoingMessage = {
+  from: MailAddress;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+  attachments?: MailAttachment[];
+};
+
+export type DeliveryResult = {
+  messageId?: string;
+};
+
+/**
+ * A way of handing a rendered email over for delivery. Implementations throw
+ * on failure so that the caller can fail over to the next transport.
+ */
+export abstract class MailTransport {
+  abstract readonly name: string;
+
+  abstract send(message: OutgoingMessage): Promise<DeliveryResult>;
+
+  async verify(): Promise<boolean> {
+    return true;
+  }
+}
+
+export function formatAddress(address: MailAddress): string {
+  return address.name ? `"${address.name.replace(/"/g, "'")}" <${address.address}>` : address.address;
+}
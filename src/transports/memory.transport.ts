@@ -0,0 +1,26 @@
+import { randomUUID } from "node:crypto";
+
+import { DeliveryResult, MailTransport, OutgoingMessage } from "./mail-transport";
+
+export type CapturedMessage = OutgoingMessage & {
+  messageId: string;
+  sentAt: Date;
+};
+
+/**
+ * Keeps sent messages in memory instead of delivering them, for tests.
+ */
+export class MemoryTransport extends MailTransport {
+  readonly name = "memory";
+  readonly messages: CapturedMessage[] = [];
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const messageId = `<${randomUUID()}@memory>`;
+    this.messages.push({ ...message, messageId, sentAt: new Date() });
+    return { messageId };
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
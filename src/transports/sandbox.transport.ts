@@ -0,0 +1,18 @@
+import { SandboxService } from "../services/sandbox.service";
+import { DeliveryResult, MailTransport, OutgoingMessage } from "./mail-transport";
+
+/**
+ * Captures messages in the sandbox mailbox instead of delivering them.
+ */
+export class SandboxTransport extends MailTransport {
+  readonly name = "sandbox";
+
+  constructor(private readonly sandboxService: SandboxService) {
+    super();
+  }
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const captured = await this.sandboxService.capture(message);
+    return { messageId: captured.messageId };
+  }
+}
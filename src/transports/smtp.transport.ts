@@ -0,0 +1,44 @@
+import * as nodemailer from "nodemailer";
+
+import { DeliveryResult, MailTransport, OutgoingMessage } from "./mail-transport";
+
+export type SmtpTransportConfig = {
+  host: string;
+  port: number;
+  secure: boolean;
+  auth: {
+    user: string;
+    pass: string;
+  };
+};
+
+export class SmtpTransport extends MailTransport {
+  readonly name = "smtp";
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(config: SmtpTransportConfig) {
+    super();
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: {
+        user: config.auth.user,
+        pass: config.auth.pass,
+      },
+      tls: {
+        rejectUnauthorized: false,
+      },
+    });
+  }
+
+  async send(message: OutgoingMessage): Promise<DeliveryResult> {
+    const info = await this.transporter.sendMail(message);
+    return { messageId: info.messageId };
+  }
+
+  async verify(): Promise<boolean> {
+    await this.transporter.verify();
+    return true;
+  }
+}
@@ -0,0 +1,41 @@
+import { HttpException, HttpStatus } from "@nestjs/common";
+
+/**
+ * Stable error codes returned in every error response. Callers should branch
+ * on these (and on `retryable`) rather than on messages, which may change.
+ */
+export const API_ERRORS = {
+  VALIDATION_FAILED: { status: HttpStatus.BAD_REQUEST, retryable: false, description: "The request or the template data is invalid" },
+  BAD_REQUEST: { status: HttpStatus.BAD_REQUEST, retryable: false, description: "The request cannot be processed as sent" },
+  UNAUTHORIZED: { status: HttpStatus.UNAUTHORIZED, retryable: false, description: "Missing or invalid credentials" },
+  FORBIDDEN: { status: HttpStatus.FORBIDDEN, retryable: false, description: "The credentials lack a required scope" },
+  NOT_FOUND: { status: HttpStatus.NOT_FOUND, retryable: false, description: "The resource does not exist" },
+  TEMPLATE_NOT_FOUND: { status: HttpStatus.NOT_FOUND, retryable: false, description: "The template does not exist" },
+  IDEMPOTENCY_CONFLICT: { status: HttpStatus.UNPROCESSABLE_ENTITY, retryable: false, description: "The Idempotency-Key was used with a different payload" },
+  ADDRESS_SUPPRESSED: { status: HttpStatus.UNPROCESSABLE_ENTITY, retryable: false, description: "The address is on the suppression list" },
+  RATE_LIMITED: { status: HttpStatus.TOO_MANY_REQUESTS, retryable: true, description: "A rate limit was exceeded, retry after `details.retryAfterSeconds`" },
+  TRANSPORT_UNAVAILABLE: { status: HttpStatus.SERVICE_UNAVAILABLE, retryable: true, description: "The email provider cannot be reached" },
+  INTERNAL_ERROR: { status: HttpStatus.INTERNAL_SERVER_ERROR, retryable: true, description: "Unexpected error" },
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERRORS;
+
+export const API_ERROR_CODES = Object.keys(API_ERRORS) as ApiErrorCode[];
+
+/**
+ * An HTTP error carrying one of the stable codes, from which the status and
+ * whether to retry are derived.
+ */
+export class ApiError extends HttpException {
+  constructor(
+    readonly code: ApiErrorCode,
+    message: string,
+    readonly details?: Record<string, any> | string[],
+  ) {
+    super(message, API_ERRORS[code].status);
+  }
+
+  get retryable(): boolean {
+    return API_ERRORS[this.code].retryable;
+  }
+}
@@ -0,0 +1,116 @@
+import { getSnsSubscribeUrl, parseDsn, parseMailgunEvent, parseSendgridEvents, parseSesNotification } from "./bounce-parsers";
+
+describe("bounce parsers", () => {
+  describe("parseSendgridEvents", () => {
+    it("should keep bounces and spam reports", () => {
+      expect(parseSendgridEvents([
+        { email: "bounced@example.com", event: "bounce", type: "bounce", reason: "550 5.1.1 User unknown" },
+        { email: "blocked@example.com", event: "bounce", type: "blocked" },
+        { email: "spam@example.com", event: "spamreport" },
+        { email: "ok@example.com", event: "delivered" },
+      ])).toEqual([
+        { address: "bounced@example.com", reason: "hard-bounce", detail: "550 5.1.1 User unknown" },
+        { address: "spam@example.com", reason: "complaint" },
+      ]);
+    });
+
+    it("should ignore bodies that are not event lists", () => {
+      expect(parseSendgridEvents({ email: "bounced@example.com", event: "bounce" })).toEqual([]);
+    });
+  });
+
+  describe("parseMailgunEvent", () => {
+    it("should keep permanent failures", () => {
+      expect(parseMailgunEvent({
+        "signature": {},
+        "event-data": {
+          "event": "failed",
+          "severity": "permanent",
+          "recipient": "bounced@example.com",
+          "delivery-status": { message: "No such user" },
+        },
+      })).toEqual([{ address: "bounced@example.com", reason: "hard-bounce", detail: "No such user" }]);
+    });
+
+    it("should ignore temporary failures", () => {
+      expect(parseMailgunEvent({ "event-data": { event: "failed", severity: "temporary", recipient: "full@example.com" } })).toEqual([]);
+    });
+
+    it("should keep complaints", () => {
+      expect(parseMailgunEvent({ "event-data": { event: "complained", recipient: "spam@example.com" } }))
+        .toEqual([{ address: "spam@example.com", reason: "complaint" }]);
+    });
+  });
+
+  describe("parseSesNotification", () => {
+    const snsNotification = (message: Record<string, any>) => JSON.stringify({ Type: "Notification", Message: JSON.stringify(message) });
+
+    it("should keep permanent bounces from a text body", () => {
+      expect(parseSesNotification(snsNotification({
+        notificationType: "Bounce",
+        bounce: {
+          bounceType: "Permanent",
+          bouncedRecipients: [{ emailAddress: "bounced@example.com", diagnosticCode: "smtp; 550 5.1.1 user unknown" }],
+        },
+      }))).toEqual([{ address: "bounced@example.com", reason: "hard-bounce", detail: "smtp; 550 5.1.1 user unknown" }]);
+    });
+
+    it("should ignore transient bounces", () => {
+      expect(parseSesNotification(snsNotification({
+        notificationType: "Bounce",
+        bounce: { bounceType: "Transient", bouncedRecipients: [{ emailAddress: "full@example.com" }] },
+      }))).toEqual([]);
+    });
+
+    it("should keep complaints", () => {
+      expect(parseSesNotification(snsNotification({
+        eventType: "Complaint",
+        complaint: { complaintFeedbackType: "abuse", complainedRecipients: [{ emailAddress: "spam@example.com" }] },
+      }))).toEqual([{ address: "spam@example.com", reason: "complaint", detail: "abuse" }]);
+    });
+
+    it("should return the subscription URL of SNS confirmations", () => {
+      const body = { Type: "SubscriptionConfirmation", SubscribeURL: "https://sns.eu-west-1.amazonaws.com/?Action=ConfirmSubscription" };
+
+      expect(parseSesNotification(body)).toEqual([]);
+      expect(getSnsSubscribeUrl(JSON.stringify(body))).toBe(body.SubscribeURL);
+      expect(getSnsSubscribeUrl("not json")).toBeUndefined();
+    });
+  });
+
+  describe("parseDsn", () => {
+    it("should keep permanent failures of a delivery status notification", () => {
+      const dsn = [
+        "Content-Type: message/delivery-status",
+        "",
+        "Reporting-MTA: dns; mail.penpal-ai.com",
+        "",
+        "Final-Recipient: rfc822; bounced@example.com",
+        "Action: failed",
+        "Status: 5.1.1",
+        "Diagnostic-Code: smtp; 550 5.1.1 The email account",
+        "  that you tried to reach does not exist",
+        "",
+        "Final-Recipient: rfc822; full@example.com",
+        "Action: delayed",
+        "Status: 4.2.2",
+      ].join("\r\n");
+
+      expect(parseDsn(dsn)).toEqual([{
+        address: "bounced@example.com",
+        reason: "hard-bounce",
+        detail: "550 5.1.1 The email account that you tried to reach does not exist",
+      }]);
+    });
+
+    it("should keep abuse reports", () => {
+      const report = ["Feedback-Type: abuse", "User-Agent: SomeGenerator/1.0", "Version: 1", "Original-Rcpt-To: spam@example.com"].join("\n");
+
+      expect(parseDsn(report)).toEqual([{ address: "spam@example.com", reason: "complaint" }]);
+    });
+
+    it("should ignore bodies that are not text", () => {
+      expect(parseDsn({ message: "Final-Recipient: rfc822; bounced@example.com" })).toEqual([]);
+    });
+  });
+});
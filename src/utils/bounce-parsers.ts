@@ -0,0 +1,150 @@
+/**
+ * Turns the bounce and complaint notifications of each provider into the
+ * addresses to suppress. Soft bounces (full mailbox, greylisting...) are
+ * ignored: the queue already retries them.
+ */
+
+export type BounceEvent = {
+  address: string;
+  reason: "hard-bounce" | "complaint";
+  detail?: string;
+};
+
+export type BounceParser = (body: unknown) => BounceEvent[];
+
+/**
+ * SendGrid event webhook: a JSON array of events.
+ */
+export const parseSendgridEvents: BounceParser = (body) => {
+  const events = Array.isArray(body) ? body : [];
+
+  return events.flatMap((event): BounceEvent[] => {
+    if (event?.event === "bounce" && event.type !== "blocked") {
+      return [{ address: event.email, reason: "hard-bounce", detail: event.reason }];
+    }
+    if (event?.event === "spamreport") {
+      return [{ address: event.email, reason: "complaint" }];
+    }
+    return [];
+  }).filter(isValidEvent);
+};
+
+/**
+ * Mailgun webhook: one event per request, under `event-data`.
+ */
+export const parseMailgunEvent: BounceParser = (body) => {
+  const event = (body as any)?.["event-data"];
+
+  if (event?.event === "failed" && event.severity === "permanent") {
+    const status = event["delivery-status"] ?? {};
+    return [{ address: event.recipient, reason: "hard-bounce" as const, detail: status.message || status.description || undefined }].filter(isValidEvent);
+  }
+  if (event?.event === "complained") {
+    return [{ address: event.recipient, reason: "complaint" as const }].filter(isValidEvent);
+  }
+  return [];
+};
+
+/**
+ * SES notification, delivered by SNS. SNS posts it as text/plain, so the
+ * body may still be a string.
+ */
+export const parseSesNotification: BounceParser = (body) => {
+  const envelope = parseJson(body);
+  if (envelope?.Type !== "Notification") {
+    return [];
+  }
+
+  const notification = parseJson(envelope.Message);
+  const type = notification?.notificationType ?? notification?.eventType;
+
+  if (type === "Bounce" && notification.bounce?.bounceType === "Permanent") {
+    return (notification.bounce.bouncedRecipients ?? []).map((recipient: any) => ({
+      address: recipient.emailAddress,
+      reason: "hard-bounce" as const,
+      detail: recipient.diagnosticCode,
+    })).filter(isValidEvent);
+  }
+  if (type === "Complaint") {
+    return (notification.complaint?.complainedRecipients ?? []).map((recipient: any) => ({
+      address: recipient.emailAddress,
+      reason: "complaint" as const,
+      detail: notification.complaint.complaintFeedbackType,
+    })).filter(isValidEvent);
+  }
+  return [];
+};
+
+/**
+ * Returns the URL to visit to confirm an SNS subscription, when the body is
+ * SNS asking for that confirmation rather than a notification.
+ */
+export function getSnsSubscribeUrl(body: unknown): string | undefined {
+  const envelope = parseJson(body);
+  return envelope?.Type === "SubscriptionConfirmation" ? envelope.SubscribeURL : undefined;
+}
+
+/**
+ * Delivery status notification (RFC 3464) or abuse report (RFC 5965), as the
+ * raw message. Only the per-recipient fields are read, which is enough to
+ * tell permanent failures (5.x.x) apart and does not need a MIME parser.
+ */
+export const parseDsn: BounceParser = (body) => {
+  if (typeof body !== "string") {
+    return [];
+  }
+
+  return splitFieldBlocks(body).flatMap((fields): BounceEvent[] => {
+    const recipient = stripAddressType(fields.get("final-recipient") ?? fields.get("original-recipient"));
+    if (recipient && fields.get("action")?.toLowerCase() === "failed" && fields.get("status")?.startsWith("5")) {
+      return [{ address: recipient, reason: "hard-bounce", detail: stripAddressType(fields.get("diagnostic-code")) ?? fields.get("status") }];
+    }
+
+    const complainant = fields.get("original-rcpt-to");
+    if (complainant && fields.get("feedback-type")?.toLowerCase() === "abuse") {
+      return [{ address: complainant, reason: "complaint" }];
+    }
+    return [];
+  }).filter(isValidEvent);
+};
+
+function isValidEvent(event: BounceEvent): boolean {
+  return typeof event.address === "string" && event.address.includes("@");
+}
+
+function parseJson(value: unknown): any {
+  if (typeof value !== "string") {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  }
+  catch {
+    return undefined;
+  }
+}
+
+/**
+ * Splits the message into blocks of header-like fields separated by blank
+ * lines, unfolding continuation lines. Field names are lowercased.
+ */
+function splitFieldBlocks(message: string): Map<string, string>[] {
+  return message.replace(/\r\n/g, "\n").replace(/\n[ \t]+/g, " ").split(/\n\s*\n/).map((block) => {
+    const fields = new Map<string, string>();
+    for (const line of block.split("\n")) {
+      const match = line.match(/^([\w-]+):(.*)$/);
+      if (match && !fields.has(match[1].toLowerCase())) {
+        fields.set(match[1].toLowerCase(), match[2].trim());
+      }
+    }
+    return fields;
+  });
+}
+
+/**
+ * "rfc822; jane@example.com" -> "jane@example.com"
+ */
+function stripAddressType(value?: string): string | undefined {
+  return value?.replace(/^[\w-]+;\s*/, "").trim() || undefined;
+}
@@ -0,0 +1,38 @@
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNABORTED",
+  "ECONNECTION",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EDNS",
+  "ESOCKET",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+]);
+
+/**
+ * Tells whether a failed delivery is worth retrying.
+ *
+ * Network failures, SMTP 4xx replies and HTTP API 429/5xx responses are
+ * transient; SMTP 5xx replies, other HTTP API errors, authentication problems
+ * and template errors are permanent.
+ */
+export function isTransientDeliveryError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+
+  const statusCode = Number(error.statusCode);
+  if (statusCode >= 400) {
+    return statusCode === 429 || statusCode >= 500;
+  }
+
+  const responseCode = Number(error.responseCode);
+  if (responseCode >= 400 && responseCode < 500) {
+    return true;
+  }
+  if (responseCode >= 500) {
+    return false;
+  }
+
+  return TRANSIENT_ERROR_CODES.has(error.code);
+}
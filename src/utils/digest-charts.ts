@@ -0,0 +1,87 @@
+import { Buffer } from "node:buffer";
+
+import { MailAttachment } from "../transports/mail-transport";
+import { PngImage } from "./png-image";
+import { WeeklyDigestEmailData } from "./template.service";
+
+/** Width the charts are shown at in the email, in CSS pixels: 7 days of 68px */
+export const DIGEST_CHART_WIDTH = 476;
+
+export const MINUTES_CHART_HEIGHT = 120;
+
+export const LANGUAGES_CHART_HEIGHT = 24;
+
+/** Colors of the languages, in the order of the payload, shared by the chart and its legend */
+export const LANGUAGE_COLORS = ["#4a90e2", "#f39c12", "#27ae60", "#9b59b6", "#e74c3c", "#16a085"];
+
+/** Charts are drawn at twice their size, to stay sharp on high density screens */
+const SCALE = 2;
+
+const BAR_COLOR = "#4a90e2";
+const AXIS_COLOR = "#d0d7de";
+const GRID_COLOR = "#eef2f5";
+
+/**
+ * Charts of a weekly digest, as inline attachments referenced by the
+ * template with `cid:minutes-chart` and `cid:languages-chart`. A chart is
+ * left out when the digest has no data for it.
+ */
+export function renderDigestCharts(data: WeeklyDigestEmailData): MailAttachment[] {
+  const charts: MailAttachment[] = [];
+  if (data.dailyMinutes?.some(minutes => minutes > 0)) {
+    charts.push({ filename: "minutes-chart.png", content: renderMinutesChart(data.dailyMinutes), contentType: "image/png", cid: "minutes-chart" });
+  }
+  if (data.languages?.some(language => language.minutes > 0)) {
+    const minutes = data.languages.map(language => language.minutes);
+    charts.push({ filename: "languages-chart.png", content: renderLanguagesChart(minutes), contentType: "image/png", cid: "languages-chart" });
+  }
+
+  return charts;
+}
+
+/**
+ * One bar per day, on a scale going up to the best day. Days without practice
+ * keep a stub, so that the week still reads as seven days.
+ */
+export function renderMinutesChart(dailyMinutes: number[]): Buffer {
+  const width = DIGEST_CHART_WIDTH * SCALE;
+  const height = MINUTES_CHART_HEIGHT * SCALE;
+  const axisHeight = 2 * SCALE;
+  const plotHeight = height - axisHeight - 4 * SCALE;
+  const slot = width / dailyMinutes.length;
+  const barWidth = Math.round(slot * 0.6);
+  const max = Math.max(...dailyMinutes, 1);
+  const image = new PngImage(width, height);
+
+  for (const fraction of [0.25, 0.5, 0.75, 1]) {
+    image.rect(0, height - axisHeight - Math.round(plotHeight * fraction), width, SCALE, GRID_COLOR);
+  }
+  for (const [day, minutes] of dailyMinutes.entries()) {
+    const barHeight = minutes > 0 ? Math.max(Math.round((plotHeight * minutes) / max), SCALE) : 3 * SCALE;
+    image.rect(day * slot + (slot - barWidth) / 2, height - axisHeight - barHeight, barWidth, barHeight, minutes > 0 ? BAR_COLOR : AXIS_COLOR);
+  }
+  image.rect(0, height - axisHeight, width, axisHeight, AXIS_COLOR);
+
+  return image.toBuffer();
+}
+
+/**
+ * A single bar split between the languages, in proportion to the minutes
+ * practised in each.
+ */
+export function renderLanguagesChart(minutes: number[]): Buffer {
+  const width = DIGEST_CHART_WIDTH * SCALE;
+  const height = LANGUAGES_CHART_HEIGHT * SCALE;
+  const total = minutes.reduce((sum, value) => sum + value, 0);
+  const image = new PngImage(width, height);
+
+  let x = 0;
+  for (const [index, value] of minutes.entries()) {
+    const segment = Math.round((width * value) / total);
+    // A white gap separates the segments
+    image.rect(x, 0, segment - (x + segment < width ? SCALE : 0), height, LANGUAGE_COLORS[index % LANGUAGE_COLORS.length]);
+    x += segment;
+  }
+
+  return image.toBuffer();
+}
@@ -0,0 +1,230 @@
+import { Buffer } from "node:buffer";
+
+export type PdfTextOptions = {
+  size?: number;
+  bold?: boolean;
+  /** `x` is the right edge of right-aligned text */
+  align?: "left" | "right";
+};
+
+export type PdfInfo = {
+  title: string;
+  creationDate: Date;
+};
+
+/** A4, in points */
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+/** Helvetica advance widths of the printable ASCII characters, per 1000 units of font size */
+const HELVETICA_WIDTHS = [
+  278,
+  278,
+  355,
+  556,
+  556,
+  889,
+  667,
+  191,
+  333,
+  333,
+  389,
+  584,
+  278,
+  333,
+  278,
+  278,
+  556,
+  556,
+  556,
+  556,
+  556,
+  556,
+  556,
+  556,
+  556,
+  556,
+  278,
+  278,
+  584,
+  584,
+  584,
+  556,
+  1015,
+  667,
+  667,
+  722,
+  722,
+  667,
+  611,
+  778,
+  722,
+  278,
+  500,
+  667,
+  556,
+  833,
+  722,
+  778,
+  667,
+  778,
+  722,
+  667,
+  611,
+  722,
+  667,
+  944,
+  667,
+  667,
+  611,
+  278,
+  278,
+  278,
+  469,
+  556,
+  333,
+  556,
+  556,
+  500,
+  556,
+  556,
+  278,
+  556,
+  556,
+  222,
+  222,
+  500,
+  222,
+  833,
+  556,
+  556,
+  556,
+  556,
+  333,
+  500,
+  278,
+  556,
+  500,
+  722,
+  500,
+  500,
+  500,
+  334,
+  260,
+  334,
+  584,
+];
+
+/** Characters outside Latin-1 that WinAnsiEncoding still has */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+  "œ": 0x9C,
+  "Œ": 0x8C,
+  // Narrow no-break space, used by Intl as the French thousands separator
+  "\u202F": 0xA0,
+};
+
+/**
+ * Minimal writer for single-page PDF documents made of text and lines, in
+ * the standard Helvetica fonts, which every viewer has. Coordinates are in
+ * points from the top left corner of an A4 page.
+ */
+export class PdfDocument {
+  readonly width = PAGE_WIDTH;
+  readonly height = PAGE_HEIGHT;
+  private readonly operations: string[] = [];
+
+  text(x: number, y: number, value: string, { size = 10, bold = false, align = "left" }: PdfTextOptions = {}): this {
+    const encoded = encodeWinAnsi(value);
+    const left = align === "right" ? x - measure(encoded, size) : x;
+
+    this.operations.push(`BT /${bold ? "F2" : "F1"} ${size} Tf ${round(left)} ${round(this.height - y)} Td <${encoded.toString("hex")}> Tj ET`);
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): this {
+    this.operations.push(`${width} w ${round(x1)} ${round(this.height - y1)} m ${round(x2)} ${round(this.height - y2)} l S`);
+    return this;
+  }
+
+  /**
+   * The output only depends on what was drawn and on `info`, so that the same
+   * document can be rendered again byte for byte.
+   */
+  toBuffer(info: PdfInfo): Buffer {
+    const content = this.operations.join("\n");
+    const objects = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+      `<< /Title <${encodeUtf16(info.title)}> /Producer (Penpal AI) /CreationDate (${formatPdfDate(info.creationDate)}) >>`,
+    ];
+
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (const [index, object] of objects.entries()) {
+      offsets.push(Buffer.byteLength(output, "latin1"));
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+  }
+}
+
+/**
+ * Characters the standard fonts cannot show are replaced with `?`.
+ */
+function encodeWinAnsi(value: string): Buffer {
+  return Buffer.from(Array.from(value, (character) => {
+    const code = character.codePointAt(0)!;
+    if (WIN_ANSI_EXTRAS[character] !== undefined) {
+      return WIN_ANSI_EXTRAS[character];
+    }
+    return (code >= 0x20 && code <= 0x7E) || (code >= 0xA0 && code <= 0xFF) ? code : 0x3F;
+  }));
+}
+
+/**
+ * Text width in points. Characters outside ASCII other than the no-break
+ * space are counted as wide as a digit, close enough to align amounts.
+ */
+function measure(encoded: Buffer, size: number): number {
+  let width = 0;
+  for (const code of encoded) {
+    width += HELVETICA_WIDTHS[code === 0xA0 ? 0 : code - 0x20] ?? 556;
+  }
+  return (width * size) / 1000;
+}
+
+/** Text strings outside the page content, such as the title, are UTF-16BE with a byte order mark */
+function encodeUtf16(value: string): string {
+  const encoded = Buffer.from(`\uFEFF${value}`, "utf16le");
+  return encoded.swap16().toString("hex");
+}
+
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]|\.\d{3}/g, "").slice(0, 14)}Z`;
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
@@ -0,0 +1,87 @@
+import { Buffer } from "node:buffer";
+import { crc32, deflateSync } from "node:zlib";
+
+/** `#rrggbb` */
+export type PngColor = string;
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+
+/**
+ * Minimal writer for PNG images made of filled rectangles, enough to draw the
+ * bar charts of emails without an image library. Coordinates are in pixels
+ * from the top left corner; shapes are clipped to the image.
+ */
+export class PngImage {
+  private readonly pixels: Buffer;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    background: PngColor = "#ffffff",
+  ) {
+    this.pixels = Buffer.alloc(width * height * 3);
+    this.rect(0, 0, width, height, background);
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: PngColor): this {
+    const [red, green, blue] = parseColor(color);
+    const left = Math.max(0, Math.round(x));
+    const top = Math.max(0, Math.round(y));
+    const right = Math.min(this.width, Math.round(x + width));
+    const bottom = Math.min(this.height, Math.round(y + height));
+
+    for (let row = top; row < bottom; row++) {
+      for (let column = left; column < right; column++) {
+        const offset = (row * this.width + column) * 3;
+        this.pixels[offset] = red;
+        this.pixels[offset + 1] = green;
+        this.pixels[offset + 2] = blue;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * 8-bit RGB, without filtering: flat charts compress well as they are.
+   */
+  toBuffer(): Buffer {
+    const rowLength = this.width * 3;
+    const scanlines = Buffer.alloc((rowLength + 1) * this.height);
+    for (let row = 0; row < this.height; row++) {
+      // Each scanline starts with its filter type, 0 for none
+      this.pixels.copy(scanlines, row * (rowLength + 1) + 1, row * rowLength, (row + 1) * rowLength);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    // Bit depth, color type (truecolor), compression, filter and interlace methods
+    header.set([8, 2, 0, 0, 0], 8);
+
+    return Buffer.concat([
+      SIGNATURE,
+      chunk("IHDR", header),
+      chunk("IDAT", deflateSync(scanlines)),
+      chunk("IEND", Buffer.alloc(0)),
+    ]);
+  }
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE(crc32(typeAndData));
+
+  return Buffer.concat([length, typeAndData, checksum]);
+}
+
+function parseColor(color: PngColor): [number, number, number] {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!match) {
+    throw new Error(`Invalid color: ${color}`);
+  }
+
+  return [Number.parseInt(match[1], 16), Number.parseInt(match[2], 16), Number.parseInt(match[3], 16)];
+}
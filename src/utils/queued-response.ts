@@ -0,0 +1,18 @@
+import { NotificationResponseDto } from "../dto/notification.dto";
+import { EmailJob } from "../services/email-queue.service";
+
+/**
+ * Response of the send routes: the job that was queued, or why the email is
+ * not sent.
+ */
+export function toQueuedResponse(job: EmailJob, description: string): NotificationResponseDto {
+  return {
+    success: true,
+    message: job.suppression
+      ? `${description} not sent: ${job.suppression.reason}${job.suppression.category ? ` (${job.suppression.category})` : ""}`
+      : `${description} queued for delivery`,
+    jobId: job.id,
+    suppression: job.suppression,
+    timestamp: new Date(),
+  };
+}
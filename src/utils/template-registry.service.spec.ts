@@ -0,0 +1,109 @@
+import { Logger } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { TemplateRegistryService } from "./template-registry.service";
+
+describe("templateRegistryService", () => {
+  let service: TemplateRegistryService;
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "error").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TemplateRegistryService],
+    }).compile();
+
+    service = module.get<TemplateRegistryService>(TemplateRegistryService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("discovery", () => {
+    it("should list the templates found in the templates directory", async () => {
+      const names = (await service.list()).map(definition => definition.name);
+
+      expect(names).toEqual(expect.arrayContaining(["welcome", "subscription"]));
+    });
+
+    it("should expose the manifest of a template", async () => {
+      const definition = await service.find("welcome");
+
+      expect(definition?.subject).toBe("Bienvenue dans Penpal AI ! 🎉");
+      expect(definition?.schema.required).toEqual(["firstName", "lastName", "provider"]);
+    });
+
+    it("should expose the category of each template", async () => {
+      expect((await service.find("welcome"))?.category).toBe("transactional");
+      expect((await service.find("subscription"))?.category).toBe("billing");
+    });
+
+    it("should not find unknown templates", async () => {
+      expect(await service.exists("does-not-exist")).toBe(false);
+    });
+
+    it("should refuse names that could escape the templates directory", async () => {
+      expect(service.isValidName("../secrets")).toBe(false);
+      expect(service.isValidName("Welcome")).toBe(false);
+      expect(await service.find("../welcome")).toBeUndefined();
+    });
+  });
+
+  describe("validate", () => {
+    it("should accept data matching the template schema", async () => {
+      const result = await service.validate("welcome", {
+        firstName: "John",
+        lastName: "Doe",
+        provider: "google",
+      });
+
+      expect(result).toEqual({ valid: true, errors: [] });
+    });
+
+    it("should report every schema violation", async () => {
+      const result = await service.validate("subscription", {
+        firstName: "John",
+        plan: "weekly",
+        status: "active",
+        trialEnd: "not-a-date",
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        "data must have required property 'lastName'",
+        "/plan must be equal to one of the allowed values",
+        "/trialEnd must match format \"date-time\"",
+      ]));
+    });
+
+    it("should refuse time zones Intl does not know", async () => {
+      const data = { firstName: "John", lastName: "Doe", email: "john@example.com", verificationUrl: "https://app.penpal-ai.com/verify?token=abc", expiresAt: "2025-01-15T10:30:00.000Z" };
+
+      expect(await service.validate("email-verification", { ...data, timeZone: "Europe/Paris" })).toEqual({ valid: true, errors: [] });
+      expect((await service.validate("email-verification", { ...data, timeZone: "Mars/Olympus" })).errors).toEqual(["/timeZone must match format \"time-zone\""]);
+    });
+
+    it("should reject data for unknown templates", async () => {
+      const result = await service.validate("does-not-exist", {});
+
+      expect(result).toEqual({ valid: false, errors: ["Unknown template: does-not-exist"] });
+    });
+  });
+
+  describe("samples", () => {
+    it("should provide a sample that passes each template's schema", async () => {
+      for (const definition of await service.list()) {
+        const sample = await service.getSample(definition.name);
+
+        expect(sample).toBeDefined();
+        expect(await service.validate(definition.name, sample!)).toEqual({ valid: true, errors: [] });
+      }
+    });
+
+    it("should return undefined for unknown templates", async () => {
+      expect(await service.getSample("does-not-exist")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { Injectable, Logger } from "@nestjs/common";
+import Ajv, { ValidateFunction } from "ajv";
+import addFormats from "ajv-formats";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+import { ApiScope } from "../decorators/require-scopes.decorator";
+import { NOTIFICATION_CATEGORIES, NotificationCategory } from "../services/notification-preferences.service";
+
+export type TemplateDefinition = {
+  name: string;
+  description?: string;
+  subject: string;
+  /** Subjects for other locales, keyed by locale. `subject` is used for the default locale. */
+  subjects?: Record<string, string>;
+  schema: Record<string, any>;
+  /** Decides whether users can opt out of the template, "transactional" when not set */
+  category: NotificationCategory;
+  /** Scope needed to send the template from the generic route, for templates that have a route of their own */
+  scope?: ApiScope;
+};
+
+export type TemplateValidationResult = {
+  valid: boolean;
+  errors: string[];
+};
+
+const MANIFEST_FILE = "template.json";
+const SAMPLE_FILE = "sample.json";
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Discovers email templates from the templates directory. Each template lives
+ * in its own folder with its `.hbs` files and a `template.json` manifest that
+ * declares the subject and the JSON schema of the data it expects. An optional
+ * `sample.json` holds example data used to preview the template.
+ */
+@Injectable()
+export class TemplateRegistryService {
+  private readonly logger = new Logger(TemplateRegistryService.name);
+  private readonly ajv = new Ajv({ allErrors: true });
+  private readonly definitions = new Map<string, { definition: TemplateDefinition; validate: ValidateFunction }>();
+
+  constructor() {
+    addFormats(this.ajv);
+    // Rendering would throw on a zone Intl does not know, once the email is queued
+    this.ajv.addFormat("time-zone", isTimeZone);
+  }
+
+  /**
+   * Templates are copied next to the compiled code (see `assets` in
+   * nest-cli.json), so this is `src/templates` when running from source and
+   * `dist/templates` in a build.
+   */
+  get templatesRoot(): string {
+    return path.join(__dirname, "..", "templates");
+  }
+
+  resolvePath(templateName: string, fileName: string): string {
+    return path.join(this.templatesRoot, templateName, fileName);
+  }
+
+  async fileExists(templateName: string, fileName: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolvePath(templateName, fileName));
+      return true;
+    }
+    catch {
+      return false;
+    }
+  }
+
+  isValidName(templateName: string): boolean {
+    return TEMPLATE_NAME_PATTERN.test(templateName);
+  }
+
+  async exists(templateName: string): Promise<boolean> {
+    return (await this.find(templateName)) !== undefined;
+  }
+
+  /**
+   * Returns the template definition, or undefined if no such template exists.
+   */
+  async find(templateName: string): Promise<TemplateDefinition | undefined> {
+    return (await this.load(templateName))?.definition;
+  }
+
+  async list(): Promise<TemplateDefinition[]> {
+    const entries = await fs.promises.readdir(this.templatesRoot, { withFileTypes: true });
+    const definitions = await Promise.all(
+      entries
+        .filter(entry => entry.isDirectory() && this.isValidName(entry.name))
+        .map(entry => this.find(entry.name)),
+    );
+
+    return definitions.filter((definition): definition is TemplateDefinition => definition !== undefined);
+  }
+
+  /**
+   * Returns the template's sample data, or undefined if it has none.
+   */
+  async getSample(templateName: string): Promise<Record<string, any> | undefined> {
+    if (!(await this.exists(templateName))) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(await fs.promises.readFile(this.resolvePath(templateName, SAMPLE_FILE), "utf-8"));
+    }
+    catch (error) {
+      if (error.code !== "ENOENT") {
+        this.logger.error(`Invalid sample data for template ${templateName}: ${error.message}`);
+      }
+      return undefined;
+    }
+  }
+
+  async validate(templateName: string, data: unknown): Promise<TemplateValidationResult> {
+    const loaded = await this.load(templateName);
+    if (!loaded) {
+      return { valid: false, errors: [`Unknown template: ${templateName}`] };
+    }
+
+    if (loaded.validate(data)) {
+      return { valid: true, errors: [] };
+    }
+
+    return {
+      valid: false,
+      errors: (loaded.validate.errors ?? []).map(error => `${error.instancePath || "data"} ${error.message}`),
+    };
+  }
+
+  /**
+   * Forgets the manifest of one template, or of every template when no name is given.
+   */
+  clearCache(templateName?: string): void {
+    if (templateName) {
+      this.definitions.delete(templateName);
+    }
+    else {
+      this.definitions.clear();
+    }
+  }
+
+  private async load(templateName: string): Promise<{ definition: TemplateDefinition; validate: ValidateFunction } | undefined> {
+    if (!this.isValidName(templateName)) {
+      return undefined;
+    }
+
+    const cached = this.definitions.get(templateName);
+    if (cached) {
+      return cached;
+    }
+
+    let loaded: { definition: TemplateDefinition; validate: ValidateFunction };
+    try {
+      const manifest = JSON.parse(await fs.promises.readFile(this.resolvePath(templateName, MANIFEST_FILE), "utf-8"));
+      const schema = manifest.schema ?? { type: "object" };
+      const category = manifest.category ?? "transactional";
+      if (!NOTIFICATION_CATEGORIES.includes(category)) {
+        throw new Error(`unknown category "${category}", expected one of: ${NOTIFICATION_CATEGORIES.join(", ")}`);
+      }
+      if (manifest.scope !== undefined && typeof manifest.scope !== "string") {
+        throw new Error("scope must be a string");
+      }
+
+      loaded = {
+        definition: { ...manifest, name: templateName, schema, category },
+        validate: this.ajv.compile(schema),
+      };
+    }
+    catch (error) {
+      if (error.code !== "ENOENT") {
+        this.logger.error(`Invalid manifest for template ${templateName}: ${error.message}`);
+      }
+      return undefined;
+    }
+
+    this.definitions.set(templateName, loaded);
+    this.logger.log(`Template registered: ${templateName}`);
+
+    return loaded;
+  }
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: value }).format();
+    return true;
+  }
+  catch {
+    return false;
+  }
+}
@@ -1,8 +1,11 @@
 import { Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import { Test, TestingModule } from "@nestjs/testing";
+import * as path from "node:path";
 
+import { TemplateRegistryService } from "./template-registry.service";
 import { SubscriptionConfirmationEmailData, TemplateService, WelcomeEmailData } from "./template.service";
+import { TranslationService } from "./translation.service";
 
 describe("templateService", () => {
   let service: TemplateService;
@@ -11,9 +14,15 @@ describe("templateService", () => {
   const mockEmailConfig = {
     templates: {
       baseUrl: "http://localhost:3000",
+      watch: false,
     },
   };
 
+  const mockI18nConfig = {
+    defaultLocale: "fr",
+    supportedLocales: ["fr", "en"],
+  };
+
   const mockConfigService = {
     get: jest.fn(),
   };
@@ -21,11 +30,13 @@ describe("templateService", () => {
   beforeEach(async () => {
     jest.clearAllMocks();
 
-    mockConfigService.get.mockReturnValue(mockEmailConfig);
+    mockConfigService.get.mockImplementation((key: string) => (key === "i18n" ? mockI18nConfig : mockEmailConfig));
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         TemplateService,
+        TemplateRegistryService,
+        TranslationService,
         { provide: ConfigService, useValue: mockConfigService },
       ],
     }).compile();
@@ -58,7 +69,7 @@ describe("templateService", () => {
     });
   });
 
-  describe("getWelcomeEmailTemplate", () => {
+  describe("welcome template", () => {
     const mockUserData: WelcomeEmailData = {
       email: "test@example.com",
       firstName: "John",
@@ -67,7 +78,7 @@ describe("templateService", () => {
     };
 
     it("should generate welcome email template with correct subject", async () => {
-      const result = await service.getWelcomeEmailTemplate(mockUserData);
+      const result = await service.render("welcome", mockUserData);
 
       expect(result).toHaveProperty("subject");
       expect(result).toHaveProperty("html");
@@ -82,7 +93,7 @@ describe("templateService", () => {
 
       for (const provider of providers) {
         const userData = { ...mockUserData, provider };
-        const result = await service.getWelcomeEmailTemplate(userData);
+        const result = await service.render("welcome", userData);
 
         expect(result).toHaveProperty("subject");
         expect(result).toHaveProperty("html");
@@ -91,7 +102,7 @@ describe("templateService", () => {
     });
 
     it("should include user data in template", async () => {
-      const result = await service.getWelcomeEmailTemplate(mockUserData);
+      const result = await service.render("welcome", mockUserData);
 
       expect(result.html).toContain("John");
       expect(result.html).toContain("Doe");
@@ -100,7 +111,7 @@ describe("templateService", () => {
     });
 
     it("should include current year in template data", async () => {
-      const result = await service.getWelcomeEmailTemplate(mockUserData);
+      const result = await service.render("welcome", mockUserData);
       const currentYear = new Date().getFullYear().toString();
 
       expect(result.html).toContain(currentYear);
@@ -108,14 +119,14 @@ describe("templateService", () => {
     });
 
     it("should include base URL in template data", async () => {
-      const result = await service.getWelcomeEmailTemplate(mockUserData);
+      const result = await service.render("welcome", mockUserData);
 
       expect(result.html).toContain("localhost:3000");
       expect(result.text).toContain("localhost:3000");
     });
   });
 
-  describe("getSubscriptionConfirmationEmailTemplate", () => {
+  describe("subscription template", () => {
     const mockSubscriptionData: SubscriptionConfirmationEmailData = {
       email: "test@example.com",
       firstName: "John",
@@ -137,7 +148,7 @@ describe("templateService", () => {
     });
 
     it("should generate subscription confirmation email template with correct subject", async () => {
-      const result = await service.getSubscriptionConfirmationEmailTemplate(mockSubscriptionData);
+      const result = await service.render("subscription", mockSubscriptionData);
 
       expect(result).toHaveProperty("subject");
       expect(result).toHaveProperty("html");
@@ -153,7 +164,7 @@ describe("templateService", () => {
         status: "trial" as const,
       };
 
-      const result = await service.getSubscriptionConfirmationEmailTemplate(trialData);
+      const result = await service.render("subscription", trialData);
 
       expect(result).toHaveProperty("subject");
       expect(result).toHaveProperty("html");
@@ -166,7 +177,7 @@ describe("templateService", () => {
         plan: "yearly" as const,
       };
 
-      const result = await service.getSubscriptionConfirmationEmailTemplate(yearlyData);
+      const result = await service.render("subscription", yearlyData);
 
       expect(result).toHaveProperty("subject");
       expect(result).toHaveProperty("html");
@@ -174,7 +185,7 @@ describe("templateService", () => {
     });
 
     it("should include subscription data in template", async () => {
-      const result = await service.getSubscriptionConfirmationEmailTemplate(mockSubscriptionData);
+      const result = await service.render("subscription", mockSubscriptionData);
 
       expect(result.html).toContain("John");
       expect(result.html).toContain("Doe");
@@ -185,13 +196,280 @@ describe("templateService", () => {
     });
 
     it("should format amount correctly", async () => {
-      const result = await service.getSubscriptionConfirmationEmailTemplate(mockSubscriptionData);
+      const result = await service.render("subscription", mockSubscriptionData);
 
       expect(result.html).toBeDefined(); // Amount formatting might be undefined in mock
       expect(result.text).toBeDefined();
     });
   });
 
+  describe("render", () => {
+    it("should render a registered template with its manifest subject", async () => {
+      const result = await service.render("subscription", {
+        firstName: "John",
+        lastName: "Doe",
+        plan: "yearly",
+        status: "trial",
+        trialEnd: "2024-02-15T00:00:00.000Z",
+      });
+
+      expect(result.subject).toBe("Votre période d'essai Penpal AI a commencé ! 🎉");
+      expect((service as any).loadTemplates).toHaveBeenCalledWith("subscription", "fr");
+    });
+
+    it("should reject unknown templates", async () => {
+      await expect(service.render("does-not-exist", {})).rejects.toThrow("Template not found: does-not-exist");
+    });
+
+    it("should render the real template files", async () => {
+      delete (service as any).loadTemplates;
+
+      const result = await service.render("welcome", {
+        email: "test@example.com",
+        firstName: "John",
+        lastName: "Doe",
+        provider: "github",
+      });
+
+      expect(result.html).toContain("John Doe");
+      expect(result.html).toContain("GitHub");
+      expect(result.text).toContain("test@example.com");
+    });
+  });
+
+  describe("locales", () => {
+    const welcomeData = {
+      email: "test@example.com",
+      firstName: "John",
+      lastName: "Doe",
+      provider: "email",
+    };
+
+    beforeEach(() => {
+      delete (service as any).loadTemplates;
+    });
+
+    it("should render the translated files, subject and messages", async () => {
+      const result = await service.render("welcome", { ...welcomeData, locale: "en" });
+
+      expect(result.subject).toBe("Welcome to Penpal AI! 🎉");
+      expect(result.html).toContain("<html lang=\"en\">");
+      expect(result.text).toContain("our sign-up form");
+    });
+
+    it("should fall back from a regional locale to its language", async () => {
+      const result = await service.render("welcome", { ...welcomeData, locale: "en-GB" });
+
+      expect(result.subject).toBe("Welcome to Penpal AI! 🎉");
+      expect(result.text).toContain("Congratulations!");
+    });
+
+    it("should fall back to the default locale for missing translations", async () => {
+      const result = await service.render("welcome", { ...welcomeData, locale: "pt-BR" });
+
+      expect(result.subject).toBe("Bienvenue dans Penpal AI ! 🎉");
+      expect(result.text).toContain("via notre formulaire");
+    });
+
+    it("should format dates and amounts for the locale", async () => {
+      const subscription = {
+        firstName: "John",
+        lastName: "Doe",
+        plan: "monthly",
+        status: "active",
+        nextBillingDate: "2024-03-15T12:00:00.000Z",
+        amount: 999,
+        currency: "usd",
+      };
+
+      const english = await service.render("subscription", { ...subscription, locale: "en-US" });
+      const french = await service.render("subscription", subscription);
+
+      expect(english.text).toContain("Plan: Monthly");
+      expect(english.text).toContain("$9.99");
+      expect(english.text).toContain("3/15/2024");
+      expect(french.text).toContain("Plan : Mensuel");
+      expect(french.text).toContain("9,99\u00A0$US");
+      expect(french.text).toContain("15/03/2024");
+    });
+
+    it("should format the amounts and dates of billing lifecycle emails the same way", async () => {
+      const receipt = {
+        firstName: "John",
+        lastName: "Doe",
+        invoiceNumber: "PP-2024-0001",
+        plan: "monthly",
+        amount: 999,
+        currency: "usd",
+        paidAt: "2024-03-15T12:00:00.000Z",
+      };
+
+      const english = await service.render("receipt", { ...receipt, locale: "en-US" });
+      const french = await service.render("receipt", receipt);
+
+      expect(english.subject).toBe("Your Penpal AI receipt #PP-2024-0001");
+      expect(english.text).toContain("- Amount: $9.99");
+      expect(english.text).toContain("- Payment date: 3/15/2024");
+      expect(english.text).not.toContain("Period");
+      expect(french.text).toContain("- Montant : 9,99\u00A0$US");
+      expect(french.text).toContain("- Plan : Mensuel");
+    });
+
+    it("should format a zero amount rather than leave it out", async () => {
+      const result = await service.render("plan-changed", {
+        firstName: "John",
+        lastName: "Doe",
+        previousPlan: "monthly",
+        plan: "yearly",
+        effectiveDate: "2024-03-15T00:00:00.000Z",
+        amount: 0,
+        locale: "en",
+      });
+
+      expect(result.text).toContain("- Amount: €0.00");
+    });
+
+    it("should keep amounts of currencies without a minor unit whole", async () => {
+      const result = await service.render("receipt", {
+        firstName: "Taro",
+        lastName: "Yamada",
+        invoiceNumber: "PP-2024-0002",
+        plan: "monthly",
+        amount: 1500,
+        currency: "jpy",
+        paidAt: "2024-03-15T12:00:00.000Z",
+        locale: "en",
+      });
+
+      expect(result.text).toContain("- Amount: ¥1,500");
+    });
+
+    it("should tell whether a failed payment will be retried", async () => {
+      const payment = { firstName: "John", lastName: "Doe", plan: "yearly", amount: 9999, attemptCount: 1, locale: "en" };
+
+      const retried = await service.render("payment-failed", { ...payment, nextAttemptDate: "2024-03-18T12:00:00.000Z" });
+      const final = await service.render("payment-failed", { ...payment, attemptCount: 4 });
+
+      expect(retried.subject).toBe("Your Penpal AI payment failed");
+      expect(retried.text).toContain("We will try again automatically on 3/18/2024");
+      expect(final.subject).toBe("Final notice: your Penpal AI payment failed");
+      expect(final.text).toContain("This was our last attempt");
+    });
+
+    it("should show the expiry and the request details of security emails in the recipient's time zone", async () => {
+      const reset = {
+        firstName: "John",
+        lastName: "Doe",
+        resetUrl: "https://app.penpal-ai.com/reset-password?token=abc123",
+        expiresAt: "2024-03-15T12:00:00.000Z",
+        locale: "en",
+      };
+
+      const withContext = await service.render("password-reset", { ...reset, timeZone: "Europe/Paris", occurredAt: "2024-03-15T11:00:00.000Z", ipAddress: "203.0.113.42" });
+      const withoutContext = await service.render("password-reset", reset);
+
+      expect(withContext.text).toContain("This link expires on March 15, 2024 at 01:00 PM GMT+1");
+      expect(withContext.text).toContain("- Date: March 15, 2024 at 12:00 PM GMT+1");
+      expect(withContext.text).toContain("- IP address: 203.0.113.42");
+      expect(withContext.text).not.toContain("Device:");
+      expect(withoutContext.text).toContain("This link expires on March 15, 2024 at 12:00 PM UTC");
+      expect(withoutContext.text).not.toContain("Request details");
+    });
+
+    it("should only offer to revert an email change from the previous address", async () => {
+      const change = {
+        firstName: "John",
+        lastName: "Doe",
+        previousEmail: "john@example.com",
+        newEmail: "john@example.org",
+        revertUrl: "https://app.penpal-ai.com/revert-email?token=abc123",
+        locale: "en",
+      };
+
+      const previousAddress = await service.render("email-changed", { ...change, email: "John@example.com" });
+      const newAddress = await service.render("email-changed", { ...change, revertUrl: undefined, email: "john@example.org" });
+
+      expect(previousAddress.text).toContain("You are receiving this email at your previous address");
+      expect(previousAddress.text).toContain("Cancel this change: https://app.penpal-ai.com/revert-email?token=abc123");
+      expect(newAddress.text).toContain("From now on, this is the address you sign in with");
+      expect(newAddress.text).not.toContain("Cancel this change");
+    });
+
+    it("should summarize the week of a digest with plurals and language names", async () => {
+      const digest = {
+        firstName: "John",
+        lastName: "Doe",
+        weekStart: "2025-01-13",
+        conversations: 1,
+        minutesPractised: 95,
+        newVocabulary: Array.from({ length: 12 }, (_, index) => `word${index + 1}`),
+        streakDays: 5,
+        dailyMinutes: [15, 20, 0, 10, 25, 0, 25],
+        languages: [{ language: "es", conversations: 1, minutes: 95 }],
+        locale: "en",
+      };
+
+      const result = await service.render("weekly-digest", digest);
+      const idle = await service.render("weekly-digest", { ...digest, conversations: 0, minutesPractised: 0, newVocabulary: [], streakDays: 0, dailyMinutes: undefined, languages: [] });
+
+      expect(result.text).toContain("week of 1/13/2025 to 1/19/2025");
+      expect(result.text).toContain("- 💬 1 conversation\n");
+      expect(result.text).toContain("- ⏱️ 95 minutes of practice");
+      expect(result.text).toContain("- Mon 15 min");
+      expect(result.text).toContain("- Spanish: 95 min, 1 conversation");
+      expect(result.text).toContain("word9, word10 and 2 more");
+      expect(result.html).toContain("cid:minutes-chart");
+      expect(idle.text).toContain("You did not practise this week");
+      expect(idle.html).not.toContain("cid:");
+    });
+  });
+
+  describe("layouts and partials", () => {
+    const subscription = {
+      email: "test@example.com",
+      firstName: "John",
+      lastName: "Doe",
+      plan: "monthly",
+      status: "trial",
+      trialEnd: "2024-02-15T00:00:00.000Z",
+    };
+
+    beforeEach(() => {
+      delete (service as any).loadTemplates;
+    });
+
+    it("should share the layout and footer between templates", async () => {
+      const welcome = await service.render("welcome", { ...subscription, provider: "google" });
+      const confirmation = await service.render("subscription", subscription);
+
+      for (const result of [welcome, confirmation]) {
+        expect(result.html).toContain("<html lang=\"fr\">");
+        expect(result.html).toContain("<div class=\"logo\">🤖 Penpal AI</div>");
+        expect(result.html).toContain("http://localhost:3000/privacy\">Confidentialité</a>");
+        expect(result.text).toContain("Tous droits réservés.");
+      }
+      expect(welcome.html).toContain("Cet email a été envoyé à test@example.com");
+    });
+
+    it("should fill in the placeholders of catalog messages", async () => {
+      const english = await service.render("subscription", { ...subscription, locale: "en" });
+      const french = await service.render("subscription", subscription);
+
+      expect(english.html).toContain("<span class=\"trial-badge\">Monthly trial</span>");
+      expect(french.html).toContain("<span class=\"trial-badge\">Essai Mensuel</span>");
+    });
+
+    it("should reload the partials when one changes", async () => {
+      await service.render("subscription", subscription);
+
+      expect(service.getCacheStatus().partials).toEqual(expect.arrayContaining(["footer", "plan-summary", "layouts/base"]));
+
+      (service as any).handleTemplateChange(path.join("partials", "footer.hbs"));
+
+      expect(service.getCacheStatus().partials).toEqual([]);
+    });
+  });
+
   describe("provider display name mapping", () => {
     it("should map provider names correctly", async () => {
       const providers = [
@@ -209,7 +487,7 @@ describe("templateService", () => {
           provider: input,
         };
 
-        const result = await service.getWelcomeEmailTemplate(userData);
+        const result = await service.render("welcome", userData);
 
         expect(result.html).toContain(expected);
         expect(result.text).toContain(expected);
@@ -224,7 +502,7 @@ describe("templateService", () => {
         provider: "unknown-provider",
       };
 
-      const result = await service.getWelcomeEmailTemplate(userData);
+      const result = await service.render("welcome", userData);
 
       expect(result).toHaveProperty("subject");
       expect(result).toHaveProperty("html");
@@ -249,6 +527,39 @@ describe("templateService", () => {
       const status = service.getCacheStatus();
       expect(status.size).toBe(0);
     });
+
+    it("should invalidate a single template in every locale", () => {
+      const compiled = { html: jest.fn(), text: jest.fn() };
+      (service as any).templateCache.set("welcome:fr", compiled);
+      (service as any).templateCache.set("welcome:en", compiled);
+      (service as any).templateCache.set("subscription:fr", compiled);
+
+      service.invalidate("welcome");
+
+      expect(service.getCacheStatus().keys).toEqual(["subscription:fr"]);
+    });
+
+    it("should invalidate the template whose file changed", () => {
+      const invalidate = jest.spyOn(service, "invalidate");
+
+      (service as any).handleTemplateChange(path.join("welcome", "en.html.hbs"));
+
+      expect(invalidate).toHaveBeenCalledWith("welcome");
+    });
+
+    it("should watch the templates only when enabled", () => {
+      expect(service.getCacheStatus().watching).toBe(false);
+
+      mockEmailConfig.templates.watch = true;
+      service.onModuleInit();
+      mockEmailConfig.templates.watch = false;
+
+      expect(service.getCacheStatus().watching).toBe(true);
+
+      service.onModuleDestroy();
+
+      expect(service.getCacheStatus().watching).toBe(false);
+    });
   });
 
   describe("error handling", () => {
@@ -264,7 +575,7 @@ describe("templateService", () => {
       };
 
       // The method should handle the error internally and provide fallback or rethrow
-      await expect(service.getWelcomeEmailTemplate(userData)).rejects.toThrow("Template loading failed");
+      await expect(service.render("welcome", userData)).rejects.toThrow("Template loading failed");
     });
   });
 });
@@ -1,26 +1,170 @@
-import { Injectable, Logger } from "@nestjs/common";
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
 import * as handlebars from "handlebars";
 import * as fs from "node:fs";
 import * as path from "node:path";
 
+import { DIGEST_CHART_WIDTH, LANGUAGE_COLORS } from "./digest-charts";
+import { TemplateDefinition, TemplateRegistryService } from "./template-registry.service";
+import { TranslationService } from "./translation.service";
+
 export type WelcomeEmailData = {
   email: string;
   firstName: string;
   lastName: string;
   provider: string;
+  locale?: string;
 };
 
+export type SubscriptionPlan = "monthly" | "yearly";
+
 export type SubscriptionConfirmationEmailData = {
   email: string;
   firstName: string;
   lastName: string;
-  plan: "monthly" | "yearly";
+  plan: SubscriptionPlan;
   status: "trial" | "active";
-  trialEnd?: Date;
-  nextBillingDate?: Date;
+  trialEnd?: Date | string;
+  nextBillingDate?: Date | string;
+  amount?: number;
+  currency?: string;
+  locale?: string;
+};
+
+/** Fields of every billing lifecycle email. Amounts are in the currency's minor unit */
+export type BillingEmailData = {
+  email: string;
+  firstName: string;
+  lastName: string;
+  locale?: string;
+};
+
+export type PaymentFailedEmailData = BillingEmailData & {
+  plan: SubscriptionPlan;
+  amount: number;
+  currency?: string;
+  /** Failed attempts so far, 1 for the first */
+  attemptCount: number;
+  /** Next automatic retry, not set after the last one */
+  nextAttemptDate?: Date | string;
+};
+
+export type CardExpiringEmailData = BillingEmailData & {
+  cardBrand: string;
+  last4: string;
+  expiryMonth: number;
+  expiryYear: number;
+};
+
+export type PlanChangedEmailData = BillingEmailData & {
+  previousPlan: SubscriptionPlan;
+  plan: SubscriptionPlan;
+  effectiveDate: Date | string;
   amount?: number;
   currency?: string;
+  nextBillingDate?: Date | string;
+};
+
+export type SubscriptionCancelledEmailData = BillingEmailData & {
+  plan: SubscriptionPlan;
+  /** End of the period already paid for */
+  accessUntil: Date | string;
+};
+
+export type SubscriptionExpiredEmailData = BillingEmailData & {
+  plan: SubscriptionPlan;
+  expiredAt: Date | string;
+};
+
+export type RefundIssuedEmailData = BillingEmailData & {
+  amount: number;
+  currency?: string;
+  invoiceNumber?: string;
+  refundedAt?: Date | string;
+};
+
+export type ReceiptEmailData = BillingEmailData & {
+  invoiceNumber: string;
+  plan: SubscriptionPlan;
+  amount: number;
+  currency?: string;
+  paidAt: Date | string;
+  periodStart?: Date | string;
+  periodEnd?: Date | string;
+  cardBrand?: string;
+  last4?: string;
+};
+
+/** Fields of every account security email */
+export type SecurityEmailData = {
+  email: string;
+  firstName: string;
+  lastName: string;
+  locale?: string;
+  /** IANA time zone the times are shown in, UTC when not set */
+  timeZone?: string;
+};
+
+/** When and from where the action the email is about was made */
+export type RequestContext = {
+  occurredAt?: Date | string;
+  ipAddress?: string;
+  /** e.g. "Chrome on macOS" */
+  device?: string;
+  /** e.g. "Paris, France" */
+  location?: string;
+};
+
+export type EmailVerificationEmailData = SecurityEmailData & {
+  verificationUrl: string;
+  expiresAt: Date | string;
+};
+
+export type PasswordResetEmailData = SecurityEmailData & RequestContext & {
+  resetUrl: string;
+  expiresAt: Date | string;
+};
+
+export type PasswordChangedEmailData = SecurityEmailData & RequestContext;
+
+/** Sent to both addresses: `email` is the one it goes to */
+export type EmailChangedEmailData = SecurityEmailData & RequestContext & {
+  previousEmail: string;
+  newEmail: string;
+  /** Link that cancels the change, only shown to the previous address */
+  revertUrl?: string;
+  expiresAt?: Date | string;
+};
+
+export type NewLoginEmailData = SecurityEmailData & RequestContext & {
+  secureAccountUrl?: string;
+};
+
+export type DigestLanguageStats = {
+  /** Language code, e.g. "es" */
+  language: string;
+  conversations: number;
+  minutes: number;
+};
+
+export type WeeklyDigestEmailData = {
+  email: string;
+  firstName: string;
+  lastName: string;
+  locale?: string;
+  /** IANA time zone the digest is sent in, at the configured hour */
+  timeZone?: string;
+  /** First day of the week, as a calendar date */
+  weekStart: string;
+  conversations: number;
+  minutesPractised: number;
+  /** Words met for the first time during the week */
+  newVocabulary: string[];
+  /** Days in a row with some practice, up to the end of the week */
+  streakDays: number;
+  /** Minutes practised on each of the 7 days, from `weekStart` */
+  dailyMinutes?: number[];
+  languages?: DigestLanguageStats[];
 };
 
 export type CompiledTemplate = {
@@ -29,89 +173,359 @@ export type CompiledTemplate = {
   subject: string;
 };
 
+export type TemplateCacheStatus = {
+  size: number;
+  /** Cached `<template>:<locale>` entries */
+  keys: string[];
+  /** Registered partials and layouts */
+  partials: string[];
+  watching: boolean;
+};
+
+/** Folders next to the template folders that hold no template */
+const LOCALES_DIRECTORY = "locales";
+const PARTIALS_DIRECTORY = "partials";
+const LAYOUTS_DIRECTORY = "layouts";
+
+/** New words listed in a weekly digest, the others are only counted */
+const VOCABULARY_SAMPLE_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 @Injectable()
-export class TemplateService {
+export class TemplateService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(TemplateService.name);
+  // Private instance, so that partials and helpers never leak into other Handlebars users
+  private readonly handlebars = handlebars.create();
   private readonly templateCache = new Map<string, { html: HandlebarsTemplateDelegate; text: HandlebarsTemplateDelegate }>();
+  private readonly subjectCache = new Map<string, HandlebarsTemplateDelegate>();
   private readonly emailConfig: any;
+  private watcher?: fs.FSWatcher;
+  private partialsLoading?: Promise<void>;
+
+  /**
+   * Templates whose raw payload needs reshaping before rendering. Templates
+   * without an entry receive their data as-is.
+   */
+  private readonly dataBuilders: Record<string, (data: any, locale: string, messages: Record<string, string>) => Record<string, any>> = {
+    "welcome": (data: WelcomeEmailData, _locale, messages) => this.buildWelcomeData(data, messages),
+    "subscription": (data: SubscriptionConfirmationEmailData, locale, messages) => this.buildSubscriptionData(data, locale, messages),
+    // Reminders planned from a subscription confirmation receive its data
+    "trial-ending": (data: SubscriptionConfirmationEmailData, locale, messages) => this.buildSubscriptionData(data, locale, messages),
+    "renewal-reminder": (data: SubscriptionConfirmationEmailData, locale, messages) => this.buildSubscriptionData(data, locale, messages),
+    "payment-failed": (data: PaymentFailedEmailData, locale, messages) => ({
+      ...this.buildBillingData(data, locale, messages, ["nextAttemptDate"]),
+      isFinalAttempt: !data.nextAttemptDate,
+    }),
+    "card-expiring": (data: CardExpiringEmailData, locale, messages) => ({
+      ...this.buildBillingData(data, locale, messages, []),
+      expiry: `${String(data.expiryMonth).padStart(2, "0")}/${data.expiryYear}`,
+    }),
+    "plan-changed": (data: PlanChangedEmailData, locale, messages) => this.buildBillingData(data, locale, messages, ["effectiveDate", "nextBillingDate"]),
+    "subscription-cancelled": (data: SubscriptionCancelledEmailData, locale, messages) => this.buildBillingData(data, locale, messages, ["accessUntil"]),
+    "subscription-expired": (data: SubscriptionExpiredEmailData, locale, messages) => this.buildBillingData(data, locale, messages, ["expiredAt"]),
+    "refund-issued": (data: RefundIssuedEmailData, locale, messages) => this.buildBillingData(data, locale, messages, ["refundedAt"]),
+    "receipt": (data: ReceiptEmailData, locale, messages) => ({
+      ...this.buildBillingData(data, locale, messages, ["paidAt", "periodStart", "periodEnd"]),
+      hasPeriod: Boolean(data.periodStart && data.periodEnd),
+    }),
+    "email-verification": (data: EmailVerificationEmailData, locale) => this.buildSecurityData(data, locale, ["expiresAt"]),
+    "password-reset": (data: PasswordResetEmailData, locale) => this.buildSecurityData(data, locale, ["expiresAt"]),
+    "password-changed": (data: PasswordChangedEmailData, locale) => this.buildSecurityData(data, locale, []),
+    "email-changed": (data: EmailChangedEmailData, locale) => ({
+      ...this.buildSecurityData(data, locale, ["expiresAt"]),
+      sentToPreviousAddress: data.email?.toLowerCase() === data.previousEmail.toLowerCase(),
+    }),
+    "new-login": (data: NewLoginEmailData, locale) => this.buildSecurityData(data, locale, []),
+    "weekly-digest": (data: WeeklyDigestEmailData, locale, messages) => this.buildDigestData(data, locale, messages),
+  };
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly templateRegistry: TemplateRegistryService,
+    private readonly translationService: TranslationService,
+  ) {
     this.emailConfig = this.configService.get("email");
+    this.registerHelpers();
+  }
+
+  onModuleInit(): void {
+    if (this.emailConfig.templates.watch) {
+      this.watchTemplates();
+    }
   }
 
-  async getWelcomeEmailTemplate(userData: WelcomeEmailData): Promise<CompiledTemplate> {
-    const templates = await this.loadTemplates("welcome");
+  onModuleDestroy(): void {
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  /**
+   * Renders any registered template with the given data. The `locale` field of
+   * the data selects the translation; missing translations fall back along the
+   * locale's chain down to the default locale instead of failing.
+   */
+  async render(templateName: string, data: Record<string, any>): Promise<CompiledTemplate> {
+    const definition = await this.templateRegistry.find(templateName);
+    if (!definition) {
+      throw new Error(`Template not found: ${templateName}`);
+    }
+
+    const locale = this.translationService.resolveLocale(data.locale);
+    await this.loadPartials();
+    const templates = await this.loadTemplates(templateName, locale);
+    const messages = await this.translationService.getMessages(locale);
+    const builder = this.dataBuilders[templateName];
 
     const templateData = {
-      firstName: userData.firstName,
-      lastName: userData.lastName,
-      fullName: `${userData.firstName} ${userData.lastName}`,
-      provider: this.getProviderDisplayName(userData.provider),
-      email: userData.email,
       baseUrl: this.emailConfig.templates.baseUrl,
       year: new Date().getFullYear(),
+      ...(builder ? builder(data, locale, messages) : data),
+      // Set by EmailService for emails the recipient can opt out of
+      unsubscribeUrl: data.unsubscribeUrl,
+      locale,
     };
 
+    // Exposed to the `t` helper, which partials use for their labels
+    const options = { data: { messages } };
+
     return {
-      html: templates.html(templateData),
-      text: templates.text(templateData),
-      subject: "Bienvenue dans Penpal AI ! 🎉",
+      html: templates.html(templateData, options),
+      text: templates.text(templateData, options),
+      subject: this.compileSubject(definition, locale)(templateData, options),
     };
   }
 
-  async getSubscriptionConfirmationEmailTemplate(subscriptionData: SubscriptionConfirmationEmailData): Promise<CompiledTemplate> {
-    const templates = await this.loadTemplates("subscription");
+  private buildWelcomeData(userData: WelcomeEmailData, messages: Record<string, string>): Record<string, any> {
+    return {
+      firstName: userData.firstName,
+      lastName: userData.lastName,
+      fullName: `${userData.firstName} ${userData.lastName}`,
+      provider: messages[`providers.${userData.provider}`] ?? userData.provider,
+      email: userData.email,
+    };
+  }
 
-    const templateData = {
+  private buildSubscriptionData(
+    subscriptionData: SubscriptionConfirmationEmailData,
+    locale: string,
+    messages: Record<string, string>,
+  ): Record<string, any> {
+    return {
       firstName: subscriptionData.firstName,
       lastName: subscriptionData.lastName,
       fullName: `${subscriptionData.firstName} ${subscriptionData.lastName}`,
-      plan: subscriptionData.plan === "monthly" ? "Mensuel" : "Annuel",
+      email: subscriptionData.email,
+      plan: messages[`plans.${subscriptionData.plan}`] ?? subscriptionData.plan,
       planType: subscriptionData.plan,
       status: subscriptionData.status,
       isTrialActive: subscriptionData.status === "trial",
-      trialEnd: subscriptionData.trialEnd ? subscriptionData.trialEnd.toLocaleDateString("fr-FR") : null,
-      nextBillingDate: subscriptionData.nextBillingDate ? subscriptionData.nextBillingDate.toLocaleDateString("fr-FR") : null,
-      amount: subscriptionData.amount ? (subscriptionData.amount / 100).toFixed(2) : null,
-      currency: subscriptionData.currency?.toUpperCase() || "EUR",
-      baseUrl: this.emailConfig.templates.baseUrl,
-      year: new Date().getFullYear(),
+      // Dates arrive as Date objects from typed callers and as ISO strings from queued payloads
+      trialEnd: subscriptionData.trialEnd ? this.translationService.formatDate(subscriptionData.trialEnd, locale) : null,
+      nextBillingDate: subscriptionData.nextBillingDate ? this.translationService.formatDate(subscriptionData.nextBillingDate, locale) : null,
+      ...this.buildAmount(subscriptionData.amount, subscriptionData.currency, locale),
+    };
+  }
+
+  /**
+   * Passes the data of a billing lifecycle email through, with the plans
+   * translated (the raw values stay in `planType` and `previousPlanType`), the
+   * given date fields and the amount formatted for the locale.
+   */
+  private buildBillingData(
+    billingData: BillingEmailData & Record<string, any>,
+    locale: string,
+    messages: Record<string, string>,
+    dateFields: string[],
+  ): Record<string, any> {
+    const templateData: Record<string, any> = {
+      ...billingData,
+      fullName: `${billingData.firstName} ${billingData.lastName}`,
+      ...this.buildAmount(billingData.amount, billingData.currency, locale),
+    };
+
+    for (const field of ["plan", "previousPlan"]) {
+      if (billingData[field]) {
+        templateData[field] = messages[`plans.${billingData[field]}`] ?? billingData[field];
+        templateData[`${field}Type`] = billingData[field];
+      }
+    }
+    for (const field of dateFields) {
+      templateData[field] = billingData[field] ? this.translationService.formatDate(billingData[field], locale) : null;
+    }
+
+    return templateData;
+  }
+
+  /**
+   * Passes the data of an account security email through, with `occurredAt`
+   * and the given time fields formatted with their time in the recipient's
+   * time zone, and `hasRequestContext` set when there is something to show
+   * about where the action was made.
+   */
+  private buildSecurityData(securityData: SecurityEmailData & RequestContext & Record<string, any>, locale: string, timeFields: string[]): Record<string, any> {
+    const templateData: Record<string, any> = {
+      ...securityData,
+      fullName: `${securityData.firstName} ${securityData.lastName}`,
+      hasRequestContext: Boolean(securityData.occurredAt || securityData.ipAddress || securityData.device || securityData.location),
+    };
+
+    for (const field of ["occurredAt", ...timeFields]) {
+      templateData[field] = securityData[field] ? this.translationService.formatDateTime(securityData[field], locale, securityData.timeZone) : null;
+    }
+
+    return templateData;
+  }
+
+  /**
+   * Dates, language names and chart labels of a weekly digest. The charts are
+   * attached by the email service as `cid:minutes-chart` and
+   * `cid:languages-chart`; the flags tell the template which ones are there.
+   */
+  private buildDigestData(digest: WeeklyDigestEmailData, locale: string, messages: Record<string, string>): Record<string, any> {
+    const day = (offset: number) => new Date(Date.parse(digest.weekStart) + offset * DAY_MS);
+    const vocabulary = digest.newVocabulary ?? [];
+    const languages = digest.languages ?? [];
+
+    return {
+      ...digest,
+      fullName: `${digest.firstName} ${digest.lastName}`,
+      weekStart: this.translationService.formatDate(day(0), locale),
+      weekEnd: this.translationService.formatDate(day(6), locale),
+      hasActivity: digest.conversations > 0 || digest.minutesPractised > 0,
+      newWordsCount: vocabulary.length,
+      vocabularySample: new Intl.ListFormat(locale, { type: "unit" }).format(vocabulary.slice(0, VOCABULARY_SAMPLE_SIZE)),
+      moreWords: vocabulary.length > VOCABULARY_SAMPLE_SIZE
+        ? this.translationService.formatPlural(messages, "digest.moreWords", vocabulary.length - VOCABULARY_SAMPLE_SIZE, locale)
+        : null,
+      hasMinutesChart: Boolean(digest.dailyMinutes?.some(minutes => minutes > 0)),
+      days: (digest.dailyMinutes ?? []).map((minutes, index) => ({ label: this.translationService.formatWeekday(day(index), locale), minutes })),
+      hasLanguagesChart: languages.some(language => language.minutes > 0),
+      languages: languages.map((language, index) => {
+        const name = this.translationService.formatLanguage(language.language, locale);
+        return { ...language, name: name.charAt(0).toLocaleUpperCase(locale) + name.slice(1), color: LANGUAGE_COLORS[index % LANGUAGE_COLORS.length] };
+      }),
+      chartWidth: DIGEST_CHART_WIDTH,
     };
+  }
 
-    const subject = subscriptionData.status === "trial"
-      ? "Votre période d'essai Penpal AI a commencé ! 🎉"
-      : "Confirmation de votre abonnement Penpal AI 🎉";
+  /**
+   * `amount` as a decimal string in the major unit and `formattedAmount` for
+   * the locale, both null without an amount. The currency defaults to EUR.
+   */
+  private buildAmount(amount: number | undefined, currency: string | undefined, locale: string): Record<string, any> {
+    const currencyCode = currency?.toUpperCase() || "EUR";
+    const digits = this.translationService.getCurrencyDigits(currencyCode, locale);
 
     return {
-      html: templates.html(templateData),
-      text: templates.text(templateData),
-      subject,
+      amount: typeof amount === "number" ? (amount / 10 ** digits).toFixed(digits) : null,
+      formattedAmount: typeof amount === "number" ? this.translationService.formatCurrency(amount, currencyCode, locale) : null,
+      currency: currencyCode,
     };
   }
 
-  private async loadTemplates(templateName: string): Promise<{ html: HandlebarsTemplateDelegate; text: HandlebarsTemplateDelegate }> {
-    const cacheKey = templateName;
+  /**
+   * Exposes `{{formatDate value}}` and `{{formatCurrency amount currency}}` to
+   * templates, formatted for the locale the email is rendered in, and
+   * `{{t "key" name=value}}` to look up a catalog message and fill in its
+   * `{name}` placeholders.
+   */
+  private registerHelpers(): void {
+    this.handlebars.registerHelper("formatDate", (value: Date | string, options: Handlebars.HelperOptions) =>
+      value ? this.translationService.formatDate(value, options.data.root.locale) : "");
+    this.handlebars.registerHelper("formatCurrency", (amount: number, currency: string, options: Handlebars.HelperOptions) =>
+      typeof amount === "number" ? this.translationService.formatCurrency(amount, currency, options.data.root.locale) : "");
+    this.handlebars.registerHelper("t", (key: string, options: Handlebars.HelperOptions) =>
+      this.translationService.formatMessage(options.data.messages?.[key] ?? key, options.hash));
+    this.handlebars.registerHelper("plural", (key: string, count: number, options: Handlebars.HelperOptions) =>
+      this.translationService.formatPlural(options.data.messages ?? {}, key, count, options.data.root.locale));
+  }
+
+  /**
+   * Registers the files of `partials/` under their name (`partials/footer.hbs`
+   * is `{{> footer}}`) and those of `layouts/` under `layouts/<name>`. They are
+   * loaded once, before the first render.
+   */
+  private async loadPartials(): Promise<void> {
+    this.partialsLoading ??= this.registerPartials().catch((error) => {
+      this.partialsLoading = undefined;
+      this.logger.error(`Failed to load partials: ${error.message}`);
+      throw new Error("Partial loading failed");
+    });
+
+    return this.partialsLoading;
+  }
+
+  private async registerPartials(): Promise<void> {
+    for (const [directory, prefix] of [[PARTIALS_DIRECTORY, ""], [LAYOUTS_DIRECTORY, `${LAYOUTS_DIRECTORY}/`]]) {
+      const root = path.join(this.templateRegistry.templatesRoot, directory);
+
+      let fileNames: string[];
+      try {
+        fileNames = await fs.promises.readdir(root);
+      }
+      catch (error) {
+        if (error.code === "ENOENT") {
+          continue;
+        }
+        throw error;
+      }
+
+      for (const fileName of fileNames.filter(name => name.endsWith(".hbs"))) {
+        const content = await fs.promises.readFile(path.join(root, fileName), "utf-8");
+        this.handlebars.registerPartial(`${prefix}${path.basename(fileName, ".hbs")}`, content);
+      }
+    }
+
+    this.logger.log(`Partials registered: ${Object.keys(this.handlebars.partials).join(", ")}`);
+  }
+
+  private resetPartials(): void {
+    for (const name of Object.keys(this.handlebars.partials)) {
+      this.handlebars.unregisterPartial(name);
+    }
+    this.partialsLoading = undefined;
+  }
+
+  private compileSubject(definition: TemplateDefinition, locale: string): HandlebarsTemplateDelegate {
+    const cacheKey = `${definition.name}:${locale}`;
+    let compiled = this.subjectCache.get(cacheKey);
+
+    if (!compiled) {
+      const translated = this.translationService.getFallbackChain(locale)
+        .map(candidate => definition.subjects?.[candidate])
+        .find(subject => subject !== undefined);
+
+      // Subjects are plain text, so HTML escaping would corrupt characters like apostrophes
+      compiled = this.handlebars.compile(translated ?? definition.subject, { noEscape: true });
+      this.subjectCache.set(cacheKey, compiled);
+    }
+
+    return compiled;
+  }
+
+  private async loadTemplates(templateName: string, locale: string): Promise<{ html: HandlebarsTemplateDelegate; text: HandlebarsTemplateDelegate }> {
+    const cacheKey = `${templateName}:${locale}`;
 
     if (this.templateCache.has(cacheKey)) {
       return this.templateCache.get(cacheKey)!;
     }
 
     try {
-      const templateDir = path.join(process.cwd(), "src", "templates", templateName);
-
-      const htmlPath = path.join(templateDir, `${templateName}.html.hbs`);
-      const textPath = path.join(templateDir, `${templateName}.text.hbs`);
+      const htmlPath = this.templateRegistry.resolvePath(templateName, await this.resolveFileName(templateName, locale, "html.hbs"));
+      const textPath = this.templateRegistry.resolvePath(templateName, await this.resolveFileName(templateName, locale, "text.hbs"));
 
       const htmlContent = await fs.promises.readFile(htmlPath, "utf-8");
       const textContent = await fs.promises.readFile(textPath, "utf-8");
 
       const compiledTemplates = {
-        html: handlebars.compile(htmlContent),
-        text: handlebars.compile(textContent),
+        html: this.handlebars.compile(htmlContent),
+        // Like subjects, text bodies are not HTML: escaping would corrupt their links
+        text: this.handlebars.compile(textContent, { noEscape: true }),
       };
 
       this.templateCache.set(cacheKey, compiledTemplates);
-      this.logger.log(`Templates loaded and cached for: ${templateName}`);
+      this.logger.log(`Templates loaded and cached for: ${templateName} (${locale})`);
 
       return compiledTemplates;
     }
@@ -121,15 +535,74 @@ export class TemplateService {
     }
   }
 
-  private getProviderDisplayName(provider: string): string {
-    const providers = {
-      google: "Google",
-      facebook: "Facebook",
-      apple: "Apple",
-      github: "GitHub",
-      email: "notre formulaire d'inscription",
-    };
-    return providers[provider] || provider;
+  /**
+   * Picks the first `<locale>.<extension>` file along the locale's fallback
+   * chain. The default locale uses `<template>.<extension>`.
+   */
+  private async resolveFileName(templateName: string, locale: string, extension: string): Promise<string> {
+    for (const candidate of this.translationService.getFallbackChain(locale)) {
+      if (candidate === this.translationService.defaultLocale) {
+        break;
+      }
+      if (await this.templateRegistry.fileExists(templateName, `${candidate}.${extension}`)) {
+        return `${candidate}.${extension}`;
+      }
+    }
+
+    return `${templateName}.${extension}`;
+  }
+
+  /**
+   * Watches the templates directory and drops the cached entries of any
+   * template whose files change, so that the next render recompiles them.
+   */
+  private watchTemplates(): void {
+    const root = this.templateRegistry.templatesRoot;
+
+    try {
+      this.watcher = fs.watch(root, { recursive: true }, (_event, fileName) => this.handleTemplateChange(fileName));
+      this.watcher.on("error", error => this.logger.error(`Template watcher failed: ${error.message}`));
+      this.watcher.unref();
+      this.logger.log(`Watching ${root} for template changes`);
+    }
+    catch (error) {
+      this.logger.error(`Failed to watch templates in ${root}: ${error.message}`);
+    }
+  }
+
+  private handleTemplateChange(fileName: string | null): void {
+    if (!fileName) {
+      this.clearCache();
+      return;
+    }
+
+    const [directory] = fileName.split(path.sep);
+    if (directory === LOCALES_DIRECTORY) {
+      this.translationService.clearCache();
+      this.logger.log(`Message catalog changed: ${fileName}`);
+    }
+    else if (directory === PARTIALS_DIRECTORY || directory === LAYOUTS_DIRECTORY) {
+      this.resetPartials();
+      this.logger.log(`Partial changed: ${fileName}`);
+    }
+    else {
+      this.invalidate(directory);
+      this.logger.log(`Template changed: ${fileName}`);
+    }
+  }
+
+  /**
+   * Drops the compiled files, subjects and manifest of one template, in every locale.
+   */
+  invalidate(templateName: string): void {
+    for (const cache of [this.templateCache, this.subjectCache]) {
+      for (const key of cache.keys()) {
+        if (key.startsWith(`${templateName}:`)) {
+          cache.delete(key);
+        }
+      }
+    }
+    this.templateRegistry.clearCache(templateName);
   }
 
   /**
@@ -137,16 +610,22 @@ export class TemplateService {
    */
   clearCache(): void {
     this.templateCache.clear();
+    this.subjectCache.clear();
+    this.resetPartials();
+    this.templateRegistry.clearCache();
+    this.translationService.clearCache();
     this.logger.log("Template cache cleared");
   }
 
   /**
    * Get template cache status
    */
-  getCacheStatus(): { size: number; keys: string[] } {
+  getCacheStatus(): TemplateCacheStatus {
     return {
       size: this.templateCache.size,
       keys: Array.from(this.templateCache.keys()),
+      partials: Object.keys(this.handlebars.partials),
+      watching: this.watcher !== undefined,
     };
   }
 }
@@ -0,0 +1,127 @@
+import { Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { TemplateRegistryService } from "./template-registry.service";
+import { TranslationService } from "./translation.service";
+
+describe("translationService", () => {
+  let service: TranslationService;
+
+  const mockI18nConfig = {
+    defaultLocale: "fr",
+    supportedLocales: ["fr", "en", "pt-BR"],
+  };
+
+  const mockConfigService = {
+    get: jest.fn(() => mockI18nConfig),
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(Logger.prototype, "log").mockImplementation();
+    jest.spyOn(Logger.prototype, "warn").mockImplementation();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TranslationService,
+        TemplateRegistryService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<TranslationService>(TranslationService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("resolveLocale", () => {
+    it("should canonicalize the requested locale", () => {
+      expect(service.resolveLocale("pt_br")).toBe("pt-BR");
+      expect(service.resolveLocale("EN")).toBe("en");
+    });
+
+    it("should use the default locale when none or an invalid one is given", () => {
+      expect(service.resolveLocale(undefined)).toBe("fr");
+      expect(service.resolveLocale("not a locale")).toBe("fr");
+    });
+  });
+
+  describe("getFallbackChain", () => {
+    it("should go from the region to the language to the default locale", () => {
+      expect(service.getFallbackChain("pt-BR")).toEqual(["pt-BR", "pt", "fr"]);
+      expect(service.getFallbackChain("fr-CA")).toEqual(["fr-CA", "fr"]);
+    });
+  });
+
+  describe("getMessages", () => {
+    it("should return the messages of the locale", async () => {
+      const messages = await service.getMessages("en");
+
+      expect(messages["plans.monthly"]).toBe("Monthly");
+    });
+
+    it("should fill in missing messages from the default locale", async () => {
+      const messages = await service.getMessages("pt-BR");
+
+      expect(messages["plans.monthly"]).toBe("Mensuel");
+    });
+  });
+
+  describe("formatting", () => {
+    it("should format amounts in minor units for the locale", () => {
+      expect(service.formatCurrency(1999, "eur", "en")).toBe("€19.99");
+      expect(service.formatCurrency(1999, "EUR", "fr")).toBe("19,99 €");
+    });
+
+    it("should not divide amounts of currencies without a minor unit", () => {
+      expect(service.formatCurrency(1500, "jpy", "en")).toBe("¥1,500");
+      expect(service.getCurrencyDigits("JPY", "en")).toBe(0);
+      expect(service.getCurrencyDigits("EUR", "en")).toBe(2);
+    });
+
+    it("should format dates for the locale", () => {
+      expect(service.formatDate("2024-03-15T12:00:00.000Z", "en-US")).toBe("3/15/2024");
+      expect(service.formatDate(new Date("2024-03-15T12:00:00.000Z"), "fr")).toBe("15/03/2024");
+    });
+
+    it("should format times in the given time zone, UTC by default", () => {
+      expect(service.formatDateTime("2024-03-15T12:00:00.000Z", "fr", "Europe/Paris")).toBe("15 mars 2024 à 13:00 UTC+1");
+      expect(service.formatDateTime("2024-03-15T12:00:00.000Z", "en")).toBe("March 15, 2024 at 12:00 PM UTC");
+    });
+
+    it("should fill in the placeholders of a message, keeping unknown ones", () => {
+      expect(service.formatMessage("VAT ({rate}%) on {date}", { rate: "20" })).toBe("VAT (20%) on {date}");
+    });
+
+    it("should pick the plural form of the count for the locale", () => {
+      const messages = { "digest.conversations.one": "{count} conversation", "digest.conversations.other": "{count} conversations" };
+
+      expect(service.formatPlural(messages, "digest.conversations", 1, "en")).toBe("1 conversation");
+      expect(service.formatPlural(messages, "digest.conversations", 1200, "en")).toBe("1,200 conversations");
+      // 0 is singular in French
+      expect(service.formatPlural(messages, "digest.conversations", 0, "fr")).toBe("0 conversation");
+      expect(service.formatPlural(messages, "digest.unknown", 2, "en")).toBe("digest.unknown");
+    });
+
+    it("should name languages in the locale", () => {
+      expect(service.formatLanguage("es", "en")).toBe("Spanish");
+      expect(service.formatLanguage("es", "fr")).toBe("espagnol");
+      expect(service.formatLanguage("not a code", "en")).toBe("not a code");
+    });
+  });
+
+  describe("findMissingTranslations", () => {
+    it("should report what a supported locale falls back on", async () => {
+      const missing = await service.findMissingTranslations();
+
+      expect(missing).toEqual(expect.arrayContaining([
+        { locale: "pt-BR", template: "welcome", item: "pt-BR.html.hbs" },
+        { locale: "pt-BR", template: "welcome", item: "subject" },
+        { locale: "pt-BR", item: "plans.monthly" },
+      ]));
+      expect(missing.filter(entry => entry.locale === "en")).toEqual([]);
+    });
+  });
+});
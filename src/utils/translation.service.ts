@@ -0,0 +1,238 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import * as fs from "node:fs";
+
+import { TemplateRegistryService } from "./template-registry.service";
+
+export type MissingTranslation = {
+  locale: string;
+  template?: string;
+  item: string;
+};
+
+const LOCALES_DIRECTORY = "locales";
+
+/**
+ * Resolves locales and their fallback chains, loads the message catalogs from
+ * `templates/locales/<locale>.json` and formats dates and amounts per locale.
+ */
+@Injectable()
+export class TranslationService {
+  private readonly logger = new Logger(TranslationService.name);
+  private readonly catalogCache = new Map<string, Record<string, string>>();
+  private readonly i18nConfig: any;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly templateRegistry: TemplateRegistryService,
+  ) {
+    this.i18nConfig = this.configService.get("i18n");
+  }
+
+  get defaultLocale(): string {
+    return this.i18nConfig.defaultLocale;
+  }
+
+  /**
+   * Returns the canonical form of the requested locale (`pt_br` → `pt-BR`), or
+   * the default locale when none or an invalid one is given.
+   */
+  resolveLocale(locale?: string): string {
+    if (!locale) {
+      return this.defaultLocale;
+    }
+
+    try {
+      return Intl.getCanonicalLocales(locale.replace(/_/g, "-"))[0];
+    }
+    catch {
+      this.logger.warn(`Invalid locale "${locale}", using ${this.defaultLocale}`);
+      return this.defaultLocale;
+    }
+  }
+
+  /**
+   * Lists the locales to try in order, e.g. `pt-BR` → `pt-BR`, `pt`, default.
+   */
+  getFallbackChain(locale: string): string[] {
+    const chain: string[] = [];
+    const parts = locale.split("-");
+
+    for (let length = parts.length; length > 0; length--) {
+      chain.push(parts.slice(0, length).join("-"));
+    }
+    chain.push(this.defaultLocale);
+
+    return [...new Set(chain)];
+  }
+
+  /**
+   * Returns the messages for a locale, flattened to dotted keys. Keys missing
+   * from a locale are filled in from the next locale of its fallback chain.
+   */
+  async getMessages(locale: string): Promise<Record<string, string>> {
+    const chain = this.getFallbackChain(locale);
+    const catalogs = await Promise.all(chain.map(candidate => this.loadCatalog(candidate)));
+
+    return Object.assign({}, ...catalogs.reverse());
+  }
+
+  formatDate(value: Date | string, locale: string): string {
+    return new Date(value).toLocaleDateString(locale);
+  }
+
+  /**
+   * Date and time with the time zone's name, e.g. for the expiry of a link.
+   * Without a time zone, the time is given in UTC.
+   */
+  formatDateTime(value: Date | string, locale: string, timeZone = "UTC"): string {
+    return new Date(value).toLocaleString(locale, {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone,
+      timeZoneName: "short",
+    });
+  }
+
+  /** Short name of the day of a calendar date, e.g. "lun." in French */
+  formatWeekday(value: Date | string, locale: string): string {
+    return new Date(value).toLocaleDateString(locale, { weekday: "short", timeZone: "UTC" });
+  }
+
+  /**
+   * Name of a language from its code, e.g. `es` → "espagnol" in French.
+   * Codes Intl does not know are returned as they are.
+   */
+  formatLanguage(code: string, locale: string): string {
+    try {
+      return new Intl.DisplayNames(locale, { type: "language", fallback: "code" }).of(code) ?? code;
+    }
+    catch {
+      return code;
+    }
+  }
+
+  /** Fills in the `{name}` placeholders of a catalog message; unknown ones are kept */
+  formatMessage(message: string, values: Record<string, string>): string {
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+  }
+
+  /**
+   * Picks the `<key>.<category>` message for the plural category of `count`
+   * in the locale, such as `one` or `other`, and fills in `{count}`.
+   */
+  formatPlural(messages: Record<string, string>, key: string, count: number, locale: string): string {
+    const category = new Intl.PluralRules(locale).select(count);
+    const message = messages[`${key}.${category}`] ?? messages[`${key}.other`] ?? key;
+
+    return this.formatMessage(message, { count: new Intl.NumberFormat(locale).format(count) });
+  }
+
+  /**
+   * Amounts are in the currency's minor unit, as sent by the payment service:
+   * cents for EUR, but yen for JPY, which has none.
+   */
+  formatCurrency(amount: number, currency: string, locale: string): string {
+    const format = new Intl.NumberFormat(locale, { style: "currency", currency: currency.toUpperCase() });
+    return format.format(amount / 10 ** (format.resolvedOptions().maximumFractionDigits ?? 2));
+  }
+
+  /** Number of minor unit digits of the currency, e.g. 2 for EUR and 0 for JPY */
+  getCurrencyDigits(currency: string, locale: string): number {
+    return new Intl.NumberFormat(locale, { style: "currency", currency: currency.toUpperCase() }).resolvedOptions().maximumFractionDigits ?? 2;
+  }
+
+  /**
+   * Compares every supported locale against the default one and reports the
+   * template files, subjects and catalog messages that would fall back.
+   */
+  async findMissingTranslations(): Promise<MissingTranslation[]> {
+    const missing: MissingTranslation[] = [];
+    const templates = await this.templateRegistry.list();
+    const defaultKeys = Object.keys(await this.loadCatalog(this.defaultLocale));
+
+    for (const locale of this.i18nConfig.supportedLocales.map(supported => this.resolveLocale(supported))) {
+      if (locale === this.defaultLocale) {
+        continue;
+      }
+
+      const candidates = this.getFallbackChain(locale).filter(candidate => candidate !== this.defaultLocale);
+
+      for (const template of templates) {
+        for (const extension of ["html.hbs", "text.hbs"]) {
+          const found = await this.someAsync(candidates, candidate =>
+            this.templateRegistry.fileExists(template.name, `${candidate}.${extension}`));
+          if (!found) {
+            missing.push({ locale, template: template.name, item: `${locale}.${extension}` });
+          }
+        }
+
+        if (!candidates.some(candidate => template.subjects?.[candidate])) {
+          missing.push({ locale, template: template.name, item: "subject" });
+        }
+      }
+
+      const catalogs = await Promise.all(candidates.map(candidate => this.loadCatalog(candidate)));
+      for (const key of defaultKeys) {
+        if (!catalogs.some(catalog => key in catalog)) {
+          missing.push({ locale, item: key });
+        }
+      }
+    }
+
+    return missing;
+  }
+
+  clearCache(): void {
+    this.catalogCache.clear();
+  }
+
+  private async someAsync(values: string[], predicate: (value: string) => Promise<boolean>): Promise<boolean> {
+    for (const value of values) {
+      if (await predicate(value)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async loadCatalog(locale: string): Promise<Record<string, string>> {
+    const cached = this.catalogCache.get(locale);
+    if (cached) {
+      return cached;
+    }
+
+    let catalog: Record<string, string> = {};
+    try {
+      const content = await fs.promises.readFile(this.templateRegistry.resolvePath(LOCALES_DIRECTORY, `${locale}.json`), "utf-8");
+      catalog = this.flatten(JSON.parse(content));
+    }
+    catch (error) {
+      if (error.code !== "ENOENT") {
+        this.logger.error(`Invalid message catalog for locale ${locale}: ${error.message}`);
+      }
+    }
+
+    this.catalogCache.set(locale, catalog);
+    return catalog;
+  }
+
+  private flatten(messages: Record<string, any>, prefix = ""): Record<string, string> {
+    const flat: Record<string, string> = {};
+
+    for (const [key, value] of Object.entries(messages)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (value && typeof value === "object") {
+        Object.assign(flat, this.flatten(value, path));
+      }
+      else {
+        flat[path] = String(value);
+      }
+    }
+
+    return flat;
+  }
+}
@@ -1,9 +1,12 @@
-const axios = require("axios");
+// Typed client built by `npm run build`
+const { NotificationClient } = require("./dist/client");
 
 // Configuration
 const NOTIFICATION_SERVICE_URL = "http://localhost:3006/api/v1";
 const API_KEY = "test-api-key"; // You'll need to set this in your .env
 
+const client = new NotificationClient({ baseUrl: NOTIFICATION_SERVICE_URL, apiKey: API_KEY });
+
 async function testWelcomeEmail() {
   console.log("🧪 Testing Welcome Email Functionality\n");
 
@@ -20,35 +23,24 @@ async function testWelcomeEmail() {
     console.log("📧 Sending welcome email request...");
     console.log("Data:", JSON.stringify(testEmailData, null, 2));
 
-    const response = await axios.post(
-      `${NOTIFICATION_SERVICE_URL}/notifications/welcome-email`,
-      testEmailData,
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": API_KEY,
-        },
-        timeout: 10000,
-      },
-    );
+    const response = await client.sendWelcomeEmail(testEmailData);
 
     console.log("\n✅ Response received:");
-    console.log("Status:", response.status);
-    console.log("Data:", JSON.stringify(response.data, null, 2));
+    console.log("Data:", JSON.stringify(response, null, 2));
 
-    if (response.data.success) {
+    if (response.success) {
       console.log("\n🎉 Welcome email test successful!");
     }
     else {
-      console.log("\n❌ Welcome email test failed:", response.data.message);
+      console.log("\n❌ Welcome email test failed:", response.message);
     }
   }
   catch (error) {
     console.error("\n❌ Test failed:", error.message);
 
     if (error.response) {
-      console.error("Response status:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
+      console.error("Response status:", error.status);
+      console.error("Response data:", JSON.stringify(error.response, null, 2));
     }
   }
 }
@@ -57,26 +49,17 @@ async function testHealthCheck() {
   console.log("\n🔍 Testing Health Check...");
 
   try {
-    const response = await axios.get(
-      `${NOTIFICATION_SERVICE_URL}/notifications/health`,
-      {
-        headers: {
-          "X-API-Key": API_KEY,
-        },
-        timeout: 5000,
-      },
-    );
+    const response = await client.health();
 
     console.log("✅ Health check response:");
-    console.log("Status:", response.status);
-    console.log("Data:", JSON.stringify(response.data, null, 2));
+    console.log("Data:", JSON.stringify(response, null, 2));
   }
   catch (error) {
     console.error("❌ Health check failed:", error.message);
 
     if (error.response) {
-      console.error("Response status:", error.response.status);
-      console.error("Response data:", JSON.stringify(error.response.data, null, 2));
+      console.error("Response status:", error.status);
+      console.error("Response data:", JSON.stringify(error.response, null, 2));
     }
   }
 }
@@ -1,21 +1,50 @@
-import { INestApplication, ValidationPipe } from "@nestjs/common";
+import { ValidationPipe } from "@nestjs/common";
+import { NestExpressApplication } from "@nestjs/platform-express";
 import { Test, TestingModule } from "@nestjs/testing";
+import * as fs from "node:fs";
+import { AddressInfo } from "node:net";
+import * as path from "node:path";
 import * as request from "supertest";
 
 import { AppModule } from "../src/app.module";
+import { NotificationClient } from "../src/client/notification-client";
+import { RequestSigner } from "../src/client/request-signer";
+import { MemoryEventBroker } from "../src/events/memory-event.broker";
+import { createOpenApiDocument } from "../src/openapi";
+import { EmailWorkerService } from "../src/services/email-worker.service";
+import { EventConsumerService } from "../src/services/event-consumer.service";
+import { ReminderSchedulerService } from "../src/services/reminder-scheduler.service";
 
 describe("NotificationService (e2e)", () => {
-  let app: INestApplication;
+  let app: NestExpressApplication;
 
   beforeEach(async () => {
     // Set up test environment variables
     process.env.NOTIFY_SERVICE_API_KEY = "test-api-key-123";
+    process.env.API_KEYS = JSON.stringify([
+      { name: "payment-service", key: "payment-service-key", scopes: ["notifications:billing", "notifications:read"] },
+      { name: "auth-service", key: "auth-service-secret", scopes: ["notifications:welcome"], auth: "hmac" },
+      { name: "account-service", key: "account-service-key", scopes: ["notifications:security"] },
+      { name: "learning-service", key: "learning-service-key", scopes: ["notifications:learning"] },
+      {
+        name: "admin-tools",
+        scopes: ["admin:*"],
+        keys: [
+          // sha256 of "old-admin-key"
+          { hash: "sha256:674bc029decb1a993b00558d9ff81ec02476469eebdfff0f09ce58913dca3dde", deprecated: true },
+          { key: "new-admin-key" },
+        ],
+      },
+    ]);
+    process.env.WEBHOOK_TOKEN = "test-webhook-token";
+    process.env.EVENT_BROKER = "memory";
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     }).compile();
 
-    app = moduleFixture.createNestApplication();
+    app = moduleFixture.createNestApplication<NestExpressApplication>({ rawBody: true });
+    app.useBodyParser("text", { type: ["text/plain", "message/*", "multipart/report"] });
 
     // Add the same pipes as in main.ts
     app.useGlobalPipes(new ValidationPipe({
@@ -34,6 +63,9 @@ describe("NotificationService (e2e)", () => {
     await app.close();
     // Clean up environment variables
     delete process.env.NOTIFY_SERVICE_API_KEY;
+    delete process.env.API_KEYS;
+    delete process.env.WEBHOOK_TOKEN;
+    delete process.env.EVENT_BROKER;
   });
 
   describe("App Endpoints", () => {
@@ -131,6 +163,22 @@ describe("NotificationService (e2e)", () => {
         .expect(400);
     });
 
+    it("/api/v1/notifications/welcome-email (POST) - should validate locale", () => {
+      const invalidDto = {
+        email: "test@example.com",
+        firstName: "John",
+        lastName: "Doe",
+        provider: "google",
+        locale: "not a locale",
+      };
+
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", validApiKey)
+        .send(invalidDto)
+        .expect(400);
+    });
+
     it("/api/v1/notifications/welcome-email (POST) - should accept valid welcome email request", () => {
       const validDto = {
         email: "test@example.com",
@@ -153,6 +201,183 @@ describe("NotificationService (e2e)", () => {
         });
     });
 
+    it("/api/v1/notifications/:id (GET) - should return the status of an accepted notification", async () => {
+      const accepted = await request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", validApiKey)
+        .send({
+          email: "status@example.com",
+          firstName: "John",
+          lastName: "Doe",
+          provider: "google",
+          userId: "user-status",
+        })
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get(`/api/v1/notifications/${accepted.body.jobId}`)
+        .set("x-api-key", validApiKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body).toHaveProperty("id", accepted.body.jobId);
+          expect(res.body).toHaveProperty("userId", "user-status");
+          expect(res.body).toHaveProperty("recipient", "status@example.com");
+          expect(res.body).toHaveProperty("template", "welcome");
+          expect(res.body).toHaveProperty("status");
+        });
+    });
+
+    it("/api/v1/notifications/:id (GET) - should return 404 for unknown notifications", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/unknown-id")
+        .set("x-api-key", validApiKey)
+        .expect(404);
+    });
+
+    it("/api/v1/notifications (GET) - should list notifications filtered by user id", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", validApiKey)
+        .send({
+          email: "list@example.com",
+          firstName: "John",
+          lastName: "Doe",
+          provider: "google",
+          userId: "user-list",
+        })
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications")
+        .query({ userId: "user-list", template: "welcome" })
+        .set("x-api-key", validApiKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.total).toBe(1);
+          expect(res.body.items[0]).toHaveProperty("recipient", "list@example.com");
+        });
+    });
+
+    it("/api/v1/notifications (GET) - should validate filters", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications")
+        .query({ from: "not-a-date" })
+        .set("x-api-key", validApiKey)
+        .expect(400);
+    });
+
+    it("/api/v1/notifications/welcome-email (POST) - should replay the original response for a repeated Idempotency-Key", async () => {
+      const send = () => request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", validApiKey)
+        .set("Idempotency-Key", "signup-e2e-1")
+        .send({
+          email: "idempotent@example.com",
+          firstName: "John",
+          lastName: "Doe",
+          provider: "google",
+        })
+        .expect(200);
+
+      const first = await send();
+      const second = await send();
+
+      expect(second.body.jobId).toBe(first.body.jobId);
+      expect(second.headers["idempotent-replayed"]).toBe("true");
+    });
+
+    it("/api/v1/notifications/send (POST) - should queue any registered template", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/send")
+        .set("x-api-key", validApiKey)
+        .send({
+          template: "welcome",
+          to: "generic@example.com",
+          data: { firstName: "John", lastName: "Doe", provider: "google" },
+        })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.success).toBe(true);
+          expect(res.body).toHaveProperty("jobId");
+        });
+    });
+
+    it("/api/v1/notifications/send (POST) - should validate data against the template schema", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/send")
+        .set("x-api-key", validApiKey)
+        .send({
+          template: "welcome",
+          to: "generic@example.com",
+          data: { firstName: "John", provider: "myspace" },
+        })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.code).toBe("VALIDATION_FAILED");
+          expect(res.body.details).toEqual(expect.arrayContaining([
+            "data must have required property 'lastName'",
+          ]));
+        });
+    });
+
+    it("/api/v1/notifications/send (POST) - should return 404 for unknown templates", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/send")
+        .set("x-api-key", validApiKey)
+        .send({ template: "does-not-exist", to: "generic@example.com", data: {} })
+        .expect(404);
+    });
+
+    it("/api/v1/notifications/templates (GET) - should list registered templates", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/templates")
+        .set("x-api-key", validApiKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.map(template => template.name)).toEqual(expect.arrayContaining(["welcome", "subscription"]));
+        });
+    });
+
+    it("/api/v1/notifications/templates/cache (GET) - should return the template cache status", async () => {
+      await request(app.getHttpServer())
+        .get("/api/v1/notifications/templates/welcome/preview")
+        .set("x-api-key", validApiKey)
+        .expect(200);
+
+      const status = await request(app.getHttpServer())
+        .get("/api/v1/notifications/templates/cache")
+        .set("x-api-key", validApiKey)
+        .expect(200);
+
+      expect(status.body.keys).toContain("welcome:fr");
+    });
+
+    it("/api/v1/notifications/templates/cache/:name (DELETE) - should invalidate a template", async () => {
+      await request(app.getHttpServer())
+        .get("/api/v1/notifications/templates/welcome/preview")
+        .set("x-api-key", validApiKey)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .delete("/api/v1/notifications/templates/cache/welcome")
+        .set("x-api-key", validApiKey)
+        .expect(204);
+
+      const status = await request(app.getHttpServer())
+        .get("/api/v1/notifications/templates/cache")
+        .set("x-api-key", validApiKey)
+        .expect(200);
+
+      expect(status.body.keys).not.toContain("welcome:fr");
+    });
+
+    it("/api/v1/notifications/templates/cache/:name (DELETE) - should return 404 for unknown templates", () => {
+      return request(app.getHttpServer())
+        .delete("/api/v1/notifications/templates/cache/does-not-exist")
+        .set("x-api-key", validApiKey)
+        .expect(404);
+    });
+
     it("/api/v1/notifications/subscription-confirmation (POST) - should validate subscription plan", () => {
       const invalidPlanDto = {
         email: "test@example.com",
@@ -210,6 +435,106 @@ describe("NotificationService (e2e)", () => {
     });
   });
 
+  describe("Sandbox", () => {
+    const validApiKey = "test-api-key-123";
+
+    it("/api/v1/notifications/sandbox (GET) - should serve the viewer page without API key", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/sandbox")
+        .expect(200)
+        .expect("Content-Type", /text\/html/)
+        .expect((res) => {
+          expect(res.text).toContain("Sandbox mailbox");
+        });
+    });
+
+    it("/api/v1/notifications/sandbox/messages (GET) - should require an API key", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/sandbox/messages")
+        .expect(401);
+    });
+
+    it("/api/v1/notifications/sandbox/messages (GET) - should capture the rendered email instead of sending it", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", validApiKey)
+        .send({ email: "sandbox@example.com", firstName: "Jane", lastName: "Doe", provider: "github", locale: "en" })
+        .expect(200);
+      await app.get(EmailWorkerService).processDueJobs();
+
+      const list = await request(app.getHttpServer())
+        .get("/api/v1/notifications/sandbox/messages?to=sandbox@example.com")
+        .set("x-api-key", validApiKey)
+        .expect(200);
+
+      expect(list.body.total).toBe(1);
+      expect(list.body.items[0].subject).toBe("Welcome to Penpal AI! 🎉");
+
+      const message = await request(app.getHttpServer())
+        .get(`/api/v1/notifications/sandbox/messages/${list.body.items[0].id}`)
+        .set("x-api-key", validApiKey)
+        .expect(200);
+
+      expect(message.body.headers.To).toBe("sandbox@example.com");
+      expect(message.body.html).toContain("Welcome Jane Doe!");
+      expect(message.body.text).toContain("GitHub");
+    });
+  });
+
+  describe("Template Preview", () => {
+    const validApiKey = "test-api-key-123";
+
+    it("/api/v1/notifications/templates/:name/preview (GET) - should render the sample data", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/templates/welcome/preview?locale=en")
+        .set("x-api-key", validApiKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.template).toBe("welcome");
+          expect(res.body.subject).toBe("Welcome to Penpal AI! 🎉");
+          expect(res.body.html).toContain("Welcome Jane Doe!");
+          expect(res.body.text).toContain("Google");
+        });
+    });
+
+    it("/api/v1/notifications/templates/:name/preview (POST) - should render the submitted data", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/templates/welcome/preview")
+        .set("x-api-key", validApiKey)
+        .send({ data: { firstName: "John", lastName: "Smith", provider: "github" } })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.subject).toBe("Bienvenue dans Penpal AI ! 🎉");
+          expect(res.body.html).toContain("John Smith");
+        });
+    });
+
+    it("/api/v1/notifications/templates/:name/preview (POST) - should validate data against the template schema", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/templates/welcome/preview")
+        .set("x-api-key", validApiKey)
+        .send({ data: { firstName: "John" } })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.details).toEqual(expect.arrayContaining(["data must have required property 'lastName'"]));
+        });
+    });
+
+    it("/api/v1/notifications/templates/:name/preview (GET) - should return 404 for unknown templates", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/templates/does-not-exist/preview")
+        .set("x-api-key", validApiKey)
+        .expect(404);
+    });
+
+    it("/api/v1/notifications/templates/:name/preview/view (GET) - should serve the preview page without API key", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/templates/welcome/preview/view")
+        .expect(200)
+        .expect("Content-Type", /text\/html/);
+    });
+  });
+
   describe("Authentication", () => {
     const validApiKey = "test-api-key-123"; // Use same API key as set in beforeEach
 
@@ -248,6 +573,987 @@ describe("NotificationService (e2e)", () => {
     });
   });
 
+  describe("Scoped API keys", () => {
+    const paymentServiceKey = "payment-service-key";
+
+    it("/api/v1/notifications/subscription-confirmation (POST) - should record the client that requested the email", async () => {
+      const accepted = await request(app.getHttpServer())
+        .post("/api/v1/notifications/subscription-confirmation")
+        .set("x-api-key", paymentServiceKey)
+        .send({ email: "billing@example.com", firstName: "Jane", lastName: "Doe", plan: "monthly", status: "active" })
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get(`/api/v1/notifications/${accepted.body.jobId}`)
+        .set("x-api-key", paymentServiceKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.clientId).toBe("payment-service");
+        });
+    });
+
+    it("/api/v1/notifications/welcome-email (POST) - should reject a key without the required scope", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", paymentServiceKey)
+        .send({ email: "test@example.com", firstName: "John", lastName: "Doe", provider: "google" })
+        .expect(403)
+        .expect((res) => {
+          expect(res.body.message).toBe("Missing scope: notifications:welcome");
+        });
+    });
+
+    it("/api/v1/notifications/templates/cache (DELETE) - should reject a key without admin scope", () => {
+      return request(app.getHttpServer())
+        .delete("/api/v1/notifications/templates/cache")
+        .set("x-api-key", paymentServiceKey)
+        .expect(403);
+    });
+  });
+
+  describe("Notification Preferences", () => {
+    const validApiKey = "test-api-key-123";
+
+    it("/api/v1/notifications/preferences/:userId (GET) - should return the defaults", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/preferences/user-prefs")
+        .set("x-api-key", validApiKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.categories).toEqual({ "transactional": true, "billing": true, "learning-reminders": true, "product-news": false });
+        });
+    });
+
+    it("/api/v1/notifications/preferences/:userId (PATCH) - should refuse to turn transactional emails off", () => {
+      return request(app.getHttpServer())
+        .patch("/api/v1/notifications/preferences/user-prefs")
+        .set("x-api-key", validApiKey)
+        .send({ categories: { transactional: false } })
+        .expect(400);
+    });
+
+    it("/api/v1/notifications/preferences/:userId (PATCH) - should refuse unknown categories", () => {
+      return request(app.getHttpServer())
+        .patch("/api/v1/notifications/preferences/user-prefs")
+        .set("x-api-key", validApiKey)
+        .send({ categories: { newsletter: false } })
+        .expect(400);
+    });
+
+    it("/api/v1/notifications/subscription-confirmation (POST) - should suppress and record emails the user opted out of", async () => {
+      await request(app.getHttpServer())
+        .patch("/api/v1/notifications/preferences/user-prefs")
+        .set("x-api-key", validApiKey)
+        .send({ categories: { billing: false } })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .post("/api/v1/notifications/subscription-confirmation")
+        .set("x-api-key", validApiKey)
+        .send({ email: "prefs@example.com", firstName: "Jane", lastName: "Doe", plan: "monthly", status: "active", userId: "user-prefs" })
+        .expect(200);
+
+      expect(response.body.suppression).toEqual({ reason: "opted-out", category: "billing" });
+
+      return request(app.getHttpServer())
+        .get(`/api/v1/notifications/${response.body.jobId}`)
+        .set("x-api-key", validApiKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.status).toBe("suppressed");
+        });
+    });
+
+    it("/api/v1/notifications/billing/receipt (POST) - should still send receipts to users who opted out of billing", async () => {
+      const response = await request(app.getHttpServer())
+        .post("/api/v1/notifications/billing/receipt")
+        .set("x-api-key", validApiKey)
+        .send({ email: "prefs@example.com", firstName: "Jane", lastName: "Doe", userId: "user-prefs", invoiceNumber: "PP-2030-0200", plan: "monthly", amount: 999, paidAt: "2030-01-15T00:00:00.000Z" })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.suppression).toBeUndefined();
+    });
+
+    it("/api/v1/notifications/preferences/:userId (GET) - should reject a key without the required scope", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/preferences/user-prefs")
+        .set("x-api-key", "payment-service-key")
+        .expect(403);
+    });
+  });
+
+  describe("Suppression List", () => {
+    const validApiKey = "test-api-key-123";
+    const webhookToken = "test-webhook-token";
+
+    const bounce = (address: string) => request(app.getHttpServer())
+      .post(`/api/v1/webhooks/bounces/sendgrid?token=${webhookToken}`)
+      .send([{ email: address, event: "bounce", type: "bounce", reason: "550 5.1.1 User unknown" }])
+      .expect(200);
+
+    it("/api/v1/webhooks/bounces/sendgrid (POST) - should reject requests without the webhook token", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/webhooks/bounces/sendgrid")
+        .send([{ email: "bounced@example.com", event: "bounce", type: "bounce" }])
+        .expect(401);
+    });
+
+    it("/api/v1/notifications/welcome-email (POST) - should refuse transactional emails to bounced addresses", async () => {
+      await bounce("bounced@example.com");
+
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", validApiKey)
+        .send({ email: "Bounced@Example.com", firstName: "Jane", lastName: "Doe", provider: "github" })
+        .expect(422)
+        .expect((res) => {
+          expect(res.body.success).toBe(false);
+          expect(res.body.code).toBe("ADDRESS_SUPPRESSED");
+          expect(res.body.retryable).toBe(false);
+          expect(res.body.details).toEqual({ suppression: { reason: "hard-bounce" } });
+        });
+    });
+
+    it("/api/v1/notifications/subscription-confirmation (POST) - should suppress other emails to bounced addresses", async () => {
+      await bounce("bounced@example.com");
+
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/subscription-confirmation")
+        .set("x-api-key", validApiKey)
+        .send({ email: "bounced@example.com", firstName: "Jane", lastName: "Doe", plan: "monthly", status: "active" })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.suppression).toEqual({ reason: "hard-bounce" });
+        });
+    });
+
+    it("/api/v1/webhooks/bounces/ses (POST) - should read SNS notifications sent as text", async () => {
+      const notification = {
+        Type: "Notification",
+        Message: JSON.stringify({
+          notificationType: "Complaint",
+          complaint: { complaintFeedbackType: "abuse", complainedRecipients: [{ emailAddress: "spam@example.com" }] },
+        }),
+      };
+
+      await request(app.getHttpServer())
+        .post(`/api/v1/webhooks/bounces/ses?token=${webhookToken}`)
+        .set("Content-Type", "text/plain; charset=UTF-8")
+        .send(JSON.stringify(notification))
+        .expect(200)
+        .expect({ suppressed: 1 });
+
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/suppressions?reason=complaint")
+        .set("x-api-key", validApiKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.total).toBe(1);
+          expect(res.body.items[0]).toEqual(expect.objectContaining({ address: "spam@example.com", source: "ses" }));
+        });
+    });
+
+    it("/api/v1/webhooks/bounces/dsn (POST) - should read raw delivery status notifications", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/webhooks/bounces/dsn")
+        .set("x-webhook-token", webhookToken)
+        .set("Content-Type", "message/delivery-status")
+        .send("Final-Recipient: rfc822; gone@example.com\r\nAction: failed\r\nStatus: 5.1.1\r\n")
+        .expect(200)
+        .expect({ suppressed: 1 });
+    });
+
+    it("/api/v1/notifications/suppressions/:address (DELETE) - should let the address receive emails again", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/suppressions")
+        .set("x-api-key", validApiKey)
+        .send({ address: "fixed@example.com" })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.reason).toBe("manual");
+        });
+
+      await request(app.getHttpServer())
+        .delete("/api/v1/notifications/suppressions/fixed@example.com")
+        .set("x-api-key", validApiKey)
+        .expect(204);
+
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", validApiKey)
+        .send({ email: "fixed@example.com", firstName: "Jane", lastName: "Doe", provider: "github" })
+        .expect(200);
+    });
+
+    it("/api/v1/notifications/suppressions (GET) - should reject a key without the required scope", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/suppressions")
+        .set("x-api-key", "payment-service-key")
+        .expect(403);
+    });
+  });
+
+  describe("Unsubscribe", () => {
+    const validApiKey = "test-api-key-123";
+
+    const findUnsubscribeUrl = async (to: string): Promise<string> => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/subscription-confirmation")
+        .set("x-api-key", validApiKey)
+        .send({ email: to, firstName: "Jane", lastName: "Doe", plan: "monthly", status: "active", userId: "user-unsubscribe" })
+        .expect(200);
+      await app.get(EmailWorkerService).processDueJobs();
+
+      const list = await request(app.getHttpServer())
+        .get(`/api/v1/notifications/sandbox/messages?to=${to}`)
+        .set("x-api-key", validApiKey)
+        .expect(200);
+      const message = await request(app.getHttpServer())
+        .get(`/api/v1/notifications/sandbox/messages/${list.body.items[0].id}`)
+        .set("x-api-key", validApiKey)
+        .expect(200);
+
+      expect(message.body.headers["List-Unsubscribe-Post"]).toBe("List-Unsubscribe=One-Click");
+      const [, url] = message.body.headers["List-Unsubscribe"].match(/^<(.+)>$/);
+      expect(message.body.html).toContain(url);
+
+      return new URL(url).pathname;
+    };
+
+    it("/api/v1/unsubscribe/:token (GET) - should ask for confirmation without an API key", async () => {
+      const path = await findUnsubscribeUrl("unsubscribe-page@example.com");
+
+      await request(app.getHttpServer())
+        .get(path)
+        .expect(200)
+        .expect("Content-Type", /text\/html/);
+
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/preferences/user-unsubscribe")
+        .set("x-api-key", validApiKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.categories.billing).toBe(true);
+        });
+    });
+
+    it("/api/v1/unsubscribe/:token (POST) - should opt the user out in one click", async () => {
+      const path = await findUnsubscribeUrl("unsubscribe-post@example.com");
+
+      await request(app.getHttpServer())
+        .post(path)
+        .type("form")
+        .send("List-Unsubscribe=One-Click")
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/preferences/user-unsubscribe")
+        .set("x-api-key", validApiKey)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.categories.billing).toBe(false);
+        });
+    });
+
+    it("/api/v1/unsubscribe/:token (POST) - should reject forged tokens", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/unsubscribe/forged.token")
+        .expect(404);
+    });
+
+    it("/api/v1/notifications/welcome-email (POST) - should not add unsubscribe links to transactional emails", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", validApiKey)
+        .send({ email: "no-unsubscribe@example.com", firstName: "Jane", lastName: "Doe", provider: "github", userId: "user-unsubscribe" })
+        .expect(200);
+      await app.get(EmailWorkerService).processDueJobs();
+
+      const list = await request(app.getHttpServer())
+        .get("/api/v1/notifications/sandbox/messages?to=no-unsubscribe@example.com")
+        .set("x-api-key", validApiKey)
+        .expect(200);
+      const message = await request(app.getHttpServer())
+        .get(`/api/v1/notifications/sandbox/messages/${list.body.items[0].id}`)
+        .set("x-api-key", validApiKey)
+        .expect(200);
+
+      expect(message.body.headers["List-Unsubscribe"]).toBeUndefined();
+    });
+  });
+
+  describe("Rate limiting", () => {
+    it("/api/v1/notifications/welcome-email (POST) - should refuse too many emails to one recipient", async () => {
+      const send = () => request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", "test-api-key-123")
+        .send({ email: "flooded@example.com", firstName: "John", lastName: "Doe", provider: "google" });
+
+      // Default limit: 10 emails per recipient and hour
+      for (let i = 0; i < 10; i++) {
+        await send().expect(200);
+      }
+
+      return send()
+        .expect(429)
+        .expect((res) => {
+          expect(Number(res.headers["retry-after"])).toBeGreaterThan(0);
+          expect(res.body.message).toMatch(/^Rate limit per recipient exceeded/);
+          expect(res.body.code).toBe("RATE_LIMITED");
+          expect(res.body.retryable).toBe(true);
+        });
+    });
+  });
+
+  describe("Error responses", () => {
+    it("/api/v1/notifications/welcome-email (POST) - should report validation errors with a stable code", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/welcome-email")
+        .set("x-api-key", "test-api-key-123")
+        .send({ email: "invalid-email", firstName: "John", lastName: "Doe", provider: "google" })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body).toEqual({
+            success: false,
+            statusCode: 400,
+            code: "VALIDATION_FAILED",
+            message: "Request validation failed",
+            retryable: false,
+            details: ["email must be an email"],
+            path: "/api/v1/notifications/welcome-email",
+            timestamp: expect.any(String),
+          });
+        });
+    });
+
+    it("/api/v1/notifications/health (GET) - should report authentication errors with a stable code", () => {
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/health")
+        .expect(401)
+        .expect((res) => {
+          expect(res.body.code).toBe("UNAUTHORIZED");
+          expect(res.body.retryable).toBe(false);
+        });
+    });
+
+    it("/api/v1/notifications/send (POST) - should report unknown templates with their own code", () => {
+      return request(app.getHttpServer())
+        .post("/api/v1/notifications/send")
+        .set("x-api-key", "test-api-key-123")
+        .send({ template: "missing", to: "generic@example.com", data: {} })
+        .expect(404)
+        .expect((res) => {
+          expect(res.body.code).toBe("TEMPLATE_NOT_FOUND");
+        });
+    });
+  });
+
+  describe("Key rotation", () => {
+    it("/api/v1/notifications/dead-letters (GET) - should accept both keys of a client being rotated", async () => {
+      await request(app.getHttpServer())
+        .get("/api/v1/notifications/dead-letters")
+        .set("x-api-key", "new-admin-key")
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/dead-letters")
+        .set("x-api-key", "old-admin-key")
+        .expect(200);
+    });
+
+    it("/api/v1/notifications/health (GET) - should report a deprecated key still in use", async () => {
+      await request(app.getHttpServer())
+        .get("/api/v1/notifications/health")
+        .set("x-api-key", "old-admin-key")
+        .expect(200);
+
+      return request(app.getHttpServer())
+        .get("/api/v1/notifications/health")
+        .set("x-api-key", "new-admin-key")
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.api_key_warnings).toEqual([
+            expect.objectContaining({ client: "admin-tools", reason: "deprecated" }),
+          ]);
+        });
+    });
+  });
+
+  describe("Signed requests", () => {
+    const signer = new RequestSigner("auth-service", "auth-service-secret");
+    const path = "/api/v1/notifications/welcome-email";
+    const body = JSON.stringify({ email: "signed@example.com", firstName: "Jane", lastName: "Doe", provider: "google" });
+
+    it("/api/v1/notifications/welcome-email (POST) - should accept a signed request", () => {
+      return request(app.getHttpServer())
+        .post(path)
+        .set("Content-Type", "application/json")
+        .set(signer.sign("POST", path, body))
+        .send(body)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.success).toBe(true);
+        });
+    });
+
+    it("/api/v1/notifications/welcome-email (POST) - should reject a replayed request", async () => {
+      const headers = signer.sign("POST", path, body);
+
+      await request(app.getHttpServer()).post(path).set("Content-Type", "application/json").set(headers).send(body).expect(200);
+
+      return request(app.getHttpServer())
+        .post(path)
+        .set("Content-Type", "application/json")
+        .set(headers)
+        .send(body)
+        .expect(401)
+        .expect((res) => {
+          expect(res.body.message).toBe("Request already processed");
+        });
+    });
+
+    it("/api/v1/notifications/welcome-email (POST) - should reject a request signed too long ago", () => {
+      return request(app.getHttpServer())
+        .post(path)
+        .set("Content-Type", "application/json")
+        .set(signer.sign("POST", path, body, new Date(Date.now() - 10 * 60 * 1000)))
+        .send(body)
+        .expect(401);
+    });
+
+    it("/api/v1/notifications/welcome-email (POST) - should reject a body that differs from the signed one", () => {
+      return request(app.getHttpServer())
+        .post(path)
+        .set("Content-Type", "application/json")
+        .set(signer.sign("POST", path, body))
+        .send(body.replace("signed@", "other@"))
+        .expect(401);
+    });
+
+    it("/api/v1/notifications/welcome-email (POST) - should reject the secret sent as an API key", () => {
+      return request(app.getHttpServer())
+        .post(path)
+        .set("x-api-key", "auth-service-secret")
+        .send(body)
+        .expect(401);
+    });
+  });
+
+  describe("OpenAPI document and client", () => {
+    it("should match the committed openapi.json", async () => {
+      const committed = JSON.parse(await fs.promises.readFile(path.join(__dirname, "..", "openapi.json"), "utf-8"));
+
+      // Out of date: run npm run client:generate
+      expect(JSON.parse(JSON.stringify(createOpenApiDocument(app)))).toEqual(committed);
+    });
+
+    it("should document every route with a summary, a tag and a success response", () => {
+      const document = createOpenApiDocument(app);
+
+      for (const [route, operations] of Object.entries(document.paths)) {
+        for (const [method, operation] of Object.entries(operations)) {
+          const label = `${method.toUpperCase()} ${route}`;
+          expect({ label, summary: operation.summary }).toEqual({ label, summary: expect.any(String) });
+          expect({ label, tags: operation.tags }).toEqual({ label, tags: [expect.any(String)] });
+          expect({ label, responses: Object.keys(operation.responses) }).toEqual({ label, responses: expect.arrayContaining([expect.stringMatching(/^20[04]$/)]) });
+        }
+      }
+    });
+
+    it("should send an email and read it back through the client", async () => {
+      const server = app.getHttpServer().listen(0);
+      await new Promise(resolve => server.once("listening", resolve));
+
+      try {
+        const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+        const client = new NotificationClient({ baseUrl, apiKey: "test-api-key-123" });
+
+        const response = await client.sendWelcomeEmail({ email: "client@example.com", firstName: "Jane", lastName: "Doe", provider: "google" });
+        const notification = await client.getNotification(response.jobId!);
+        expect(notification.recipient).toBe("client@example.com");
+
+        const signedClient = new NotificationClient({ baseUrl, signer: new RequestSigner("auth-service", "auth-service-secret") });
+        await expect(signedClient.sendWelcomeEmail({ email: "signed-client@example.com", firstName: "Jane", lastName: "Doe", provider: "google" }))
+          .resolves
+          .toMatchObject({ success: true });
+        await expect(signedClient.listTemplates()).rejects.toMatchObject({ status: 403, code: "FORBIDDEN", retryable: false });
+      }
+      finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+
+  describe("Event consumer", () => {
+    it("should queue the email mapped to a published event", async () => {
+      const broker = app.get(EventConsumerService).broker as MemoryEventBroker;
+
+      await broker.publish({
+        id: "evt-registered-1",
+        type: "user.registered",
+        data: { email: "event@example.com", firstName: "Jane", lastName: "Doe", provider: "email", userId: "user-event" },
+      });
+
+      const res = await request(app.getHttpServer())
+        .get("/api/v1/notifications")
+        .query({ email: "event@example.com" })
+        .set("x-api-key", "test-api-key-123")
+        .expect(200);
+
+      expect(res.body.items).toEqual([expect.objectContaining({ template: "welcome", clientId: "events", userId: "user-event", status: "queued" })]);
+    });
+
+    it("should not queue an event delivered twice again", async () => {
+      const broker = app.get(EventConsumerService).broker as MemoryEventBroker;
+      const event = {
+        id: "evt-subscription-1",
+        type: "subscription.created",
+        data: { email: "event-billing@example.com", firstName: "Jane", lastName: "Doe", plan: "yearly", status: "active" },
+      };
+
+      await broker.publish(event);
+      await broker.publish(event);
+
+      const res = await request(app.getHttpServer())
+        .get("/api/v1/notifications")
+        .query({ email: "event-billing@example.com" })
+        .set("x-api-key", "test-api-key-123")
+        .expect(200);
+
+      expect(res.body.total).toBe(1);
+    });
+  });
+
+  describe("Billing emails", () => {
+    const paymentServiceKey = "payment-service-key";
+    const customer = { email: "billing@example.com", firstName: "Jane", lastName: "Doe", userId: "user-billing", locale: "en" };
+    const requests = {
+      "payment-failed": { ...customer, plan: "monthly", amount: 999, attemptCount: 1, nextAttemptDate: "2030-01-18T00:00:00.000Z" },
+      "card-expiring": { ...customer, cardBrand: "Visa", last4: "4242", expiryMonth: 2, expiryYear: 2030 },
+      "plan-changed": { ...customer, previousPlan: "monthly", plan: "yearly", effectiveDate: "2030-01-15T00:00:00.000Z" },
+      "subscription-cancelled": { ...customer, plan: "monthly", accessUntil: "2030-01-15T00:00:00.000Z" },
+      "subscription-expired": { ...customer, plan: "monthly", expiredAt: "2030-01-15T00:00:00.000Z" },
+      "refund-issued": { ...customer, amount: 999, currency: "EUR" },
+      "receipt": { ...customer, invoiceNumber: "PP-2030-0001", plan: "monthly", amount: 999, paidAt: "2030-01-15T00:00:00.000Z" },
+    };
+
+    it("should queue and render every billing lifecycle email", async () => {
+      for (const [template, body] of Object.entries(requests)) {
+        await request(app.getHttpServer())
+          .post(`/api/v1/notifications/billing/${template}`)
+          .set("x-api-key", paymentServiceKey)
+          .send(body)
+          .expect(200)
+          .expect(res => expect(res.body.success).toBe(true));
+      }
+      // The worker delivers QUEUE_CONCURRENCY jobs at a time
+      while (await app.get(EmailWorkerService).processDueJobs() > 0);
+
+      const history = await request(app.getHttpServer())
+        .get("/api/v1/notifications")
+        .query({ userId: "user-billing" })
+        .set("x-api-key", paymentServiceKey)
+        .expect(200);
+
+      expect(history.body.items.map(item => item.template).sort()).toEqual(Object.keys(requests).sort());
+      expect(history.body.items.every(item => item.status === "sent")).toBe(true);
+    });
+
+    it("should not replay a receipt for another invoice of the same user", async () => {
+      for (const invoiceNumber of ["PP-2030-0002", "PP-2030-0003"]) {
+        await request(app.getHttpServer())
+          .post("/api/v1/notifications/billing/receipt")
+          .set("x-api-key", paymentServiceKey)
+          .send({ ...requests.receipt, invoiceNumber })
+          .expect(200)
+          .expect(res => expect(res.headers["idempotent-replayed"]).toBeUndefined());
+      }
+    });
+
+    it("should validate the request against its DTO", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/billing/card-expiring")
+        .set("x-api-key", paymentServiceKey)
+        .send({ ...requests["card-expiring"], last4: "42" })
+        .expect(400)
+        .expect(res => expect(res.body.code).toBe("VALIDATION_FAILED"));
+    });
+
+    it("should refuse currencies that are not ISO 4217 codes, on the generic route too", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/billing/receipt")
+        .set("x-api-key", paymentServiceKey)
+        .send({ ...requests.receipt, currency: "EURO" })
+        .expect(400)
+        .expect(res => expect(res.body.code).toBe("VALIDATION_FAILED"));
+
+      const { email, userId, ...data } = requests.receipt;
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/send")
+        .set("x-api-key", "test-api-key-123")
+        .send({ template: "receipt", to: email, userId, data: { ...data, currency: "EURO" } })
+        .expect(400)
+        .expect(res => expect(res.body.code).toBe("VALIDATION_FAILED"));
+    });
+  });
+
+  describe("Invoices", () => {
+    const paymentServiceKey = "payment-service-key";
+    const receipt = {
+      email: "invoice@example.com",
+      firstName: "Jane",
+      lastName: "Doe",
+      userId: "user-invoice",
+      invoiceNumber: "PP-2030-0100",
+      plan: "yearly",
+      amount: 9999,
+      paidAt: "2030-01-15T00:00:00.000Z",
+    };
+
+    it("should attach a PDF invoice to receipts and serve it afterwards", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/billing/receipt")
+        .set("x-api-key", paymentServiceKey)
+        .send(receipt)
+        .expect(200);
+      await app.get(EmailWorkerService).processDueJobs();
+
+      const list = await request(app.getHttpServer())
+        .get("/api/v1/notifications/sandbox/messages?to=invoice@example.com")
+        .set("x-api-key", "test-api-key-123")
+        .expect(200);
+      const message = await request(app.getHttpServer())
+        .get(`/api/v1/notifications/sandbox/messages/${list.body.items[0].id}`)
+        .set("x-api-key", "test-api-key-123")
+        .expect(200);
+      expect(message.body.attachments).toEqual([
+        expect.objectContaining({ filename: "facture-PP-2030-0100.pdf", contentType: "application/pdf" }),
+      ]);
+
+      const invoices = await request(app.getHttpServer())
+        .get("/api/v1/notifications/invoices")
+        .query({ userId: "user-invoice" })
+        .set("x-api-key", paymentServiceKey)
+        .expect(200);
+      expect(invoices.body).toEqual([expect.objectContaining({ invoiceNumber: "PP-2030-0100", total: 9999, vatAmount: 1666 })]);
+
+      const pdf = await request(app.getHttpServer())
+        .get(`/api/v1/notifications/invoices/${invoices.body[0].id}`)
+        .set("x-api-key", paymentServiceKey)
+        .responseType("blob")
+        .expect(200)
+        .expect("Content-Type", "application/pdf")
+        .expect("Content-Disposition", "attachment; filename=\"facture-PP-2030-0100.pdf\"");
+      expect(pdf.body.subarray(0, 8).toString()).toBe("%PDF-1.4");
+    });
+
+    it("should require an API key to download an invoice", async () => {
+      await request(app.getHttpServer())
+        .get("/api/v1/notifications/invoices/unknown")
+        .expect(401);
+    });
+
+    it("should return 404 for an unknown invoice", async () => {
+      await request(app.getHttpServer())
+        .get("/api/v1/notifications/invoices/unknown")
+        .set("x-api-key", paymentServiceKey)
+        .expect(404)
+        .expect(res => expect(res.body.code).toBe("NOT_FOUND"));
+    });
+  });
+
+  describe("Security emails", () => {
+    const accountServiceKey = "account-service-key";
+    const user = { firstName: "Jane", lastName: "Doe", userId: "user-security", locale: "en", timeZone: "Europe/Paris" };
+    const context = { occurredAt: "2030-01-15T10:30:00.000Z", ipAddress: "203.0.113.42", device: "Firefox on Linux", location: "Paris, France" };
+
+    const sandboxMessage = async (to: string) => {
+      const list = await request(app.getHttpServer())
+        .get(`/api/v1/notifications/sandbox/messages?to=${to}`)
+        .set("x-api-key", "test-api-key-123")
+        .expect(200);
+      const message = await request(app.getHttpServer())
+        .get(`/api/v1/notifications/sandbox/messages/${list.body.items[0].id}`)
+        .set("x-api-key", "test-api-key-123")
+        .expect(200);
+
+      return message.body;
+    };
+
+    it("should send the password reset link with its expiry and where it was requested from", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/security/password-reset")
+        .set("x-api-key", accountServiceKey)
+        .send({
+          ...user,
+          ...context,
+          email: "reset@example.com",
+          resetUrl: "https://app.penpal-ai.com/reset-password?token=abc123",
+          expiresAt: "2030-01-15T11:30:00.000Z",
+        })
+        .expect(200)
+        .expect(res => expect(res.body.message).toBe("Password reset email queued for delivery"));
+      await app.get(EmailWorkerService).processDueJobs();
+
+      const message = await sandboxMessage("reset@example.com");
+      expect(message.subject).toBe("Reset your Penpal AI password");
+      expect(message.text).toContain("Choose a new password: https://app.penpal-ai.com/reset-password?token=abc123");
+      expect(message.text).toContain("This link expires on January 15, 2030 at 12:30 PM GMT+1");
+      expect(message.text).toContain("- Device: Firefox on Linux");
+      expect(message.html).toContain("203.0.113.42");
+    });
+
+    it("should notify both addresses of an email change", async () => {
+      const response = await request(app.getHttpServer())
+        .post("/api/v1/notifications/security/email-changed")
+        .set("x-api-key", accountServiceKey)
+        .send({ ...user, ...context, previousEmail: "before@example.com", newEmail: "after@example.com", revertUrl: "https://app.penpal-ai.com/revert-email?token=abc123" })
+        .expect(200);
+      expect(response.body.previousAddress.jobId).not.toBe(response.body.newAddress.jobId);
+      await app.get(EmailWorkerService).processDueJobs();
+
+      expect((await sandboxMessage("before@example.com")).text).toContain("Cancel this change");
+      expect((await sandboxMessage("after@example.com")).text).not.toContain("Cancel this change");
+    });
+
+    it("should still tell the new address when the previous one is suppressed", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/suppressions")
+        .set("x-api-key", "test-api-key-123")
+        .send({ address: "bounced-before@example.com", reason: "hard-bounce" })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .post("/api/v1/notifications/security/email-changed")
+        .set("x-api-key", accountServiceKey)
+        .send({ ...user, ...context, previousEmail: "bounced-before@example.com", newEmail: "still-after@example.com" })
+        .expect(200);
+
+      expect(response.body.previousAddress).toMatchObject({ success: false, suppression: { reason: "hard-bounce" } });
+      expect(response.body.newAddress.jobId).toBeDefined();
+    });
+
+    it("should require the security scope", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/security/new-login")
+        .set("x-api-key", "payment-service-key")
+        .send({ ...user, ...context, email: "login@example.com" })
+        .expect(403);
+    });
+
+    it("should validate the request against its DTO", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/security/new-login")
+        .set("x-api-key", accountServiceKey)
+        .send({ ...user, ...context, email: "login@example.com", ipAddress: "not-an-ip", timeZone: "Mars/Olympus" })
+        .expect(400)
+        .expect(res => expect(res.body.code).toBe("VALIDATION_FAILED"));
+    });
+
+    it("should refuse unknown time zones on the generic route too", async () => {
+      const { userId, ...data } = user;
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/send")
+        .set("x-api-key", "test-api-key-123")
+        .send({ template: "new-login", to: "login@example.com", userId, data: { ...data, ...context, timeZone: "Mars/Olympus" } })
+        .expect(400)
+        .expect(res => expect(res.body.details).toEqual(["/timeZone must match format \"time-zone\""]));
+    });
+  });
+
+  describe("Weekly digests", () => {
+    const learningServiceKey = "learning-service-key";
+    const digest = {
+      firstName: "Jane",
+      lastName: "Doe",
+      locale: "en",
+      weekStart: "2030-01-07",
+      conversations: 6,
+      minutesPractised: 95,
+      newVocabulary: ["madrugar", "la sobremesa"],
+      streakDays: 5,
+      dailyMinutes: [15, 20, 0, 10, 25, 0, 25],
+      languages: [{ language: "es", conversations: 4, minutes: 70 }, { language: "en", conversations: 2, minutes: 25 }],
+    };
+
+    it("should send the digest at the send hour of the user's time zone, with its charts inline", async () => {
+      const response = await request(app.getHttpServer())
+        .post("/api/v1/notifications/digests/weekly")
+        .set("x-api-key", learningServiceKey)
+        .send({ ...digest, email: "digest@example.com", userId: "user-digest", timeZone: "Asia/Tokyo" })
+        .expect(200);
+
+      expect(response.body).toMatchObject({ template: "weekly-digest", userId: "user-digest", status: "scheduled" });
+      // 09:00 in Tokyo
+      expect(new Date(response.body.sendAt).getUTCHours()).toBe(0);
+      expect(new Date(response.body.sendAt).getTime() - Date.now()).toBeLessThanOrEqual(24 * 60 * 60 * 1000);
+
+      await app.get(ReminderSchedulerService).dispatchDueReminders(new Date(response.body.sendAt));
+      await app.get(EmailWorkerService).processDueJobs();
+
+      const list = await request(app.getHttpServer())
+        .get("/api/v1/notifications/sandbox/messages?to=digest@example.com")
+        .set("x-api-key", "test-api-key-123")
+        .expect(200);
+      const message = await request(app.getHttpServer())
+        .get(`/api/v1/notifications/sandbox/messages/${list.body.items[0].id}`)
+        .set("x-api-key", "test-api-key-123")
+        .expect(200);
+      expect(message.body.subject).toBe("📈 Your week on Penpal AI");
+      expect(message.body.text).toContain("- Spanish: 70 min, 4 conversations");
+      expect(message.body.html).toContain("cid:minutes-chart");
+      expect(message.body.attachments).toEqual([
+        expect.objectContaining({ cid: "minutes-chart", contentType: "image/png", content: expect.any(String) }),
+        expect.objectContaining({ cid: "languages-chart", contentType: "image/png" }),
+      ]);
+    });
+
+    it("should schedule a batch of digests, replacing those still pending", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/digests/weekly")
+        .set("x-api-key", learningServiceKey)
+        .send({ ...digest, email: "batch-1@example.com", userId: "user-batch-1" })
+        .expect(200);
+
+      const response = await request(app.getHttpServer())
+        .post("/api/v1/notifications/digests/weekly/batch")
+        .set("x-api-key", learningServiceKey)
+        .send({
+          digests: [
+            { ...digest, email: "batch-1@example.com", userId: "user-batch-1" },
+            { ...digest, email: "batch-2@example.com", userId: "user-batch-2", timeZone: "America/New_York" },
+          ],
+        })
+        .expect(200);
+      expect(response.body.map((notification: any) => notification.recipient)).toEqual(["batch-1@example.com", "batch-2@example.com"]);
+
+      const upcoming = await request(app.getHttpServer())
+        .get("/api/v1/notifications/scheduled")
+        .query({ userId: "user-batch-1" })
+        .set("x-api-key", "test-api-key-123")
+        .expect(200);
+      expect(upcoming.body).toEqual([expect.objectContaining({ id: response.body[0].id, template: "weekly-digest" })]);
+    });
+
+    it("should require the learning scope", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/digests/weekly")
+        .set("x-api-key", "payment-service-key")
+        .send({ ...digest, email: "digest@example.com" })
+        .expect(403);
+    });
+
+    it("should only let the learning service change its digests", async () => {
+      const response = await request(app.getHttpServer())
+        .post("/api/v1/notifications/digests/weekly")
+        .set("x-api-key", learningServiceKey)
+        .send({ ...digest, email: "digest-owner@example.com", userId: "user-digest-owner" })
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .patch(`/api/v1/notifications/scheduled/${response.body.id}`)
+        .set("x-api-key", "payment-service-key")
+        .send({ sendAt: response.body.sendAt })
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .delete(`/api/v1/notifications/scheduled/${response.body.id}`)
+        .set("x-api-key", "payment-service-key")
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .delete(`/api/v1/notifications/scheduled/${response.body.id}`)
+        .set("x-api-key", learningServiceKey)
+        .expect(204);
+    });
+
+    it("should validate every digest of a batch", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/digests/weekly/batch")
+        .set("x-api-key", learningServiceKey)
+        .send({ digests: [{ ...digest, email: "digest@example.com" }, { ...digest, email: "digest@example.com", dailyMinutes: [10, 20] }] })
+        .expect(400)
+        .expect(res => expect(res.body.code).toBe("VALIDATION_FAILED"));
+
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/digests/weekly/batch")
+        .set("x-api-key", learningServiceKey)
+        .send({ digests: [] })
+        .expect(400);
+    });
+  });
+
+  describe("Scheduled notifications", () => {
+    const paymentServiceKey = "payment-service-key";
+    const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+
+    it("should plan a trial reminder once the confirmation is sent, and let callers change it", async () => {
+      await request(app.getHttpServer())
+        .post("/api/v1/notifications/subscription-confirmation")
+        .set("x-api-key", paymentServiceKey)
+        .send({ email: "reminder@example.com", firstName: "Jane", lastName: "Doe", plan: "yearly", status: "trial", trialEnd: inDays(10), userId: "user-reminder" })
+        .expect(200);
+      await app.get(EmailWorkerService).processDueJobs();
+
+      const upcoming = await request(app.getHttpServer())
+        .get("/api/v1/notifications/scheduled")
+        .query({ userId: "user-reminder" })
+        .set("x-api-key", paymentServiceKey)
+        .expect(200);
+
+      expect(upcoming.body).toEqual([expect.objectContaining({ template: "trial-ending", recipient: "reminder@example.com", status: "scheduled" })]);
+      const [reminder] = upcoming.body;
+
+      await request(app.getHttpServer())
+        .patch(`/api/v1/notifications/scheduled/${reminder.id}`)
+        .set("x-api-key", paymentServiceKey)
+        .send({ sendAt: inDays(20) })
+        .expect(400)
+        .expect(res => expect(res.body.code).toBe("BAD_REQUEST"));
+
+      const sendAt = inDays(8);
+      await request(app.getHttpServer())
+        .patch(`/api/v1/notifications/scheduled/${reminder.id}`)
+        .set("x-api-key", paymentServiceKey)
+        .send({ sendAt })
+        .expect(200)
+        .expect(res => expect(res.body.sendAt).toBe(sendAt));
+
+      // The trial converted to a yearly subscription
+      const replanned = await request(app.getHttpServer())
+        .put("/api/v1/notifications/scheduled/subscriptions/user-reminder")
+        .set("x-api-key", paymentServiceKey)
+        .send({ email: "reminder@example.com", firstName: "Jane", lastName: "Doe", plan: "yearly", status: "active", nextBillingDate: inDays(365) })
+        .expect(200);
+
+      expect(replanned.body).toEqual([expect.objectContaining({ template: "renewal-reminder", userId: "user-reminder" })]);
+
+      await request(app.getHttpServer())
+        .delete(`/api/v1/notifications/scheduled/${reminder.id}`)
+        .set("x-api-key", paymentServiceKey)
+        .expect(404);
+
+      await request(app.getHttpServer())
+        .delete("/api/v1/notifications/scheduled/subscriptions/user-reminder")
+        .set("x-api-key", paymentServiceKey)
+        .expect(200)
+        .expect(res => expect(res.body).toEqual({ cancelled: 1 }));
+    });
+
+    it("should require a user id and the billing scope", async () => {
+      await request(app.getHttpServer())
+        .get("/api/v1/notifications/scheduled")
+        .set("x-api-key", paymentServiceKey)
+        .expect(400);
+
+      await request(app.getHttpServer())
+        .delete("/api/v1/notifications/scheduled/subscriptions/user-reminder")
+        .set("x-api-key", "new-admin-key")
+        .expect(403);
+    });
+  });
+
   describe("Error Handling", () => {
     it("should handle non-existent routes", () => {
       return request(app.getHttpServer())